@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import { COMP_SETS_FILE, CompSet } from '../../src/services/comparables';
+import { SaveCompSetRequest } from '../../src/services/ipc-contract';
+
+/**
+ * Load all saved comp sets
+ * @param dataDirectory Root data directory
+ * @returns Saved comp sets, sorted by name
+ */
+export function loadCompSets(dataDirectory: string): CompSet[] {
+  const compSetsPath = path.join(dataDirectory, COMP_SETS_FILE);
+  try {
+    if (!fs.existsSync(compSetsPath)) return [];
+    const compSets = JSON.parse(fs.readFileSync(compSetsPath, 'utf8'));
+    return Array.isArray(compSets)
+      ? compSets.sort((a: CompSet, b: CompSet) => a.name.localeCompare(b.name))
+      : [];
+  } catch (error) {
+    console.error('Error loading comp sets:', error);
+    return [];
+  }
+}
+
+/**
+ * Write the full list of comp sets to disk
+ */
+function writeCompSets(dataDirectory: string, compSets: CompSet[]): void {
+  fs.mkdirSync(dataDirectory, { recursive: true });
+  fs.writeFileSync(path.join(dataDirectory, COMP_SETS_FILE), JSON.stringify(compSets, null, 2));
+}
+
+/**
+ * Create or replace a named comp set
+ * @param dataDirectory Root data directory
+ * @param request Name, the criteria the deals were found with and the deals kept
+ * @returns The saved comp set
+ */
+export function saveCompSet(dataDirectory: string, request: SaveCompSetRequest): CompSet {
+  const name = request.name.trim();
+  if (!name) {
+    throw new Error('Comp set name is required');
+  }
+
+  const compSets = loadCompSets(dataDirectory);
+  const existing = compSets.find(compSet => compSet.name === name);
+  const now = new Date().toISOString();
+  const compSet: CompSet = {
+    name,
+    criteria: request.criteria,
+    members: request.members,
+    createdAt: existing ? existing.createdAt : now,
+    updatedAt: now
+  };
+
+  writeCompSets(dataDirectory, [
+    ...compSets.filter(c => c.name !== name),
+    compSet
+  ]);
+  return compSet;
+}
+
+/**
+ * Delete a named comp set
+ * @param dataDirectory Root data directory
+ * @param name Comp set name
+ * @returns True if a comp set was deleted
+ */
+export function deleteCompSet(dataDirectory: string, name: string): boolean {
+  const compSets = loadCompSets(dataDirectory);
+  const remaining = compSets.filter(compSet => compSet.name !== name);
+  if (remaining.length === compSets.length) return false;
+  writeCompSets(dataDirectory, remaining);
+  return true;
+}
@@ -0,0 +1,285 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { JSONDatabaseServiceOptions } from '../../src/services/json-database.service';
+import { QueryCancelledError, TimeoutError } from '../../src/services/errors';
+import type { DatabaseHandlers, DatabaseMethod, DatabaseRequest, DatabaseResponse, DatabaseWorkerData } from './database-worker';
+
+// Longest a request may run in the worker before it fails with a TimeoutError
+const DEFAULT_REQUEST_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Request waiting in the queue or running in the worker
+ */
+interface QueuedRequest {
+  request: DatabaseRequest;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  // Key the request can be cancelled by
+  key?: string;
+  cancelled?: boolean;
+  // Receives the progress messages of the request
+  onProgress?: (message: string) => void;
+}
+
+/**
+ * Runs the database service in a worker thread. Requests are queued and sent
+ * one at a time, so the main process stays responsive while a large scan runs
+ * and every request sees the results of the ones queued before it. Requests
+ * started with a key can be cancelled: a queued one is dropped, a running one
+ * stops at the service's next cancellation check. A request that runs longer
+ * than the timeout fails and the worker is replaced, since it can't be
+ * interrupted otherwise; each progress message a request reports starts its
+ * timeout again.
+ */
+export class DatabaseClient {
+  private worker: Worker | null = null;
+  private queue: QueuedRequest[] = [];
+  private active: QueuedRequest | null = null;
+  private nextId = 1;
+  // Snapshot the worker has open, restored if the worker has to be restarted
+  private snapshotId: string | null = null;
+  private closed = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Shared with every worker; holds the id of the running request to cancel
+  private cancelFlag = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+
+  /**
+   * @param dataDirectory Root data directory
+   * @param options Database service options
+   * @param log Logger for worker failures
+   * @param timeoutMs Longest a request may run
+   */
+  constructor(
+    private dataDirectory: string,
+    private options: JSONDatabaseServiceOptions = {},
+    private log: (message: string) => void = console.error,
+    private timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS
+  ) {}
+
+  /**
+   * Run a database operation in the worker
+   * @param method Operation to run
+   * @param args Arguments of the operation
+   * @returns Result of the operation
+   */
+  call<M extends DatabaseMethod>(
+    method: M,
+    ...args: Parameters<DatabaseHandlers[M]>
+  ): Promise<Awaited<ReturnType<DatabaseHandlers[M]>>> {
+    return this.enqueue(undefined, method, args);
+  }
+
+  /**
+   * Run a long database operation that reports progress, such as an import.
+   * It may run past the timeout as long as it keeps reporting.
+   * @param onProgress Receives the progress messages
+   * @param method Operation to run
+   * @param args Arguments of the operation
+   * @returns Result of the operation
+   */
+  callWithProgress<M extends DatabaseMethod>(
+    onProgress: (message: string) => void,
+    method: M,
+    ...args: Parameters<DatabaseHandlers[M]>
+  ): Promise<Awaited<ReturnType<DatabaseHandlers[M]>>> {
+    return this.enqueue(undefined, method, args, onProgress);
+  }
+
+  /**
+   * Run a database operation that can be cancelled with cancel()
+   * @param key Key to cancel the operation by
+   * @param method Operation to run
+   * @param args Arguments of the operation
+   * @returns Result of the operation
+   * @throws QueryCancelledError if the operation was cancelled
+   */
+  callCancellable<M extends DatabaseMethod>(
+    key: string,
+    method: M,
+    ...args: Parameters<DatabaseHandlers[M]>
+  ): Promise<Awaited<ReturnType<DatabaseHandlers[M]>>> {
+    return this.enqueue(key, method, args);
+  }
+
+  /**
+   * Cancel the operations started with a key. Queued ones are rejected right
+   * away; a running one is rejected once the worker reaches a cancellation check.
+   * @param key Key the operations were started with
+   * @returns Whether any operation was cancelled
+   */
+  cancel(key: string): boolean {
+    let found = false;
+    this.queue = this.queue.filter(queued => {
+      if (queued.key !== key) return true;
+      queued.reject(new QueryCancelledError());
+      found = true;
+      return false;
+    });
+
+    if (this.active?.key === key && !this.active.cancelled) {
+      this.active.cancelled = true;
+      Atomics.store(this.cancelFlag, 0, this.active.request.id);
+      found = true;
+    }
+    return found;
+  }
+
+  /**
+   * Stop the worker. Queued requests are rejected.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const error = new Error('Database has been closed');
+    this.queue.splice(0).forEach(({ reject }) => reject(error));
+    this.active?.reject(error);
+    this.active = null;
+    this.clearTimer();
+
+    const worker = this.worker;
+    this.worker = null;
+    await worker?.terminate();
+  }
+
+  /**
+   * Queue a request and send it when the worker is free
+   */
+  private enqueue(
+    key: string | undefined,
+    method: DatabaseMethod,
+    args: any[],
+    onProgress?: (message: string) => void
+  ): Promise<any> {
+    if (this.closed) {
+      return Promise.reject(new Error('Database has been closed'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        request: { id: this.nextId++, method, args },
+        resolve: (result) => {
+          if (method === 'openSnapshot') {
+            this.snapshotId = args[0] as string | null;
+          }
+          resolve(result);
+        },
+        reject,
+        key,
+        onProgress
+      });
+      this.sendNext();
+    });
+  }
+
+  /**
+   * Start the worker, reopening the snapshot the previous one had open
+   */
+  private startWorker(): Worker {
+    const worker = new Worker(path.join(__dirname, 'database-worker.js'), {
+      workerData: {
+        dataDirectory: this.dataDirectory,
+        options: this.options,
+        cancelFlag: this.cancelFlag.buffer
+      } as DatabaseWorkerData
+    });
+
+    worker.on('message', (response: DatabaseResponse) => this.handleResponse(response));
+    worker.on('error', (error) => {
+      this.log(`Database worker failed: ${error.message}\n${error.stack}`);
+    });
+    worker.on('exit', (code) => {
+      if (this.worker !== worker) return;
+      // A crashed worker fails the request it was running; the next request starts a new one
+      this.worker = null;
+      this.clearTimer();
+      if (this.active) {
+        this.active.reject(new Error(`Database worker stopped unexpectedly (exit code ${code})`));
+        this.active = null;
+      }
+      this.sendNext();
+    });
+
+    if (this.snapshotId !== null) {
+      this.queue.unshift({
+        request: { id: this.nextId++, method: 'openSnapshot', args: [this.snapshotId] },
+        resolve: () => undefined,
+        reject: (error) => this.log(`Could not reopen snapshot ${this.snapshotId}: ${error.message}`)
+      });
+    }
+    return worker;
+  }
+
+  /**
+   * Send the next queued request if the worker is idle
+   */
+  private sendNext(): void {
+    if (this.active || this.queue.length === 0 || this.closed) return;
+
+    if (!this.worker) {
+      this.worker = this.startWorker();
+    }
+    this.active = this.queue.shift()!;
+    this.worker.postMessage(this.active.request);
+    this.startTimer();
+  }
+
+  private startTimer(): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => this.handleTimeout(), this.timeoutMs);
+  }
+
+  /**
+   * Fail the running request and replace the worker that is stuck on it
+   */
+  private handleTimeout(): void {
+    const active = this.active;
+    const worker = this.worker;
+    this.timer = null;
+    if (!active) return;
+
+    this.active = null;
+    this.worker = null;
+    const seconds = Math.round(this.timeoutMs / 1000);
+    this.log(`Database request '${active.request.method}' timed out after ${seconds}s; restarting the worker`);
+    active.reject(new TimeoutError(`The database did not answer within ${seconds} seconds`));
+    worker?.terminate();
+    this.sendNext();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Settle the running request with the worker's reply and move on to the next
+   */
+  private handleResponse(response: DatabaseResponse): void {
+    const active = this.active;
+    if (!active || active.request.id !== response.id) return;
+    if (response.progress !== undefined) {
+      // Still working, so it gets a fresh timeout
+      this.startTimer();
+      active.onProgress?.(response.progress);
+      return;
+    }
+    this.active = null;
+    this.clearTimer();
+
+    if (active.cancelled) {
+      // Finished before reaching a cancellation check; the caller no longer wants it
+      active.reject(new QueryCancelledError());
+    } else if (response.error?.name === 'QueryCancelledError') {
+      active.reject(new QueryCancelledError(response.error.message));
+    } else if (response.error) {
+      const error = new Error(response.error.message);
+      error.name = response.error.name;
+      error.stack = response.error.stack;
+      active.reject(error);
+    } else {
+      active.resolve(response.result);
+    }
+    this.sendNext();
+  }
+}
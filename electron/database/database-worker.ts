@@ -0,0 +1,136 @@
+import { parentPort, workerData } from 'worker_threads';
+import { JSONDatabaseService, JSONDatabaseServiceOptions } from '../../src/services/json-database.service';
+import { SnapshotComparisonRequest, SnapshotKind } from '../../src/services/snapshots';
+import { ComparablesRequest } from '../../src/services/comparables';
+import { DealsAggregateRequest, DealsSummaryRequest, ExportDealsRequest, ValuationRequest } from '../../src/services/ipc-contract';
+import { compareSnapshots, createSnapshot, deleteSnapshot } from './snapshots';
+import { exportDeals } from './export-deals';
+import { exportValuation } from './export-valuation';
+import { ImportOptions, importExcelFile, readWorkbookPreview } from './import-excel';
+import { DeltaImportOptions, commitDeltaImport, discardDeltaImport, prepareDeltaImport } from './delta-import';
+
+/**
+ * Settings the worker is started with
+ */
+export interface DatabaseWorkerData {
+  dataDirectory: string;
+  options: JSONDatabaseServiceOptions;
+  // One Int32 the client sets to the id of the running request to cancel it
+  cancelFlag: SharedArrayBuffer;
+}
+
+/**
+ * Request posted to the worker
+ */
+export interface DatabaseRequest {
+  id: number;
+  method: DatabaseMethod;
+  args: any[];
+}
+
+/**
+ * Reply posted back by the worker, with either a result or an error. Long
+ * operations post progress messages for their request before the reply.
+ */
+export interface DatabaseResponse {
+  id: number;
+  result?: any;
+  error?: { name: string; message: string; stack?: string };
+  progress?: string;
+}
+
+/**
+ * Operations the worker runs for the main process. Everything that reads the
+ * chunk files goes through here so that scans never block the main thread.
+ * @param service Database service
+ * @param dataDirectory Root data directory
+ * @param isCancelled Tells whether the running request has been cancelled
+ * @param onProgress Reports progress of the running request
+ */
+export function createDatabaseHandlers(
+  service: JSONDatabaseService,
+  dataDirectory: string,
+  isCancelled: () => boolean = () => false,
+  onProgress: (message: string) => void = () => {}
+) {
+  // Delta imports compare with and rewrite the stored deals as imported
+  const reportedDeals = () => service.getTableMetadata('deals') ? service.getReportedData('deals') : [];
+
+  return {
+    getDeals: (options: any) => service.getDeals({ ...options, isCancelled }),
+    getStatistics: () => service.getStatistics(),
+    getDealsAggregate: (request: DealsAggregateRequest) => service.getDealsAggregate({ ...request, isCancelled }),
+    getDealsSummary: (request?: DealsSummaryRequest) => service.getDealsSummary({ ...request, isCancelled }),
+    getFilterOptions: () => service.getFilterOptions(),
+    getDealById: (id: string | number) => service.getDealById(id),
+    getDealsByIds: (ids: (string | number)[]) => service.getDealsByIds(ids),
+    findComparables: (request: ComparablesRequest) => service.findComparables({ ...request, isCancelled }),
+    getValuation: (request: ValuationRequest) => service.getValuation({ ...request, isCancelled }),
+    getTableMetadata: (tableName: string) => service.getTableMetadata(tableName),
+    getAllData: (tableName: string) => service.getAllData(tableName),
+    getReportedData: (tableName: string) => service.getReportedData(tableName),
+    getQualityReport: () => service.getQualityReport(),
+    getActiveSnapshot: () => service.getActiveSnapshot(),
+    openSnapshot: (snapshotId: string | null) => service.openSnapshot(snapshotId),
+    reload: () => service.reload(),
+    clearDerivedData: () => service.clearDerivedData(),
+    compareSnapshots: (request: SnapshotComparisonRequest) => compareSnapshots(dataDirectory, request),
+    // Workbooks are parsed here, row by row, so the main thread stays free while a large file imports
+    previewWorkbook: (filePath: string) => readWorkbookPreview(filePath),
+    importExcel: (filePath: string, options: ImportOptions) => importExcelFile(filePath, dataDirectory, onProgress, options),
+    // Delta imports and snapshots read or copy the whole table, so only their summaries leave the worker
+    prepareDeltaImport: (filePath: string, options: DeltaImportOptions) =>
+      prepareDeltaImport(filePath, dataDirectory, reportedDeals(), onProgress, options),
+    commitDeltaImport: () => commitDeltaImport(dataDirectory, reportedDeals(), service.getTableMetadata('deals')),
+    discardDeltaImport: () => discardDeltaImport(dataDirectory),
+    createSnapshot: (kind: SnapshotKind) => createSnapshot(dataDirectory, 'deals', kind),
+    deleteSnapshot: (snapshotId: string) => deleteSnapshot(dataDirectory, snapshotId),
+    // Writes the file here so the deals never have to be copied to the main thread
+    exportDeals: (request: ExportDealsRequest, filePath: string): number => {
+      const { deals } = service.getDeals({ ...request, page: 0, pageSize: Number.MAX_SAFE_INTEGER });
+      exportDeals(deals, filePath);
+      return deals.length;
+    },
+    exportValuation: (request: ValuationRequest, filePath: string): number => {
+      // Every deal of the selection, not only the ones the panel lists
+      const valuation = service.getValuation({ ...request, isCancelled }, Number.MAX_SAFE_INTEGER);
+      exportValuation(valuation, request.target || {}, filePath);
+      return valuation.dealCount;
+    }
+  };
+}
+
+export type DatabaseHandlers = ReturnType<typeof createDatabaseHandlers>;
+
+export type DatabaseMethod = keyof DatabaseHandlers;
+
+// Worker entry point; messages are handled one at a time in arrival order
+// (the client sends the next request only once the last one is answered).
+// A scan keeps the worker's event loop busy, so cancellation is signalled
+// through shared memory rather than a message.
+if (parentPort) {
+  const port = parentPort;
+  const { dataDirectory, options, cancelFlag } = workerData as DatabaseWorkerData;
+  const cancelled = new Int32Array(cancelFlag);
+  let runningId = 0;
+  const handlers = createDatabaseHandlers(
+    new JSONDatabaseService(dataDirectory, options),
+    dataDirectory,
+    () => Atomics.load(cancelled, 0) === runningId,
+    (progress) => port.postMessage({ id: runningId, progress } as DatabaseResponse)
+  );
+
+  port.on('message', async ({ id, method, args }: DatabaseRequest) => {
+    runningId = id;
+    try {
+      const handler = handlers[method] as (...handlerArgs: any[]) => any;
+      if (!handler) {
+        throw new Error(`Unknown database method '${method}'`);
+      }
+      port.postMessage({ id, result: await handler(...args) } as DatabaseResponse);
+    } catch (error) {
+      const { name, message, stack } = error instanceof Error ? error : new Error(String(error));
+      port.postMessage({ id, error: { name, message, stack } } as DatabaseResponse);
+    }
+  });
+}
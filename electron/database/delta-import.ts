@@ -0,0 +1,133 @@
+import fs from 'fs';
+import path from 'path';
+import { JSONDatabaseService, TableMetadata } from '../../src/services/json-database.service';
+import { ColumnMapping, DealField } from '../../src/services/column-mapping';
+import { DeltaSummary, diffDeals, mergeDeals } from '../../src/services/delta-import';
+import { ImportProgressCallback, QUALITY_REPORT_FILE, importExcelFile } from './import-excel';
+import { writeTable } from './table-writer';
+
+/**
+ * Directory (inside the data directory) holding an import that is waiting for review
+ */
+const PENDING_DIRECTORY = '.pending';
+
+/**
+ * File holding the reviewed delta inside the pending directory
+ */
+const DELTA_FILE = '_delta.json';
+
+/**
+ * Options for a delta import
+ */
+export interface DeltaImportOptions {
+  tableName?: string;
+  mapping?: ColumnMapping;
+  profileName?: string | null;
+  identityKey: DealField[];
+}
+
+/**
+ * Counts of a committed delta import
+ */
+export interface DeltaCommitResult {
+  tableName: string;
+  sourceFile: string;
+  added: number;
+  changed: number;
+  removed: number;
+  totalRows: number;
+}
+
+/**
+ * Import a workbook next to the live data and compare it with the stored deals.
+ * Nothing is changed until commitDeltaImport is called.
+ * @param filePath Path of the workbook
+ * @param dataDirectory Root data directory
+ * @param existing Records currently stored in the table
+ * @param onProgress Callback receiving progress messages
+ * @param options Mapping and identity key
+ * @returns Added, changed and removed deals for review
+ */
+export async function prepareDeltaImport(
+  filePath: string,
+  dataDirectory: string,
+  existing: Record<string, any>[],
+  onProgress: ImportProgressCallback,
+  options: DeltaImportOptions
+): Promise<DeltaSummary> {
+  const { tableName = 'deals', mapping, profileName = null, identityKey } = options;
+  if (identityKey.length === 0) {
+    throw new Error('At least one identity key field is required');
+  }
+
+  const pendingDirectory = path.join(dataDirectory, PENDING_DIRECTORY);
+  discardDeltaImport(dataDirectory);
+
+  await importExcelFile(filePath, pendingDirectory, onProgress, { tableName, mapping, profileName });
+
+  onProgress('Comparing with existing deals...');
+  const incoming = new JSONDatabaseService(pendingDirectory).getReportedData(tableName);
+  const summary = diffDeals(existing, incoming, identityKey, path.basename(filePath));
+  fs.writeFileSync(path.join(pendingDirectory, DELTA_FILE), JSON.stringify(summary));
+
+  onProgress(`${summary.added.length.toLocaleString()} added, ${summary.changed.length.toLocaleString()} changed, ` +
+    `${summary.removed.length.toLocaleString()} removed`);
+  return summary;
+}
+
+/**
+ * Apply the pending delta import to the live table
+ * @param dataDirectory Root data directory
+ * @param existing Records currently stored in the table
+ * @param existingMetadata Metadata of the live table
+ * @returns Counts of the applied changes
+ */
+export function commitDeltaImport(
+  dataDirectory: string,
+  existing: Record<string, any>[],
+  existingMetadata: TableMetadata | null
+): DeltaCommitResult {
+  const pendingDirectory = path.join(dataDirectory, PENDING_DIRECTORY);
+  const deltaPath = path.join(pendingDirectory, DELTA_FILE);
+  if (!fs.existsSync(deltaPath)) {
+    throw new Error('No delta import is waiting to be committed');
+  }
+
+  const summary: DeltaSummary = JSON.parse(fs.readFileSync(deltaPath, 'utf8'));
+  const pendingService = new JSONDatabaseService(pendingDirectory);
+  const tableName = pendingService.getTables()[0] || 'deals';
+  const pendingMetadata = pendingService.getTableMetadata(tableName);
+  const incoming = pendingService.getReportedData(tableName);
+  const qualityReport = pendingService.getQualityReport(tableName);
+
+  const merged = mergeDeals(existing, incoming, summary.identityKey);
+  const now = new Date().toISOString();
+  const result: DeltaCommitResult = {
+    tableName,
+    sourceFile: summary.sourceFile,
+    added: summary.added.length,
+    changed: summary.changed.length,
+    removed: summary.removed.length,
+    totalRows: merged.length
+  };
+
+  writeTable(dataDirectory, tableName, merged, {
+    sourceFile: summary.sourceFile,
+    mappingProfile: pendingMetadata?.mappingProfile ?? null,
+    columnMapping: pendingMetadata?.columnMapping ?? null,
+    identityKey: summary.identityKey,
+    createdAt: existingMetadata?.createdAt || now,
+    lastDeltaImport: { ...result, committedAt: now }
+  }, qualityReport ? { [QUALITY_REPORT_FILE]: qualityReport } : {});
+
+  discardDeltaImport(dataDirectory);
+  return result;
+}
+
+/**
+ * Throw away a pending delta import
+ * @param dataDirectory Root data directory
+ */
+export function discardDeltaImport(dataDirectory: string): void {
+  fs.rmSync(path.join(dataDirectory, PENDING_DIRECTORY), { recursive: true, force: true });
+}
@@ -0,0 +1,35 @@
+import * as XLSX from 'xlsx';
+import { DEAL_FIELDS, DERIVED_FIELDS, getFieldDefinition } from '../../src/services/column-mapping';
+import { describeConflict } from '../../src/services/derived-metrics';
+import { OUTLIER_FIELD_LABELS } from '../../src/services/outliers';
+import { Deal } from '../../src/types/deal.types';
+
+/**
+ * Export deals as a spreadsheet with a column per deal field, derived ones
+ * included, and columns naming the values that were derived, the reported
+ * multiples that conflict with their components and the multiples flagged as
+ * outliers. The format follows the file extension (.xlsx or .csv).
+ * @param deals Deals to export
+ * @param filePath Destination file
+ */
+export function exportDeals(deals: Deal[], filePath: string): void {
+  const fields = [...DEAL_FIELDS, ...DERIVED_FIELDS];
+  const rows = deals.map(deal => {
+    const row: Record<string, any> = { 'ID': deal.id };
+    fields.forEach(({ field, label }) => {
+      row[label] = deal[field] ?? '';
+    });
+    row['Derived'] = (deal.derivedFields || []).map(field => getFieldDefinition(field)?.label || field).join(', ');
+    row['Conflicts'] = (deal.metricConflicts || []).map(describeConflict).join('; ');
+    row['Outliers'] = (deal.outliers || []).map(field => OUTLIER_FIELD_LABELS[field]).join(', ');
+    return row;
+  });
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(rows, { header: ['ID', ...fields.map(({ label }) => label), 'Derived', 'Conflicts', 'Outliers'] }),
+    'Deals'
+  );
+  XLSX.writeFile(workbook, filePath);
+}
@@ -0,0 +1,79 @@
+import path from 'path';
+import * as XLSX from 'xlsx';
+import { VALUATION_MULTIPLES, Valuation, ValuationTarget } from '../../src/services/valuation';
+import { OUTLIER_FIELD_LABELS } from '../../src/services/outliers';
+import { getFieldDefinition } from '../../src/services/column-mapping';
+import { describeConflict } from '../../src/services/derived-metrics';
+
+const STATISTICS = [
+  { label: 'Deals', key: 'count' },
+  { label: 'Mean', key: 'mean' },
+  { label: 'Median', key: 'median' },
+  { label: '25th percentile', key: 'lowerQuartile' },
+  { label: '75th percentile', key: 'upperQuartile' },
+  { label: 'Low', key: 'low' },
+  { label: 'High', key: 'high' }
+] as const;
+
+const IMPLIED = [
+  { label: 'Implied EV at 25th percentile ($MM)', key: 'lowerQuartile' },
+  { label: 'Implied EV at median ($MM)', key: 'median' },
+  { label: 'Implied EV at 75th percentile ($MM)', key: 'upperQuartile' }
+] as const;
+
+/**
+ * Export a precedent transactions valuation as a spreadsheet: the deals with
+ * the reason each excluded one was left out, their derived and conflicting
+ * values and their outlying multiples, and
+ * in workbooks a sheet with the statistics of each multiple and the implied EV
+ * range, each next to the outlier rule it was computed with. The format
+ * follows the file extension (.xlsx or .csv).
+ * @param valuation Valuation listing every deal of the selection
+ * @param target Figures the multiples were applied to
+ * @param filePath Destination file
+ */
+export function exportValuation(valuation: Valuation, target: ValuationTarget, filePath: string): void {
+  const reasons = new Map(valuation.exclusions.map(exclusion => [String(exclusion.dealId), exclusion.reason]));
+  const deals = valuation.deals.map(deal => ({
+    'ID': deal.id,
+    'Target': deal.targetName,
+    'Announced': deal.announcementDate ?? '',
+    'Acquirer': deal.acquirerName ?? '',
+    'Enterprise Value ($MM)': deal.targetEnterpriseValue ?? '',
+    'Revenue ($MM)': deal.targetRevenue ?? '',
+    'EBITDA ($MM)': deal.targetEbitda ?? '',
+    'EV/EBITDA': deal.evEbitdaMultiple ?? '',
+    'EV/Revenue': deal.evRevenueMultiple ?? '',
+    'Excluded': reasons.get(String(deal.id)) ?? '',
+    'Derived': (deal.derivedFields || []).map(field => getFieldDefinition(field)?.label || field).join(', '),
+    'Conflicts': (deal.metricConflicts || []).map(describeConflict).join('; '),
+    'Outliers': (deal.outliers || []).map(field => OUTLIER_FIELD_LABELS[field]).join(', ')
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(deals), 'Deals');
+
+  if (path.extname(filePath).toLowerCase() !== '.csv') {
+    const column = (multiple: typeof VALUATION_MULTIPLES[number], value: number | null | undefined) =>
+      [multiple.label, value ?? ''] as const;
+    // How the multiples behind each statistic were picked
+    const outlierRule = valuation.outlierRule ? `Outliers left out: ${valuation.outlierRule}` : 'Outliers included';
+    const summary = [
+      ...STATISTICS.map(({ label, key }) => ({
+        'Statistic': label,
+        ...Object.fromEntries(VALUATION_MULTIPLES.map(multiple => column(multiple, valuation.multiples[multiple.multiple][key]))),
+        'Outlier rule': outlierRule
+      })),
+      { 'Statistic': 'Excluded deals', ...Object.fromEntries(VALUATION_MULTIPLES.map(multiple => column(multiple, valuation.exclusions.length))) },
+      { 'Statistic': 'Target figure ($MM)', ...Object.fromEntries(VALUATION_MULTIPLES.map(multiple => column(multiple, target[multiple.metric]))) },
+      ...IMPLIED.map(({ label, key }) => ({
+        'Statistic': label,
+        ...Object.fromEntries(VALUATION_MULTIPLES.map(multiple => column(multiple, valuation.impliedEv[multiple.multiple]?.[key]))),
+        'Outlier rule': outlierRule
+      }))
+    ];
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summary), 'Valuation');
+  }
+
+  XLSX.writeFile(workbook, filePath);
+}
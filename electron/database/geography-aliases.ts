@@ -0,0 +1,34 @@
+import fs from 'fs';
+import path from 'path';
+import { GEOGRAPHY_ALIASES_FILE, GeographyAliases, parseGeographyAliases } from '../../src/services/geography';
+
+/**
+ * Load the user's geography aliases
+ * @param dataDirectory Root data directory
+ * @returns Saved aliases, or none when the file is missing or can't be read
+ */
+export function loadGeographyAliases(dataDirectory: string): GeographyAliases {
+  const aliasesPath = path.join(dataDirectory, GEOGRAPHY_ALIASES_FILE);
+  try {
+    if (!fs.existsSync(aliasesPath)) return {};
+    return parseGeographyAliases(JSON.parse(fs.readFileSync(aliasesPath, 'utf8')));
+  } catch (error) {
+    console.error('Error loading geography aliases:', error);
+    return {};
+  }
+}
+
+/**
+ * Replace the user's geography aliases
+ * @param dataDirectory Root data directory
+ * @param aliases Raw place → country code, sub-region or continent
+ */
+export function saveGeographyAliases(dataDirectory: string, aliases: GeographyAliases): void {
+  const trimmed: GeographyAliases = {};
+  Object.entries(aliases).forEach(([place, target]) => {
+    if (place.trim()) trimmed[place.trim()] = target.trim();
+  });
+
+  fs.mkdirSync(dataDirectory, { recursive: true });
+  fs.writeFileSync(path.join(dataDirectory, GEOGRAPHY_ALIASES_FILE), JSON.stringify(trimmed, null, 2));
+}
@@ -0,0 +1,338 @@
+import fs from 'fs';
+import path from 'path';
+import * as XLSX from 'xlsx';
+import {
+  ColumnMapping,
+  DealFieldDefinition,
+  DEAL_FIELDS,
+  getFieldDefinition
+} from '../../src/services/column-mapping';
+import { DataQualityReport, DataQualityValidator } from '../../src/services/data-quality';
+import { SortIndexBuilder } from '../../src/services/sort-index';
+import { DERIVED_METRICS_VERSION, deriveMetrics } from '../../src/services/derived-metrics';
+import { SearchIndexBuilder } from '../../src/services/search-index';
+import { NotFoundError } from '../../src/services/errors';
+import {
+  CHUNK_SIZE,
+  METADATA_FILE,
+  createStagingDirectory,
+  commitStagingDirectory,
+  discardStagingDirectory,
+  writeChunk,
+  writeSearchIndex,
+  writeSortIndexes
+} from './table-writer';
+import { SheetReader, openFirstSheet } from './xlsx-reader';
+
+/**
+ * File the data quality report is written to, next to the chunk files
+ */
+export const QUALITY_REPORT_FILE = '_quality_report.json';
+
+/**
+ * Largest workbook read into memory at once, for formats that can't be read
+ * row by row (.xls). The .xls format holds at most 65,536 rows anyway.
+ */
+export const MAX_UNSTREAMED_FILE_MB = 64;
+
+/**
+ * Callback used to report import progress to the caller
+ */
+export type ImportProgressCallback = (message: string) => void;
+
+/**
+ * Options for an Excel import
+ */
+export interface ImportOptions {
+  tableName?: string;
+  mapping?: ColumnMapping;
+  profileName?: string | null;
+}
+
+/**
+ * Headers and first rows of a workbook, used to build the column mapping
+ */
+export interface WorkbookPreview {
+  sheetName: string;
+  headers: string[];
+  sampleRows: Record<string, any>[];
+}
+
+/**
+ * Result of a completed Excel import
+ */
+export interface ImportResult {
+  tableName: string;
+  sourceFile: string;
+  totalRows: number;
+  chunksCount: number;
+  columns: string[];
+  qualityReport: Omit<DataQualityReport, 'issues'>;
+}
+
+/**
+ * Convert a spreadsheet header to the snake_case key used in the chunk files
+ * @param header Raw header text from the first row of the sheet
+ * @returns snake_case column key
+ */
+export function headerToColumnKey(header: string): string {
+  return String(header)
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Open the first sheet of a workbook. Zip-based workbooks (.xlsx, .xlsm) are
+ * read row by row; others are read whole with SheetJS, up to MAX_UNSTREAMED_FILE_MB.
+ * @param filePath Path of the workbook
+ * @param maxRows Data rows that will be read at most, so SheetJS can stop there
+ * @returns Sheet reader
+ */
+async function openWorkbook(filePath: string, maxRows?: number): Promise<SheetReader> {
+  if (!fs.existsSync(filePath)) {
+    throw new NotFoundError(`File not found: ${filePath}`);
+  }
+
+  const signature = Buffer.alloc(4);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    fs.readSync(fd, signature, 0, signature.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (signature.toString('latin1') === 'PK\x03\x04') {
+    return openFirstSheet(filePath);
+  }
+
+  const fileSizeMb = fs.statSync(filePath).size / (1024 * 1024);
+  if (maxRows === undefined && fileSizeMb > MAX_UNSTREAMED_FILE_MB) {
+    throw new Error(
+      `${path.basename(filePath)} is ${fileSizeMb.toFixed(0)} MB. Workbooks in the .xls format are limited to ` +
+      `${MAX_UNSTREAMED_FILE_MB} MB; save it as .xlsx to import it.`
+    );
+  }
+
+  const workbook = XLSX.readFile(filePath, {
+    type: 'file',
+    cellDates: true,
+    dense: true,
+    ...(maxRows !== undefined ? { sheetRows: maxRows + 1 } : {})
+  });
+  const sheetName = workbook.SheetNames[0];
+  const worksheet = sheetName ? workbook.Sheets[sheetName] : undefined;
+  if (!worksheet || !worksheet['!ref']) {
+    throw new Error('The workbook does not contain any data');
+  }
+
+  // Object keys give the headers including the suffixes SheetJS adds to duplicates
+  const rows: Record<string, any>[] = XLSX.utils.sheet_to_json(worksheet, { raw: true, defval: null });
+  const headerRow: any[] = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, defval: null })[0] || [];
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  return {
+    sheetName,
+    headers: rows.length > 0 ? Object.keys(rows[0]) : headerRow.filter(header => header !== null).map(String),
+    expectedRows: Math.max(0, range.e.r - range.s.r),
+    rows: (async function* () {
+      for (const row of rows) {
+        // SheetJS keeps the 0-based sheet row of each object
+        yield { rowNumber: (row as any).__rowNum__ + 1, values: row };
+      }
+    })()
+  };
+}
+
+/**
+ * Read the headers and a few sample rows of the first sheet, stopping as soon
+ * as they have been read
+ * @param filePath Path of the workbook
+ * @param sampleSize Number of data rows to return
+ * @returns Workbook preview
+ */
+export async function readWorkbookPreview(filePath: string, sampleSize = 5): Promise<WorkbookPreview> {
+  const sheet = await openWorkbook(filePath, sampleSize);
+  const sampleRows: Record<string, any>[] = [];
+  for await (const { values } of sheet.rows) {
+    // Dates are shown as the day, like the grid shows them
+    sampleRows.push(Object.fromEntries(Object.entries(values).map(([header, value]) =>
+      [header, value instanceof Date ? value.toISOString().slice(0, 10) : value]
+    )));
+    if (sampleRows.length === sampleSize) break;
+  }
+  return { sheetName: sheet.sheetName, headers: sheet.headers, sampleRows };
+}
+
+/**
+ * Resolve the deal field a header is imported into. With a mapping the mapping
+ * decides; without one a header matches when its snake_case key is a field column.
+ * @param header Sheet header
+ * @param mapping Optional header → field mapping
+ * @returns Field definition, or undefined for unmapped headers
+ */
+function resolveField(header: string, mapping?: ColumnMapping): DealFieldDefinition | undefined {
+  if (mapping) {
+    const field = mapping[header];
+    return field ? getFieldDefinition(field) : undefined;
+  }
+  const key = headerToColumnKey(header);
+  return DEAL_FIELDS.find(definition => definition.column === key);
+}
+
+/**
+ * Build a chunk record from a sheet row. Mapped columns are parsed, validated
+ * and stored under the field's column key. Without a mapping other columns keep
+ * their snake_case key; with one they are kept in `extra` under their original header.
+ * @param row Row object keyed by header
+ * @param id Identifier assigned to the row
+ * @param rowNumber Row number in the source sheet
+ * @param validator Validator collecting data quality issues
+ * @param mapping Optional header → field mapping
+ * @returns Record to write to the chunk file
+ */
+function buildRecord(
+  row: Record<string, any>,
+  id: number,
+  rowNumber: number,
+  validator: DataQualityValidator,
+  mapping?: ColumnMapping
+): Record<string, any> {
+  const record: Record<string, any> = { id };
+  const extra: Record<string, any> = {};
+  const cells: { definition: DealFieldDefinition; header: string; value: any }[] = [];
+
+  for (const [header, value] of Object.entries(row)) {
+    const definition = resolveField(header, mapping);
+    if (definition) {
+      cells.push({ definition, header, value });
+    } else if (!mapping) {
+      const key = headerToColumnKey(header);
+      if (key && key !== 'id') record[key] = value;
+    } else if (value !== null && value !== '') {
+      extra[header] = value;
+    }
+  }
+
+  const values = validator.validateRow(rowNumber, cells);
+  cells.forEach(({ definition }) => {
+    record[definition.column] = values[definition.field];
+  });
+
+  if (Object.keys(extra).length > 0) {
+    record.extra = extra;
+  }
+  return record;
+}
+
+/**
+ * Import the first sheet of an Excel workbook into chunked JSON files.
+ *
+ * Rows are read from the sheet as it is decompressed and flushed to
+ * `chunk_N.json` every CHUNK_SIZE rows, and a sort index per sortable column
+ * is written once all rows are in. The table is written to a staging
+ * directory first and only swapped in once `_metadata.json` has been written,
+ * so a failed import leaves the existing data untouched.
+ *
+ * @param filePath Path of the workbook to import
+ * @param dataDirectory Root data directory of the JSON database
+ * @param onProgress Callback receiving progress messages
+ * @param options Target table and header → field mapping
+ * @returns Summary of the imported table
+ */
+export async function importExcelFile(
+  filePath: string,
+  dataDirectory: string,
+  onProgress: ImportProgressCallback = () => {},
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const { tableName = 'deals', mapping, profileName = null } = options;
+
+  if (!fs.existsSync(filePath)) {
+    throw new NotFoundError(`File not found: ${filePath}`);
+  }
+
+  const fileSizeMb = fs.statSync(filePath).size / (1024 * 1024);
+  onProgress(`Reading ${path.basename(filePath)} (${fileSizeMb.toFixed(1)} MB)...`);
+
+  const sheet = await openWorkbook(filePath);
+  const expectedRows = sheet.expectedRows;
+  const ofExpected = expectedRows !== null ? ` of ${expectedRows.toLocaleString()}` : '';
+  onProgress(expectedRows !== null
+    ? `Processing ${expectedRows.toLocaleString()} rows from sheet "${sheet.sheetName}"...`
+    : `Processing sheet "${sheet.sheetName}"...`);
+
+  // Write into a staging directory so the current data survives a failed import
+  const stagingDirectory = createStagingDirectory(dataDirectory, tableName);
+
+  // Deals are sorted on their derived metrics, the way they are read back
+  const derive = tableName === 'deals';
+  const columns = new Set<string>();
+  const validator = new DataQualityValidator();
+  const sortIndexes = new SortIndexBuilder(CHUNK_SIZE);
+  const searchIndex = new SearchIndexBuilder(CHUNK_SIZE);
+  let buffer: Record<string, any>[] = [];
+  let chunksCount = 0;
+  let totalRows = 0;
+  let report: DataQualityReport;
+
+  try {
+    for await (const { rowNumber, values } of sheet.rows) {
+      totalRows++;
+      const record = buildRecord(values, totalRows, rowNumber, validator, mapping);
+      Object.keys(record).forEach(key => columns.add(key));
+      sortIndexes.add(derive ? deriveMetrics(record) : record);
+      searchIndex.add(record);
+      buffer.push(record);
+
+      if (buffer.length === CHUNK_SIZE) {
+        writeChunk(stagingDirectory, chunksCount++, buffer);
+        buffer = [];
+        onProgress(`Processed ${totalRows.toLocaleString()}${ofExpected} rows...`);
+      }
+    }
+
+    if (buffer.length > 0) {
+      writeChunk(stagingDirectory, chunksCount++, buffer);
+    }
+    
+    onProgress('Building sort indexes...');
+    writeSortIndexes(stagingDirectory, sortIndexes.build());
+    onProgress('Building search index...');
+    writeSearchIndex(stagingDirectory, searchIndex.build());
+
+    const now = new Date().toISOString();
+    const metadata = {
+      name: tableName,
+      chunksCount,
+      totalRows,
+      columns: Array.from(columns),
+      sourceFile: path.basename(filePath),
+      mappingProfile: profileName,
+      columnMapping: mapping || null,
+      ...(derive ? { derivedMetricsVersion: DERIVED_METRICS_VERSION } : {}),
+      createdAt: now,
+      updatedAt: now
+    };
+    fs.writeFileSync(path.join(stagingDirectory, METADATA_FILE), JSON.stringify(metadata, null, 2));
+    
+    report = validator.getReport(path.basename(filePath));
+    fs.writeFileSync(path.join(stagingDirectory, QUALITY_REPORT_FILE), JSON.stringify(report));
+
+    commitStagingDirectory(dataDirectory, tableName);
+  } catch (error) {
+    discardStagingDirectory(dataDirectory, tableName);
+    throw error;
+  }
+
+  onProgress(`Wrote ${totalRows.toLocaleString()} rows to ${chunksCount} chunk files`);
+
+  const { issues, ...reportSummary } = report;
+  return {
+    tableName,
+    sourceFile: filePath,
+    totalRows,
+    chunksCount,
+    columns: Array.from(columns),
+    qualityReport: reportSummary
+  };
+}
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import { ColumnMapping, MappingProfile } from '../../src/services/column-mapping';
+
+const PROFILES_FILE = 'mapping-profiles.json';
+
+/**
+ * Load all saved mapping profiles
+ * @param dataDirectory Root data directory
+ * @returns Saved profiles, sorted by name
+ */
+export function loadMappingProfiles(dataDirectory: string): MappingProfile[] {
+  const profilesPath = path.join(dataDirectory, PROFILES_FILE);
+  try {
+    if (!fs.existsSync(profilesPath)) return [];
+    const profiles = JSON.parse(fs.readFileSync(profilesPath, 'utf8'));
+    return Array.isArray(profiles)
+      ? profiles.sort((a: MappingProfile, b: MappingProfile) => a.name.localeCompare(b.name))
+      : [];
+  } catch (error) {
+    console.error('Error loading mapping profiles:', error);
+    return [];
+  }
+}
+
+/**
+ * Write the full list of profiles to disk
+ */
+function writeMappingProfiles(dataDirectory: string, profiles: MappingProfile[]): void {
+  fs.mkdirSync(dataDirectory, { recursive: true });
+  fs.writeFileSync(path.join(dataDirectory, PROFILES_FILE), JSON.stringify(profiles, null, 2));
+}
+
+/**
+ * Create or update a named mapping profile
+ * @param dataDirectory Root data directory
+ * @param name Profile name, typically the data provider
+ * @param headers Headers the mapping was built for
+ * @param mapping Header → field mapping
+ * @returns The saved profile
+ */
+export function saveMappingProfile(
+  dataDirectory: string,
+  name: string,
+  headers: string[],
+  mapping: ColumnMapping
+): MappingProfile {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Profile name is required');
+  }
+
+  const profiles = loadMappingProfiles(dataDirectory);
+  const existing = profiles.find(profile => profile.name === trimmedName);
+  const now = new Date().toISOString();
+  const profile: MappingProfile = {
+    name: trimmedName,
+    headers,
+    mapping,
+    createdAt: existing ? existing.createdAt : now,
+    updatedAt: now
+  };
+
+  writeMappingProfiles(dataDirectory, [
+    ...profiles.filter(p => p.name !== trimmedName),
+    profile
+  ]);
+  return profile;
+}
+
+/**
+ * Delete a named mapping profile
+ * @param dataDirectory Root data directory
+ * @param name Profile name
+ * @returns True if a profile was deleted
+ */
+export function deleteMappingProfile(dataDirectory: string, name: string): boolean {
+  const profiles = loadMappingProfiles(dataDirectory);
+  const remaining = profiles.filter(profile => profile.name !== name);
+  if (remaining.length === profiles.length) return false;
+  writeMappingProfiles(dataDirectory, remaining);
+  return true;
+}
@@ -0,0 +1,32 @@
+import fs from 'fs';
+import path from 'path';
+import { OUTLIER_SETTINGS_FILE, OutlierSettings, parseOutlierSettings } from '../../src/services/outliers';
+
+/**
+ * Load the rule flagging outlying multiples
+ * @param dataDirectory Root data directory
+ * @returns Saved rule, or the default when the file is missing or can't be read
+ */
+export function loadOutlierSettings(dataDirectory: string): OutlierSettings {
+  const settingsPath = path.join(dataDirectory, OUTLIER_SETTINGS_FILE);
+  try {
+    if (!fs.existsSync(settingsPath)) return parseOutlierSettings({});
+    return parseOutlierSettings(JSON.parse(fs.readFileSync(settingsPath, 'utf8')));
+  } catch (error) {
+    console.error('Error loading outlier settings:', error);
+    return parseOutlierSettings({});
+  }
+}
+
+/**
+ * Replace the rule flagging outlying multiples
+ * @param dataDirectory Root data directory
+ * @param settings Method, threshold and whether outliers are left out of statistics
+ * @returns The rule as saved, with invalid values replaced by the defaults
+ */
+export function saveOutlierSettings(dataDirectory: string, settings: OutlierSettings): OutlierSettings {
+  const parsed = parseOutlierSettings(settings);
+  fs.mkdirSync(dataDirectory, { recursive: true });
+  fs.writeFileSync(path.join(dataDirectory, OUTLIER_SETTINGS_FILE), JSON.stringify(parsed, null, 2));
+  return parsed;
+}
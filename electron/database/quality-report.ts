@@ -0,0 +1,41 @@
+import path from 'path';
+import * as XLSX from 'xlsx';
+import { DataQualityReport, ISSUE_LABELS } from '../../src/services/data-quality';
+
+/**
+ * Export a data quality report as a spreadsheet. The format follows the file
+ * extension (.xlsx or .csv).
+ * @param report Report to export
+ * @param filePath Destination file
+ */
+export function exportQualityReport(report: DataQualityReport, filePath: string): void {
+  const rows = report.issues.map(issue => ({
+    'Row': issue.rowNumber,
+    'Column': issue.column,
+    'Field': issue.field,
+    'Value': issue.value === null || issue.value === undefined ? '' : String(issue.value),
+    'Issue': ISSUE_LABELS[issue.code],
+    'Severity': issue.severity,
+    'Message': issue.message
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'Issues');
+
+  if (path.extname(filePath).toLowerCase() !== '.csv') {
+    const summary = [
+      { 'Metric': 'Source file', 'Value': report.sourceFile },
+      { 'Metric': 'Generated at', 'Value': report.generatedAt },
+      { 'Metric': 'Rows checked', 'Value': report.totalRows },
+      { 'Metric': 'Rows with issues', 'Value': report.rowsWithIssues },
+      { 'Metric': 'Values corrected on import', 'Value': report.correctedValues },
+      ...Object.entries(report.issueCounts).map(([code, count]) => ({
+        'Metric': ISSUE_LABELS[code as keyof typeof ISSUE_LABELS],
+        'Value': count
+      }))
+    ];
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summary), 'Summary');
+  }
+
+  XLSX.writeFile(workbook, filePath);
+}
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import { JSONDatabaseService } from '../../src/services/json-database.service';
+import { DataMissingError, NotFoundError } from '../../src/services/errors';
+import { DEFAULT_IDENTITY_KEY, DeltaSummary } from '../../src/services/delta-import';
+import {
+  DatasetSnapshot,
+  SNAPSHOTS_DIRECTORY,
+  SNAPSHOT_FILE,
+  SnapshotComparisonRequest,
+  SnapshotKind,
+  compareSnapshotRecords,
+  isSnapshotId
+} from '../../src/services/snapshots';
+import { METADATA_FILE } from './table-writer';
+
+/**
+ * Get the directory of a snapshot
+ * @param dataDirectory Root data directory
+ * @param snapshotId Snapshot identifier
+ * @returns Snapshot directory path
+ */
+export function getSnapshotDirectory(dataDirectory: string, snapshotId: string): string {
+  if (!isSnapshotId(snapshotId)) {
+    throw new NotFoundError(`Snapshot '${snapshotId}' not found`);
+  }
+  return path.join(dataDirectory, SNAPSHOTS_DIRECTORY, snapshotId);
+}
+
+/**
+ * Build a sortable, file-system safe snapshot id from a timestamp
+ */
+function createSnapshotId(createdAt: string): string {
+  return createdAt.replace(/[:.]/g, '-');
+}
+
+/**
+ * Snapshot the live table. Chunk files are never modified in place (imports
+ * write a new directory and swap it in), so files are hard-linked instead of
+ * copied where the file system allows it.
+ * @param dataDirectory Root data directory
+ * @param tableName Name of the table
+ * @param kind What created the snapshot
+ * @returns The new snapshot
+ */
+export function createSnapshot(dataDirectory: string, tableName: string, kind: SnapshotKind): DatasetSnapshot {
+  const tableDirectory = path.join(dataDirectory, tableName);
+  const metadataPath = path.join(tableDirectory, METADATA_FILE);
+  if (!fs.existsSync(metadataPath)) {
+    throw new DataMissingError(tableName);
+  }
+
+  const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+  const createdAt = new Date().toISOString();
+  const snapshot: DatasetSnapshot = {
+    id: createSnapshotId(createdAt),
+    tableName,
+    kind,
+    createdAt,
+    sourceFile: metadata.sourceFile || null,
+    totalRows: metadata.totalRows || 0
+  };
+
+  const snapshotDirectory = getSnapshotDirectory(dataDirectory, snapshot.id);
+  const snapshotTableDirectory = path.join(snapshotDirectory, tableName);
+  fs.mkdirSync(snapshotTableDirectory, { recursive: true });
+
+  try {
+    fs.readdirSync(tableDirectory).forEach(file => {
+      const source = path.join(tableDirectory, file);
+      const target = path.join(snapshotTableDirectory, file);
+      try {
+        fs.linkSync(source, target);
+      } catch {
+        fs.copyFileSync(source, target);
+      }
+    });
+    fs.writeFileSync(path.join(snapshotDirectory, SNAPSHOT_FILE), JSON.stringify(snapshot, null, 2));
+  } catch (error) {
+    fs.rmSync(snapshotDirectory, { recursive: true, force: true });
+    throw error;
+  }
+
+  return snapshot;
+}
+
+/**
+ * List the snapshots in the data directory
+ * @param dataDirectory Root data directory
+ * @returns Snapshots, newest first
+ */
+export function listSnapshots(dataDirectory: string): DatasetSnapshot[] {
+  const snapshotsDirectory = path.join(dataDirectory, SNAPSHOTS_DIRECTORY);
+  if (!fs.existsSync(snapshotsDirectory)) {
+    return [];
+  }
+
+  const snapshots: DatasetSnapshot[] = [];
+  fs.readdirSync(snapshotsDirectory, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory())
+    .forEach(dirent => {
+      const snapshotPath = path.join(snapshotsDirectory, dirent.name, SNAPSHOT_FILE);
+      try {
+        if (fs.existsSync(snapshotPath)) {
+          snapshots.push(JSON.parse(fs.readFileSync(snapshotPath, 'utf8')));
+        }
+      } catch (error) {
+        console.error(`Error reading snapshot ${dirent.name}:`, error);
+      }
+    });
+
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Delete a snapshot
+ * @param dataDirectory Root data directory
+ * @param snapshotId Snapshot identifier
+ * @returns Remaining snapshots
+ */
+export function deleteSnapshot(dataDirectory: string, snapshotId: string): DatasetSnapshot[] {
+  const snapshot = listSnapshots(dataDirectory).find(candidate => candidate.id === snapshotId);
+  if (!snapshot) {
+    throw new NotFoundError(`Snapshot '${snapshotId}' not found`);
+  }
+  fs.rmSync(getSnapshotDirectory(dataDirectory, snapshot.id), { recursive: true, force: true });
+  return listSnapshots(dataDirectory);
+}
+
+/**
+ * Compare the deals of two snapshots, optionally restricted to a universe.
+ * Deals are matched on the identity key stored with the newer snapshot.
+ * @param dataDirectory Root data directory
+ * @param request Snapshots to compare and the universe to restrict to
+ * @returns Added, changed and removed deals between the two snapshots
+ */
+export function compareSnapshots(dataDirectory: string, request: SnapshotComparisonRequest): DeltaSummary {
+  const { fromId, toId, universe = {} } = request;
+  const snapshots = listSnapshots(dataDirectory);
+  const from = snapshots.find(snapshot => snapshot.id === fromId);
+  const to = snapshots.find(snapshot => snapshot.id === toId);
+  if (!from) throw new NotFoundError(`Snapshot '${fromId}' not found`);
+  if (!to) throw new NotFoundError(`Snapshot '${toId}' not found`);
+
+  const fromService = new JSONDatabaseService(getSnapshotDirectory(dataDirectory, from.id));
+  const toService = new JSONDatabaseService(getSnapshotDirectory(dataDirectory, to.id));
+  const identityKey = toService.getTableMetadata(to.tableName)?.identityKey || DEFAULT_IDENTITY_KEY;
+
+  const label = `${from.createdAt.slice(0, 10)} → ${to.createdAt.slice(0, 10)}`;
+  return compareSnapshotRecords(
+    fromService.getReportedData(from.tableName),
+    toService.getReportedData(to.tableName),
+    identityKey,
+    universe,
+    label
+  );
+}
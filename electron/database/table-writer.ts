@@ -0,0 +1,155 @@
+import fs from 'fs';
+import path from 'path';
+import { SortIndex, SortIndexBuilder, getSortIndexFileName } from '../../src/services/sort-index';
+import { SEARCH_INDEX_FILE, SearchIndexBuilder, SerializedSearchIndex } from '../../src/services/search-index';
+import { DERIVED_METRICS_VERSION, deriveMetrics } from '../../src/services/derived-metrics';
+
+/**
+ * Number of rows written to each chunk file
+ */
+export const CHUNK_SIZE = 1000;
+
+/**
+ * Metadata file written next to a table's chunk files
+ */
+export const METADATA_FILE = '_metadata.json';
+
+/**
+ * Get the staging directory a table is written to before it replaces the live table
+ * @param dataDirectory Root data directory
+ * @param tableName Name of the table
+ * @returns Staging directory path
+ */
+export function getStagingDirectory(dataDirectory: string, tableName: string): string {
+  return path.join(dataDirectory, `${tableName}.importing`);
+}
+
+/**
+ * Create an empty staging directory for a table, removing any leftovers
+ * @param dataDirectory Root data directory
+ * @param tableName Name of the table
+ * @returns Staging directory path
+ */
+export function createStagingDirectory(dataDirectory: string, tableName: string): string {
+  const stagingDirectory = getStagingDirectory(dataDirectory, tableName);
+  fs.rmSync(stagingDirectory, { recursive: true, force: true });
+  fs.mkdirSync(stagingDirectory, { recursive: true });
+  return stagingDirectory;
+}
+
+/**
+ * Remove a table's staging directory
+ * @param dataDirectory Root data directory
+ * @param tableName Name of the table
+ */
+export function discardStagingDirectory(dataDirectory: string, tableName: string): void {
+  fs.rmSync(getStagingDirectory(dataDirectory, tableName), { recursive: true, force: true });
+}
+
+/**
+ * Swap a table's staging directory in place of the live table
+ * @param dataDirectory Root data directory
+ * @param tableName Name of the table
+ */
+export function commitStagingDirectory(dataDirectory: string, tableName: string): void {
+  const tableDirectory = path.join(dataDirectory, tableName);
+  const previousDirectory = path.join(dataDirectory, `${tableName}.previous`);
+
+  fs.rmSync(previousDirectory, { recursive: true, force: true });
+  if (fs.existsSync(tableDirectory)) {
+    fs.renameSync(tableDirectory, previousDirectory);
+  }
+  fs.renameSync(getStagingDirectory(dataDirectory, tableName), tableDirectory);
+  fs.rmSync(previousDirectory, { recursive: true, force: true });
+}
+
+/**
+ * Write a chunk of rows to disk
+ * @param directory Directory holding the table's chunk files
+ * @param chunkIndex Index of the chunk
+ * @param rows Rows to write
+ */
+export function writeChunk(directory: string, chunkIndex: number, rows: Record<string, any>[]): void {
+  fs.writeFileSync(path.join(directory, `chunk_${chunkIndex}.json`), JSON.stringify(rows));
+}
+
+/**
+ * Write the sort indexes of a table next to its chunk files
+ * @param directory Directory holding the table's chunk files
+ * @param indexes Sort indexes built while the table was written
+ */
+export function writeSortIndexes(directory: string, indexes: SortIndex[]): void {
+  indexes.forEach(index => {
+    fs.writeFileSync(path.join(directory, getSortIndexFileName(index.column)), JSON.stringify(index));
+  });
+}
+
+/**
+ * Write the full-text index of a table next to its chunk files
+ * @param directory Directory holding the table's chunk files
+ * @param index Search index built while the table was written
+ */
+export function writeSearchIndex(directory: string, index: SerializedSearchIndex): void {
+  fs.writeFileSync(path.join(directory, SEARCH_INDEX_FILE), JSON.stringify(index));
+}
+
+/**
+ * Write a complete table through a staging directory and swap it in, together
+ * with its sort and search indexes. Other files can be written alongside the chunks (e.g. the quality report).
+ * Deals are sorted on their derived metrics, which are read back the same way.
+ * @param dataDirectory Root data directory
+ * @param tableName Name of the table
+ * @param records All records of the table
+ * @param metadata Metadata fields to store besides the chunk and row counts
+ * @param files Extra files to write, keyed by file name
+ * @returns Number of chunks written
+ */
+export function writeTable(
+  dataDirectory: string,
+  tableName: string,
+  records: Record<string, any>[],
+  metadata: Record<string, any>,
+  files: Record<string, any> = {}
+): number {
+  const stagingDirectory = createStagingDirectory(dataDirectory, tableName);
+
+  try {
+    const derive = tableName === 'deals';
+    const columns = new Set<string>();
+    const sortIndexes = new SortIndexBuilder(CHUNK_SIZE);
+    const searchIndex = new SearchIndexBuilder(CHUNK_SIZE);
+    let chunksCount = 0;
+    for (let start = 0; start < records.length; start += CHUNK_SIZE) {
+      const chunk = records.slice(start, start + CHUNK_SIZE);
+      chunk.forEach(record => {
+        Object.keys(record).forEach(key => columns.add(key));
+        // The chunks keep the reported values only
+        sortIndexes.add(derive ? deriveMetrics(record) : record);
+        searchIndex.add(record);
+      });
+      writeChunk(stagingDirectory, chunksCount++, chunk);
+    }
+    writeSortIndexes(stagingDirectory, sortIndexes.build());
+    writeSearchIndex(stagingDirectory, searchIndex.build());
+
+    fs.writeFileSync(path.join(stagingDirectory, METADATA_FILE), JSON.stringify({
+      ...metadata,
+      name: tableName,
+      chunksCount,
+      totalRows: records.length,
+      columns: Array.from(columns),
+      ...(derive ? { derivedMetricsVersion: DERIVED_METRICS_VERSION } : {}),
+      updatedAt: new Date().toISOString()
+    }, null, 2));
+
+    Object.entries(files).forEach(([fileName, contents]) => {
+      fs.writeFileSync(path.join(stagingDirectory, fileName), JSON.stringify(contents));
+    });
+
+    commitStagingDirectory(dataDirectory, tableName);
+    return chunksCount;
+  } catch (error) {
+    discardStagingDirectory(dataDirectory, tableName);
+    throw error;
+  }
+}
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import * as XLSX from 'xlsx';
+import * as yauzl from 'yauzl';
+import { readWorkbookPreview } from './import-excel';
+import { openFirstSheet } from './xlsx-reader';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'xlsx-reader-'));
+
+// 2021-03-15 in the 1900 and 1904 date systems
+const SERIAL_1900 = 44270;
+const SERIAL_1904 = SERIAL_1900 - 1462;
+
+/**
+ * Write a workbook with one sheet to the test directory
+ * @param name File name
+ * @param rows Header row and data rows; objects are written as cells
+ * @param options Shared strings table and date system
+ * @returns Path of the workbook
+ */
+function writeWorkbook(name: string, rows: any[][], options: { bookSST?: boolean; date1904?: boolean } = {}): string {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Deals');
+  if (options.date1904) workbook.Workbook = { WBProps: { date1904: true } };
+  const filePath = path.join(directory, name);
+  fs.writeFileSync(filePath, XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx', bookSST: options.bookSST ?? true }));
+  return filePath;
+}
+
+/**
+ * Rewrite the text cells of a workbook written without shared strings as
+ * inline strings, the way some exporters write them
+ */
+function useInlineStrings(filePath: string): void {
+  const archive = XLSX.CFB.read(fs.readFileSync(filePath), { type: 'buffer' });
+  const sheet = XLSX.CFB.find(archive, '/xl/worksheets/sheet1.xml');
+  const xml = Buffer.from(sheet.content).toString('utf8')
+    .replace(/t="str"><v>([^<]*)<\/v>/g, 't="inlineStr"><is><t>$1</t></is>');
+  expect(xml).toContain('<c r="A2" t="inlineStr"><is><t>Alpha &amp; Co</t></is></c>');
+  sheet.content = Buffer.from(xml);
+  fs.writeFileSync(filePath, XLSX.CFB.write(archive, { type: 'buffer', fileType: 'zip' }));
+}
+
+/**
+ * Every data row of a workbook's first sheet
+ */
+async function readRows(filePath: string): Promise<Record<string, any>[]> {
+  const sheet = await openFirstSheet(filePath);
+  const rows: Record<string, any>[] = [];
+  for await (const { values } of sheet.rows) rows.push(values);
+  return rows;
+}
+
+const DATE = { t: 'n', v: SERIAL_1900, z: 'yyyy-mm-dd' };
+
+const ROWS = [
+  ['Target', 'Value', 'Announced', 'Public', '', 'Target'],
+  ['Alpha & Co', 1.5, DATE, true, 'x', 'Alpha'],
+  [],
+  ['Beta', -20, null, false, null, 'Beta']
+];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe('openFirstSheet', () => {
+  it('reads headers like SheetJS does, blank and repeated ones included', async () => {
+    const sheet = await openFirstSheet(writeWorkbook('headers.xlsx', ROWS));
+    expect(sheet.sheetName).toBe('Deals');
+    expect(sheet.headers).toEqual(['Target', 'Value', 'Announced', 'Public', '__EMPTY', 'Target_1']);
+    expect(sheet.expectedRows).toBe(3);
+    await sheet.rows.return(undefined);
+  });
+
+  it('reads shared strings, numbers, booleans and dates and skips blank rows', async () => {
+    const filePath = writeWorkbook('shared.xlsx', ROWS, { bookSST: true });
+    const sheet = await openFirstSheet(filePath);
+    const rows = [];
+    for await (const row of sheet.rows) rows.push(row);
+    expect(rows.map(row => row.rowNumber)).toEqual([2, 4]);
+    expect(rows[0].values).toEqual({
+      Target: 'Alpha & Co', Value: 1.5, Announced: new Date('2021-03-15T00:00:00.000Z'), Public: true, __EMPTY: 'x', Target_1: 'Alpha'
+    });
+    expect(rows[1].values).toEqual({ Target: 'Beta', Value: -20, Announced: null, Public: false, __EMPTY: null, Target_1: 'Beta' });
+  });
+
+  it('reads strings stored in the cells', async () => {
+    const filePath = writeWorkbook('inline.xlsx', ROWS, { bookSST: false });
+    expect((await readRows(filePath))[0]).toMatchObject({ Target: 'Alpha & Co', Target_1: 'Alpha' });
+
+    useInlineStrings(filePath);
+    expect(await readRows(filePath)).toEqual(await readRows(writeWorkbook('shared-again.xlsx', ROWS)));
+  });
+
+  it('reads dates of workbooks using the 1904 date system', async () => {
+    const filePath = writeWorkbook('1904.xlsx', [['Announced'], [{ t: 'n', v: SERIAL_1904, z: 'yyyy-mm-dd' }]], { date1904: true });
+    expect(await readRows(filePath)).toEqual([{ Announced: new Date('2021-03-15T00:00:00.000Z') }]);
+  });
+
+  it('rejects a workbook without data', async () => {
+    await expect(openFirstSheet(writeWorkbook('empty.xlsx', []))).rejects.toThrow('The workbook does not contain any data');
+  });
+});
+
+describe('readWorkbookPreview', () => {
+  it('stops reading and closes the file after the sample rows', async () => {
+    const rows = [['Target', 'Value'], ...Array.from({ length: 5000 }, (_, index) => [`Deal ${index}`, index])];
+    const filePath = writeWorkbook('large.xlsx', rows);
+    const close = vi.spyOn(yauzl.ZipFile.prototype, 'close');
+
+    const preview = await readWorkbookPreview(filePath, 3);
+    expect(preview.sampleRows).toEqual([
+      { Target: 'Deal 0', Value: 0 },
+      { Target: 'Deal 1', Value: 1 },
+      { Target: 'Deal 2', Value: 2 }
+    ]);
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows dates as the day', async () => {
+    const preview = await readWorkbookPreview(writeWorkbook('preview.xlsx', ROWS), 1);
+    expect(preview.sampleRows[0].Announced).toBe('2021-03-15');
+  });
+});
@@ -0,0 +1,464 @@
+import path from 'path';
+import { Readable } from 'stream';
+import * as sax from 'sax';
+import * as yauzl from 'yauzl';
+
+/**
+ * A data row of a sheet, keyed by header
+ */
+export interface SheetRow {
+  // 1-based row number in the sheet
+  rowNumber: number;
+  values: Record<string, any>;
+}
+
+/**
+ * First sheet of a workbook, opened for reading row by row
+ */
+export interface SheetReader {
+  sheetName: string;
+  // Header keys as SheetJS gives them: "__EMPTY" for blank headers and
+  // "_1", "_2"… appended to duplicates
+  headers: string[];
+  // Number of data rows the sheet declares, or null if it doesn't
+  expectedRows: number | null;
+  // Data rows below the header, blank rows skipped. Reading them to the end,
+  // or stopping early, closes the file.
+  rows: AsyncGenerator<SheetRow>;
+}
+
+/**
+ * Row as it is read from the sheet XML: cell values by column index
+ */
+interface RawRow {
+  rowNumber: number;
+  cells: any[];
+}
+
+// Built-in number formats that display dates or times
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+// Days between the 1900 and 1904 date systems
+const DATE_1904_OFFSET = 1462;
+
+/**
+ * Name of an element without its namespace prefix
+ */
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+/**
+ * Column index of a cell reference, e.g. 27 for "AB12"
+ */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.toUpperCase()) {
+    const code = char.charCodeAt(0);
+    if (code < 65 || code > 90) break;
+    index = index * 26 + code - 64;
+  }
+  return index - 1;
+}
+
+/**
+ * Check whether a custom number format displays a date, ignoring quoted text,
+ * escaped characters and bracketed colours or conditions
+ */
+function isDateFormat(formatCode: string): boolean {
+  const stripped = formatCode.replace(/"[^"]*"|\\.|_.|\*.|\[[^\]]*\]/g, '');
+  return /[dmyhs]/i.test(stripped);
+}
+
+/**
+ * Excel serial date to a Date at UTC midnight (plus the time of day)
+ */
+function serialToDate(serial: number, date1904: boolean): Date {
+  return new Date(Math.round((serial + (date1904 ? DATE_1904_OFFSET : 0) - 25569) * 86400 * 1000));
+}
+
+/**
+ * Open a workbook's zip archive and list its entries by name
+ */
+function openArchive(filePath: string): Promise<{ zip: yauzl.ZipFile; entries: Map<string, yauzl.Entry> }> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(filePath, { lazyEntries: true, autoClose: false }, (error, zip) => {
+      if (error || !zip) {
+        reject(error || new Error(`Could not open ${path.basename(filePath)}`));
+        return;
+      }
+      const entries = new Map<string, yauzl.Entry>();
+      zip.on('entry', (entry: yauzl.Entry) => {
+        entries.set(entry.fileName, entry);
+        zip.readEntry();
+      });
+      zip.on('end', () => resolve({ zip, entries }));
+      zip.on('error', reject);
+      zip.readEntry();
+    });
+  });
+}
+
+/**
+ * Open a stream over an uncompressed archive entry
+ */
+function openEntry(zip: yauzl.ZipFile, entry: yauzl.Entry): Promise<Readable> {
+  return new Promise((resolve, reject) => {
+    zip.openReadStream(entry, (error, stream) => {
+      if (error || !stream) reject(error || new Error(`Could not read ${entry.fileName}`));
+      else resolve(stream);
+    });
+  });
+}
+
+/**
+ * Feed an archive entry through an XML parser chunk by chunk, yielding after
+ * each one so the caller can hand on what the handlers produced before more
+ * of the entry is read
+ */
+async function* parseEntry(
+  zip: yauzl.ZipFile,
+  entry: yauzl.Entry,
+  handlers: Partial<Pick<sax.SAXParser, 'onopentag' | 'onclosetag' | 'ontext' | 'oncdata'>>
+): AsyncGenerator<void> {
+  const parser = sax.parser(true, { trim: false, normalize: false });
+  Object.assign(parser, handlers);
+  parser.onerror = (error: Error) => {
+    throw new Error(`${entry.fileName} is not valid XML: ${error.message.split('\n')[0]}`);
+  };
+
+  const stream = await openEntry(zip, entry);
+  stream.setEncoding('utf8');
+  try {
+    for await (const chunk of stream) {
+      parser.write(chunk as string);
+      yield;
+    }
+    parser.close();
+  } finally {
+    stream.destroy();
+  }
+}
+
+/**
+ * Parse a whole (small) archive entry
+ */
+async function parseWholeEntry(
+  zip: yauzl.ZipFile,
+  entry: yauzl.Entry | undefined,
+  handlers: Partial<Pick<sax.SAXParser, 'onopentag' | 'onclosetag' | 'ontext' | 'oncdata'>>
+): Promise<void> {
+  if (!entry) return;
+  const chunks = parseEntry(zip, entry, handlers);
+  while (!(await chunks.next()).done) {
+    // Parsed by the handlers
+  }
+}
+
+/**
+ * Find the first sheet's name and archive path, and the workbook's date system
+ */
+async function readWorkbook(
+  zip: yauzl.ZipFile,
+  entries: Map<string, yauzl.Entry>
+): Promise<{ sheetName: string; sheetPath: string; date1904: boolean }> {
+  const workbook: { sheetName?: string; relationship?: string; target?: string; date1904: boolean } = { date1904: false };
+  await parseWholeEntry(zip, entries.get('xl/workbook.xml'), {
+    onopentag: (tag: sax.Tag) => {
+      const name = localName(tag.name);
+      if (name === 'workbookPr') {
+        workbook.date1904 = ['1', 'true'].includes(String(tag.attributes.date1904));
+      } else if (name === 'sheet' && workbook.sheetName === undefined) {
+        workbook.sheetName = tag.attributes.name;
+        // r:id, whatever the relationships namespace is prefixed with
+        const relationship = Object.keys(tag.attributes).find(key => key !== 'sheetId' && localName(key) === 'id');
+        workbook.relationship = relationship ? tag.attributes[relationship] : undefined;
+      }
+    }
+  });
+  if (workbook.sheetName === undefined) {
+    throw new Error('The workbook does not contain any sheets');
+  }
+
+  await parseWholeEntry(zip, entries.get('xl/_rels/workbook.xml.rels'), {
+    onopentag: (tag: sax.Tag) => {
+      if (localName(tag.name) === 'Relationship' && tag.attributes.Id === workbook.relationship) {
+        workbook.target = tag.attributes.Target;
+      }
+    }
+  });
+
+  // Targets are relative to xl/ unless they start at the archive root
+  const { target } = workbook;
+  const sheetPath = !target
+    ? 'xl/worksheets/sheet1.xml'
+    : target.startsWith('/') ? target.slice(1) : path.posix.normalize(`xl/${target}`);
+  return { sheetName: workbook.sheetName, sheetPath, date1904: workbook.date1904 };
+}
+
+/**
+ * Find the cell styles that format numbers as dates
+ * @returns Indexes into cellXfs of the date styles
+ */
+async function readDateStyles(zip: yauzl.ZipFile, entries: Map<string, yauzl.Entry>): Promise<Set<number>> {
+  const customFormats = new Map<number, string>();
+  const styleFormats: number[] = [];
+  let inCellXfs = false;
+
+  await parseWholeEntry(zip, entries.get('xl/styles.xml'), {
+    onopentag: (tag: sax.Tag) => {
+      const name = localName(tag.name);
+      if (name === 'numFmt') {
+        customFormats.set(Number(tag.attributes.numFmtId), tag.attributes.formatCode || '');
+      } else if (name === 'cellXfs') {
+        inCellXfs = true;
+      } else if (name === 'xf' && inCellXfs) {
+        styleFormats.push(Number(tag.attributes.numFmtId || 0));
+      }
+    },
+    onclosetag: (name: string) => {
+      if (localName(name) === 'cellXfs') inCellXfs = false;
+    }
+  });
+
+  const dateStyles = new Set<number>();
+  styleFormats.forEach((formatId, style) => {
+    const custom = customFormats.get(formatId);
+    if (custom !== undefined ? isDateFormat(custom) : BUILT_IN_DATE_FORMATS.has(formatId)) {
+      dateStyles.add(style);
+    }
+  });
+  return dateStyles;
+}
+
+/**
+ * Read the shared string table. Cells refer to it by index, so it is the one
+ * part of the workbook held in memory; repeated text is stored in it only once.
+ */
+async function readSharedStrings(zip: yauzl.ZipFile, entries: Map<string, yauzl.Entry>): Promise<string[]> {
+  const strings: string[] = [];
+  let current: string | null = null;
+  let inText = false;
+  // Phonetic runs repeat the text in another script
+  let inPhonetic = false;
+
+  await parseWholeEntry(zip, entries.get('xl/sharedStrings.xml'), {
+    onopentag: (tag: sax.Tag) => {
+      const name = localName(tag.name);
+      if (name === 'si') current = '';
+      else if (name === 'rPh') inPhonetic = true;
+      else if (name === 't' && !inPhonetic) inText = true;
+    },
+    ontext: (text: string) => {
+      if (inText && current !== null) current += text;
+    },
+    oncdata: (text: string) => {
+      if (inText && current !== null) current += text;
+    },
+    onclosetag: (tagName: string) => {
+      const name = localName(tagName);
+      if (name === 't') inText = false;
+      else if (name === 'rPh') inPhonetic = false;
+      else if (name === 'si' && current !== null) {
+        strings.push(current);
+        current = null;
+      }
+    }
+  });
+  return strings;
+}
+
+/**
+ * Read the rows of a sheet as they are decompressed, with cells converted the
+ * way SheetJS converts them with `raw` and `cellDates`
+ */
+async function* readRawRows(
+  zip: yauzl.ZipFile,
+  entry: yauzl.Entry,
+  sharedStrings: string[],
+  dateStyles: Set<number>,
+  date1904: boolean,
+  onDimension: (reference: string) => void
+): AsyncGenerator<RawRow> {
+  const rows: RawRow[] = [];
+  let row: RawRow | null = null;
+  let cell: { column: number; type: string; style: number } | null = null;
+  // Value text of the cell and, for inline strings, its text runs
+  let text: string | null = null;
+  let inline: string | null = null;
+  let capturing: 'v' | 'is' | null = null;
+  let lastRowNumber = 0;
+  let lastColumn = -1;
+
+  const cellValue = (type: string, style: number): any => {
+    switch (type) {
+      case 's': return text === null ? null : sharedStrings[Number(text)] ?? null;
+      case 'inlineStr': return inline;
+      case 'str': return text;
+      case 'b': return text === null ? null : text === '1' || text === 'true';
+      case 'e': return null;
+      case 'd': return text === null ? null : new Date(text);
+      default: {
+        if (text === null || text.trim() === '') return null;
+        const number = Number(text);
+        return dateStyles.has(style) ? serialToDate(number, date1904) : number;
+      }
+    }
+  };
+
+  const append = (value: string) => {
+    if (capturing === 'v') text += value;
+    else if (capturing === 'is') inline += value;
+  };
+
+  const handlers = {
+    onopentag: (tag: sax.Tag) => {
+      switch (localName(tag.name)) {
+        case 'dimension':
+          onDimension(tag.attributes.ref || '');
+          break;
+        case 'row':
+          lastRowNumber = tag.attributes.r ? Number(tag.attributes.r) : lastRowNumber + 1;
+          lastColumn = -1;
+          row = { rowNumber: lastRowNumber, cells: [] };
+          break;
+        case 'c':
+          lastColumn = tag.attributes.r ? columnIndex(tag.attributes.r) : lastColumn + 1;
+          cell = { column: lastColumn, type: tag.attributes.t || 'n', style: Number(tag.attributes.s || 0) };
+          text = null;
+          inline = null;
+          break;
+        case 'v':
+          if (cell) {
+            text = '';
+            capturing = 'v';
+          }
+          break;
+        case 'is':
+          if (cell) {
+            inline = '';
+            capturing = 'is';
+          }
+          break;
+      }
+    },
+    ontext: append,
+    oncdata: append,
+    onclosetag: (tagName: string) => {
+      switch (localName(tagName)) {
+        case 'v':
+        case 'is':
+          capturing = null;
+          break;
+        case 'c':
+          if (cell && row) row.cells[cell.column] = cellValue(cell.type, cell.style);
+          cell = null;
+          break;
+        case 'row':
+          if (row) rows.push(row);
+          row = null;
+          break;
+      }
+    }
+  };
+
+  const chunks = parseEntry(zip, entry, handlers);
+  while (!(await chunks.next()).done) {
+    // Hand on the rows each chunk completed before reading the next one
+    yield* rows.splice(0);
+  }
+  yield* rows.splice(0);
+}
+
+/**
+ * Turn header cells into row keys the way SheetJS's sheet_to_json does, so
+ * mappings saved from either reader match
+ */
+function toHeaderKeys(cells: any[], firstColumn: number, lastColumn: number): string[] {
+  const keys: string[] = [];
+  const counts: Record<string, number> = {};
+  for (let column = firstColumn; column <= lastColumn; column++) {
+    const value = cells[column];
+    const header = value === null || value === undefined || value === ''
+      ? '__EMPTY'
+      : value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+    let key = header;
+    let count = counts[header] || 0;
+    if (!count) {
+      counts[header] = 1;
+    } else {
+      do { key = `${header}_${count++}`; } while (counts[key]);
+      counts[header] = count;
+      counts[key] = 1;
+    }
+    keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * Open the first sheet of an .xlsx / .xlsm workbook for reading row by row.
+ * The sheet is decompressed and parsed as it is read, so only the shared
+ * strings and the rows not yet handed on are held in memory.
+ * @param filePath Path of the workbook
+ * @returns Sheet name, headers and a generator over the data rows
+ */
+export async function openFirstSheet(filePath: string): Promise<SheetReader> {
+  const { zip, entries } = await openArchive(filePath);
+  try {
+    const { sheetName, sheetPath, date1904 } = await readWorkbook(zip, entries);
+    const sheetEntry = entries.get(sheetPath);
+    if (!sheetEntry) {
+      throw new Error(`The workbook is missing its sheet "${sheetName}"`);
+    }
+    const dateStyles = await readDateStyles(zip, entries);
+    const sharedStrings = await readSharedStrings(zip, entries);
+
+    // Sheets declare their used range before the rows
+    const declared: { firstColumn?: number; lastColumn?: number; rows?: number } = {};
+    const rawRows = readRawRows(zip, sheetEntry, sharedStrings, dateStyles, date1904, reference => {
+      const [start, end = start] = reference.split(':');
+      if (!/^[A-Z]+\d+$/i.test(start) || !/^[A-Z]+\d+$/i.test(end)) return;
+      declared.firstColumn = columnIndex(start);
+      declared.lastColumn = columnIndex(end);
+      declared.rows = Number(end.replace(/^[A-Z]+/i, '')) - Number(start.replace(/^[A-Z]+/i, ''));
+    });
+
+    const first = await rawRows.next();
+    if (first.done || first.value.cells.length === 0) {
+      await rawRows.return(undefined);
+      throw new Error('The workbook does not contain any data');
+    }
+
+    // Some writers declare a smaller range than they fill, so the header row
+    // widens it; cells right of both are left out
+    const headerCells = first.value.cells;
+    const headerStart = headerCells.findIndex(value => value !== undefined);
+    const firstColumn = Math.min(declared.firstColumn ?? headerStart, headerStart);
+    const lastColumn = Math.max(declared.lastColumn ?? 0, headerCells.length - 1);
+    const headers = toHeaderKeys(headerCells, firstColumn, lastColumn);
+
+    const rows = async function* (): AsyncGenerator<SheetRow> {
+      try {
+        for await (const { rowNumber, cells } of rawRows) {
+          const values: Record<string, any> = {};
+          let blank = true;
+          headers.forEach((header, i) => {
+            const value = cells[firstColumn + i];
+            values[header] = value === undefined ? null : value;
+            if (value !== undefined && value !== null && value !== '') blank = false;
+          });
+          if (!blank) yield { rowNumber, values };
+        }
+      } finally {
+        zip.close();
+      }
+    };
+
+    return { sheetName, headers, expectedRows: declared.rows ?? null, rows: rows() };
+  } catch (error) {
+    zip.close();
+    throw error;
+  }
+}
@@ -0,0 +1,60 @@
+import { BrowserWindow, ipcMain } from 'electron';
+import {
+  IPC_CHANNELS,
+  IpcArgs,
+  IpcChannel,
+  IpcEventChannel,
+  IpcEvents,
+  IpcResult,
+  serializeIpcError
+} from '../src/services/ipc-contract';
+
+/**
+ * A handler for every channel of the IPC contract
+ */
+export type IpcHandlers = {
+  [C in IpcChannel]: (...args: IpcArgs<C>) => Promise<IpcResult<C>>;
+};
+
+/**
+ * Register the handlers of all channels. Arguments from the renderer are
+ * validated against the contract first; invalid ones reject the call without
+ * reaching the handler. Errors reach the renderer with their error code.
+ * @param handlers Handler of every channel
+ */
+export function registerIpcHandlers(handlers: IpcHandlers): void {
+  (Object.keys(IPC_CHANNELS) as IpcChannel[]).forEach(channel => {
+    const validate = IPC_CHANNELS[channel];
+    const handler = handlers[channel] as (...args: unknown[]) => Promise<unknown>;
+
+    ipcMain.handle(channel, async (_, ...args: unknown[]) => {
+      let validArgs: unknown[];
+      try {
+        validArgs = validate(args, channel);
+      } catch (error) {
+        console.error(`Rejected ${channel} request:`, error);
+        throw serializeIpcError(error);
+      }
+
+      try {
+        return await handler(...validArgs);
+      } catch (error) {
+        throw serializeIpcError(error);
+      }
+    });
+  });
+}
+
+/**
+ * Send an event of the IPC contract to the renderer
+ * @param window Window to send to; nothing is sent without one
+ * @param channel Event channel
+ * @param payload Event payload
+ */
+export function sendToRenderer<E extends IpcEventChannel>(
+  window: BrowserWindow | null,
+  channel: E,
+  payload: IpcEvents[E]
+): void {
+  window?.webContents.send(channel, payload);
+}
@@ -1,7 +1,25 @@
-import { app, BrowserWindow, ipcMain, dialog } from 'electron';
+import { app, BrowserWindow, dialog } from 'electron';
 import * as path from 'path';
 import fs from 'fs';
 import { createWriteStream } from 'fs';
+import { DatabaseClient } from './database/database-client';
+import { IpcHandlers, registerIpcHandlers, sendToRenderer } from './ipc';
+import { exportQualityReport } from './database/quality-report';
+import { DEFAULT_IDENTITY_KEY } from '../src/services/delta-import';
+import { listSnapshots } from './database/snapshots';
+import { SnapshotKind } from '../src/services/snapshots';
+import { getErrorCode } from '../src/services/errors';
+import { loadMappingProfiles, saveMappingProfile, deleteMappingProfile } from './database/mapping-profiles';
+import { loadGeographyAliases, saveGeographyAliases } from './database/geography-aliases';
+import { loadCompSets, saveCompSet, deleteCompSet } from './database/comp-sets';
+import { loadOutlierSettings, saveOutlierSettings } from './database/outlier-settings';
+import {
+  DEAL_FIELDS,
+  applyProfile,
+  findProfileForHeaders,
+  suggestColumnMapping,
+  suggestionsToMapping
+} from '../src/services/column-mapping';
 
 // Set up logging to a file
 const logStream = createWriteStream(path.join(process.cwd(), 'app.log'), { flags: 'a' });
@@ -20,13 +38,46 @@ process.on('uncaughtException', (error) => {
 process.on('unhandledRejection', (reason, promise) => {
   logToFile(`Unhandled Rejection at: ${promise}, reason: ${reason}`);
 });
-// Import the JSONDatabaseService using an absolute path
-const pathModule = require('path');
-const JSONDatabaseService = require(pathModule.join(process.cwd(), 'JSONDatabaseService')).default || require(pathModule.join(process.cwd(), 'JSONDatabaseService'));
 
 let mainWindow: BrowserWindow | null = null;
-// Use 'any' type to avoid type issues with the imported module
-let dbService: any = null;
+// Database service, running in a worker thread
+let dbService: DatabaseClient | null = null;
+let dataDir = '';
+// Workbook picked in the import dialog, the only file an import may read
+let pickedImportFile: string | null = null;
+
+/**
+ * Snapshot the deals table after it has changed. A failed snapshot is logged
+ * but doesn't fail the import that triggered it.
+ */
+async function snapshotDeals(kind: SnapshotKind) {
+  try {
+    if (!dbService) throw new Error('Database not initialized');
+    const snapshot = await dbService.call('createSnapshot', kind);
+    logToFile(`Created ${kind} snapshot: ${snapshot.id}`);
+  } catch (error) {
+    logToFile(`Error creating snapshot: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Imports only read the workbook the user picked in the open dialog, never a
+ * path the renderer made up
+ */
+function assertPickedImportFile(filePath: string) {
+  if (!pickedImportFile || filePath !== pickedImportFile) {
+    throw new Error('Pick the workbook to import with Import Excel File first');
+  }
+}
+
+/**
+ * Imports always apply to the live data, never to an open snapshot
+ */
+async function assertLiveData() {
+  if (await dbService?.call('getActiveSnapshot')) {
+    throw new Error('A snapshot is open read-only. Return to the latest data before importing.');
+  }
+}
 
 function createWindow() {
   mainWindow = new BrowserWindow({
@@ -93,7 +144,7 @@ function createWindow() {
   mainWindow.on('closed', () => {
     mainWindow = null;
     
-    // Close database connection when window is closed
+    // Stop the database worker when window is closed
     if (dbService) {
       dbService.close();
       dbService = null;
@@ -101,7 +152,7 @@ function createWindow() {
   });
 }
 
-app.whenReady().then(() => {
+app.whenReady().then(async () => {
   try {
     logToFile('Application starting...');
     logToFile(`Current working directory: ${process.cwd()}`);
@@ -109,7 +160,7 @@ app.whenReady().then(() => {
     logToFile(`__filename: ${__filename}`);
     
     // Check if data directory exists
-    const dataDir = path.join(process.env.ELECTRON_DEV ? process.cwd() : app.getPath('userData'), 'data');
+    dataDir = path.join(process.env.ELECTRON_DEV ? process.cwd() : app.getPath('userData'), 'data');
     logToFile(`Using data directory: ${dataDir}`);
     
     if (!fs.existsSync(dataDir)) {
@@ -121,15 +172,21 @@ app.whenReady().then(() => {
     // Initialize JSON database service
     logToFile('Initializing JSON Database Service...');
     try {
-      logToFile(`Attempting to load JSONDatabaseService from: ${pathModule.join(process.cwd(), 'JSONDatabaseService')}`);
-      logToFile(`File exists: ${fs.existsSync(pathModule.join(process.cwd(), 'JSONDatabaseService.js')) ? 'Yes' : 'No'}`);
-      
-      dbService = new JSONDatabaseService(dataDir);
+      // Memory for parsed chunks can be tuned with DEALS_CACHE_BUDGET_MB
+      const cacheBudgetMb = Number(process.env.DEALS_CACHE_BUDGET_MB);
+      dbService = new DatabaseClient(dataDir, {
+        cacheBudgetBytes: cacheBudgetMb > 0 ? cacheBudgetMb * 1024 * 1024 : undefined
+      }, logToFile);
       logToFile('Database service initialized successfully');
       
+      // Keep the data imported before snapshots existed as the first snapshot
+      if (await dbService.call('getTableMetadata', 'deals') && listSnapshots(dataDir).length === 0) {
+        await snapshotDeals('baseline');
+      }
+      
       // Test database connection
       try {
-        const stats = dbService.getStatistics();
+        const stats = await dbService.call('getStatistics');
         logToFile(`Database statistics: ${JSON.stringify(stats)}`);
       } catch (statsError) {
         logToFile(`Error getting database statistics: ${statsError instanceof Error ? statsError.message : String(statsError)}`);
@@ -171,100 +228,570 @@ app.on('window-all-closed', () => {
   }
 });
 
-// Check if database exists and is populated
-ipcMain.handle('check-data-loaded', async () => {
-  try {
-    console.log('Checking if data is loaded...');
-    if (!dbService) {
-      console.error('Database service not initialized');
-      return false;
+/**
+ * Handlers of every channel in the IPC contract. The contract's types make a
+ * missing handler a compile error, and payloads are validated before they get here.
+ */
+const ipcHandlers: IpcHandlers = {
+  // Check if database exists and is populated
+  'check-data-loaded': async () => {
+    try {
+      console.log('Checking if data is loaded...');
+      if (!dbService) {
+        console.error('Database service not initialized');
+        return false;
+      }
+      
+      console.log('Database service initialized, getting statistics...');
+      const stats = await dbService.call('getStatistics');
+      console.log('Database statistics:', stats);
+      
+      const hasData = stats && typeof stats.totalDeals === 'number' && stats.totalDeals > 0;
+      console.log(`Data loaded check result: ${hasData}`);
+      
+      return hasData;
+    } catch (error) {
+      // Nothing imported yet is an answer, not a failure
+      if (getErrorCode(error) === 'DATA_MISSING') return false;
+      console.error('Error checking if data is loaded:', error);
+      throw error;
     }
-    
-    console.log('Database service initialized, getting statistics...');
-    const stats = dbService.getStatistics();
-    console.log('Database statistics:', stats);
-    
-    const hasData = stats && typeof stats.totalDeals === 'number' && stats.totalDeals > 0;
-    console.log(`Data loaded check result: ${hasData}`);
-    
-    return hasData;
-  } catch (error) {
-    console.error('Error checking if data is loaded:', error);
-    return false;
-  }
-});
+  },
 
-// Get deals with filtering and pagination
-ipcMain.handle('get-deals', async (_, options) => {
-  try {
-    if (!dbService) throw new Error('Database not initialized');
-    return dbService.getDeals(options);
-  } catch (error) {
-    console.error('Error getting deals:', error);
-    throw error;
-  }
-});
+  // Pick a workbook and suggest a header → field mapping for it
+  'prepare-import': async () => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      if (!mainWindow) throw new Error('Main window not available');
+      
+      const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+        title: 'Import M&A Deals',
+        properties: ['openFile'],
+        filters: [{ name: 'Excel Workbooks', extensions: ['xlsx', 'xlsm', 'xls'] }]
+      });
+      
+      if (canceled || filePaths.length === 0) {
+        return { canceled: true };
+      }
+      
+      const filePath = filePaths[0];
+      pickedImportFile = filePath;
+      const preview = await dbService.call('previewWorkbook', filePath);
+      const profiles = loadMappingProfiles(dataDir);
+      const matchedProfile = findProfileForHeaders(profiles, preview.headers);
+      const suggestions = suggestColumnMapping(preview.headers);
+      
+      return {
+        canceled: false,
+        filePath,
+        fileName: path.basename(filePath),
+        ...preview,
+        suggestions,
+        profiles,
+        profileName: matchedProfile ? matchedProfile.name : null,
+        identityKey: (await dbService.call('getTableMetadata', 'deals'))?.identityKey || DEFAULT_IDENTITY_KEY,
+        mapping: matchedProfile
+          ? applyProfile(matchedProfile, preview.headers)
+          : suggestionsToMapping(suggestions)
+      };
+    } catch (error) {
+      logToFile(`Error preparing import: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  },
 
-// Get deals summary statistics
-ipcMain.handle('get-deals-summary', async () => {
-  try {
-    if (!dbService) throw new Error('Database not initialized');
-    return dbService.getStatistics();
-  } catch (error) {
-    console.error('Error getting deals summary:', error);
-    throw error;
-  }
-});
+  // Import an Excel workbook into chunked JSON files using the confirmed mapping
+  'import-excel': async (request) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      await assertLiveData();
+      
+      const { filePath, mapping, profileName = null } = request;
+      assertPickedImportFile(filePath);
+      logToFile(`Importing Excel file: ${filePath}`);
+      
+      if (profileName) {
+        saveMappingProfile(dataDir, profileName, Object.keys(mapping), mapping);
+        logToFile(`Saved mapping profile: ${profileName}`);
+      }
+      
+      // Parsed in the database worker; progress messages keep the request from timing out
+      const result = await dbService.callWithProgress((message) => {
+        sendToRenderer(mainWindow, 'import-progress', message);
+      }, 'importExcel', filePath, { mapping, profileName });
+      
+      // Pick up the new chunk files
+      await dbService.call('reload');
+      await snapshotDeals('import');
+      
+      const { rowsWithIssues } = result.qualityReport;
+      const message = `Imported ${result.totalRows.toLocaleString()} deals from ${path.basename(filePath)}` +
+        (rowsWithIssues > 0 ? ` (${rowsWithIssues.toLocaleString()} rows with data quality issues)` : '');
+      logToFile(message);
+      sendToRenderer(mainWindow, 'import-complete', message);
+      
+      return { success: true, canceled: false, ...result };
+    } catch (error) {
+      logToFile(`Error importing Excel file: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  },
 
-// Get filter options (transaction types, regions, industries)
-ipcMain.handle('get-filter-options', async () => {
-  try {
-    if (!dbService) throw new Error('Database not initialized');
-    return dbService.getFilterOptions();
-  } catch (error) {
-    console.error('Error getting filter options:', error);
-    throw error;
-  }
-});
+  // Import a workbook next to the live data and return the changes for review
+  'prepare-delta-import': async (request) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      await assertLiveData();
+      
+      const { filePath, mapping, profileName = null, identityKey } = request;
+      assertPickedImportFile(filePath);
+      logToFile(`Preparing delta import from: ${filePath}`);
+      
+      if (profileName) {
+        saveMappingProfile(dataDir, profileName, Object.keys(mapping), mapping);
+      }
+      
+      // Imported and compared with the stored deals in the database worker
+      return await dbService.callWithProgress((message) => {
+        sendToRenderer(mainWindow, 'import-progress', message);
+      }, 'prepareDeltaImport', filePath, { mapping, profileName, identityKey });
+    } catch (error) {
+      logToFile(`Error preparing delta import: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  },
 
-// Simplified individual handlers that use the filter options endpoint
-ipcMain.handle('get-transaction-types', async () => {
-  try {
-    if (!dbService) throw new Error('Database not initialized');
-    return dbService.getFilterOptions().transactionTypes;
-  } catch (error) {
-    console.error('Error getting transaction types:', error);
-    return [];
-  }
-});
+  // Apply the reviewed delta import
+  'commit-delta-import': async () => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      await assertLiveData();
+      
+      const result = await dbService.call('commitDeltaImport');
+      await dbService.call('reload');
+      await snapshotDeals('delta');
+      
+      const message = `Updated deals from ${result.sourceFile}: ${result.added.toLocaleString()} added, ` +
+        `${result.changed.toLocaleString()} changed, ${result.removed.toLocaleString()} flagged as removed`;
+      logToFile(message);
+      sendToRenderer(mainWindow, 'import-complete', message);
+      
+      return result;
+    } catch (error) {
+      logToFile(`Error committing delta import: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  },
 
-ipcMain.handle('get-regions', async () => {
-  try {
-    if (!dbService) throw new Error('Database not initialized');
-    return dbService.getFilterOptions().regions;
-  } catch (error) {
-    console.error('Error getting regions:', error);
-    return [];
-  }
-});
+  'discard-delta-import': async () => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      await dbService.call('discardDeltaImport');
+      return true;
+    } catch (error) {
+      console.error('Error discarding delta import:', error);
+      throw error;
+    }
+  },
 
-ipcMain.handle('get-industries', async () => {
-  try {
-    if (!dbService) throw new Error('Database not initialized');
-    return dbService.getFilterOptions().industries;
-  } catch (error) {
-    console.error('Error getting industries:', error);
-    return [];
-  }
-});
+  // Dataset snapshots taken after each import
+  'get-snapshots': async () => {
+    try {
+      return listSnapshots(dataDir);
+    } catch (error) {
+      console.error('Error listing snapshots:', error);
+      throw error;
+    }
+  },
 
-// Get a specific deal by ID
-ipcMain.handle('get-deal-by-id', async (_, id) => {
-  try {
-    if (!dbService) throw new Error('Database not initialized');
-    return dbService.getDealById(id);
-  } catch (error) {
-    console.error(`Error getting deal by ID ${id}:`, error);
-    throw error;
+  'get-active-snapshot': async () => {
+    return (await dbService?.call('getActiveSnapshot')) || null;
+  },
+
+  // Open a snapshot read-only, or return to the live data with null
+  'open-snapshot': async (snapshotId) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      const snapshot = await dbService.call('openSnapshot', snapshotId);
+      logToFile(snapshot ? `Opened snapshot: ${snapshot.id}` : 'Returned to live data');
+      return snapshot;
+    } catch (error) {
+      logToFile(`Error opening snapshot ${snapshotId}: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  },
+
+  'delete-snapshot': async (snapshotId) => {
+    try {
+      if ((await dbService?.call('getActiveSnapshot'))?.id === snapshotId) {
+        throw new Error('The snapshot is currently open');
+      }
+      if (!dbService) throw new Error('Database not initialized');
+      return await dbService.call('deleteSnapshot', snapshotId);
+    } catch (error) {
+      console.error(`Error deleting snapshot ${snapshotId}:`, error);
+      throw error;
+    }
+  },
+
+  'compare-snapshots': async (request) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      return await dbService.call('compareSnapshots', request);
+    } catch (error) {
+      logToFile(`Error comparing snapshots: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  },
+
+  // Saved header mapping profiles
+  'get-mapping-profiles': async () => {
+    try {
+      return loadMappingProfiles(dataDir);
+    } catch (error) {
+      console.error('Error getting mapping profiles:', error);
+      throw error;
+    }
+  },
+
+  'delete-mapping-profile': async (name) => {
+    try {
+      return deleteMappingProfile(dataDir, name);
+    } catch (error) {
+      console.error(`Error deleting mapping profile ${name}:`, error);
+      throw error;
+    }
+  },
+
+  // Data quality report from the last import
+  'get-quality-report': async () => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      return await dbService.call('getQualityReport');
+    } catch (error) {
+      console.error('Error getting data quality report:', error);
+      throw error;
+    }
+  },
+
+  'export-quality-report': async () => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      if (!mainWindow) throw new Error('Main window not available');
+      
+      const report = await dbService.call('getQualityReport');
+      if (!report) throw new Error('No data quality report available');
+      
+      const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: 'Export Data Quality Report',
+        defaultPath: `${path.parse(report.sourceFile).name}-quality-report.xlsx`,
+        filters: [
+          { name: 'Excel Workbook', extensions: ['xlsx'] },
+          { name: 'CSV', extensions: ['csv'] }
+        ]
+      });
+      
+      if (canceled || !filePath) return null;
+      
+      exportQualityReport(report, filePath);
+      logToFile(`Exported data quality report to: ${filePath}`);
+      return filePath;
+    } catch (error) {
+      logToFile(`Error exporting data quality report: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  },
+
+  // Get deals with filtering and pagination
+  'get-deals': async (options) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      // Requests with an id can be cancelled by the renderer once a newer one supersedes them
+      if (options?.requestId !== undefined) {
+        return await dbService.callCancellable(`get-deals:${options.requestId}`, 'getDeals', options);
+      }
+      return await dbService.call('getDeals', options);
+    } catch (error) {
+      if (getErrorCode(error) !== 'CANCELLED') {
+        console.error('Error getting deals:', error);
+      }
+      throw error;
+    }
+  },
+
+  // Cancel a get-deals request that is queued or running
+  'cancel-get-deals': async (requestId) => {
+    if (!dbService) return false;
+    return dbService.cancel(`get-deals:${requestId}`);
+  },
+
+  // Group the deals matching a search and filters, with statistics per group
+  'aggregate-deals': async (request) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      return await dbService.call('getDealsAggregate', request);
+    } catch (error) {
+      console.error('Error aggregating deals:', error);
+      throw error;
+    }
+  },
+
+  // Get deals summary statistics
+  'get-deals-summary': async (request) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      return await dbService.call('getDealsSummary', request);
+    } catch (error) {
+      console.error('Error getting deals summary:', error);
+      throw error;
+    }
+  },
+
+  // Get filter options (transaction types, regions, industries)
+  'get-filter-options': async () => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      return await dbService.call('getFilterOptions');
+    } catch (error) {
+      console.error('Error getting filter options:', error);
+      throw error;
+    }
+  },
+
+  // Simplified individual handlers that use the filter options endpoint
+  'get-transaction-types': async () => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      return (await dbService.call('getFilterOptions')).transactionTypes;
+    } catch (error) {
+      console.error('Error getting transaction types:', error);
+      throw error;
+    }
+  },
+
+  'get-regions': async () => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      return (await dbService.call('getFilterOptions')).regions;
+    } catch (error) {
+      console.error('Error getting regions:', error);
+      throw error;
+    }
+  },
+
+  'get-industries': async () => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      return (await dbService.call('getFilterOptions')).industries;
+    } catch (error) {
+      console.error('Error getting industries:', error);
+      throw error;
+    }
+  },
+
+  // Aliases resolving raw places to countries and regions
+  'get-geography-aliases': async () => {
+    try {
+      return loadGeographyAliases(dataDir);
+    } catch (error) {
+      console.error('Error getting geography aliases:', error);
+      throw error;
+    }
+  },
+
+  'save-geography-aliases': async (aliases) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      saveGeographyAliases(dataDir, aliases);
+      // Filter options and facets are derived from the aliases
+      await dbService.call('clearDerivedData');
+      logToFile(`Saved ${Object.keys(aliases).length} geography aliases`);
+      return true;
+    } catch (error) {
+      logToFile(`Error saving geography aliases: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  },
+
+  // Get a specific deal by ID
+  'get-deal-by-id': async (id) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      return await dbService.call('getDealById', id);
+    } catch (error) {
+      console.error(`Error getting deal by ID ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Get the deals of a comp set, leaving out the ones no longer in the data
+  'get-deals-by-ids': async (ids) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      return await dbService.call('getDealsByIds', ids);
+    } catch (error) {
+      console.error('Error getting deals by ID:', error);
+      throw error;
+    }
+  },
+
+  // Rank the deals by how similar they are to a deal or a hypothetical target
+  'find-comparables': async (request) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      // A new search supersedes one still running
+      dbService.cancel('find-comparables');
+      return await dbService.callCancellable('find-comparables', 'findComparables', request);
+    } catch (error) {
+      if (getErrorCode(error) !== 'CANCELLED') {
+        console.error('Error finding comparables:', error);
+      }
+      throw error;
+    }
+  },
+
+  // Saved comp sets
+  'get-comp-sets': async () => {
+    try {
+      return loadCompSets(dataDir);
+    } catch (error) {
+      console.error('Error getting comp sets:', error);
+      throw error;
+    }
+  },
+
+  'save-comp-set': async (request) => {
+    try {
+      const compSet = saveCompSet(dataDir, request);
+      logToFile(`Saved comp set ${compSet.name} with ${compSet.members.length} deals`);
+      return compSet;
+    } catch (error) {
+      console.error(`Error saving comp set ${request.name}:`, error);
+      throw error;
+    }
+  },
+
+  'delete-comp-set': async (name) => {
+    try {
+      return deleteCompSet(dataDir, name);
+    } catch (error) {
+      console.error(`Error deleting comp set ${name}:`, error);
+      throw error;
+    }
+  },
+
+  // Precedent transactions valuation of a comp set or the filtered deals
+  'get-valuation': async (request) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      // A new valuation supersedes one still running
+      dbService.cancel('get-valuation');
+      return await dbService.callCancellable('get-valuation', 'getValuation', request);
+    } catch (error) {
+      if (getErrorCode(error) !== 'CANCELLED') {
+        console.error('Error getting valuation:', error);
+      }
+      throw error;
+    }
+  },
+
+  'export-valuation': async (request) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      if (!mainWindow) throw new Error('Main window not available');
+      
+      const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: 'Export Valuation',
+        defaultPath: 'precedent-transactions.xlsx',
+        filters: [
+          { name: 'Excel Workbook', extensions: ['xlsx'] },
+          { name: 'CSV', extensions: ['csv'] }
+        ]
+      });
+      
+      if (canceled || !filePath) return null;
+      
+      const exported = await dbService.call('exportValuation', request, filePath);
+      logToFile(`Exported valuation of ${exported.toLocaleString()} deals to: ${filePath}`);
+      return filePath;
+    } catch (error) {
+      logToFile(`Error exporting valuation: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  },
+
+  // Rule flagging outlying multiples, and whether statistics leave them out
+  'get-outlier-settings': async () => {
+    try {
+      return loadOutlierSettings(dataDir);
+    } catch (error) {
+      console.error('Error getting outlier settings:', error);
+      throw error;
+    }
+  },
+
+  'save-outlier-settings': async (settings) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      const saved = saveOutlierSettings(dataDir, settings);
+      // Outlier flags and the statistics leaving them out are derived from the rule
+      await dbService.call('clearDerivedData');
+      logToFile(`Saved outlier settings: ${JSON.stringify(saved)}`);
+      return saved;
+    } catch (error) {
+      logToFile(`Error saving outlier settings: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  },
+
+  // Show the fields of a deal in a native dialog
+  'show-deal-details': async (id) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      if (!mainWindow) throw new Error('Main window not available');
+      
+      const deal = await dbService.call('getDealById', id);
+      const details = DEAL_FIELDS
+        .filter(({ field }) => deal[field] !== null && deal[field] !== undefined && deal[field] !== '')
+        .map(({ field, label }) => `${label}: ${deal[field]}`);
+      
+      await dialog.showMessageBox(mainWindow, {
+        type: 'info',
+        title: 'Deal Details',
+        message: deal.targetName || `Deal ${id}`,
+        detail: details.join('\n')
+      });
+    } catch (error) {
+      console.error(`Error showing deal ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Export the deals matching the grid's search and filters
+  'export-to-excel': async (request) => {
+    try {
+      if (!dbService) throw new Error('Database not initialized');
+      if (!mainWindow) throw new Error('Main window not available');
+      
+      const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: 'Export Deals',
+        defaultPath: 'deals.xlsx',
+        filters: [
+          { name: 'Excel Workbook', extensions: ['xlsx'] },
+          { name: 'CSV', extensions: ['csv'] }
+        ]
+      });
+      
+      if (canceled || !filePath) return null;
+      
+      const exported = await dbService.call('exportDeals', request, filePath);
+      logToFile(`Exported ${exported.toLocaleString()} deals to: ${filePath}`);
+      return filePath;
+    } catch (error) {
+      logToFile(`Error exporting deals: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
   }
-});
+};
+
+registerIpcHandlers(ipcHandlers);
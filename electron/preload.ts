@@ -1,62 +1,110 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import { Deal } from '../src/types/deal.types';
+// Types only: the sandboxed preload can't load other modules at runtime
+import type { ElectronAPI, IpcArgs, IpcChannel, IpcEventChannel, IpcEvents, IpcResult } from '../src/services/ipc-contract';
 
-interface DealsRequestParams {
-  searchQuery: string;
-  filters: Record<string, any>;
-  page: number;
-  pageSize: number;
+/**
+ * Function that invokes a channel of the IPC contract
+ */
+function invoke<C extends IpcChannel>(channel: C) {
+  return (...args: IpcArgs<C>): Promise<IpcResult<C>> => ipcRenderer.invoke(channel, ...args);
 }
 
-interface DealsResponse {
-  deals: Deal[];
-  totalCount: number;
+/**
+ * Function that subscribes to an event of the IPC contract
+ */
+function listen<E extends IpcEventChannel>(channel: E) {
+  return (callback: (payload: IpcEvents[E]) => void) => {
+    ipcRenderer.on(channel, (_, payload: IpcEvents[E]) => callback(payload));
+  };
 }
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
-contextBridge.exposeInMainWorld('electron', {
+const api: ElectronAPI = {
   // Check if data is already loaded
-  checkDataLoaded: () => ipcRenderer.invoke('check-data-loaded'),
+  checkDataLoaded: invoke('check-data-loaded'),
   
-  // Import Excel file into DuckDB
-  importExcel: () => ipcRenderer.invoke('import-excel'),
+  // Pick an Excel file and get suggested header mappings for it
+  prepareImport: invoke('prepare-import'),
+  
+  // Import Excel file into chunked JSON files
+  importExcel: invoke('import-excel'),
+  
+  // Delta import: compare a refreshed workbook with the stored deals, then commit or discard
+  prepareDeltaImport: invoke('prepare-delta-import'),
+  commitDeltaImport: invoke('commit-delta-import'),
+  discardDeltaImport: invoke('discard-delta-import'),
+  
+  // Saved header mapping profiles
+  getMappingProfiles: invoke('get-mapping-profiles'),
+  deleteMappingProfile: invoke('delete-mapping-profile'),
   
   // Listen for progress updates during import
-  onImportProgress: (callback: (progress: string) => void) => {
-    ipcRenderer.on('import-progress', (_, data) => callback(data));
-  },
+  onImportProgress: listen('import-progress'),
   
   // Listen for import completion
-  onImportComplete: (callback: (message: string) => void) => {
-    ipcRenderer.on('import-complete', (_, data) => callback(data));
-  },
+  onImportComplete: listen('import-complete'),
+  
+  // Data quality report from the last import
+  getQualityReport: invoke('get-quality-report'),
+  exportQualityReport: invoke('export-quality-report'),
+  
+  // Dataset snapshots: list, open read-only (null returns to the live data) and compare
+  getSnapshots: invoke('get-snapshots'),
+  getActiveSnapshot: invoke('get-active-snapshot'),
+  openSnapshot: invoke('open-snapshot'),
+  deleteSnapshot: invoke('delete-snapshot'),
+  compareSnapshots: invoke('compare-snapshots'),
   
   // Get deals with pagination, search, and filters
-  getDeals: (params: DealsRequestParams): Promise<DealsResponse> => {
-    return ipcRenderer.invoke('get-deals', params);
-  },
+  getDeals: invoke('get-deals'),
+  
+  // Cancel a get-deals request by the id it was sent with
+  cancelGetDeals: invoke('cancel-get-deals'),
   
-  // Get summary statistics for the dashboard
-  getDealsSummary: () => ipcRenderer.invoke('get-deals-summary'),
+  // Get the summary figures of the deals matching a search and filters
+  getDealsSummary: invoke('get-deals-summary'),
+  
+  // Group the deals matching a search and filters, with statistics per group
+  aggregateDeals: invoke('aggregate-deals'),
   
   // Get deal details by ID
-  getDealById: (id: number) => ipcRenderer.invoke('get-deal-by-id', id),
+  getDealById: invoke('get-deal-by-id'),
+  
+  // Show deal details in a dialog
+  showDealDetails: invoke('show-deal-details'),
+  getDealsByIds: invoke('get-deals-by-ids'),
+  
+  // Comparable transactions
+  findComparables: invoke('find-comparables'),
+  getCompSets: invoke('get-comp-sets'),
+  saveCompSet: invoke('save-comp-set'),
+  deleteCompSet: invoke('delete-comp-set'),
   
-  // Show deal details in a modal
-  showDealDetails: (id: number) => ipcRenderer.invoke('show-deal-details', id),
+  // Precedent transactions valuation
+  getValuation: invoke('get-valuation'),
+  exportValuation: invoke('export-valuation'),
+  getOutlierSettings: invoke('get-outlier-settings'),
+  saveOutlierSettings: invoke('save-outlier-settings'),
   
   // Get filter options for the filter panel
-  getTransactionTypes: () => ipcRenderer.invoke('get-transaction-types'),
-  getRegions: () => ipcRenderer.invoke('get-regions'),
-  getIndustries: () => ipcRenderer.invoke('get-industries'),
+  getFilterOptions: invoke('get-filter-options'),
+  getTransactionTypes: invoke('get-transaction-types'),
+  getRegions: invoke('get-regions'),
+  getIndustries: invoke('get-industries'),
   
-  // Export filtered deals to Excel
-  exportToExcel: (filters: Record<string, any>) => ipcRenderer.invoke('export-to-excel', filters),
+  // Aliases resolving raw places to countries and regions
+  getGeographyAliases: invoke('get-geography-aliases'),
+  saveGeographyAliases: invoke('save-geography-aliases'),
+  
+  // Export the deals matching a search and filters to Excel
+  exportToExcel: invoke('export-to-excel'),
   
   // Remove all listeners when the component unmounts
   removeAllListeners: () => {
     ipcRenderer.removeAllListeners('import-progress');
     ipcRenderer.removeAllListeners('import-complete');
   }
-});
+};
+
+contextBridge.exposeInMainWorld('electron', api);
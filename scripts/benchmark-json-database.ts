@@ -0,0 +1,127 @@
+import { JSONDatabaseService } from '../src/services/json-database.service';
+import { writeTable } from '../electron/database/table-writer';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Benchmark of the chunk cache on a synthetic dataset.
+// Usage: npm run benchmark [-- <rows>]   (default 200,000 deals)
+const rowCount = parseInt(process.argv[2] || '200000', 10);
+const dataDir = path.join(os.tmpdir(), `deals-benchmark-${rowCount}`);
+
+const TYPES = ['Acquisition', 'Merger', 'LBO', 'Minority Stake', 'Asset Purchase'];
+const STATUSES = ['Completed', 'Announced', 'Pending'];
+const REGIONS = ['North America', 'Western Europe', 'Eastern Europe', 'Asia Pacific', 'Latin America', 'Middle East'];
+const INDUSTRIES = ['Software', 'Healthcare', 'Industrials', 'Financials', 'Consumer', 'Energy', 'Materials', 'Telecom'];
+
+// Deterministic pseudo-random numbers so runs are comparable
+let seed = 42;
+function random(): number {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+}
+
+function pick<T>(values: T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+function createDeal(id: number): Record<string, any> {
+  const revenue = Math.round(random() * 5000) / 10;
+  const ebitda = Math.round(revenue * (0.05 + random() * 0.3) * 10) / 10;
+  const ev = Math.round(ebitda * (4 + random() * 16) * 10) / 10;
+  return {
+    id,
+    target_name: `Target ${id} ${pick(INDUSTRIES)} Holdings`,
+    announcement_date: new Date(Date.UTC(2000 + Math.floor(random() * 25), Math.floor(random() * 12), 1 + Math.floor(random() * 28))).toISOString(),
+    transaction_type: pick(TYPES),
+    transaction_status: pick(STATUSES),
+    transaction_value: random() < 0.2 ? null : Math.round(ev * (0.3 + random() * 0.7) * 10) / 10,
+    divestor_name: random() < 0.5 ? null : `Seller ${Math.floor(random() * 5000)}`,
+    acquirer_name: `Acquirer ${Math.floor(random() * 20000)}`,
+    target_region: pick(REGIONS),
+    target_description: `Provider of ${pick(INDUSTRIES).toLowerCase()} products and services.`,
+    ev_ebitda_multiple: ebitda > 0 ? Math.round((ev / ebitda) * 100) / 100 : null,
+    ev_revenue_multiple: revenue > 0 ? Math.round((ev / revenue) * 100) / 100 : null,
+    acquirer_country: pick(['United States', 'United Kingdom', 'Germany', 'France', 'Japan', 'China']),
+    target_industry_1: pick(INDUSTRIES),
+    target_industry_2: random() < 0.6 ? null : pick(INDUSTRIES),
+    deal_summary: `Acquirer agreed to acquire Target ${id} for an undisclosed consideration.`,
+    transaction_considerations: random() < 0.5 ? 'Cash' : 'Cash and shares',
+    target_enterprise_value: ev,
+    target_revenue: revenue,
+    target_ebitda: ebitda
+  };
+}
+
+// Generate the dataset once; later runs reuse it
+if (!fs.existsSync(path.join(dataDir, 'deals', '_metadata.json'))) {
+  console.log(`Generating ${rowCount.toLocaleString()} synthetic deals in ${dataDir}...`);
+  const start = Date.now();
+  const deals = Array.from({ length: rowCount }, (_, i) => createDeal(i + 1));
+  fs.mkdirSync(dataDir, { recursive: true });
+  writeTable(dataDir, 'deals', deals, { sourceFile: 'synthetic.xlsx' });
+  console.log(`Generated in ${((Date.now() - start) / 1000).toFixed(1)}s`);
+}
+
+function time(label: string, fn: () => void): number {
+  const start = process.hrtime.bigint();
+  fn();
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+  console.log(`  ${label.padEnd(38)} ${ms.toFixed(1).padStart(9)} ms`);
+  return ms;
+}
+
+// What one grid refresh asks of the service
+function gridRefresh(db: JSONDatabaseService, beforeEach: () => void = () => {}): number {
+  let total = 0;
+  beforeEach();
+  total += time('getStatistics', () => db.getStatistics());
+  beforeEach();
+  total += time('getFilterOptions', () => db.getFilterOptions());
+  beforeEach();
+  total += time('getDeals (sorted by value)', () => db.getDeals({ sortField: 'transactionValue', sortDirection: 'desc' }));
+  beforeEach();
+  total += time('getDeals (region filter + search)', () => db.getDeals({
+    filters: { regions: ['Western Europe'] },
+    searchQuery: 'software'
+  }));
+  beforeEach();
+  total += time('getDeals (phrase search by relevance)', () => db.getDeals({
+    searchQuery: '"healthcare products" acquir*'
+  }));
+  beforeEach();
+  total += time('count (type filter)', () => db.count('deals', { transaction_type: 'LBO' }));
+  beforeEach();
+  total += time('getDealById', () => db.getDealById(Math.ceil(rowCount / 2)));
+  console.log(`  ${'total'.padEnd(38)} ${total.toFixed(1).padStart(9)} ms`);
+  return total;
+}
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+
+// Baseline: no chunk cache and nothing remembered between calls, like before the cache existed
+console.log('\n=== Uncached (every call re-reads and re-parses the chunks) ===');
+const uncached = new JSONDatabaseService(dataDir, { cacheBudgetBytes: 0 });
+const uncachedTotal = gridRefresh(uncached, () => uncached.reload());
+
+console.log('\n=== Cached, first refresh (cache filling up) ===');
+const cached = new JSONDatabaseService(dataDir);
+gridRefresh(cached);
+
+console.log('\n=== Cached, second refresh ===');
+const cachedTotal = gridRefresh(cached);
+let stats = cached.getCacheStats();
+console.log(`  cache: ${stats.entries} chunks, ${formatMb(stats.usedBytes)} of ${formatMb(stats.budgetBytes)}, ${stats.hits} hits / ${stats.misses} misses`);
+
+// A budget smaller than the dataset keeps memory bounded at the cost of re-reading evicted chunks
+console.log('\n=== Cached with a 64 MB budget, second refresh ===');
+const bounded = new JSONDatabaseService(dataDir, { cacheBudgetBytes: 64 * 1024 * 1024 });
+gridRefresh(bounded);
+const boundedTotal = gridRefresh(bounded);
+stats = bounded.getCacheStats();
+console.log(`  cache: ${stats.entries} chunks, ${formatMb(stats.usedBytes)} of ${formatMb(stats.budgetBytes)}, ${stats.hits} hits / ${stats.misses} misses`);
+
+console.log('\n=== Summary ===');
+console.log(`Uncached refresh:       ${uncachedTotal.toFixed(0)} ms`);
+console.log(`Cached refresh:         ${cachedTotal.toFixed(0)} ms (${(uncachedTotal / cachedTotal).toFixed(1)}x faster)`);
+console.log(`64 MB budget refresh:   ${boundedTotal.toFixed(0)} ms (${(uncachedTotal / boundedTotal).toFixed(1)}x faster)`);
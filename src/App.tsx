@@ -1,6 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ShieldAlert, RefreshCw, Upload, History, Users, Calculator } from 'lucide-react';
 // Import the electron type extension
 import './types/electron.d.ts';
+import { DealsFilters, DealsSummary as DealsSummaryData, FacetCounts, ImportPreview, toIpcError } from './services/ipc-contract';
+import { ColumnMapping, DealField } from './services/column-mapping';
+import { DeltaSummary } from './services/delta-import';
+import { DatasetSnapshot } from './services/snapshots';
+import { ParsedQuery, parseQuery, removeClause } from './services/query-syntax';
+import { OutlierSettings } from './services/outliers';
 
 // Import components that we'll create next
 import SearchBox from './components/SearchBox';
@@ -8,40 +15,52 @@ import DealsGrid from './components/DealsGrid';
 import FilterPanel from './components/FilterPanel';
 import DealsSummary from './components/DealsSummary';
 import LoadingOverlay from './components/LoadingOverlay';
+import ColumnMappingDialog from './components/ColumnMappingDialog';
+import DataQualityPanel from './components/DataQualityPanel';
+import DeltaReviewDialog from './components/DeltaReviewDialog';
+import SnapshotsPanel from './components/SnapshotsPanel';
+import GeographyAliasesPanel from './components/GeographyAliasesPanel';
+import ComparablesPanel from './components/ComparablesPanel';
+import ValuationPanel from './components/ValuationPanel';
+import OutlierSettingsPanel from './components/OutlierSettingsPanel';
+import { useErrorToast } from './components/Toaster';
+
+type ImportMode = 'replace' | 'delta';
 
 const App: React.FC = () => {
   const [isDataLoaded, setIsDataLoaded] = useState(false);
   const [isLoading, setIsLoading] = useState(false); // Will be used for loading states during operations
   const [importStatus, setImportStatus] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [activeFilters, setActiveFilters] = useState<Record<string, any>>({});
-  const [dealsSummary, setDealsSummary] = useState({
-    totalDeals: 0,
-    totalValue: 0,
-    avgDealSize: 0,
-    largestDeal: 0,
-    completedDeals: 0,
-    announcedDeals: 0
-  });
-  
-  const loadSummaryData = React.useCallback(async () => {
-    if (window.electronAPI) {
-      try {
-        console.log('Loading summary data...');
-        const summary = await window.electronAPI.getDealsSummary();
-        console.log('Summary data loaded:', summary);
-        setDealsSummary(summary);
-      } catch (error) {
-        console.error('Error loading summary data:', error);
-      }
-    } else {
-      console.error('electronAPI is not available in loadSummaryData');
-    }
-  }, []);
+  const [pendingImport, setPendingImport] = useState<ImportPreview | null>(null);
+  const [showQualityReport, setShowQualityReport] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>('replace');
+  const [deltaSummary, setDeltaSummary] = useState<DeltaSummary | null>(null);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [showGeographyAliases, setShowGeographyAliases] = useState(false);
+  // Comparables panel, for a deal or for a hypothetical target without one
+  const [comparablesTarget, setComparablesTarget] = useState<{ dealId?: number } | null>(null);
+  const [showValuation, setShowValuation] = useState(false);
+  const [outlierSettings, setOutlierSettings] = useState<OutlierSettings | null>(null);
+  const [showOutlierSettings, setShowOutlierSettings] = useState(false);
+  // Bumped when the outlier rule changes so the grid's badges and summary reload
+  const [outlierVersion, setOutlierVersion] = useState(0);
+  const showError = useErrorToast();
+  // Snapshot open read-only, null while viewing the live data
+  const [activeSnapshot, setActiveSnapshot] = useState<DatasetSnapshot | null>(null);
+  // Bumped whenever the data changes so the grid and filters reload
+  const [dataVersion, setDataVersion] = useState(0);
+  // Query as typed in the search box, and what it parsed to
+  const [queryText, setQueryText] = useState('');
+  const [parsedQuery, setParsedQuery] = useState<ParsedQuery>({ text: '', filter: null, clauses: [] });
+  const [activeFilters, setActiveFilters] = useState<DealsFilters>({});
+  // Deals per filter value given the other filters, from the grid's latest query
+  const [facets, setFacets] = useState<FacetCounts | null>(null);
+  // Figures of the deals the grid shows, from the grid's latest query
+  const [dealsSummary, setDealsSummary] = useState<DealsSummaryData | null>(null);
 
   // Set up event listeners for import progress and completion
   useEffect(() => {
-    if (window.electronAPI) {
+    if (window.electron) {
       const handleImportProgress = (progress: string) => {
         console.log('Import progress:', progress);
         setImportStatus(progress);
@@ -53,28 +72,28 @@ const App: React.FC = () => {
         setImportStatus(message);
         setIsLoading(false);
         setIsDataLoaded(true);
-        loadSummaryData();
+        setDataVersion(version => version + 1);
       };
 
       // Set up event listeners
-      window.electronAPI.onImportProgress(handleImportProgress);
-      window.electronAPI.onImportComplete(handleImportComplete);
+      window.electron.onImportProgress(handleImportProgress);
+      window.electron.onImportComplete(handleImportComplete);
 
       // Check if data is already loaded on startup
       const checkData = async () => {
         try {
           console.log('Checking if data is loaded...');
-          const loaded = await window.electronAPI.checkDataLoaded();
+          const loaded = await window.electron.checkDataLoaded();
           console.log('Data loaded status:', loaded);
           setIsDataLoaded(loaded);
           if (loaded) {
-            await loadSummaryData();
+            setActiveSnapshot(await window.electron.getActiveSnapshot());
           } else {
-            setImportStatus('No data found. Please ensure the data directory exists with the required JSON files.');
+            setImportStatus('No data found. Import an Excel file to get started.');
           }
         } catch (error) {
           console.error('Error checking data:', error);
-          setImportStatus(`Error checking data: ${error instanceof Error ? error.message : String(error)}`);
+          setImportStatus(`Error checking data: ${toIpcError(error).message}`);
         }
       };
       
@@ -82,23 +101,195 @@ const App: React.FC = () => {
 
       // Clean up event listeners when component unmounts
       return () => {
-        if (window.electronAPI) {
-          window.electronAPI.removeAllListeners();
+        if (window.electron) {
+          window.electron.removeAllListeners();
         }
       };
     } else {
-      console.error('electronAPI is not available');
+      console.error('Electron API is not available');
       setImportStatus('Error: Could not connect to the application backend. Please try restarting the application.');
     }
-  }, [loadSummaryData]);
+  }, []);
+  
+  // The outlier rule applies to whatever data is loaded, imported or not
+  useEffect(() => {
+    if (!isDataLoaded || !window.electron) return;
+    window.electron.getOutlierSettings()
+      .then(setOutlierSettings)
+      .catch(err => console.error('Failed to load outlier settings:', err));
+  }, [isDataLoaded]);
+  
+  const handleImportExcel = async (mode: ImportMode) => {
+    if (!window.electron) return;
+    
+    try {
+      setIsLoading(true);
+      setImportMode(mode);
+      setImportStatus('Select an Excel file to import...');
+      const preview = await window.electron.prepareImport();
+      if (preview.canceled) {
+        setImportStatus('Import canceled.');
+      } else {
+        setImportStatus(null);
+        setPendingImport(preview);
+      }
+    } catch (error) {
+      console.error('Error preparing import:', error);
+      setImportStatus(`Import failed: ${toIpcError(error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  const handleConfirmMapping = async (mapping: ColumnMapping, profileName: string | null, identityKey: DealField[]) => {
+    if (!window.electron || !pendingImport?.filePath) return;
+    
+    const filePath = pendingImport.filePath;
+    setPendingImport(null);
+    try {
+      setIsLoading(true);
+      setImportStatus('Starting import...');
+      if (importMode === 'delta') {
+        const summary = await window.electron.prepareDeltaImport({ filePath, mapping, profileName, identityKey });
+        setImportStatus(null);
+        setDeltaSummary(summary);
+      } else {
+        await window.electron.importExcel({ filePath, mapping, profileName });
+      }
+    } catch (error) {
+      console.error('Error importing Excel file:', error);
+      setImportStatus(`Import failed: ${toIpcError(error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  const handleCancelMapping = () => {
+    setPendingImport(null);
+    setImportStatus('Import canceled.');
+  };
+  
+  const handleCommitDelta = async () => {
+    if (!window.electron) return;
+    
+    setDeltaSummary(null);
+    try {
+      setIsLoading(true);
+      setImportStatus('Applying changes...');
+      await window.electron.commitDeltaImport();
+    } catch (error) {
+      console.error('Error committing delta import:', error);
+      setImportStatus(`Update failed: ${toIpcError(error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  const handleDiscardDelta = async () => {
+    if (!window.electron) return;
+    
+    try {
+      setIsLoading(true);
+      await window.electron.discardDeltaImport();
+      setDeltaSummary(null);
+      setImportStatus('Update discarded.');
+    } catch (error) {
+      console.error('Error discarding delta import:', error);
+      showError(error, { context: 'Could not discard the update' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  const handleOpenSnapshot = async (snapshotId: string | null) => {
+    if (!window.electron) return;
+    
+    try {
+      setIsLoading(true);
+      setImportStatus(snapshotId ? 'Opening snapshot...' : 'Returning to latest data...');
+      setActiveSnapshot(await window.electron.openSnapshot(snapshotId));
+      setShowSnapshots(false);
+      setDataVersion(version => version + 1);
+      setImportStatus(null);
+    } catch (error) {
+      console.error('Error opening snapshot:', error);
+      setImportStatus(`Could not open snapshot: ${toIpcError(error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  // Places resolve differently, so the filters are rebuilt
+  const handleGeographyAliasesSaved = () => {
+    setShowGeographyAliases(false);
+    setDataVersion(version => version + 1);
+  };
   
-  const handleSearch = (query: string) => {
-    setSearchQuery(query);
+  const handleSearch = (query: string, parsed: ParsedQuery) => {
+    setQueryText(query);
+    setParsedQuery(parsed);
   };
   
-  const handleFilterChange = (filters: Record<string, any>) => {
+  const handleRemoveQueryClause = (index: number) => {
+    const query = removeClause(parsedQuery, index);
+    setQueryText(query);
+    setParsedQuery(parseQuery(query));
+  };
+  
+  // Stable so the filter panel doesn't re-apply its filters on every render
+  const handleFilterChange = useCallback((filters: DealsFilters) => {
     setActiveFilters(filters);
+  }, []);
+  
+  const handleOutlierSettingsChange = async (settings: OutlierSettings) => {
+    if (!window.electron) return;
+    try {
+      setOutlierSettings(await window.electron.saveOutlierSettings(settings));
+      setShowOutlierSettings(false);
+      setOutlierVersion(version => version + 1);
+    } catch (err) {
+      console.error('Failed to save outlier settings:', err);
+      showError(err, { context: 'Could not save the outlier rule' });
+    }
   };
+  
+  // Stable so the grid doesn't rebuild its columns on every render
+  const handleFindComparables = useCallback((dealId: number) => {
+    setComparablesTarget({ dealId });
+  }, []);
+  
+  // Panel filters plus the conditions typed into the search box
+  const gridFilters = useMemo(() => (
+    parsedQuery.filter ? { ...activeFilters, query: parsedQuery.filter } : activeFilters
+  ), [activeFilters, parsedQuery]);
+
+  // Dialogs for the import flow, shown on both screens
+  const importDialogs = (
+    <>
+      {pendingImport && (
+        <ColumnMappingDialog
+          fileName={pendingImport.fileName || ''}
+          headers={pendingImport.headers || []}
+          sampleRows={pendingImport.sampleRows || []}
+          suggestions={pendingImport.suggestions || []}
+          profiles={pendingImport.profiles || []}
+          initialMapping={pendingImport.mapping || {}}
+          initialProfileName={pendingImport.profileName || null}
+          identityKey={importMode === 'delta' ? pendingImport.identityKey || [] : undefined}
+          onConfirm={handleConfirmMapping}
+          onCancel={handleCancelMapping}
+        />
+      )}
+      
+      {deltaSummary && (
+        <DeltaReviewDialog
+          summary={deltaSummary}
+          onCommit={handleCommitDelta}
+          onDiscard={handleDiscardDelta}
+        />
+      )}
+    </>
+  );
 
   // If data is not loaded yet, show the loading/error screen
   if (!isDataLoaded) {
@@ -118,22 +309,32 @@ const App: React.FC = () => {
               The application is looking for data in: <code className="bg-gray-100 p-1 rounded">data/</code> directory
             </p>
             <p className="text-sm text-gray-500 mb-6">
-              Please ensure the data directory exists and contains the required JSON files.
+              Import an Excel workbook, or ensure the data directory exists and contains the required JSON files.
             </p>
+            <button
+              onClick={() => handleImportExcel('replace')}
+              disabled={isLoading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Import Excel File
+            </button>
             <div className="mt-4 p-4 bg-gray-50 rounded border border-gray-200 text-left text-sm">
               <p className="font-medium mb-2">Expected directory structure:</p>
               <pre className="bg-black text-green-400 p-2 rounded overflow-x-auto">
 {`data/
-  _metadata.json
-  chunk_0.json
-  chunk_1.json
-  ...`}
+  deals/
+    _metadata.json
+    chunk_0.json
+    chunk_1.json
+    ...`}
               </pre>
             </div>
           </div>
         </div>
         
-        {isLoading && <LoadingOverlay />}
+        {importDialogs}
+        
+        {isLoading && <LoadingOverlay message={importStatus} />}
       </div>
     );
   }
@@ -145,8 +346,76 @@ const App: React.FC = () => {
       <header className="bg-white shadow">
         <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 flex items-center justify-between">
           <h1 className="text-2xl font-bold text-gray-900">M&A Deals Screener</h1>
-          <SearchBox onSearch={handleSearch} />
+          <div className="flex items-center gap-4">
+            {!activeSnapshot && (
+              <>
+                <button
+                  onClick={() => handleImportExcel('delta')}
+                  className="flex items-center text-sm text-gray-600 hover:text-blue-600"
+                  title="Update existing deals from a refreshed workbook"
+                >
+                  <RefreshCw size={18} className="mr-1" />
+                  Update
+                </button>
+                <button
+                  onClick={() => handleImportExcel('replace')}
+                  className="flex items-center text-sm text-gray-600 hover:text-blue-600"
+                  title="Replace all deals with a new workbook"
+                >
+                  <Upload size={18} className="mr-1" />
+                  Import
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => setShowSnapshots(true)}
+              className="flex items-center text-sm text-gray-600 hover:text-blue-600"
+            >
+              <History size={18} className="mr-1" />
+              Snapshots
+            </button>
+            <button
+              onClick={() => setComparablesTarget({})}
+              className="flex items-center text-sm text-gray-600 hover:text-blue-600"
+              title="Find comparable deals for a hypothetical target"
+            >
+              <Users size={18} className="mr-1" />
+              Comparables
+            </button>
+            <button
+              onClick={() => setShowValuation(true)}
+              className="flex items-center text-sm text-gray-600 hover:text-blue-600"
+              title="Value a target from a comp set or the filtered deals"
+            >
+              <Calculator size={18} className="mr-1" />
+              Valuation
+            </button>
+            <button
+              onClick={() => setShowQualityReport(true)}
+              className="flex items-center text-sm text-gray-600 hover:text-blue-600"
+            >
+              <ShieldAlert size={18} className="mr-1" />
+              Data Quality
+            </button>
+            <SearchBox value={queryText} onSearch={handleSearch} />
+          </div>
         </div>
+        {activeSnapshot && (
+          <div className="bg-amber-50 border-t border-amber-200">
+            <div className="max-w-7xl mx-auto px-4 py-2 sm:px-6 flex items-center justify-between text-sm text-amber-800">
+              <span>
+                Viewing snapshot of {new Date(activeSnapshot.createdAt).toLocaleString()}
+                {activeSnapshot.sourceFile ? ` (${activeSnapshot.sourceFile})` : ''} — read-only
+              </span>
+              <button
+                onClick={() => handleOpenSnapshot(null)}
+                className="font-medium hover:text-amber-900"
+              >
+                Back to latest data
+              </button>
+            </div>
+          </div>
+        )}
       </header>
       
       {/* Main content */}
@@ -154,18 +423,80 @@ const App: React.FC = () => {
         <div className="flex flex-col md:flex-row gap-6">
           {/* Filters sidebar */}
           <div className="w-full md:w-1/4">
-            <FilterPanel onFilterChange={handleFilterChange} />
+            <FilterPanel
+              key={dataVersion}
+              onFilterChange={handleFilterChange}
+              facets={facets}
+              queryClauses={parsedQuery.clauses}
+              onRemoveQueryClause={handleRemoveQueryClause}
+              onEditGeographyAliases={() => setShowGeographyAliases(true)}
+            />
           </div>
           
           {/* Results and data grid */}
           <div className="w-full md:w-3/4">
-            <DealsSummary summary={dealsSummary} />
-            <DealsGrid searchQuery={searchQuery} filters={activeFilters} />
+            <DealsSummary
+              summary={dealsSummary}
+              outlierSettings={outlierSettings}
+              onOutlierSettingsChange={handleOutlierSettingsChange}
+              onEditOutlierRule={() => setShowOutlierSettings(true)}
+            />
+            <DealsGrid
+              key={dataVersion}
+              searchQuery={parsedQuery.text}
+              filters={gridFilters}
+              onFacetsChange={setFacets}
+              onSummaryChange={setDealsSummary}
+              onFindComparables={handleFindComparables}
+              refreshKey={outlierVersion}
+            />
           </div>
         </div>
       </main>
       
-      {isLoading && <LoadingOverlay />}
+      {showQualityReport && <DataQualityPanel onClose={() => setShowQualityReport(false)} />}
+      
+      {showGeographyAliases && (
+        <GeographyAliasesPanel
+          onClose={() => setShowGeographyAliases(false)}
+          onSaved={handleGeographyAliasesSaved}
+        />
+      )}
+      
+      {comparablesTarget && (
+        <ComparablesPanel
+          dealId={comparablesTarget.dealId}
+          onClose={() => setComparablesTarget(null)}
+        />
+      )}
+      
+      {showOutlierSettings && outlierSettings && (
+        <OutlierSettingsPanel
+          settings={outlierSettings}
+          onSave={handleOutlierSettingsChange}
+          onClose={() => setShowOutlierSettings(false)}
+        />
+      )}
+      
+      {showValuation && (
+        <ValuationPanel
+          searchQuery={parsedQuery.text}
+          filters={gridFilters}
+          onClose={() => setShowValuation(false)}
+        />
+      )}
+      
+      {showSnapshots && (
+        <SnapshotsPanel
+          activeSnapshotId={activeSnapshot ? activeSnapshot.id : null}
+          onOpenSnapshot={handleOpenSnapshot}
+          onClose={() => setShowSnapshots(false)}
+        />
+      )}
+      
+      {importDialogs}
+      
+      {isLoading && <LoadingOverlay message={importStatus} />}
     </div>
   );
 };
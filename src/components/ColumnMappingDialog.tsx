@@ -0,0 +1,244 @@
+import React, { useState, useMemo } from 'react';
+import { Columns, AlertTriangle } from 'lucide-react';
+import {
+  ColumnMapping,
+  DealField,
+  MappingProfile,
+  MappingSuggestion,
+  DEAL_FIELDS,
+  applyProfile,
+  suggestionsToMapping
+} from '../services/column-mapping';
+
+interface ColumnMappingDialogProps {
+  fileName: string;
+  headers: string[];
+  sampleRows: Record<string, any>[];
+  suggestions: MappingSuggestion[];
+  profiles: MappingProfile[];
+  initialMapping: ColumnMapping;
+  initialProfileName: string | null;
+  /** Fields used to match rows to existing deals; only shown when updating */
+  identityKey?: DealField[];
+  onConfirm: (mapping: ColumnMapping, profileName: string | null, identityKey: DealField[]) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
+  fileName,
+  headers,
+  sampleRows,
+  suggestions,
+  profiles,
+  initialMapping,
+  initialProfileName,
+  identityKey,
+  onConfirm,
+  onCancel
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [keyFields, setKeyFields] = useState<DealField[]>(identityKey || []);
+  const [selectedProfile, setSelectedProfile] = useState<string>(initialProfileName || '');
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState(
+    initialProfileName || fileName.replace(/\.[^.]+$/, '')
+  );
+
+  const confidenceByHeader = useMemo(() => {
+    const confidence: Record<string, number> = {};
+    suggestions.forEach(suggestion => {
+      if (suggestion.field) confidence[suggestion.header] = suggestion.confidence;
+    });
+    return confidence;
+  }, [suggestions]);
+
+  // Fields mapped from more than one header
+  const duplicateFields = useMemo(() => {
+    const counts: Partial<Record<DealField, number>> = {};
+    Object.values(mapping).forEach(field => {
+      if (field) counts[field] = (counts[field] || 0) + 1;
+    });
+    return new Set(Object.keys(counts).filter(field => (counts[field as DealField] || 0) > 1));
+  }, [mapping]);
+
+  const mappedCount = Object.values(mapping).filter(Boolean).length;
+  const isUpdate = identityKey !== undefined;
+  // Every identity key field has to come from a column, otherwise nothing matches
+  const unmappedKeyFields = keyFields.filter(field => !Object.values(mapping).includes(field));
+  const keyInvalid = isUpdate && (keyFields.length === 0 || unmappedKeyFields.length > 0);
+
+  const handleProfileChange = (name: string) => {
+    setSelectedProfile(name);
+    const profile = profiles.find(p => p.name === name);
+    if (profile) {
+      setMapping(applyProfile(profile, headers));
+      setProfileName(profile.name);
+    } else {
+      setMapping(suggestionsToMapping(suggestions));
+    }
+  };
+
+  const handleFieldChange = (header: string, value: string) => {
+    setMapping({ ...mapping, [header]: value ? value as DealField : null });
+  };
+
+  const handleKeyFieldToggle = (field: DealField) => {
+    setKeyFields(keyFields.includes(field)
+      ? keyFields.filter(f => f !== field)
+      : [...keyFields, field]);
+  };
+
+  const handleConfirm = () => {
+    onConfirm(mapping, saveProfile && profileName.trim() ? profileName.trim() : null, keyFields);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col text-gray-900">
+        <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center">
+            <Columns size={20} className="text-gray-500 mr-2" />
+            <h2 className="text-lg font-semibold">Map Columns</h2>
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            {fileName} — {mappedCount} of {headers.length} columns mapped. Unmapped columns are kept as extra attributes.
+          </p>
+        </div>
+
+        <div className="p-4 border-b border-gray-200 flex items-center gap-2">
+          <label htmlFor="mapping-profile" className="text-sm text-gray-600">Profile</label>
+          <select
+            id="mapping-profile"
+            value={selectedProfile}
+            onChange={(e) => handleProfileChange(e.target.value)}
+            className="p-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">Suggested mapping</option>
+            {profiles.map(profile => (
+              <option key={profile.name} value={profile.name}>{profile.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {isUpdate && (
+          <div className="p-4 border-b border-gray-200 text-sm">
+            <p className="text-gray-600 mb-2">Match existing deals on</p>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {DEAL_FIELDS.filter(definition => definition.type !== 'number').map(definition => (
+                <label key={definition.field} className="flex items-center gap-1 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={keyFields.includes(definition.field)}
+                    onChange={() => handleKeyFieldToggle(definition.field)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  {definition.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="overflow-y-auto flex-1">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="text-left p-2 font-medium text-gray-600">Column</th>
+                <th className="text-left p-2 font-medium text-gray-600">Sample</th>
+                <th className="text-left p-2 font-medium text-gray-600">Deal Field</th>
+              </tr>
+            </thead>
+            <tbody>
+              {headers.map(header => {
+                const field = mapping[header];
+                const isDuplicate = field ? duplicateFields.has(field) : false;
+                const confidence = confidenceByHeader[header];
+                const sample = sampleRows.find(row => row[header] !== null && row[header] !== '');
+
+                return (
+                  <tr key={header} className="border-t border-gray-100">
+                    <td className="p-2 font-medium">{header}</td>
+                    <td className="p-2 text-gray-500 truncate max-w-xs" title={sample ? String(sample[header]) : ''}>
+                      {sample ? String(sample[header]) : '—'}
+                    </td>
+                    <td className="p-2">
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={field || ''}
+                          onChange={(e) => handleFieldChange(header, e.target.value)}
+                          className={`p-1 border rounded-md text-sm w-56 ${isDuplicate ? 'border-red-500' : 'border-gray-300'}`}
+                        >
+                          <option value="">Keep as extra attribute</option>
+                          {DEAL_FIELDS.map(definition => (
+                            <option key={definition.field} value={definition.field}>{definition.label}</option>
+                          ))}
+                        </select>
+                        {field && confidence !== undefined && field === suggestions.find(s => s.header === header)?.field && (
+                          <span className="text-xs text-gray-400">{Math.round(confidence * 100)}% match</span>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 border-t border-gray-200">
+          {duplicateFields.size > 0 && (
+            <div className="flex items-center text-sm text-red-600 mb-3">
+              <AlertTriangle size={16} className="mr-2" />
+              Each deal field can only be mapped from one column.
+            </div>
+          )}
+          {keyInvalid && (
+            <div className="flex items-center text-sm text-red-600 mb-3">
+              <AlertTriangle size={16} className="mr-2" />
+              {keyFields.length === 0
+                ? 'Select at least one field to match existing deals on.'
+                : `Map a column to ${unmappedKeyFields.map(field => DEAL_FIELDS.find(d => d.field === field)?.label || field).join(', ')} to match existing deals.`}
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="save-profile"
+                checked={saveProfile}
+                onChange={(e) => setSaveProfile(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label htmlFor="save-profile" className="text-sm text-gray-700">Save as profile</label>
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                disabled={!saveProfile}
+                placeholder="Provider name"
+                className="p-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={onCancel}
+                className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={duplicateFields.size > 0 || keyInvalid}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isUpdate ? 'Compare' : 'Import'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
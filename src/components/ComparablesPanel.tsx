@@ -0,0 +1,463 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FolderOpen, Save, Search, Trash2, Users, X } from 'lucide-react';
+// Import electron types
+import '../types/electron.d.ts';
+import { Deal } from '../types/deal.types';
+import {
+  ComparableCriteria,
+  ComparableMatch,
+  CompSet,
+  DEFAULT_RECENCY_YEARS,
+  DEFAULT_SIMILARITY_WEIGHTS,
+  DEFAULT_SIZE_BAND,
+  SIMILARITY_COMPONENTS,
+  SimilarityWeights
+} from '../services/comparables';
+import { FilterTreeNode, flattenTree } from '../services/filter-tree';
+import { toIpcError } from '../services/ipc-contract';
+
+interface ComparablesPanelProps {
+  // Deal to find comparables of; a hypothetical target is entered when not given
+  dealId?: number | string;
+  onClose: () => void;
+}
+
+// Target as typed into the form
+interface CriteriaForm {
+  industry: string;
+  secondaryIndustry: string;
+  region: string;
+  enterpriseValue: string;
+  revenue: string;
+  description: string;
+  referenceDate: string;
+  startDate: string;
+  endDate: string;
+}
+
+const EMPTY_FORM: CriteriaForm = {
+  industry: '',
+  secondaryIndustry: '',
+  region: '',
+  enterpriseValue: '',
+  revenue: '',
+  description: '',
+  referenceDate: '',
+  startDate: '',
+  endDate: ''
+};
+
+// Matches asked for per search
+const MATCH_LIMIT = 50;
+
+const COMPONENT_LABELS: Record<keyof SimilarityWeights, string> = {
+  industry: 'Industry',
+  region: 'Region',
+  size: 'Size',
+  recency: 'Recency',
+  description: 'Description'
+};
+
+const formFromCriteria = (criteria: ComparableCriteria): CriteriaForm => ({
+  industry: criteria.industries?.[0] || '',
+  secondaryIndustry: criteria.industries?.[1] || '',
+  region: criteria.region || '',
+  enterpriseValue: criteria.enterpriseValue !== undefined ? String(criteria.enterpriseValue) : '',
+  revenue: criteria.revenue !== undefined ? String(criteria.revenue) : '',
+  description: criteria.description || '',
+  referenceDate: criteria.referenceDate ? criteria.referenceDate.slice(0, 10) : '',
+  startDate: criteria.startDate || '',
+  endDate: criteria.endDate || ''
+});
+
+const criteriaFromForm = (form: CriteriaForm): ComparableCriteria => {
+  const amount = (value: string) => value.trim() && Number(value) > 0 ? Number(value) : undefined;
+  return {
+    industries: [form.industry, form.secondaryIndustry].filter(Boolean),
+    region: form.region || undefined,
+    enterpriseValue: amount(form.enterpriseValue),
+    revenue: amount(form.revenue),
+    description: form.description.trim() || undefined,
+    referenceDate: form.referenceDate || undefined,
+    startDate: form.startDate || undefined,
+    endDate: form.endDate || undefined
+  };
+};
+
+const formatAmount = (value: number | null) => value ? value.toLocaleString() : '';
+
+const formatDate = (value: Deal['announcementDate']) => value ? new Date(value).toLocaleDateString() : '';
+
+// Score of each part of a match, for its tooltip
+const componentsTitle = (match: ComparableMatch) => SIMILARITY_COMPONENTS
+  .filter(component => match.components[component] !== null)
+  .map(component => `${COMPONENT_LABELS[component]}: ${Math.round(match.components[component]! * 100)}%`)
+  .join('\n') || 'Score when the comp set was saved';
+
+const TreeSelect: React.FC<{
+  label: string;
+  tree: FilterTreeNode[];
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ label, tree, value, onChange }) => (
+  <label className="block text-sm">
+    <span className="text-gray-600">{label}</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="mt-1 w-full p-1 border border-gray-300 rounded-md"
+    >
+      <option value="">Any</option>
+      {flattenTree(tree).map(({ node, depth }) => (
+        <option key={node.id} value={node.id}>
+          {'  '.repeat(depth)}{node.name}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+/**
+ * Ranks the other deals by how similar they are to a deal or a hypothetical
+ * target. Matches can be pruned and the rest saved as a named comp set.
+ */
+const ComparablesPanel: React.FC<ComparablesPanelProps> = ({ dealId, onClose }) => {
+  const [form, setForm] = useState<CriteriaForm>(EMPTY_FORM);
+  const [weights, setWeights] = useState<SimilarityWeights>(DEFAULT_SIMILARITY_WEIGHTS);
+  const [sizeBand, setSizeBand] = useState(String(DEFAULT_SIZE_BAND));
+  const [recencyYears, setRecencyYears] = useState(String(DEFAULT_RECENCY_YEARS));
+  const [industryTree, setIndustryTree] = useState<FilterTreeNode[]>([]);
+  const [regionTree, setRegionTree] = useState<FilterTreeNode[]>([]);
+  const [matches, setMatches] = useState<ComparableMatch[] | null>(null);
+  const [compSets, setCompSets] = useState<CompSet[]>([]);
+  const [setName, setSetName] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const settings = () => ({
+    weights,
+    sizeBand: Number(sizeBand) || undefined,
+    recencyYears: Number(recencyYears) || undefined
+  });
+
+  // Comparables of the deal, with the form filled in from it
+  const findForDeal = useCallback(async (id: number | string) => {
+    if (!window.electron) return;
+    setSearching(true);
+    setError(null);
+    try {
+      const result = await window.electron.findComparables({ dealId: id, limit: MATCH_LIMIT });
+      setForm(formFromCriteria(result.criteria));
+      setMatches(result.matches);
+    } catch (err) {
+      console.error('Failed to find comparables:', err);
+      setError(toIpcError(err).message);
+    } finally {
+      setSearching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      if (!window.electron) return;
+      try {
+        const [options, sets] = await Promise.all([
+          window.electron.getFilterOptions(),
+          window.electron.getCompSets()
+        ]);
+        setIndustryTree(options.industryTree);
+        setRegionTree(options.regionTree);
+        setCompSets(sets);
+      } catch (err) {
+        console.error('Failed to load comparables options:', err);
+        setError(toIpcError(err).message);
+      }
+    };
+
+    loadOptions();
+    if (dealId !== undefined) findForDeal(dealId);
+  }, [dealId, findForDeal]);
+
+  const handleFind = async () => {
+    if (!window.electron) return;
+    setSearching(true);
+    setError(null);
+    try {
+      // The form holds the whole target, so the deal only needs leaving out
+      const result = await window.electron.findComparables({
+        criteria: criteriaFromForm(form),
+        ...settings(),
+        limit: MATCH_LIMIT + 1
+      });
+      setMatches(result.matches
+        .filter(match => dealId === undefined || String(match.deal.id) !== String(dealId))
+        .slice(0, MATCH_LIMIT));
+    } catch (err) {
+      console.error('Failed to find comparables:', err);
+      setError(toIpcError(err).message);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!window.electron || !matches) return;
+    setSaving(true);
+    try {
+      const saved = await window.electron.saveCompSet({
+        name: setName,
+        criteria: criteriaFromForm(form),
+        members: matches.map(match => ({ dealId: match.deal.id, score: match.score }))
+      });
+      setCompSets(current => [...current.filter(c => c.name !== saved.name), saved]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err) {
+      console.error('Failed to save comp set:', err);
+      setError(toIpcError(err).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpenSet = async (compSet: CompSet) => {
+    if (!window.electron) return;
+    setSearching(true);
+    setError(null);
+    try {
+      const deals = await window.electron.getDealsByIds(compSet.members.map(member => member.dealId));
+      const scores = new Map(compSet.members.map(member => [String(member.dealId), member.score]));
+      setForm(formFromCriteria(compSet.criteria));
+      setSetName(compSet.name);
+      setMatches(deals.map(deal => ({
+        deal,
+        score: scores.get(String(deal.id)) ?? 0,
+        components: Object.fromEntries(SIMILARITY_COMPONENTS.map(c => [c, null])) as ComparableMatch['components']
+      })));
+    } catch (err) {
+      console.error('Failed to open comp set:', err);
+      setError(toIpcError(err).message);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleDeleteSet = async (name: string) => {
+    if (!window.electron) return;
+    try {
+      await window.electron.deleteCompSet(name);
+      setCompSets(current => current.filter(c => c.name !== name));
+    } catch (err) {
+      console.error('Failed to delete comp set:', err);
+      setError(toIpcError(err).message);
+    }
+  };
+
+  const updateForm = (changes: Partial<CriteriaForm>) => setForm(current => ({ ...current, ...changes }));
+
+  const textInput = (label: string, field: keyof CriteriaForm, type = 'text') => (
+    <label className="block text-sm">
+      <span className="text-gray-600">{label}</span>
+      <input
+        type={type}
+        value={form[field]}
+        onChange={(e) => updateForm({ [field]: e.target.value })}
+        className="mt-1 w-full p-1 border border-gray-300 rounded-md"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col text-gray-900">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center">
+            <Users size={20} className="text-gray-500 mr-2" />
+            <h2 className="text-lg font-semibold">Comparable Transactions</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        {error && <div className="px-4 pt-4 text-sm text-red-600">{error}</div>}
+
+        <div className="flex-1 overflow-hidden flex">
+          {/* Target, weights and saved sets */}
+          <div className="w-80 flex-shrink-0 overflow-y-auto p-4 border-r border-gray-200 space-y-3">
+            <TreeSelect label="Industry" tree={industryTree} value={form.industry}
+              onChange={(industry) => updateForm({ industry })} />
+            <TreeSelect label="Secondary industry" tree={industryTree} value={form.secondaryIndustry}
+              onChange={(secondaryIndustry) => updateForm({ secondaryIndustry })} />
+            <TreeSelect label="Region" tree={regionTree} value={form.region}
+              onChange={(region) => updateForm({ region })} />
+            <div className="grid grid-cols-2 gap-2">
+              {textInput('EV ($MM)', 'enterpriseValue', 'number')}
+              {textInput('Revenue ($MM)', 'revenue', 'number')}
+            </div>
+            {textInput('Reference date', 'referenceDate', 'date')}
+            <div className="grid grid-cols-2 gap-2">
+              {textInput('Announced from', 'startDate', 'date')}
+              {textInput('to', 'endDate', 'date')}
+            </div>
+            <label className="block text-sm">
+              <span className="text-gray-600">Description</span>
+              <textarea
+                value={form.description}
+                onChange={(e) => updateForm({ description: e.target.value })}
+                rows={3}
+                className="mt-1 w-full p-1 border border-gray-300 rounded-md"
+              />
+            </label>
+
+            <div>
+              <p className="text-sm font-medium mb-1">Weights</p>
+              <div className="grid grid-cols-2 gap-2">
+                {SIMILARITY_COMPONENTS.map(component => (
+                  <label key={component} className="block text-xs text-gray-600">
+                    {COMPONENT_LABELS[component]}
+                    <input
+                      type="number"
+                      min={0}
+                      value={weights[component]}
+                      onChange={(e) => setWeights(current => ({ ...current, [component]: Number(e.target.value) || 0 }))}
+                      className="mt-1 w-full p-1 border border-gray-300 rounded-md text-sm"
+                    />
+                  </label>
+                ))}
+                <label className="block text-xs text-gray-600" title="A deal this many times larger or smaller scores nothing on size">
+                  Size band (×)
+                  <input
+                    type="number"
+                    min={1}
+                    value={sizeBand}
+                    onChange={(e) => setSizeBand(e.target.value)}
+                    className="mt-1 w-full p-1 border border-gray-300 rounded-md text-sm"
+                  />
+                </label>
+                <label className="block text-xs text-gray-600" title="A deal this many years away scores nothing on recency">
+                  Recency (years)
+                  <input
+                    type="number"
+                    min={0}
+                    value={recencyYears}
+                    onChange={(e) => setRecencyYears(e.target.value)}
+                    className="mt-1 w-full p-1 border border-gray-300 rounded-md text-sm"
+                  />
+                </label>
+              </div>
+            </div>
+
+            <button
+              onClick={handleFind}
+              disabled={searching}
+              className="w-full flex items-center justify-center px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Search size={16} className="mr-1" />
+              {searching ? 'Searching...' : 'Find comparables'}
+            </button>
+
+            <div>
+              <p className="text-sm font-medium mb-1">Saved comp sets</p>
+              {compSets.length === 0 && <p className="text-xs text-gray-500">No comp sets saved yet.</p>}
+              {compSets.map(compSet => (
+                <div key={compSet.name} className="flex items-center justify-between text-sm py-1">
+                  <button
+                    onClick={() => handleOpenSet(compSet)}
+                    className="flex items-center min-w-0 text-blue-600 hover:text-blue-800"
+                    title={`Saved ${new Date(compSet.updatedAt).toLocaleString()}`}
+                  >
+                    <FolderOpen size={14} className="mr-1 flex-shrink-0" />
+                    <span className="truncate">{compSet.name}</span>
+                    <span className="ml-1 text-gray-500">({compSet.members.length})</span>
+                  </button>
+                  <button
+                    onClick={() => handleDeleteSet(compSet.name)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete comp set"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Matches */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="flex-1 overflow-y-auto p-4">
+              {matches === null && !searching && (
+                <p className="text-sm text-gray-500">Describe the target and find the deals most like it.</p>
+              )}
+              {matches !== null && matches.length === 0 && (
+                <p className="text-sm text-gray-500">No deals match the target.</p>
+              )}
+              {matches !== null && matches.length > 0 && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="pb-2 font-medium">Score</th>
+                      <th className="pb-2 font-medium">Target</th>
+                      <th className="pb-2 font-medium">Date</th>
+                      <th className="pb-2 font-medium">Industry</th>
+                      <th className="pb-2 font-medium">Region</th>
+                      <th className="pb-2 font-medium text-right">EV ($MM)</th>
+                      <th className="pb-2 font-medium text-right">Revenue ($MM)</th>
+                      <th className="pb-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matches.map(match => (
+                      <tr key={match.deal.id} className="border-t border-gray-100">
+                        <td className="py-1 pr-2 font-medium" title={componentsTitle(match)}>
+                          {Math.round(match.score * 100)}%
+                        </td>
+                        <td className="py-1 pr-2 max-w-[14rem] truncate" title={match.deal.targetDescription}>
+                          {match.deal.targetName}
+                        </td>
+                        <td className="py-1 pr-2 whitespace-nowrap">{formatDate(match.deal.announcementDate)}</td>
+                        <td className="py-1 pr-2">{match.deal.targetIndustry1}</td>
+                        <td className="py-1 pr-2">{match.deal.targetRegion}</td>
+                        <td className="py-1 pr-2 text-right">{formatAmount(match.deal.targetEnterpriseValue)}</td>
+                        <td className="py-1 pr-2 text-right">{formatAmount(match.deal.targetRevenue)}</td>
+                        <td className="py-1 text-right">
+                          <button
+                            onClick={() => setMatches(current => current!.filter(m => m.deal.id !== match.deal.id))}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Leave out of the comp set"
+                          >
+                            <X size={16} />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="p-4 border-t border-gray-200 flex items-center justify-end gap-2">
+              <input
+                type="text"
+                value={setName}
+                onChange={(e) => setSetName(e.target.value)}
+                placeholder="Comp set name"
+                className="p-2 text-sm border border-gray-300 rounded-md"
+              />
+              <button
+                onClick={handleSave}
+                disabled={saving || !setName.trim() || !matches || matches.length === 0}
+                className="flex items-center px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Save size={16} className="mr-1" />
+                {saving ? 'Saving...' : 'Save comp set'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparablesPanel;
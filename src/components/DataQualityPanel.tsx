@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ShieldAlert, Download, X } from 'lucide-react';
+// Import electron types
+import '../types/electron.d.ts';
+import { DataQualityReport, DataQualityIssueCode, ISSUE_LABELS } from '../services/data-quality';
+import { toIpcError } from '../services/ipc-contract';
+
+interface DataQualityPanelProps {
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 100;
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ onClose }) => {
+  const [report, setReport] = useState<DataQualityReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedCode, setSelectedCode] = useState<DataQualityIssueCode | ''>('');
+  const [selectedField, setSelectedField] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      if (!window.electron) return;
+      try {
+        setReport(await window.electron.getQualityReport());
+      } catch (err) {
+        console.error('Failed to load data quality report:', err);
+        setError(toIpcError(err).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+  }, []);
+
+  const fields = useMemo(() => (
+    report ? Array.from(new Set(report.issues.map(issue => issue.field))).sort() : []
+  ), [report]);
+
+  const filteredIssues = useMemo(() => (
+    report
+      ? report.issues.filter(issue =>
+          (!selectedCode || issue.code === selectedCode) &&
+          (!selectedField || issue.field === selectedField)
+        )
+      : []
+  ), [report, selectedCode, selectedField]);
+
+  const handleExport = async () => {
+    if (!window.electron) return;
+    try {
+      await window.electron.exportQualityReport();
+    } catch (err) {
+      console.error('Failed to export data quality report:', err);
+      setError(toIpcError(err).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col text-gray-900">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center">
+            <ShieldAlert size={20} className="text-gray-500 mr-2" />
+            <h2 className="text-lg font-semibold">Data Quality Report</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleExport}
+              disabled={!report || report.issues.length === 0}
+              className="flex items-center px-3 py-1 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50"
+            >
+              <Download size={16} className="mr-1" />
+              Export
+            </button>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {loading && <div className="p-4 text-sm text-gray-500">Loading report...</div>}
+        {error && <div className="p-4 text-sm text-red-600">{error}</div>}
+        {!loading && !error && !report && (
+          <div className="p-4 text-sm text-gray-500">No data quality report is available. Import a workbook to create one.</div>
+        )}
+
+        {report && (
+          <>
+            <div className="p-4 border-b border-gray-200 text-sm">
+              <p className="text-gray-500 mb-3">
+                {report.sourceFile} — checked {new Date(report.generatedAt).toLocaleString()}
+              </p>
+              <div className="grid grid-cols-3 gap-4 mb-3">
+                <div>
+                  <p className="text-gray-500">Rows checked</p>
+                  <p className="text-xl font-semibold">{report.totalRows.toLocaleString()}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Rows with issues</p>
+                  <p className="text-xl font-semibold">{report.rowsWithIssues.toLocaleString()}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Values corrected</p>
+                  <p className="text-xl font-semibold">{report.correctedValues.toLocaleString()}</p>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(report.issueCounts) as DataQualityIssueCode[]).map(code => (
+                  <button
+                    key={code}
+                    onClick={() => setSelectedCode(selectedCode === code ? '' : code)}
+                    className={`px-2 py-1 rounded-full text-xs ${selectedCode === code ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                  >
+                    {ISSUE_LABELS[code]}: {(report.issueCounts[code] || 0).toLocaleString()}
+                  </button>
+                ))}
+              </div>
+              {report.truncated && (
+                <p className="text-xs text-amber-600 mt-2">
+                  Only the first {report.issues.length.toLocaleString()} issues are listed.
+                </p>
+              )}
+            </div>
+
+            <div className="p-4 border-b border-gray-200 flex items-center gap-2 text-sm">
+              <label htmlFor="quality-field" className="text-gray-600">Field</label>
+              <select
+                id="quality-field"
+                value={selectedField}
+                onChange={(e) => setSelectedField(e.target.value)}
+                className="p-1 border border-gray-300 rounded-md"
+              >
+                <option value="">All fields</option>
+                {fields.map(field => <option key={field} value={field}>{field}</option>)}
+              </select>
+              <span className="text-gray-500 ml-auto">{filteredIssues.length.toLocaleString()} issues</span>
+            </div>
+
+            <div className="overflow-y-auto flex-1">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="text-left p-2 font-medium text-gray-600">Row</th>
+                    <th className="text-left p-2 font-medium text-gray-600">Column</th>
+                    <th className="text-left p-2 font-medium text-gray-600">Value</th>
+                    <th className="text-left p-2 font-medium text-gray-600">Issue</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredIssues.slice(0, visibleCount).map((issue, index) => (
+                    <tr key={`${issue.rowNumber}-${issue.field}-${index}`} className="border-t border-gray-100">
+                      <td className="p-2">{issue.rowNumber}</td>
+                      <td className="p-2">{issue.column}</td>
+                      <td className="p-2 text-gray-500 truncate max-w-xs">{String(issue.value ?? '')}</td>
+                      <td className={`p-2 ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+                        {issue.message}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {filteredIssues.length > visibleCount && (
+                <div className="p-4 text-center">
+                  <button
+                    onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Show more
+                  </button>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataQualityPanel;
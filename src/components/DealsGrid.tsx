@@ -1,21 +1,83 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { AgGridReact } from 'ag-grid-react';
-import { ColDef } from 'ag-grid-community';
+import { Download, Users } from 'lucide-react';
+import { ColDef, GetRowIdParams, IDatasource, IGetRowsParams } from 'ag-grid-community';
 // Import electron types
 import '../types/electron.d.ts';
 import 'ag-grid-community/styles/ag-grid.css';
 import 'ag-grid-community/styles/ag-theme-alpine.css';
 import { Deal } from '../types/deal.types';
+import { DealsFilters, DealsRequestParams, DealsSummary, FacetCounts, IpcError, toIpcError } from '../services/ipc-contract';
+import { columnFiltersToExpression } from '../services/grid-filter';
+import ErrorState from './ErrorState';
+import MetricValue from './MetricValue';
+import OutlierBadge from './OutlierBadge';
+import { useErrorToast } from './Toaster';
+
+// Rows fetched per get-deals request
+const BLOCK_SIZE = 100;
+// Blocks kept in memory; those furthest from view are dropped first
+const MAX_BLOCKS_IN_CACHE = 50;
+// Wait this long before loading the blocks scrolled to, so a fast scroll to
+// the end loads the last blocks only
+const BLOCK_LOAD_DEBOUNCE_MS = 100;
+
+// Filter types the service can run over the whole table
+const TEXT_FILTER_OPTIONS = ['contains', 'notContains', 'equals', 'notEqual', 'startsWith', 'endsWith', 'blank', 'notBlank'];
+const TEXT_FILTER_PARAMS = { filterOptions: TEXT_FILTER_OPTIONS, debounceMs: 400 };
+const NUMBER_FILTER_PARAMS = { inRangeInclusive: true, debounceMs: 400 };
+const DATE_FILTER_PARAMS = { inRangeInclusive: true };
 
 interface DealsGridProps {
   searchQuery: string;
-  filters: Record<string, any>;
+  filters: DealsFilters;
+  // Facet counts of the query, from the request for its first block
+  onFacetsChange?: (facets: FacetCounts) => void;
+  // Figures of the deals the query matches, from the same request
+  onSummaryChange?: (summary: DealsSummary) => void;
+  // Shows a button on each row finding the deals most like it
+  onFindComparables?: (dealId: number) => void;
+  // Changed to load the rows and summary again, e.g. once outliers are flagged by a new rule
+  refreshKey?: number;
+}
+
+/**
+ * Sort and column filters of a get-deals request, from the grid's models
+ * @throws FilterError if a column filter can't be translated
+ */
+function gridQueryParams(sortModel: IGetRowsParams['sortModel'], filterModel: any, filters: DealsFilters) {
+  const sort = sortModel[0];
+  const columnFilter = columnFiltersToExpression(filterModel);
+  return {
+    filters: columnFilter ? { ...filters, columnFilter } : filters,
+    sortField: sort?.colId,
+    sortDirection: sort?.sort
+  };
 }
 
-const DealsGrid: React.FC<DealsGridProps> = ({ searchQuery, filters }) => {
-  const [rowData, setRowData] = useState<Deal[]>([]);
+const DealsGrid: React.FC<DealsGridProps> = ({
+  searchQuery,
+  filters,
+  onFacetsChange,
+  onSummaryChange,
+  onFindComparables,
+  refreshKey
+}) => {
+  const gridRef = useRef<AgGridReact<Deal>>(null);
   const [loading, setLoading] = useState(false);
-  const [totalRows, setTotalRows] = useState(0);
+  // Rows on screen belong to an earlier search, filter or sort than the one loading
+  const [stale, setStale] = useState(false);
+  const [totalRows, setTotalRows] = useState<number | null>(null);
+  const [exporting, setExporting] = useState(false);
+  // Why the first block of the current query failed; shown over the grid
+  const [error, setError] = useState<IpcError | null>(null);
+  const showError = useErrorToast();
+  // Id of the latest get-deals request
+  const latestRequest = useRef(0);
+  // Requests in flight, with the query they belong to
+  const pendingRequests = useRef(new Map<number, string>());
+  // Query the latest block was asked for; blocks of any other query are stale
+  const currentQuery = useRef('');
   
   // Define column definitions for AG-Grid
   const columnDefs = useMemo<ColDef<Deal>[]>(() => [
@@ -24,7 +86,8 @@ const DealsGrid: React.FC<DealsGridProps> = ({ searchQuery, filters }) => {
       headerName: 'Target', 
       minWidth: 200, 
       flex: 1,
-      filter: true,
+      filter: 'agTextColumnFilter',
+      filterParams: TEXT_FILTER_PARAMS,
       resizable: true,
       sortable: true
     },
@@ -33,6 +96,7 @@ const DealsGrid: React.FC<DealsGridProps> = ({ searchQuery, filters }) => {
       headerName: 'Date', 
       minWidth: 120,
       filter: 'agDateColumnFilter',
+      filterParams: DATE_FILTER_PARAMS,
       valueFormatter: (params: any) => {
         return params.value ? new Date(params.value).toLocaleDateString() : '';
       },
@@ -43,6 +107,7 @@ const DealsGrid: React.FC<DealsGridProps> = ({ searchQuery, filters }) => {
       headerName: 'Type', 
       minWidth: 150,
       filter: 'agTextColumnFilter',
+      filterParams: TEXT_FILTER_PARAMS,
       sortable: true
     },
     { 
@@ -50,6 +115,7 @@ const DealsGrid: React.FC<DealsGridProps> = ({ searchQuery, filters }) => {
       headerName: 'Status', 
       minWidth: 120,
       filter: 'agTextColumnFilter',
+      filterParams: TEXT_FILTER_PARAMS,
       cellClass: (params: any) => {
         if (params.value === 'Completed') return 'bg-green-100';
         if (params.value === 'Announced') return 'bg-blue-100';
@@ -64,6 +130,7 @@ const DealsGrid: React.FC<DealsGridProps> = ({ searchQuery, filters }) => {
       minWidth: 140,
       type: 'numericColumn',
       filter: 'agNumberColumnFilter',
+      filterParams: NUMBER_FILTER_PARAMS,
       valueFormatter: (params: any) => {
         return params.value ? params.value.toLocaleString() : '';
       },
@@ -74,6 +141,7 @@ const DealsGrid: React.FC<DealsGridProps> = ({ searchQuery, filters }) => {
       headerName: 'Acquirer', 
       minWidth: 180,
       filter: 'agTextColumnFilter',
+      filterParams: TEXT_FILTER_PARAMS,
       sortable: true
     },
     { 
@@ -81,6 +149,7 @@ const DealsGrid: React.FC<DealsGridProps> = ({ searchQuery, filters }) => {
       headerName: 'Divestor', 
       minWidth: 180,
       filter: 'agTextColumnFilter',
+      filterParams: TEXT_FILTER_PARAMS,
       sortable: true
     },
     { 
@@ -88,6 +157,7 @@ const DealsGrid: React.FC<DealsGridProps> = ({ searchQuery, filters }) => {
       headerName: 'Region', 
       minWidth: 120,
       filter: 'agTextColumnFilter',
+      filterParams: TEXT_FILTER_PARAMS,
       sortable: true
     },
     { 
@@ -95,6 +165,7 @@ const DealsGrid: React.FC<DealsGridProps> = ({ searchQuery, filters }) => {
       headerName: 'Industry', 
       minWidth: 180,
       filter: 'agTextColumnFilter',
+      filterParams: TEXT_FILTER_PARAMS,
       sortable: true
     },
     { 
@@ -103,23 +174,74 @@ const DealsGrid: React.FC<DealsGridProps> = ({ searchQuery, filters }) => {
       minWidth: 120,
       type: 'numericColumn',
       filter: 'agNumberColumnFilter',
+      filterParams: NUMBER_FILTER_PARAMS,
       valueFormatter: (params: any) => {
         return params.value ? params.value.toFixed(2) + 'x' : '';
       },
+      cellRenderer: (params: any) => (
+        <>
+          <MetricValue deal={params.data} field="evEbitdaMultiple">{params.valueFormatted}</MetricValue>
+          <OutlierBadge deal={params.data} field="evEbitdaMultiple" />
+        </>
+      ),
       sortable: true
     },
     { 
       field: 'evRevenueMultiple' as keyof Deal, 
       headerName: 'EV/Revenue', 
-      minWidth: 120,
+      minWidth: 130,
       type: 'numericColumn',
       filter: 'agNumberColumnFilter',
+      filterParams: NUMBER_FILTER_PARAMS,
       valueFormatter: (params: any) => {
         return params.value ? params.value.toFixed(2) + 'x' : '';
       },
+      cellRenderer: (params: any) => (
+        <>
+          <MetricValue deal={params.data} field="evRevenueMultiple">{params.valueFormatted}</MetricValue>
+          <OutlierBadge deal={params.data} field="evRevenueMultiple" />
+        </>
+      ),
       sortable: true
-    }
-  ], []);
+    },
+    { 
+      field: 'ebitdaMargin' as keyof Deal, 
+      headerName: 'EBITDA Margin', 
+      minWidth: 140,
+      type: 'numericColumn',
+      filter: 'agNumberColumnFilter',
+      filterParams: NUMBER_FILTER_PARAMS,
+      valueFormatter: (params: any) => {
+        return typeof params.value === 'number' ? params.value.toFixed(1) + '%' : '';
+      },
+      cellRenderer: (params: any) => (
+        <MetricValue deal={params.data} field="ebitdaMargin">{params.valueFormatted}</MetricValue>
+      ),
+      sortable: true
+    },
+    ...(onFindComparables ? [{
+      colId: 'findComparables',
+      headerName: '',
+      width: 56,
+      pinned: 'right' as const,
+      sortable: false,
+      filter: false,
+      resizable: false,
+      cellRenderer: (params: any) => params.data ? (
+        <button
+          onClick={(e) => {
+            // Keep the row click from opening the deal details
+            e.stopPropagation();
+            onFindComparables(params.data.id);
+          }}
+          className="text-gray-400 hover:text-blue-600 align-middle"
+          title="Find comparables"
+        >
+          <Users size={16} />
+        </button>
+      ) : null
+    }] : [])
+  ], [onFindComparables]);
 
   // Default grid options
   const defaultColDef = useMemo(() => ({
@@ -128,101 +250,187 @@ const DealsGrid: React.FC<DealsGridProps> = ({ searchQuery, filters }) => {
     resizable: true,
   }), []);
 
-  // Load deals data with search and filters
-  const loadDeals = useCallback(async () => {
-    if (!window.electron) return;
-    
-    setLoading(true);
-    try {
-      const result = await window.electron.getDeals({
-        searchQuery,
-        filters,
-        page: 0,
-        pageSize: 100 // Load first 100 rows initially
-      });
-      
-      setRowData(result.deals);
-      setTotalRows(result.totalCount);
-    } catch (error) {
-      console.error('Failed to load deals:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [searchQuery, filters]);
+  // Cancel the requests in flight except those of the given query
+  const cancelRequests = useCallback((keepQuery?: string) => {
+    pendingRequests.current.forEach((query, requestId) => {
+      if (query === keepQuery) return;
+      pendingRequests.current.delete(requestId);
+      window.electron?.cancelGetDeals(requestId);
+    });
+    setLoading(pendingRequests.current.size > 0);
+  }, []);
 
-  // Load more rows when scrolling to bottom
-  const onGridScroll = useCallback(async (params: any) => {
-    if (!window.electron) return;
-    
-    const { api } = params;
-    const lastRowIndex = api.getLastDisplayedRow();
-    const totalDisplayedRows = api.getDisplayedRowCount();
-    
-    // When user scrolls near the bottom, load more rows
-    if (lastRowIndex >= totalDisplayedRows - 20 && totalDisplayedRows < totalRows) {
-      setLoading(true);
+  // Rows come from get-deals one block at a time, so search, filters, column
+  // filters and sort all run over the whole table. A new search, filter or
+  // sort supersedes the blocks still loading: those requests are cancelled.
+  const datasource = useMemo<IDatasource>(() => ({
+    getRows: async (params: IGetRowsParams) => {
+      if (!window.electron) return params.failCallback();
+      
+      let request: DealsRequestParams;
       try {
-        const result = await window.electron.getDeals({
+        request = {
           searchQuery,
-          filters,
-          page: Math.floor(totalDisplayedRows / 100),
-          pageSize: 100
-        });
-        
-        // Add new rows to existing data
-        setRowData(prev => [...prev, ...result.deals]);
-      } catch (error) {
-        console.error('Failed to load more deals:', error);
+          ...gridQueryParams(params.sortModel, params.filterModel, filters),
+          page: Math.floor(params.startRow / BLOCK_SIZE),
+          pageSize: BLOCK_SIZE,
+          requestId: ++latestRequest.current,
+          // Counted in the same pass as the first block's query
+          facets: params.startRow === 0 && Boolean(onFacetsChange),
+          summary: params.startRow === 0 && Boolean(onSummaryChange)
+        };
+      } catch (err) {
+        console.error('Invalid column filter:', err);
+        setError(toIpcError(err));
+        return params.failCallback();
+      }
+      
+      const query = JSON.stringify([request.searchQuery, request.filters, request.sortField, request.sortDirection, refreshKey]);
+      if (query !== currentQuery.current) {
+        currentQuery.current = query;
+        cancelRequests(query);
+        setStale(true);
+        setError(null);
+      }
+      const requestId = request.requestId!;
+      pendingRequests.current.set(requestId, query);
+      setLoading(true);
+      
+      try {
+        const result = await window.electron.getDeals(request);
+        params.successCallback(result.deals, result.totalCount);
+        if (query === currentQuery.current) {
+          setTotalRows(result.totalCount);
+          setStale(false);
+          if (result.facets) onFacetsChange?.(result.facets);
+          if (result.summary) onSummaryChange?.(result.summary);
+        }
+      } catch (err) {
+        params.failCallback();
+        const ipcError = toIpcError(err);
+        // A superseded request fails with a cancellation, which isn't worth reporting
+        if (ipcError.code === 'CANCELLED' || query !== currentQuery.current) return;
+        console.error('Failed to load deals:', err);
+        if (params.startRow === 0) {
+          setError(ipcError);
+          setStale(false);
+        } else {
+          showError(ipcError, { context: 'Could not load more deals', onRetry: () => gridRef.current?.api.refreshInfiniteCache() });
+        }
       } finally {
-        setLoading(false);
+        pendingRequests.current.delete(requestId);
+        setLoading(pendingRequests.current.size > 0);
       }
     }
-  }, [searchQuery, filters, totalRows]);
+  }), [searchQuery, filters, refreshKey, cancelRequests, showError, onFacetsChange, onSummaryChange]);
+
+  // Load the failed blocks again
+  const retry = useCallback(() => {
+    setError(null);
+    gridRef.current?.api.purgeInfiniteCache();
+  }, []);
 
-  // Load deals when search query or filters change
-  useEffect(() => {
-    loadDeals();
-  }, [loadDeals]);
+  // Cancel the requests still in flight when the grid goes away
+  useEffect(() => () => {
+    currentQuery.current = '';
+    cancelRequests();
+  }, [cancelRequests]);
+
+  // Export every deal matching the current search, filters, column filters and sort
+  const exportDeals = useCallback(async () => {
+    const api = gridRef.current?.api;
+    if (!window.electron || !api) return;
+    
+    setExporting(true);
+    try {
+      const sortModel = api.getColumnState()
+        .filter(column => column.sort)
+        .map(column => ({ colId: column.colId, sort: column.sort! }));
+      await window.electron.exportToExcel({
+        searchQuery,
+        ...gridQueryParams(sortModel, api.getFilterModel(), filters)
+      });
+    } catch (err) {
+      console.error('Failed to export deals:', err);
+      showError(err, { context: 'Export failed', onRetry: exportDeals });
+    } finally {
+      setExporting(false);
+    }
+  }, [searchQuery, filters, showError]);
 
   // Row click handler to show deal details
   const onRowClicked = useCallback((params: any) => {
     const deal = params.data;
+    // Rows of a block that is still loading have no data yet
+    if (!deal) return;
     console.log('Selected deal:', deal);
     
-    // TODO: Implement detail view popup or panel
     if (window.electron) {
-      window.electron.showDealDetails(deal.id);
+      window.electron.showDealDetails(deal.id).catch(err => {
+        console.error('Failed to show deal details:', err);
+        showError(err, { context: 'Could not show the deal' });
+      });
     }
-  }, []);
+  }, [showError]);
+
+  const getRowId = useCallback((params: GetRowIdParams<Deal>) => String(params.data.id), []);
 
   return (
     <div className="bg-white rounded-lg shadow overflow-hidden h-[600px] w-full">
       <div className="flex justify-between items-center p-4 border-b border-gray-200">
         <h2 className="text-lg font-semibold">
-          {loading ? 'Loading deals...' : `${totalRows.toLocaleString()} Deals Found`}
+          {error
+            ? 'Deals could not be loaded'
+            : totalRows === null ? 'Loading deals...' : `${totalRows.toLocaleString()} Deals Found`}
         </h2>
-        {loading && (
-          <div className="flex items-center">
-            <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-blue-500 mr-2"></div>
-            <span className="text-sm text-gray-500">Loading...</span>
-          </div>
-        )}
+        <div className="flex items-center gap-3">
+          {stale && totalRows !== null ? (
+            <div className="flex items-center px-2 py-1 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800">
+              <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-amber-500 mr-2"></div>
+              Results out of date, updating...
+            </div>
+          ) : loading && (
+            <div className="flex items-center">
+              <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-blue-500 mr-2"></div>
+              <span className="text-sm text-gray-500">Loading...</span>
+            </div>
+          )}
+          <button
+            onClick={exportDeals}
+            disabled={exporting || !totalRows}
+            className="flex items-center px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            title="Export the deals matching the search, filters and column filters"
+          >
+            <Download size={14} className="mr-1" />
+            {exporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
       </div>
       
-      <div className="ag-theme-alpine w-full h-[550px]">
-        <AgGridReact
-          rowData={rowData}
-          columnDefs={columnDefs}
-          defaultColDef={defaultColDef}
-          pagination={false}
-          rowModelType="clientSide"
-          onBodyScroll={onGridScroll}
-          onRowClicked={onRowClicked}
-          rowSelection="single"
-          animateRows={true}
-          enableCellTextSelection={true}
-          tooltipShowDelay={0}
-        />
+      {/* The grid stays mounted under an error so its column filters and sort survive a retry */}
+      <div className="relative w-full h-[550px]">
+        <div className={`ag-theme-alpine w-full h-full transition-opacity ${stale && totalRows !== null ? 'opacity-50' : ''}`}>
+          <AgGridReact
+            ref={gridRef}
+            columnDefs={columnDefs}
+            defaultColDef={defaultColDef}
+            rowModelType="infinite"
+            datasource={datasource}
+            cacheBlockSize={BLOCK_SIZE}
+            maxBlocksInCache={MAX_BLOCKS_IN_CACHE}
+            blockLoadDebounceMillis={BLOCK_LOAD_DEBOUNCE_MS}
+            getRowId={getRowId}
+            onRowClicked={onRowClicked}
+            rowSelection="single"
+            enableCellTextSelection={true}
+            tooltipShowDelay={0}
+          />
+        </div>
+        {error && (
+          <div className="absolute inset-0 bg-white">
+            <ErrorState error={error} onRetry={retry} />
+          </div>
+        )}
       </div>
     </div>
   );
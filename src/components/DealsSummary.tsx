@@ -1,81 +1,149 @@
 import React from 'react';
-import { BarChart, Wallet, TrendingUp, Check, Clock } from 'lucide-react';
+import { BarChart, Wallet, TrendingUp, Check, Clock, Hourglass, Scale, Percent, SlidersHorizontal } from 'lucide-react';
+import { DealsSummary as DealsSummaryData, MultipleSummary } from '../services/ipc-contract';
+import { OutlierSettings } from '../services/outliers';
 
 interface DealsSummaryProps {
-  summary: {
-    totalDeals: number;
-    totalValue: number;
-    avgDealSize: number;
-    largestDeal: number;
-    completedDeals: number;
-    announcedDeals: number;
-  };
+  // Figures of the deals the grid shows; null until its first page loads
+  summary: DealsSummaryData | null;
+  // Rule flagging outlying multiples; null until loaded
+  outlierSettings: OutlierSettings | null;
+  onOutlierSettingsChange: (settings: OutlierSettings) => void;
+  onEditOutlierRule: () => void;
 }
 
-const DealsSummary: React.FC<DealsSummaryProps> = ({ summary }) => {
-  // Format dollar values with commas and 'B' for billions, 'M' for millions
-  const formatCurrency = (value: number): string => {
-    if (value >= 1000) {
-      return `$${(value / 1000).toFixed(1)}B`;
-    } else {
-      return `$${value.toFixed(1)}M`;
-    }
-  };
+interface SummaryCardProps {
+  icon: React.ReactNode;
+  color: string;
+  label: string;
+  value: string;
+  detail?: string;
+}
+
+const SummaryCard: React.FC<SummaryCardProps> = ({ icon, color, label, value, detail }) => (
+  <div className={`flex items-center p-3 rounded-lg ${color}`}>
+    {icon}
+    <div className="min-w-0">
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className="text-xl font-semibold">{value}</p>
+      {detail && <p className="text-xs text-gray-500 truncate" title={detail}>{detail}</p>}
+    </div>
+  </div>
+);
+
+// Format dollar values with commas and 'B' for billions, 'M' for millions
+const formatCurrency = (value: number | null): string => {
+  if (value === null) return '—';
+  if (value >= 1000) {
+    return `$${(value / 1000).toFixed(1)}B`;
+  } else {
+    return `$${value.toFixed(1)}M`;
+  }
+};
+
+const formatMultiple = (value: number | null): string => value === null ? '—' : `${value.toFixed(1)}x`;
+
+// Interquartile range and how many deals disclose the multiple
+const multipleDetail = (multiple: MultipleSummary): string => multiple.count > 0
+  ? `IQR ${formatMultiple(multiple.lowerQuartile)}–${formatMultiple(multiple.upperQuartile)} · ${multiple.count.toLocaleString()} disclosed`
+  : 'None disclosed';
+
+/**
+ * Figures of the deals matching the search and filters, updated with the grid
+ */
+const DealsSummary: React.FC<DealsSummaryProps> = ({
+  summary,
+  outlierSettings,
+  onOutlierSettingsChange,
+  onEditOutlierRule
+}) => {
+  const count = (value: number | undefined) => value === undefined ? '—' : value.toLocaleString();
 
   return (
     <div className="bg-white rounded-lg shadow mb-6">
       <div className="p-4">
-        <h2 className="text-lg font-semibold mb-4">Deals Summary</h2>
-        
-        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-          <div className="flex items-center p-3 bg-blue-50 rounded-lg">
-            <BarChart className="w-10 h-10 text-blue-500 mr-3" />
-            <div>
-              <p className="text-sm text-gray-500">Total Deals</p>
-              <p className="text-xl font-semibold">{summary.totalDeals.toLocaleString()}</p>
-            </div>
-          </div>
-          
-          <div className="flex items-center p-3 bg-green-50 rounded-lg">
-            <Wallet className="w-10 h-10 text-green-500 mr-3" />
-            <div>
-              <p className="text-sm text-gray-500">Total Value</p>
-              <p className="text-xl font-semibold">{formatCurrency(summary.totalValue)}</p>
-            </div>
-          </div>
-          
-          <div className="flex items-center p-3 bg-purple-50 rounded-lg">
-            <TrendingUp className="w-10 h-10 text-purple-500 mr-3" />
-            <div>
-              <p className="text-sm text-gray-500">Avg. Deal Size</p>
-              <p className="text-xl font-semibold">{formatCurrency(summary.avgDealSize)}</p>
-            </div>
-          </div>
-          
-          <div className="flex items-center p-3 bg-amber-50 rounded-lg">
-            <TrendingUp className="w-10 h-10 text-amber-500 mr-3" />
-            <div>
-              <p className="text-sm text-gray-500">Largest Deal</p>
-              <p className="text-xl font-semibold">{formatCurrency(summary.largestDeal)}</p>
-            </div>
-          </div>
-          
-          <div className="flex items-center p-3 bg-teal-50 rounded-lg">
-            <Check className="w-10 h-10 text-teal-500 mr-3" />
-            <div>
-              <p className="text-sm text-gray-500">Completed</p>
-              <p className="text-xl font-semibold">{summary.completedDeals.toLocaleString()}</p>
-            </div>
-          </div>
-          
-          <div className="flex items-center p-3 bg-orange-50 rounded-lg">
-            <Clock className="w-10 h-10 text-orange-500 mr-3" />
-            <div>
-              <p className="text-sm text-gray-500">Announced</p>
-              <p className="text-xl font-semibold">{summary.announcedDeals.toLocaleString()}</p>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Deals Summary</h2>
+          {outlierSettings && (
+            <div className="flex items-center gap-3 text-sm text-gray-600">
+              <label
+                className="flex items-center"
+                title="Leave outlying multiples out of the summary, aggregations and valuations"
+              >
+                <input
+                  type="checkbox"
+                  checked={outlierSettings.exclude}
+                  onChange={(e) => onOutlierSettingsChange({ ...outlierSettings, exclude: e.target.checked })}
+                  className="mr-1"
+                />
+                Exclude outliers
+              </label>
+              <button
+                onClick={onEditOutlierRule}
+                className="flex items-center hover:text-blue-600"
+                title="Change how outliers are flagged"
+              >
+                <SlidersHorizontal size={14} className="mr-1" />
+                Rule
+              </button>
             </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <SummaryCard
+            icon={<BarChart className="w-10 h-10 text-blue-500 mr-3 flex-shrink-0" />}
+            color="bg-blue-50"
+            label="Total Deals"
+            value={count(summary?.totalDeals)}
+            detail={summary ? `${summary.disclosedValueDeals.toLocaleString()} with a disclosed value` : undefined}
+          />
+          <SummaryCard
+            icon={<Wallet className="w-10 h-10 text-green-500 mr-3 flex-shrink-0" />}
+            color="bg-green-50"
+            label="Total Value"
+            value={formatCurrency(summary ? summary.totalValue : null)}
+          />
+          <SummaryCard
+            icon={<TrendingUp className="w-10 h-10 text-purple-500 mr-3 flex-shrink-0" />}
+            color="bg-purple-50"
+            label="Median Deal Size"
+            value={formatCurrency(summary ? summary.medianDealSize : null)}
+            detail={summary && summary.disclosedValueDeals > 0
+              ? `Avg. ${formatCurrency(summary.avgDealSize)} · largest ${formatCurrency(summary.largestDeal)}`
+              : undefined}
+          />
+          <SummaryCard
+            icon={<Scale className="w-10 h-10 text-indigo-500 mr-3 flex-shrink-0" />}
+            color="bg-indigo-50"
+            label="Median EV/EBITDA"
+            value={formatMultiple(summary ? summary.evEbitda.median : null)}
+            detail={summary ? multipleDetail(summary.evEbitda) : undefined}
+          />
+          <SummaryCard
+            icon={<Percent className="w-10 h-10 text-amber-500 mr-3 flex-shrink-0" />}
+            color="bg-amber-50"
+            label="Median EV/Revenue"
+            value={formatMultiple(summary ? summary.evRevenue.median : null)}
+            detail={summary ? multipleDetail(summary.evRevenue) : undefined}
+          />
+          <div className="grid grid-cols-3 gap-2 p-3 bg-teal-50 rounded-lg">
+            {[
+              { label: 'Completed', value: summary?.completedDeals, icon: <Check className="w-5 h-5 text-teal-500" /> },
+              { label: 'Announced', value: summary?.announcedDeals, icon: <Clock className="w-5 h-5 text-orange-500" /> },
+              { label: 'Pending', value: summary?.pendingDeals, icon: <Hourglass className="w-5 h-5 text-gray-500" /> }
+            ].map(status => (
+              <div key={status.label}>
+                {status.icon}
+                <p className="text-sm text-gray-500">{status.label}</p>
+                <p className="text-lg font-semibold">{count(status.value)}</p>
+              </div>
+            ))}
           </div>
         </div>
+        {summary?.outlierRule && (
+          <p className="mt-3 text-xs text-gray-500">Multiples leave out outliers: {summary.outlierRule}.</p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { DeltaSummary, FieldChange } from '../services/delta-import';
+
+interface DeltaChangeListProps {
+  summary: DeltaSummary;
+}
+
+type DeltaTab = 'added' | 'changed' | 'removed';
+
+const PAGE_SIZE = 100;
+
+/**
+ * Format a value shown in the change list
+ */
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  const text = String(value);
+  return /^\d{4}-\d{2}-\d{2}T/.test(text) ? text.slice(0, 10) : text;
+};
+
+/**
+ * Counts and per-deal lists of added, changed and removed deals
+ */
+const DeltaChangeList: React.FC<DeltaChangeListProps> = ({ summary }) => {
+  const [activeTab, setActiveTab] = useState<DeltaTab>(summary.changed.length > 0 ? 'changed' : 'added');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const tabs: { id: DeltaTab; label: string; count: number }[] = [
+    { id: 'added', label: 'Added', count: summary.added.length },
+    { id: 'changed', label: 'Changed', count: summary.changed.length },
+    { id: 'removed', label: 'Removed', count: summary.removed.length }
+  ];
+
+  const activeCount = tabs.find(tab => tab.id === activeTab)?.count || 0;
+
+  const handleTabChange = (tab: DeltaTab) => {
+    setActiveTab(tab);
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const renderChange = (change: FieldChange) => (
+    <div key={change.field} className="flex gap-2">
+      <span className="text-gray-500 w-40 shrink-0">{change.label}</span>
+      <span className="text-red-600 line-through truncate">{formatValue(change.before)}</span>
+      <span className="text-gray-400">→</span>
+      <span className="text-green-700 truncate">{formatValue(change.after)}</span>
+    </div>
+  );
+
+  return (
+    <>
+      <div className="p-4 border-b border-gray-200 grid grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-gray-500">New deals</p>
+          <p className="text-xl font-semibold text-green-700">{summary.added.length.toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Changed deals</p>
+          <p className="text-xl font-semibold text-blue-700">{summary.changed.length.toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Missing deals</p>
+          <p className="text-xl font-semibold text-red-600">{summary.removed.length.toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Unchanged</p>
+          <p className="text-xl font-semibold">{summary.unchangedCount.toLocaleString()}</p>
+        </div>
+      </div>
+
+      {summary.missingKeyCount > 0 && (
+        <div className="px-4 py-2 border-b border-gray-200 flex items-center text-sm text-amber-600">
+          <AlertTriangle size={16} className="mr-2" />
+          {summary.missingKeyCount.toLocaleString()} rows have no value in any key field and can't be matched.
+        </div>
+      )}
+
+      {summary.duplicateKeys.length > 0 && (
+        <div className="px-4 py-2 border-b border-gray-200 flex items-center text-sm text-amber-600">
+          <AlertTriangle size={16} className="mr-2" />
+          {summary.duplicateKeys.length.toLocaleString()} rows repeat the key of an earlier row and will be ignored.
+        </div>
+      )}
+
+      <div className="px-4 pt-2 border-b border-gray-200 flex gap-4 text-sm">
+        {tabs.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => handleTabChange(tab.id)}
+            className={`pb-2 border-b-2 ${activeTab === tab.id ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600 hover:text-gray-900'}`}
+          >
+            {tab.label} ({tab.count.toLocaleString()})
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-y-auto flex-1 text-sm">
+        {activeCount === 0 && (
+          <p className="p-4 text-gray-500">Nothing to show.</p>
+        )}
+
+        {activeTab === 'added' && summary.added.slice(0, visibleCount).map(deal => (
+          <div key={deal.key} className="px-4 py-2 border-b border-gray-100">
+            {deal.targetName || deal.key}
+          </div>
+        ))}
+
+        {activeTab === 'changed' && summary.changed.slice(0, visibleCount).map(deal => (
+          <div key={deal.key} className="px-4 py-2 border-b border-gray-100">
+            <p className="font-medium mb-1">{deal.targetName || deal.key}</p>
+            <div className="space-y-1 text-xs">
+              {deal.changes.map(renderChange)}
+            </div>
+          </div>
+        ))}
+
+        {activeTab === 'removed' && summary.removed.slice(0, visibleCount).map(deal => (
+          <div key={deal.key} className="px-4 py-2 border-b border-gray-100">
+            {deal.targetName || deal.key}
+          </div>
+        ))}
+
+        {activeCount > visibleCount && (
+          <div className="p-4 text-center">
+            <button
+              onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Show more
+            </button>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default DeltaChangeList;
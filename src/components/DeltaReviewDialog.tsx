@@ -0,0 +1,58 @@
+import React from 'react';
+import { GitCompare } from 'lucide-react';
+import { DeltaSummary } from '../services/delta-import';
+import { getFieldDefinition } from '../services/column-mapping';
+import DeltaChangeList from './DeltaChangeList';
+
+interface DeltaReviewDialogProps {
+  summary: DeltaSummary;
+  onCommit: () => void;
+  onDiscard: () => void;
+}
+
+const DeltaReviewDialog: React.FC<DeltaReviewDialogProps> = ({ summary, onCommit, onDiscard }) => {
+  const hasChanges = summary.added.length + summary.changed.length + summary.removed.length + summary.missingKeyCount > 0;
+  const keyLabels = summary.identityKey.map(field => getFieldDefinition(field)?.label || field);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col text-gray-900">
+        <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center">
+            <GitCompare size={20} className="text-gray-500 mr-2" />
+            <h2 className="text-lg font-semibold">Review Changes</h2>
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            {summary.sourceFile} — deals matched on {keyLabels.join(', ')}
+          </p>
+        </div>
+
+        <DeltaChangeList summary={summary} />
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            Missing deals are kept and flagged as removed.
+            {summary.missingKeyCount > 0 && ' Rows without a key are added as new deals.'}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={onDiscard}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Discard
+            </button>
+            <button
+              onClick={onCommit}
+              disabled={!hasChanges}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Apply Changes
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeltaReviewDialog;
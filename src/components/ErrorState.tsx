@@ -0,0 +1,46 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { IpcError } from '../services/ipc-contract';
+
+interface ErrorStateProps {
+  error: IpcError;
+  // Shown as a retry button when the error may go away on a second attempt
+  onRetry?: () => void;
+  // Single line for small spaces such as a filter section
+  compact?: boolean;
+}
+
+const ErrorState: React.FC<ErrorStateProps> = ({ error, onRetry, compact = false }) => {
+  const retryButton = onRetry && error.retryable && (
+    <button
+      onClick={onRetry}
+      className="flex items-center px-2 py-1 text-sm text-red-700 border border-red-300 rounded-md hover:bg-red-100 flex-shrink-0"
+    >
+      <RefreshCw size={14} className="mr-1" />
+      Retry
+    </button>
+  );
+
+  if (compact) {
+    return (
+      <div className="flex items-center justify-between gap-2 p-2 text-sm text-red-700 bg-red-50 rounded-md" title={error.message}>
+        <span className="flex items-center min-w-0">
+          <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+          <span className="truncate">{error.title}</span>
+        </span>
+        {retryButton}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full p-6 text-center">
+      <AlertTriangle className="w-10 h-10 text-red-500 mb-3" />
+      <p className="font-semibold text-gray-800">{error.title}</p>
+      <p className="mt-1 mb-4 text-sm text-gray-600 max-w-md">{error.message}</p>
+      {retryButton}
+    </div>
+  );
+};
+
+export default ErrorState;
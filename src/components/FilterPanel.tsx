@@ -1,94 +1,258 @@
-import React, { useState, useEffect } from 'react';
-import { Calendar, DollarSign, Map, Tag, Filter } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  ArrowDownAZ,
+  ArrowDownWideNarrow,
+  ArrowLeftRight,
+  Calendar,
+  CheckCircle,
+  DollarSign,
+  Filter,
+  Globe,
+  Map,
+  Search,
+  Tag,
+  X
+} from 'lucide-react';
 // Import electron types
 import '../types/electron.d.ts';
+import { QueryClause } from '../services/query-syntax';
+import { getFieldDefinition } from '../services/column-mapping';
+import {
+  DealsFilters,
+  FacetCounts,
+  FilterOptions,
+  IpcError,
+  RANGE_FILTER_FIELDS,
+  RangeFilter,
+  RangeFilterField,
+  toIpcError
+} from '../services/ipc-contract';
+import ErrorState from './ErrorState';
+import RangeSlider from './RangeSlider';
+import TreeFilter from './TreeFilter';
 
 interface FilterPanelProps {
-  onFilterChange: (filters: Record<string, any>) => void;
+  onFilterChange: (filters: DealsFilters) => void;
+  // Deals per value of each list filter, given the other filters
+  facets?: FacetCounts | null;
+  // Top-level parts of the search box query, shown as chips
+  queryClauses?: QueryClause[];
+  onRemoveQueryClause?: (index: number) => void;
+  // Opens the editor of the aliases resolving places to countries and regions
+  onEditGeographyAliases?: () => void;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ onFilterChange }) => {
+// How each range filter is shown
+const RANGE_DISPLAY: Record<RangeFilterField, { unit: string; logarithmic: boolean; decimals: number }> = {
+  transactionValue: { unit: '$MM', logarithmic: true, decimals: 0 },
+  targetEnterpriseValue: { unit: '$MM', logarithmic: true, decimals: 0 },
+  targetRevenue: { unit: '$MM', logarithmic: true, decimals: 0 },
+  targetEbitda: { unit: '$MM', logarithmic: true, decimals: 0 },
+  evEbitdaMultiple: { unit: 'x', logarithmic: false, decimals: 1 },
+  evRevenueMultiple: { unit: 'x', logarithmic: false, decimals: 1 },
+  ebitdaMargin: { unit: '%', logarithmic: false, decimals: 1 }
+};
+
+const EMPTY_OPTIONS: FilterOptions = {
+  transactionTypes: [],
+  statuses: [],
+  regions: [],
+  acquirerCountries: [],
+  regionTree: [],
+  acquirerCountryTree: [],
+  unmappedGeographies: [],
+  industries: [],
+  industryTree: [],
+  unmappedIndustries: [],
+  ranges: Object.fromEntries(RANGE_FILTER_FIELDS.map(field => [field, null])) as FilterOptions['ranges']
+};
+
+const CROSS_BORDER_OPTIONS: { value: DealsFilters['crossBorder']; label: string }[] = [
+  { value: undefined, label: 'All deals' },
+  { value: 'crossBorder', label: 'Cross-border' },
+  { value: 'domestic', label: 'Domestic' }
+];
+
+// Lists longer than this get a search box
+const SEARCHABLE_OPTIONS = 8;
+
+interface CheckboxGroupProps {
+  id: string;
+  title: string;
+  icon: React.ReactNode;
+  options: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  // Deals per value given the other filters; unknown until the first query returns
+  counts?: Record<string, number>;
+}
+
+/**
+ * Filter section with one checkbox per value, showing how many deals each
+ * would match. Values without deals are dimmed but can still be selected.
+ */
+const CheckboxGroup: React.FC<CheckboxGroupProps> = ({ id, title, icon, options, selected, onChange, counts }) => {
+  const [search, setSearch] = useState('');
+  const [sortByCount, setSortByCount] = useState(false);
+  
+  const toggle = (option: string) => {
+    onChange(selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option]);
+  };
+  
+  const shown = useMemo(() => {
+    const text = search.trim().toLowerCase();
+    const matching = text ? options.filter(option => option.toLowerCase().includes(text)) : options;
+    return sortByCount && counts
+      ? [...matching].sort((a, b) => (counts[b] || 0) - (counts[a] || 0) || a.localeCompare(b))
+      : matching;
+  }, [options, search, sortByCount, counts]);
+  
+  return (
+    <div className="p-4 border-b border-gray-200 last:border-b-0">
+      <div className="flex items-center mb-3">
+        {icon}
+        <h3 className="font-medium">{title}</h3>
+        {counts && options.length > 1 && (
+          <button
+            onClick={() => setSortByCount(!sortByCount)}
+            className="ml-auto flex items-center text-xs text-gray-500 hover:text-gray-800"
+            title={sortByCount ? 'Sort by name' : 'Sort by number of deals'}
+          >
+            {sortByCount ? <ArrowDownWideNarrow size={14} className="mr-1" /> : <ArrowDownAZ size={14} className="mr-1" />}
+            {sortByCount ? 'Count' : 'Name'}
+          </button>
+        )}
+      </div>
+      {options.length > SEARCHABLE_OPTIONS && (
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={`Find ${title.toLowerCase()}...`}
+          className="w-full mb-2 p-1 border border-gray-300 rounded-md text-sm"
+        />
+      )}
+      <div className="space-y-2 max-h-40 overflow-y-auto">
+        {shown.map(option => {
+          const count = counts ? counts[option] || 0 : null;
+          return (
+            <div key={option} className="flex items-center">
+              <input
+                type="checkbox"
+                id={`${id}-${option}`}
+                checked={selected.includes(option)}
+                onChange={() => toggle(option)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label
+                htmlFor={`${id}-${option}`}
+                className={`ml-2 block text-sm truncate ${count === 0 ? 'text-gray-400' : 'text-gray-700'}`}
+                title={option}
+              >
+                {option}
+              </label>
+              {count !== null && (
+                <span className={`ml-auto pl-2 text-xs ${count === 0 ? 'text-gray-300' : 'text-gray-500'}`}>
+                  {count.toLocaleString()}
+                </span>
+              )}
+            </div>
+          );
+        })}
+        {shown.length === 0 && search && (
+          <p className="text-xs text-gray-400">No {title.toLowerCase()} match "{search}"</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const FilterPanel: React.FC<FilterPanelProps> = ({
+  onFilterChange,
+  facets,
+  queryClauses = [],
+  onRemoveQueryClause,
+  onEditGeographyAliases
+}) => {
   const [dateRange, setDateRange] = useState<{ start: string; end: string }>({ start: '', end: '' });
-  const [transactionTypes, setTransactionTypes] = useState<string[]>([]);
+  const [options, setOptions] = useState<FilterOptions>(EMPTY_OPTIONS);
   const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
-  const [dealSizeRange, setDealSizeRange] = useState<{ min: string; max: string }>({ min: '', max: '' });
-  const [regions, setRegions] = useState<string[]>([]);
+  const [selectedStatuses, setSelectedStatuses] = useState<string[]>([]);
   const [selectedRegions, setSelectedRegions] = useState<string[]>([]);
-  const [industries, setIndustries] = useState<string[]>([]);
+  const [selectedCountries, setSelectedCountries] = useState<string[]>([]);
   const [selectedIndustries, setSelectedIndustries] = useState<string[]>([]);
+  const [crossBorder, setCrossBorder] = useState<DealsFilters['crossBorder']>(undefined);
+  const [ranges, setRanges] = useState<Partial<Record<RangeFilterField, RangeFilter>>>({});
+  const [optionsError, setOptionsError] = useState<IpcError | null>(null);
   
   // Fetch filter options from the database
-  useEffect(() => {
-    const loadFilterOptions = async () => {
-      if (window.electron) {
-        try {
-          // Get transaction types
-          const types = await window.electron.getTransactionTypes();
-          setTransactionTypes(types);
-          
-          // Get regions
-          const regionList = await window.electron.getRegions();
-          setRegions(regionList);
-          
-          // Get industries
-          const industryList = await window.electron.getIndustries();
-          setIndustries(industryList);
-        } catch (error) {
-          console.error('Failed to load filter options:', error);
-        }
+  const loadFilterOptions = useCallback(async () => {
+    if (window.electron) {
+      try {
+        // Values of the list filters and bounds of the ranges in one round trip
+        setOptions(await window.electron.getFilterOptions());
+        setOptionsError(null);
+      } catch (error) {
+        console.error('Failed to load filter options:', error);
+        setOptionsError(toIpcError(error));
       }
-    };
-    
-    loadFilterOptions();
+    }
   }, []);
   
+  useEffect(() => {
+    loadFilterOptions();
+  }, [loadFilterOptions]);
+  
   // Apply filters when selections change
   useEffect(() => {
-    const filters: Record<string, any> = {};
+    const filters: DealsFilters = {};
     
     if (dateRange.start) filters.startDate = dateRange.start;
     if (dateRange.end) filters.endDate = dateRange.end;
     if (selectedTypes.length > 0) filters.transactionTypes = selectedTypes;
-    if (dealSizeRange.min) filters.minSize = parseFloat(dealSizeRange.min);
-    if (dealSizeRange.max) filters.maxSize = parseFloat(dealSizeRange.max);
+    if (selectedStatuses.length > 0) filters.statuses = selectedStatuses;
     if (selectedRegions.length > 0) filters.regions = selectedRegions;
+    if (selectedCountries.length > 0) filters.acquirerCountries = selectedCountries;
     if (selectedIndustries.length > 0) filters.industries = selectedIndustries;
+    if (crossBorder) filters.crossBorder = crossBorder;
+    
+    // Only ranges with at least one end set filter anything
+    const setRangeFilters = Object.entries(ranges)
+      .filter(([, range]) => range && (range.min !== undefined || range.max !== undefined));
+    if (setRangeFilters.length > 0) filters.ranges = Object.fromEntries(setRangeFilters);
     
     onFilterChange(filters);
-  }, [dateRange, selectedTypes, dealSizeRange, selectedRegions, selectedIndustries, onFilterChange]);
-  
-  const handleTypeChange = (type: string) => {
-    if (selectedTypes.includes(type)) {
-      setSelectedTypes(selectedTypes.filter(t => t !== type));
-    } else {
-      setSelectedTypes([...selectedTypes, type]);
-    }
-  };
+  }, [dateRange, selectedTypes, selectedStatuses, selectedRegions, selectedCountries, selectedIndustries, crossBorder, ranges, onFilterChange]);
   
-  const handleRegionChange = (region: string) => {
-    if (selectedRegions.includes(region)) {
-      setSelectedRegions(selectedRegions.filter(r => r !== region));
-    } else {
-      setSelectedRegions([...selectedRegions, region]);
-    }
-  };
-  
-  const handleIndustryChange = (industry: string) => {
-    if (selectedIndustries.includes(industry)) {
-      setSelectedIndustries(selectedIndustries.filter(i => i !== industry));
-    } else {
-      setSelectedIndustries([...selectedIndustries, industry]);
-    }
+  const handleRangeChange = (field: RangeFilterField, range: RangeFilter) => {
+    setRanges(current => ({ ...current, [field]: range }));
   };
   
   const resetFilters = () => {
     setDateRange({ start: '', end: '' });
     setSelectedTypes([]);
-    setDealSizeRange({ min: '', max: '' });
+    setSelectedStatuses([]);
     setSelectedRegions([]);
+    setSelectedCountries([]);
     setSelectedIndustries([]);
+    setCrossBorder(undefined);
+    setRanges({});
   };
   
+  const geographyHint = (
+    <>
+      Give them an alias to resolve them to a country or region.
+      {onEditGeographyAliases && (
+        <>
+          {' '}
+          <button onClick={onEditGeographyAliases} className="text-blue-600 hover:text-blue-800">
+            Edit aliases
+          </button>
+        </>
+      )}
+    </>
+  );
+  
   return (
     <div className="bg-white rounded-lg shadow">
       <div className="p-4 border-b border-gray-200">
@@ -101,8 +265,44 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onFilterChange }) => {
             Reset All
           </button>
         </div>
+        {optionsError && (
+          <div className="mt-3">
+            <ErrorState error={optionsError} onRetry={loadFilterOptions} compact />
+          </div>
+        )}
       </div>
       
+      {/* Search box query */}
+      {queryClauses.length > 0 && (
+        <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center mb-3">
+            <Search size={18} className="text-gray-500 mr-2" />
+            <h3 className="font-medium">Search</h3>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {queryClauses.map((clause, index) => (
+              <span
+                key={`${index}-${clause.source}`}
+                className={`inline-flex items-center max-w-full px-2 py-1 rounded-full text-xs ${
+                  clause.isText ? 'bg-gray-100 text-gray-700' : 'bg-blue-50 text-blue-700'
+                }`}
+              >
+                <span className="truncate" title={clause.source}>{clause.source}</span>
+                {onRemoveQueryClause && (
+                  <button
+                    onClick={() => onRemoveQueryClause(index)}
+                    className="ml-1 text-gray-400 hover:text-gray-700"
+                    title="Remove"
+                  >
+                    <X size={12} />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+      
       {/* Date Range Filter */}
       <div className="p-4 border-b border-gray-200">
         <div className="flex items-center mb-3">
@@ -133,111 +333,111 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onFilterChange }) => {
         </div>
       </div>
       
-      {/* Transaction Types Filter */}
-      <div className="p-4 border-b border-gray-200">
-        <div className="flex items-center mb-3">
-          <Filter size={18} className="text-gray-500 mr-2" />
-          <h3 className="font-medium">Transaction Type</h3>
-        </div>
-        <div className="space-y-2 max-h-40 overflow-y-auto">
-          {transactionTypes.map(type => (
-            <div key={type} className="flex items-center">
-              <input
-                type="checkbox"
-                id={`type-${type}`}
-                checked={selectedTypes.includes(type)}
-                onChange={() => handleTypeChange(type)}
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-              />
-              <label htmlFor={`type-${type}`} className="ml-2 block text-sm text-gray-700">
-                {type}
-              </label>
-            </div>
-          ))}
-        </div>
-      </div>
+      <CheckboxGroup
+        id="type"
+        title="Transaction Type"
+        icon={<Filter size={18} className="text-gray-500 mr-2" />}
+        options={options.transactionTypes}
+        selected={selectedTypes}
+        counts={facets?.transactionTypes}
+        onChange={setSelectedTypes}
+      />
+      
+      <CheckboxGroup
+        id="status"
+        title="Status"
+        icon={<CheckCircle size={18} className="text-gray-500 mr-2" />}
+        options={options.statuses}
+        selected={selectedStatuses}
+        counts={facets?.statuses}
+        onChange={setSelectedStatuses}
+      />
       
-      {/* Deal Size Filter */}
+      {/* Size and multiples */}
       <div className="p-4 border-b border-gray-200">
         <div className="flex items-center mb-3">
           <DollarSign size={18} className="text-gray-500 mr-2" />
-          <h3 className="font-medium">Deal Size ($MM)</h3>
-        </div>
-        <div className="grid grid-cols-2 gap-2">
-          <div>
-            <label htmlFor="min-size" className="block text-sm text-gray-600 mb-1">Min</label>
-            <input
-              id="min-size"
-              type="number"
-              min="0"
-              step="1"
-              value={dealSizeRange.min}
-              onChange={(e) => setDealSizeRange({ ...dealSizeRange, min: e.target.value })}
-              className="w-full p-2 border border-gray-300 rounded-md text-sm"
-            />
-          </div>
-          <div>
-            <label htmlFor="max-size" className="block text-sm text-gray-600 mb-1">Max</label>
-            <input
-              id="max-size"
-              type="number"
-              min="0"
-              step="1"
-              value={dealSizeRange.max}
-              onChange={(e) => setDealSizeRange({ ...dealSizeRange, max: e.target.value })}
-              className="w-full p-2 border border-gray-300 rounded-md text-sm"
-            />
-          </div>
+          <h3 className="font-medium">Size & Multiples</h3>
         </div>
+        {RANGE_FILTER_FIELDS.map(field => (
+          <RangeSlider
+            key={field}
+            id={`range-${field}`}
+            label={getFieldDefinition(field)?.label || field}
+            bounds={options.ranges[field]}
+            value={ranges[field] || {}}
+            onChange={(range) => handleRangeChange(field, range)}
+            {...RANGE_DISPLAY[field]}
+          />
+        ))}
       </div>
       
-      {/* Regions Filter */}
+      <TreeFilter
+        id="region"
+        title="Regions"
+        icon={<Map size={18} className="text-gray-500 mr-2" />}
+        tree={options.regionTree}
+        selected={selectedRegions}
+        counts={facets?.regions}
+        unmapped={options.unmappedGeographies.filter(place => options.regions.includes(place))}
+        unmappedNoun={['region', 'regions']}
+        unmappedHint={geographyHint}
+        onChange={setSelectedRegions}
+      />
+      
+      <TreeFilter
+        id="country"
+        title="Acquirer Country"
+        icon={<Globe size={18} className="text-gray-500 mr-2" />}
+        tree={options.acquirerCountryTree}
+        selected={selectedCountries}
+        counts={facets?.acquirerCountries}
+        unmapped={options.unmappedGeographies.filter(place => options.acquirerCountries.includes(place))}
+        unmappedNoun={['country', 'countries']}
+        unmappedHint={geographyHint}
+        onChange={setSelectedCountries}
+      />
+      
+      {/* Acquirer from another country than the target */}
       <div className="p-4 border-b border-gray-200">
         <div className="flex items-center mb-3">
-          <Map size={18} className="text-gray-500 mr-2" />
-          <h3 className="font-medium">Regions</h3>
+          <ArrowLeftRight size={18} className="text-gray-500 mr-2" />
+          <h3 className="font-medium">Cross-border</h3>
         </div>
-        <div className="space-y-2 max-h-40 overflow-y-auto">
-          {regions.map(region => (
-            <div key={region} className="flex items-center">
+        <div className="space-y-2">
+          {CROSS_BORDER_OPTIONS.map(option => (
+            <div key={option.label} className="flex items-center">
               <input
-                type="checkbox"
-                id={`region-${region}`}
-                checked={selectedRegions.includes(region)}
-                onChange={() => handleRegionChange(region)}
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                type="radio"
+                id={`cross-border-${option.value || 'all'}`}
+                name="cross-border"
+                checked={crossBorder === option.value}
+                onChange={() => setCrossBorder(option.value)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
               />
-              <label htmlFor={`region-${region}`} className="ml-2 block text-sm text-gray-700">
-                {region}
+              <label htmlFor={`cross-border-${option.value || 'all'}`} className="ml-2 block text-sm text-gray-700">
+                {option.label}
               </label>
             </div>
           ))}
         </div>
+        <p className="mt-2 text-xs text-gray-400">
+          Deals where one place contains the other, such as a French acquirer of a target in Europe, are neither.
+        </p>
       </div>
       
-      {/* Industries Filter */}
-      <div className="p-4">
-        <div className="flex items-center mb-3">
-          <Tag size={18} className="text-gray-500 mr-2" />
-          <h3 className="font-medium">Industries</h3>
-        </div>
-        <div className="space-y-2 max-h-40 overflow-y-auto">
-          {industries.map(industry => (
-            <div key={industry} className="flex items-center">
-              <input
-                type="checkbox"
-                id={`industry-${industry}`}
-                checked={selectedIndustries.includes(industry)}
-                onChange={() => handleIndustryChange(industry)}
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-              />
-              <label htmlFor={`industry-${industry}`} className="ml-2 block text-sm text-gray-700 truncate" title={industry}>
-                {industry}
-              </label>
-            </div>
-          ))}
-        </div>
-      </div>
+      <TreeFilter
+        id="industry"
+        title="Industries"
+        icon={<Tag size={18} className="text-gray-500 mr-2" />}
+        tree={options.industryTree}
+        selected={selectedIndustries}
+        counts={facets?.industries}
+        unmapped={options.unmappedIndustries}
+        unmappedNoun={['industry', 'industries']}
+        unmappedHint={<>Add them to <code>industry-taxonomy.json</code> in the data directory to classify them.</>}
+        onChange={setSelectedIndustries}
+      />
     </div>
   );
 };
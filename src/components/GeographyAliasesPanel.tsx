@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Globe, Plus, Trash2, X } from 'lucide-react';
+// Import electron types
+import '../types/electron.d.ts';
+import { GeographyAliases, geographyTargets } from '../services/geography';
+import { toIpcError } from '../services/ipc-contract';
+
+interface GeographyAliasesPanelProps {
+  onClose: () => void;
+  // Called once the aliases are saved and the data reloaded
+  onSaved: () => void;
+}
+
+interface AliasRow {
+  place: string;
+  target: string;
+  // Saved before; clearing the target of a saved alias drops the default one
+  saved: boolean;
+}
+
+/**
+ * Editor of the aliases resolving raw target regions and acquirer countries
+ * to countries, sub-regions and continents. Places that don't resolve yet are
+ * listed first with an empty target.
+ */
+const GeographyAliasesPanel: React.FC<GeographyAliasesPanelProps> = ({ onClose, onSaved }) => {
+  const [rows, setRows] = useState<AliasRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Names an alias can point to, matched without regard to case
+  const targetNames = useMemo(() => {
+    const names = new Map<string, string>();
+    geographyTargets().forEach(target => names.set(target.name.toLowerCase(), target.name));
+    return names;
+  }, []);
+
+  useEffect(() => {
+    const loadAliases = async () => {
+      if (!window.electron) return;
+      try {
+        const [aliases, options] = await Promise.all([
+          window.electron.getGeographyAliases(),
+          window.electron.getFilterOptions()
+        ]);
+        setRows([
+          ...options.unmappedGeographies
+            .filter(place => !(place in aliases))
+            .map(place => ({ place, target: '', saved: false })),
+          ...Object.entries(aliases)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([place, target]) => ({ place, target, saved: true }))
+        ]);
+      } catch (err) {
+        console.error('Failed to load geography aliases:', err);
+        setError(toIpcError(err).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAliases();
+  }, []);
+
+  const isValidTarget = (target: string) => !target.trim() || targetNames.has(target.trim().toLowerCase());
+  const canSave = !saving && rows.every(row => isValidTarget(row.target));
+
+  const updateRow = (index: number, changes: Partial<AliasRow>) => {
+    setRows(current => current.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const handleSave = async () => {
+    if (!window.electron) return;
+    const aliases: GeographyAliases = {};
+    rows.forEach(row => {
+      const place = row.place.trim();
+      const target = row.target.trim();
+      if (place && (target || row.saved)) {
+        aliases[place] = target ? targetNames.get(target.toLowerCase()) || target : '';
+      }
+    });
+
+    setSaving(true);
+    try {
+      await window.electron.saveGeographyAliases(aliases);
+      onSaved();
+    } catch (err) {
+      console.error('Failed to save geography aliases:', err);
+      setError(toIpcError(err).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col text-gray-900">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center">
+            <Globe size={20} className="text-gray-500 mr-2" />
+            <h2 className="text-lg font-semibold">Geography Aliases</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-200 text-sm text-gray-600">
+          Resolve places as they're spelled in the data to an ISO country code or name, a sub-region such
+          as <em>Western Europe</em>, or a continent. Country names and codes resolve without an alias.
+          Leave a saved alias empty to drop the built-in one for that place.
+        </div>
+
+        {loading && <div className="p-4 text-sm text-gray-500">Loading aliases...</div>}
+        {error && <div className="p-4 text-sm text-red-600">{error}</div>}
+
+        {!loading && (
+          <div className="flex-1 overflow-y-auto p-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="pb-2 font-medium">Place in the data</th>
+                  <th className="pb-2 font-medium">Resolves to</th>
+                  <th className="pb-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr key={index} className="border-t border-gray-100">
+                    <td className="py-1 pr-2">
+                      <input
+                        type="text"
+                        value={row.place}
+                        onChange={(e) => updateRow(index, { place: e.target.value })}
+                        className="w-full p-1 border border-gray-300 rounded-md"
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="text"
+                        list="geography-targets"
+                        value={row.target}
+                        onChange={(e) => updateRow(index, { target: e.target.value })}
+                        placeholder={row.saved ? 'Built-in alias dropped' : 'Country, sub-region or continent'}
+                        className={`w-full p-1 border rounded-md ${
+                          isValidTarget(row.target) ? 'border-gray-300' : 'border-red-500'
+                        }`}
+                      />
+                    </td>
+                    <td className="py-1 text-right">
+                      <button
+                        onClick={() => setRows(current => current.filter((_, i) => i !== index))}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove alias"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length === 0 && (
+              <p className="text-sm text-gray-500">Every place in the data resolves and there are no saved aliases.</p>
+            )}
+            <datalist id="geography-targets">
+              {Array.from(targetNames.values()).map(name => <option key={name} value={name} />)}
+            </datalist>
+            <button
+              onClick={() => setRows(current => [...current, { place: '', target: '', saved: false }])}
+              className="mt-3 flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus size={16} className="mr-1" />
+              Add alias
+            </button>
+          </div>
+        )}
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GeographyAliasesPanel;
@@ -1,12 +1,16 @@
 import React from 'react';
 
-const LoadingOverlay: React.FC = () => {
+interface LoadingOverlayProps {
+  message?: string | null;
+}
+
+const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ message }) => {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white p-6 rounded-lg shadow-xl">
         <div className="flex flex-col items-center">
           <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500 mb-4"></div>
-          <p className="text-gray-700 font-medium">Processing data...</p>
+          <p className="text-gray-700 font-medium">{message || 'Processing data...'}</p>
         </div>
       </div>
     </div>
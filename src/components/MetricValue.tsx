@@ -0,0 +1,35 @@
+import React from 'react';
+import { Deal } from '../types/deal.types';
+import { DERIVATION_NOTES, DerivableField, describeConflict } from '../services/derived-metrics';
+
+interface MetricValueProps {
+  deal: Deal | undefined;
+  field: DerivableField;
+  children: React.ReactNode;
+}
+
+/**
+ * Shows a formatted metric, in italics when the deal doesn't report it and it
+ * was derived, with a badge when a reported multiple contradicts its components
+ */
+const MetricValue: React.FC<MetricValueProps> = ({ deal, field, children }) => {
+  const derived = deal?.derivedFields?.includes(field);
+  const conflict = deal?.metricConflicts?.find(c => c.field === field);
+  return (
+    <>
+      {derived ? (
+        <span className="italic text-gray-500" title={`Derived: ${DERIVATION_NOTES[field]}`}>{children}</span>
+      ) : children}
+      {conflict && (
+        <span
+          className="ml-1 px-1 rounded bg-amber-100 text-amber-700 text-xs font-medium"
+          title={describeConflict(conflict)}
+        >
+          Conflict
+        </span>
+      )}
+    </>
+  );
+};
+
+export default MetricValue;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Deal } from '../types/deal.types';
+import { OUTLIER_FIELD_LABELS, OutlierField } from '../services/outliers';
+
+interface OutlierBadgeProps {
+  deal: Deal | undefined;
+  field: OutlierField;
+}
+
+/**
+ * Marks a multiple flagged as an outlier among the deal's peers
+ */
+const OutlierBadge: React.FC<OutlierBadgeProps> = ({ deal, field }) => {
+  if (!deal?.outliers?.includes(field)) return null;
+  return (
+    <span
+      className="ml-1 px-1 rounded bg-red-100 text-red-700 text-xs font-medium"
+      title={`${OUTLIER_FIELD_LABELS[field]} is an outlier among deals of the same sector and size`}
+    >
+      Outlier
+    </span>
+  );
+};
+
+export default OutlierBadge;
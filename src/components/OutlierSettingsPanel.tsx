@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import {
+  DEFAULT_OUTLIER_THRESHOLDS,
+  MIN_PEER_GROUP,
+  OutlierMethod,
+  OutlierSettings,
+  SIZE_BUCKETS
+} from '../services/outliers';
+
+interface OutlierSettingsPanelProps {
+  settings: OutlierSettings;
+  onSave: (settings: OutlierSettings) => void;
+  onClose: () => void;
+}
+
+const METHODS: { value: OutlierMethod; label: string; hint: string }[] = [
+  {
+    value: 'iqr',
+    label: 'Interquartile range',
+    hint: 'Flags values more than the threshold times the IQR below the 25th or above the 75th percentile.'
+  },
+  {
+    value: 'mad',
+    label: 'Median absolute deviation',
+    hint: 'Flags values whose modified z-score, their distance from the median in scaled MADs, is above the threshold.'
+  }
+];
+
+/**
+ * Editor of the rule flagging outlying EV/EBITDA and EV/Revenue multiples
+ */
+const OutlierSettingsPanel: React.FC<OutlierSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [method, setMethod] = useState(settings.method);
+  const [threshold, setThreshold] = useState(String(settings.threshold));
+  const [flagNonPositive, setFlagNonPositive] = useState(settings.flagNonPositive);
+
+  const isValidThreshold = Number(threshold) > 0;
+
+  const handleMethodChange = (value: OutlierMethod) => {
+    setMethod(value);
+    setThreshold(String(DEFAULT_OUTLIER_THRESHOLDS[value]));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg flex flex-col text-gray-900">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center">
+            <SlidersHorizontal size={20} className="text-gray-500 mr-2" />
+            <h2 className="text-lg font-semibold">Outlier Rule</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          <p className="text-gray-600">
+            Multiples are compared with deals of the same sector and size bucket
+            ({SIZE_BUCKETS.map(bucket => bucket.label).join(', ')} by enterprise value). Groups of fewer
+            than {MIN_PEER_GROUP} deals are compared with their whole sector, or with every deal.
+          </p>
+
+          {METHODS.map(option => (
+            <label key={option.value} className="flex items-start">
+              <input
+                type="radio"
+                name="outlier-method"
+                checked={method === option.value}
+                onChange={() => handleMethodChange(option.value)}
+                className="mt-1 mr-2"
+              />
+              <span>
+                <span className="font-medium">{option.label}</span>
+                <span className="block text-gray-500">{option.hint}</span>
+              </span>
+            </label>
+          ))}
+
+          <label className="block">
+            <span className="text-gray-600">Threshold</span>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className={`mt-1 block w-32 p-1 border rounded-md ${isValidThreshold ? 'border-gray-300' : 'border-red-500'}`}
+            />
+          </label>
+
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={flagNonPositive}
+              onChange={(e) => setFlagNonPositive(e.target.checked)}
+              className="mr-2"
+            />
+            Flag zero and negative multiples
+          </label>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({ ...settings, method, threshold: Number(threshold), flagNonPositive })}
+            disabled={!isValidThreshold}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OutlierSettingsPanel;
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { RangeFilter, ValueBounds } from '../services/ipc-contract';
+
+// Slider positions between the lowest and highest value
+const STEPS = 200;
+
+interface RangeSliderProps {
+  id: string;
+  label: string;
+  // Shown after the values, e.g. "$MM" or "x"
+  unit?: string;
+  // Lowest and highest value in the data; null when the field has none
+  bounds: ValueBounds | null;
+  value: RangeFilter;
+  onChange: (value: RangeFilter) => void;
+  // Spread positions on a log scale, for values spanning orders of magnitude
+  logarithmic?: boolean;
+  decimals?: number;
+}
+
+// Log scale that also works for zero and negative values
+const toScale = (value: number, logarithmic: boolean) =>
+  logarithmic ? Math.sign(value) * Math.log1p(Math.abs(value)) : value;
+const fromScale = (value: number, logarithmic: boolean) =>
+  logarithmic ? Math.sign(value) * Math.expm1(Math.abs(value)) : value;
+
+/**
+ * Range of a number field as a slider with two handles, plus boxes to type
+ * the ends. A handle moved to the end of the slider leaves that end open.
+ * Changes are reported when a handle is let go, not while it moves.
+ */
+const RangeSlider: React.FC<RangeSliderProps> = ({
+  id,
+  label,
+  unit = '',
+  bounds,
+  value,
+  onChange,
+  logarithmic = false,
+  decimals = 0
+}) => {
+  // Positions while a handle is being dragged
+  const [draft, setDraft] = useState<{ low: number; high: number } | null>(null);
+
+  const round = (number: number) => Number(number.toFixed(decimals));
+  const lowest = bounds ? toScale(bounds.min, logarithmic) : 0;
+  const highest = bounds ? toScale(bounds.max, logarithmic) : 0;
+
+  const toPosition = (number: number | undefined, fallback: number) => {
+    if (number === undefined || !bounds || highest === lowest) return fallback;
+    const position = Math.round((toScale(number, logarithmic) - lowest) / (highest - lowest) * STEPS);
+    return Math.min(STEPS, Math.max(0, position));
+  };
+  const toValue = (position: number) => round(fromScale(lowest + (highest - lowest) * position / STEPS, logarithmic));
+
+  const positions = draft || { low: toPosition(value.min, 0), high: toPosition(value.max, STEPS) };
+
+  // The range was changed elsewhere, e.g. reset
+  useEffect(() => {
+    setDraft(null);
+  }, [value.min, value.max]);
+
+  const commit = () => {
+    if (!draft) return;
+    onChange({
+      ...value,
+      min: draft.low > 0 ? toValue(draft.low) : undefined,
+      max: draft.high < STEPS ? toValue(draft.high) : undefined
+    });
+  };
+
+  const typed = (end: 'min' | 'max', text: string) => {
+    const number = parseFloat(text);
+    onChange({ ...value, [end]: isNaN(number) ? undefined : number });
+  };
+
+  const shown = (position: number, end: number | undefined) =>
+    draft ? (position === 0 || position === STEPS ? '' : String(toValue(position))) : end ?? '';
+
+  const active = value.min !== undefined || value.max !== undefined;
+
+  return (
+    <div className="mb-4 last:mb-0">
+      <div className="flex justify-between items-baseline mb-1">
+        <label htmlFor={`${id}-min`} className="text-sm text-gray-700">{label}</label>
+        {bounds && (
+          <span className="text-xs text-gray-400">
+            {round(bounds.min).toLocaleString()}–{round(bounds.max).toLocaleString()}{unit && ` ${unit}`}
+          </span>
+        )}
+      </div>
+
+      {bounds ? (
+        <>
+          <div className="range-slider relative h-5">
+            <div className="absolute top-2 left-0 right-0 h-1 rounded bg-gray-200"></div>
+            <div
+              className="absolute top-2 h-1 rounded bg-blue-500"
+              style={{ left: `${positions.low / STEPS * 100}%`, right: `${100 - positions.high / STEPS * 100}%` }}
+            ></div>
+            <input
+              type="range"
+              min={0}
+              max={STEPS}
+              value={positions.low}
+              onChange={(e) => setDraft({ ...positions, low: Math.min(Number(e.target.value), positions.high) })}
+              onPointerUp={commit}
+              onKeyUp={commit}
+              className="absolute inset-0 w-full"
+              aria-label={`${label} minimum`}
+            />
+            <input
+              type="range"
+              min={0}
+              max={STEPS}
+              value={positions.high}
+              onChange={(e) => setDraft({ ...positions, high: Math.max(Number(e.target.value), positions.low) })}
+              onPointerUp={commit}
+              onKeyUp={commit}
+              className="absolute inset-0 w-full"
+              aria-label={`${label} maximum`}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2 mt-1">
+            <input
+              id={`${id}-min`}
+              type="number"
+              placeholder="Min"
+              value={shown(positions.low, value.min)}
+              onChange={(e) => typed('min', e.target.value)}
+              className="w-full p-1 border border-gray-300 rounded-md text-sm"
+            />
+            <input
+              id={`${id}-max`}
+              type="number"
+              placeholder="Max"
+              value={shown(positions.high, value.max)}
+              onChange={(e) => typed('max', e.target.value)}
+              className="w-full p-1 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <label className={`flex items-center mt-1 text-xs ${active ? 'text-gray-600' : 'text-gray-400'}`}>
+            <input
+              type="checkbox"
+              checked={Boolean(value.includeNulls)}
+              disabled={!active}
+              onChange={(e) => onChange({ ...value, includeNulls: e.target.checked })}
+              className="h-3 w-3 mr-1 text-blue-600 border-gray-300 rounded"
+            />
+            Include deals without a value
+          </label>
+        </>
+      ) : (
+        <p className="text-xs text-gray-400">No values in the data</p>
+      )}
+    </div>
+  );
+};
+
+export default RangeSlider;
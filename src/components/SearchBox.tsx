@@ -1,33 +1,98 @@
-import React, { useState } from 'react';
-import { Search } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Search, AlertCircle } from 'lucide-react';
+import { ParsedQuery, QuerySyntaxError, parseQuery } from '../services/query-syntax';
+
+// Pause in typing after which the query runs
+const SEARCH_DEBOUNCE_MS = 300;
 
 interface SearchBoxProps {
-  onSearch: (query: string) => void;
+  // Query to show, e.g. after a chip was removed from the filter panel
+  value: string;
+  onSearch: (query: string, parsed: ParsedQuery) => void;
 }
 
-const SearchBox: React.FC<SearchBoxProps> = ({ onSearch }) => {
-  const [query, setQuery] = useState('');
-  
+const SearchBox: React.FC<SearchBoxProps> = ({ value, onSearch }) => {
+  const [query, setQuery] = useState(value);
+  const [error, setError] = useState<QuerySyntaxError | null>(null);
+  const debounceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Last query handed to onSearch, so its echo through `value` doesn't overwrite newer typing
+  const lastSearched = useRef(value);
+
+  useEffect(() => {
+    if (value === lastSearched.current) return;
+    lastSearched.current = value;
+    setQuery(value);
+    setError(null);
+  }, [value]);
+
+  useEffect(() => () => {
+    if (debounceTimer.current) clearTimeout(debounceTimer.current);
+  }, []);
+
+  const runSearch = (text: string) => {
+    if (debounceTimer.current) {
+      clearTimeout(debounceTimer.current);
+      debounceTimer.current = null;
+    }
+    if (text === lastSearched.current) return;
+    try {
+      const parsed = parseQuery(text);
+      setError(null);
+      lastSearched.current = text;
+      onSearch(text, parsed);
+    } catch (err) {
+      if (err instanceof QuerySyntaxError) {
+        setError(err);
+      } else {
+        throw err;
+      }
+    }
+  };
+
+  const handleChange = (text: string) => {
+    setQuery(text);
+    setError(null);
+    if (debounceTimer.current) clearTimeout(debounceTimer.current);
+    debounceTimer.current = setTimeout(() => runSearch(text), SEARCH_DEBOUNCE_MS);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSearch(query);
+    runSearch(query);
   };
-  
+
   return (
     <form onSubmit={handleSubmit} className="relative flex items-center w-full max-w-sm">
       <input
         type="text"
         value={query}
-        onChange={(e) => setQuery(e.target.value)}
-        placeholder="Search deals..."
-        className="py-2 px-4 pr-10 w-full border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder='Search deals, or acquirer:"Blackstone" AND value:>500'
+        title='Words and "phrases", field:value conditions (value:>500, date:2021, industry:software), AND, OR, NOT and parentheses'
+        className={`py-2 px-4 pr-10 w-full border rounded-md focus:outline-none focus:ring-2 ${
+          error ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+        }`}
       />
-      <button 
+      <button
         type="submit"
         className="absolute right-2 text-gray-500 hover:text-blue-500"
       >
         <Search size={18} />
       </button>
+
+      {error && (
+        <div className="absolute top-full left-0 right-0 mt-1 p-2 bg-white border border-red-200 rounded-md shadow-lg z-20 text-sm">
+          <div className="flex items-center text-red-600">
+            <AlertCircle size={14} className="mr-1 flex-shrink-0" />
+            {error.message} (at character {error.position + 1})
+          </div>
+          <pre className="mt-1 font-mono text-xs text-gray-700 whitespace-pre overflow-x-auto">
+            {query.slice(0, error.position)}
+            <span className="bg-red-100 text-red-700 underline">{query[error.position] || ' '}</span>
+            {query.slice(error.position + 1)}
+          </pre>
+        </div>
+      )}
     </form>
   );
 };
@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import { History, Trash2, X, ArrowLeft } from 'lucide-react';
+// Import electron types
+import '../types/electron.d.ts';
+import { DatasetSnapshot, SnapshotKind } from '../services/snapshots';
+import { DeltaSummary } from '../services/delta-import';
+import { toIpcError } from '../services/ipc-contract';
+import DeltaChangeList from './DeltaChangeList';
+
+interface SnapshotsPanelProps {
+  activeSnapshotId: string | null;
+  onOpenSnapshot: (snapshotId: string | null) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<SnapshotKind, string> = {
+  import: 'Import',
+  delta: 'Update',
+  baseline: 'Baseline'
+};
+
+const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({ activeSnapshotId, onOpenSnapshot, onClose }) => {
+  const [snapshots, setSnapshots] = useState<DatasetSnapshot[]>([]);
+  const [regions, setRegions] = useState<string[]>([]);
+  const [industries, setIndustries] = useState<string[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [selectedRegions, setSelectedRegions] = useState<string[]>([]);
+  const [selectedIndustries, setSelectedIndustries] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<DeltaSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSnapshots = async () => {
+      if (!window.electron) return;
+      try {
+        const [snapshotList, regionList, industryList] = await Promise.all([
+          window.electron.getSnapshots(),
+          window.electron.getRegions(),
+          window.electron.getIndustries()
+        ]);
+        setSnapshots(snapshotList);
+        setRegions(regionList);
+        setIndustries(industryList);
+        // Default to comparing the two most recent snapshots
+        if (snapshotList.length > 1) {
+          setFromId(snapshotList[1].id);
+          setToId(snapshotList[0].id);
+        }
+      } catch (err) {
+        console.error('Failed to load snapshots:', err);
+        setError(toIpcError(err).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSnapshots();
+  }, []);
+
+  const handleCompare = async () => {
+    if (!window.electron || !fromId || !toId) return;
+    try {
+      setComparing(true);
+      setError(null);
+      setComparison(await window.electron.compareSnapshots({
+        fromId,
+        toId,
+        universe: { regions: selectedRegions, industries: selectedIndustries }
+      }));
+    } catch (err) {
+      console.error('Failed to compare snapshots:', err);
+      setError(toIpcError(err).message);
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const handleDelete = async (snapshotId: string) => {
+    if (!window.electron) return;
+    try {
+      setError(null);
+      const remaining = await window.electron.deleteSnapshot(snapshotId);
+      setSnapshots(remaining);
+      if (fromId === snapshotId) setFromId('');
+      if (toId === snapshotId) setToId('');
+    } catch (err) {
+      console.error('Failed to delete snapshot:', err);
+      setError(toIpcError(err).message);
+    }
+  };
+
+  const selectedValues = (e: React.ChangeEvent<HTMLSelectElement>) =>
+    Array.from(e.target.selectedOptions).map(option => option.value);
+
+  const snapshotLabel = (snapshot: DatasetSnapshot) =>
+    `${new Date(snapshot.createdAt).toLocaleString()} — ${snapshot.sourceFile || KIND_LABELS[snapshot.kind]}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col text-gray-900">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center">
+            {comparison ? (
+              <button onClick={() => setComparison(null)} className="text-gray-500 hover:text-gray-800 mr-2">
+                <ArrowLeft size={20} />
+              </button>
+            ) : (
+              <History size={20} className="text-gray-500 mr-2" />
+            )}
+            <h2 className="text-lg font-semibold">
+              {comparison ? `Changes ${comparison.sourceFile}` : 'Snapshots'}
+            </h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        {loading && <div className="p-4 text-sm text-gray-500">Loading snapshots...</div>}
+        {error && <div className="p-4 text-sm text-red-600">{error}</div>}
+
+        {comparison && <DeltaChangeList summary={comparison} />}
+
+        {!loading && !comparison && (
+          <>
+            <div className="p-4 border-b border-gray-200 text-sm">
+              <div className="grid grid-cols-2 gap-4 mb-3">
+                <div>
+                  <label htmlFor="snapshot-from" className="block text-gray-600 mb-1">From</label>
+                  <select
+                    id="snapshot-from"
+                    value={fromId}
+                    onChange={(e) => setFromId(e.target.value)}
+                    className="w-full p-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Select snapshot</option>
+                    {snapshots.map(snapshot => (
+                      <option key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="snapshot-to" className="block text-gray-600 mb-1">To</label>
+                  <select
+                    id="snapshot-to"
+                    value={toId}
+                    onChange={(e) => setToId(e.target.value)}
+                    className="w-full p-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Select snapshot</option>
+                    {snapshots.map(snapshot => (
+                      <option key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="snapshot-regions" className="block text-gray-600 mb-1">Regions</label>
+                  <select
+                    id="snapshot-regions"
+                    multiple
+                    size={4}
+                    value={selectedRegions}
+                    onChange={(e) => setSelectedRegions(selectedValues(e))}
+                    className="w-full p-1 border border-gray-300 rounded-md"
+                  >
+                    {regions.map(region => <option key={region} value={region}>{region}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="snapshot-industries" className="block text-gray-600 mb-1">Industries</label>
+                  <select
+                    id="snapshot-industries"
+                    multiple
+                    size={4}
+                    value={selectedIndustries}
+                    onChange={(e) => setSelectedIndustries(selectedValues(e))}
+                    className="w-full p-1 border border-gray-300 rounded-md"
+                  >
+                    {industries.map(industry => <option key={industry} value={industry}>{industry}</option>)}
+                  </select>
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">
+                  Leave regions and industries empty to compare all deals.
+                </p>
+                <button
+                  onClick={handleCompare}
+                  disabled={!fromId || !toId || fromId === toId || comparing}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {comparing ? 'Comparing...' : 'Compare'}
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-y-auto flex-1">
+              {snapshots.length === 0 ? (
+                <p className="p-4 text-sm text-gray-500">No snapshots yet. A snapshot is taken after every import.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="text-left p-2 font-medium text-gray-600">Taken</th>
+                      <th className="text-left p-2 font-medium text-gray-600">Type</th>
+                      <th className="text-left p-2 font-medium text-gray-600">Source</th>
+                      <th className="text-right p-2 font-medium text-gray-600">Deals</th>
+                      <th className="p-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {snapshots.map(snapshot => {
+                      const isActive = snapshot.id === activeSnapshotId;
+                      return (
+                        <tr key={snapshot.id} className={`border-t border-gray-100 ${isActive ? 'bg-amber-50' : ''}`}>
+                          <td className="p-2">{new Date(snapshot.createdAt).toLocaleString()}</td>
+                          <td className="p-2">{KIND_LABELS[snapshot.kind]}</td>
+                          <td className="p-2 text-gray-500">{snapshot.sourceFile || '—'}</td>
+                          <td className="p-2 text-right">{snapshot.totalRows.toLocaleString()}</td>
+                          <td className="p-2">
+                            <div className="flex items-center justify-end gap-3">
+                              <button
+                                onClick={() => onOpenSnapshot(isActive ? null : snapshot.id)}
+                                className="text-blue-600 hover:text-blue-800"
+                              >
+                                {isActive ? 'Close' : 'Open'}
+                              </button>
+                              <button
+                                onClick={() => handleDelete(snapshot.id)}
+                                disabled={isActive}
+                                className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                                title="Delete snapshot"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotsPanel;
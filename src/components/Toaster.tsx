@@ -0,0 +1,92 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { IpcError, toIpcError } from '../services/ipc-contract';
+
+// How long a toast stays up unless it is dismissed
+const TOAST_DURATION_MS = 8000;
+
+interface Toast {
+  id: number;
+  error: IpcError;
+  // What failed, e.g. "Export failed"
+  context?: string;
+  onRetry?: () => void;
+}
+
+interface ToastOptions {
+  context?: string;
+  onRetry?: () => void;
+}
+
+type ShowError = (error: unknown, options?: ToastOptions) => void;
+
+const ToastContext = createContext<ShowError>(() => undefined);
+
+/**
+ * Function that shows an error as a toast. Cancelled requests are ignored,
+ * since they were superseded on purpose.
+ */
+export function useErrorToast(): ShowError {
+  return useContext(ToastContext);
+}
+
+const ToastItem: React.FC<{ toast: Toast; onDismiss: (id: number) => void }> = ({ toast, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(toast.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast.id, onDismiss]);
+
+  return (
+    <div className="flex items-start w-80 p-3 bg-white border border-red-200 rounded-lg shadow-lg">
+      <AlertTriangle size={18} className="text-red-500 mr-2 mt-0.5 flex-shrink-0" />
+      <div className="flex-1 min-w-0 text-sm">
+        <p className="font-semibold text-gray-800">{toast.context || toast.error.title}</p>
+        <p className="text-gray-600 break-words">{toast.error.message}</p>
+        {toast.onRetry && toast.error.retryable && (
+          <button
+            onClick={() => {
+              onDismiss(toast.id);
+              toast.onRetry!();
+            }}
+            className="flex items-center mt-2 text-red-700 hover:text-red-900"
+          >
+            <RefreshCw size={14} className="mr-1" />
+            Retry
+          </button>
+        )}
+      </div>
+      <button onClick={() => onDismiss(toast.id)} className="ml-2 text-gray-400 hover:text-gray-600">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Shows errors reported with useErrorToast() in the corner of the window
+ */
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(1);
+
+  const showError = useCallback<ShowError>((error, options = {}) => {
+    const ipcError = toIpcError(error);
+    if (ipcError.code === 'CANCELLED') return;
+    setToasts(current => [...current, { id: nextId.current++, error: ipcError, ...options }]);
+  }, []);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts(current => current.filter(toast => toast.id !== id));
+  }, []);
+
+  return (
+    <ToastContext.Provider value={showError}>
+      {children}
+      <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2">
+        {toasts.map(toast => (
+          <ToastItem key={toast.id} toast={toast} onDismiss={dismiss} />
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { AlertTriangle, ArrowDownAZ, ArrowDownWideNarrow, ChevronDown, ChevronRight } from 'lucide-react';
+import { FilterTreeNode, toggleTreeSelection, treeSelectionState } from '../services/filter-tree';
+
+interface TreeFilterProps {
+  id: string;
+  title: string;
+  icon: React.ReactNode;
+  tree: FilterTreeNode[];
+  // Ids of the selected nodes
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  // Deals per node given the other filters; unknown until the first query returns
+  counts?: Record<string, number>;
+  // Raw values the tree doesn't classify
+  unmapped: string[];
+  // What the values are, e.g. "industry" and "industries"
+  unmappedNoun: [singular: string, plural: string];
+  // How to classify them, shown with the list of values
+  unmappedHint: React.ReactNode;
+}
+
+/**
+ * Checkbox that shows the partly checked state of a node with some selected children
+ */
+const TriStateCheckbox: React.FC<{
+  id: string;
+  state: 'checked' | 'partial' | 'unchecked';
+  onChange: () => void;
+}> = ({ id, state, onChange }) => {
+  const ref = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = state === 'partial';
+  }, [state]);
+
+  return (
+    <input
+      ref={ref}
+      type="checkbox"
+      id={id}
+      checked={state === 'checked'}
+      onChange={onChange}
+      className="h-4 w-4 flex-shrink-0 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+    />
+  );
+};
+
+/**
+ * Filter section as a collapsible tree, such as sectors, industry groups and
+ * sub-industries. Checking a node selects everything under it; nodes with
+ * only some children checked show as partly checked.
+ */
+const TreeFilter: React.FC<TreeFilterProps> = ({
+  id,
+  title,
+  icon,
+  tree,
+  selected,
+  onChange,
+  counts,
+  unmapped,
+  unmappedNoun,
+  unmappedHint
+}) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState('');
+  const [sortByCount, setSortByCount] = useState(false);
+  const [showUnmapped, setShowUnmapped] = useState(false);
+
+  // Nodes matching the search, with their ancestors so they can be reached
+  const shown = useMemo(() => {
+    const text = search.trim().toLowerCase();
+    const order = (nodes: FilterTreeNode[]) => sortByCount && counts
+      ? [...nodes].sort((a, b) => (counts[b.id] || 0) - (counts[a.id] || 0) || a.name.localeCompare(b.name))
+      : nodes;
+    const prune = (nodes: FilterTreeNode[]): FilterTreeNode[] => order(nodes).flatMap(node => {
+      if (!text || node.name.toLowerCase().includes(text)) return [{ ...node, children: order(node.children) }];
+      const children = prune(node.children);
+      return children.length > 0 ? [{ ...node, children }] : [];
+    });
+    return prune(tree);
+  }, [tree, search, sortByCount, counts]);
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExpanded(next);
+  };
+
+  const renderNode = (node: FilterTreeNode, depth: number): React.ReactNode => {
+    const count = counts ? counts[node.id] || 0 : null;
+    // Searching opens the branches leading to the matches
+    const isOpen = expanded.has(node.id) || Boolean(search.trim());
+
+    return (
+      <div key={node.id}>
+        <div className="flex items-center" style={{ paddingLeft: `${depth * 16}px` }}>
+          {node.children.length > 0 ? (
+            <button
+              onClick={() => toggleExpanded(node.id)}
+              className="mr-1 text-gray-400 hover:text-gray-700"
+              title={isOpen ? 'Collapse' : 'Expand'}
+            >
+              {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            </button>
+          ) : (
+            <span className="mr-1 w-[14px] flex-shrink-0"></span>
+          )}
+          <TriStateCheckbox
+            id={`${id}-${node.id}`}
+            state={treeSelectionState(node.id, selected)}
+            onChange={() => onChange(toggleTreeSelection(tree, selected, node.id))}
+          />
+          <label
+            htmlFor={`${id}-${node.id}`}
+            className={`ml-2 block text-sm truncate ${count === 0 ? 'text-gray-400' : 'text-gray-700'}`}
+            title={node.name}
+          >
+            {node.name}
+          </label>
+          {count !== null && (
+            <span className={`ml-auto pl-2 text-xs ${count === 0 ? 'text-gray-300' : 'text-gray-500'}`}>
+              {count.toLocaleString()}
+            </span>
+          )}
+        </div>
+        {isOpen && node.children.length > 0 && (
+          <div className="mt-2 space-y-2">
+            {node.children.map(child => renderNode(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-4 border-b border-gray-200 last:border-b-0">
+      <div className="flex items-center mb-3">
+        {icon}
+        <h3 className="font-medium">{title}</h3>
+        {counts && tree.length > 1 && (
+          <button
+            onClick={() => setSortByCount(!sortByCount)}
+            className="ml-auto flex items-center text-xs text-gray-500 hover:text-gray-800"
+            title={sortByCount ? 'Sort by name' : 'Sort by number of deals'}
+          >
+            {sortByCount ? <ArrowDownWideNarrow size={14} className="mr-1" /> : <ArrowDownAZ size={14} className="mr-1" />}
+            {sortByCount ? 'Count' : 'Name'}
+          </button>
+        )}
+      </div>
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder={`Find ${title.toLowerCase()}...`}
+        className="w-full mb-2 p-1 border border-gray-300 rounded-md text-sm"
+      />
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {shown.map(node => renderNode(node, 0))}
+        {shown.length === 0 && search && (
+          <p className="text-xs text-gray-400">No {title.toLowerCase()} match "{search}"</p>
+        )}
+      </div>
+      {unmapped.length > 0 && (
+        <div className="mt-3 text-xs text-amber-800">
+          <button
+            onClick={() => setShowUnmapped(!showUnmapped)}
+            className="flex items-center hover:text-amber-900"
+          >
+            <AlertTriangle size={12} className="mr-1" />
+            {unmapped.length.toLocaleString()} {unmapped.length === 1 ? `${unmappedNoun[0]} isn't` : `${unmappedNoun[1]} aren't`} classified
+          </button>
+          {showUnmapped && (
+            <p className="mt-1 text-gray-600">
+              {unmapped.join(', ')}. {unmappedHint}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TreeFilter;
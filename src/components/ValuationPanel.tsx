@@ -0,0 +1,333 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Calculator, Download, RotateCcw, X } from 'lucide-react';
+// Import electron types
+import '../types/electron.d.ts';
+import { Deal } from '../types/deal.types';
+import { CompSet } from '../services/comparables';
+import { DealsFilters, ValuationRequest, toIpcError } from '../services/ipc-contract';
+import { MultipleRange, VALUATION_MULTIPLES, Valuation, ValuationExclusion, impliedEvRange } from '../services/valuation';
+import MetricValue from './MetricValue';
+import OutlierBadge from './OutlierBadge';
+
+interface ValuationPanelProps {
+  // Search and filters of the grid, valued when no comp set is picked
+  searchQuery: string;
+  filters: DealsFilters;
+  onClose: () => void;
+}
+
+const STATISTICS: { label: string; key: keyof MultipleRange }[] = [
+  { label: 'Deals', key: 'count' },
+  { label: 'Mean', key: 'mean' },
+  { label: 'Median', key: 'median' },
+  { label: '25th percentile', key: 'lowerQuartile' },
+  { label: '75th percentile', key: 'upperQuartile' },
+  { label: 'Low', key: 'low' },
+  { label: 'High', key: 'high' }
+];
+
+const formatMultiple = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `${value.toFixed(1)}x`;
+
+const formatAmount = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `$${value.toLocaleString(undefined, { maximumFractionDigits: 1 })}M`;
+
+const formatDate = (value: Deal['announcementDate']) => value ? new Date(value).toLocaleDateString() : '';
+
+/**
+ * Precedent transactions valuation of a comp set or of the deals the grid
+ * shows. Deals can be excluded with a reason, and the multiples applied to
+ * the target's revenue and EBITDA.
+ */
+const ValuationPanel: React.FC<ValuationPanelProps> = ({ searchQuery, filters, onClose }) => {
+  const [compSets, setCompSets] = useState<CompSet[]>([]);
+  // Comp set valued; null for the grid's deals
+  const [compSet, setCompSet] = useState<CompSet | null>(null);
+  const [exclusions, setExclusions] = useState<ValuationExclusion[]>([]);
+  const [revenue, setRevenue] = useState('');
+  const [ebitda, setEbitda] = useState('');
+  const [valuation, setValuation] = useState<Valuation | null>(null);
+  // Deal being excluded, and the reason typed so far
+  const [excluding, setExcluding] = useState<{ dealId: number | string; reason: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const amount = (value: string) => Number(value) > 0 ? Number(value) : undefined;
+  const target = { revenue: amount(revenue), ebitda: amount(ebitda) };
+
+  // Deals valued, before exclusions
+  const selection = useMemo<ValuationRequest>(() => compSet
+    ? { dealIds: compSet.members.map(member => member.dealId) }
+    : { searchQuery, filters }, [compSet, searchQuery, filters]);
+
+  useEffect(() => {
+    if (!window.electron) return;
+    window.electron.getCompSets()
+      .then(setCompSets)
+      .catch(err => {
+        console.error('Failed to load comp sets:', err);
+        setError(toIpcError(err).message);
+      });
+  }, []);
+
+  // The implied EV is worked out here, so only the deals valued and the
+  // exclusions need a new request
+  useEffect(() => {
+    const loadValuation = async () => {
+      if (!window.electron) return;
+      setLoading(true);
+      setError(null);
+      try {
+        setValuation(await window.electron.getValuation({ ...selection, exclusions }));
+      } catch (err) {
+        // Superseded by a newer valuation
+        if (toIpcError(err).code === 'CANCELLED') return;
+        console.error('Failed to value deals:', err);
+        setError(toIpcError(err).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadValuation();
+  }, [selection, exclusions]);
+
+  const handleSourceChange = (name: string) => {
+    setCompSet(compSets.find(c => c.name === name) || null);
+    setExclusions([]);
+  };
+
+  const handleExclude = () => {
+    if (!excluding || !excluding.reason.trim()) return;
+    setExclusions(current => [...current, { dealId: excluding.dealId, reason: excluding.reason.trim() }]);
+    setExcluding(null);
+  };
+
+  const handleExport = async () => {
+    if (!window.electron) return;
+    setExporting(true);
+    try {
+      await window.electron.exportValuation({ ...selection, exclusions, target });
+    } catch (err) {
+      console.error('Failed to export valuation:', err);
+      setError(toIpcError(err).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const reasons = new Map(exclusions.map(exclusion => [String(exclusion.dealId), exclusion.reason]));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col text-gray-900">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center">
+            <Calculator size={20} className="text-gray-500 mr-2" />
+            <h2 className="text-lg font-semibold">Precedent Transactions</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-200 flex flex-wrap items-end gap-4 text-sm">
+          <label className="block">
+            <span className="text-gray-600">Deals</span>
+            <select
+              value={compSet ? compSet.name : ''}
+              onChange={(e) => handleSourceChange(e.target.value)}
+              className="mt-1 block p-1 border border-gray-300 rounded-md"
+            >
+              <option value="">Deals matching the search and filters</option>
+              {compSets.map(compSet => (
+                <option key={compSet.name} value={compSet.name}>Comp set: {compSet.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-gray-600">Target revenue ($MM)</span>
+            <input
+              type="number"
+              min={0}
+              value={revenue}
+              onChange={(e) => setRevenue(e.target.value)}
+              className="mt-1 block w-36 p-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-600">Target EBITDA ($MM)</span>
+            <input
+              type="number"
+              min={0}
+              value={ebitda}
+              onChange={(e) => setEbitda(e.target.value)}
+              className="mt-1 block w-36 p-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={exporting || !valuation || valuation.dealCount === 0}
+            className="ml-auto flex items-center px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download size={14} className="mr-1" />
+            {exporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+
+        {error && <div className="px-4 pt-4 text-sm text-red-600">{error}</div>}
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {loading && !valuation && <p className="text-sm text-gray-500">Valuing deals...</p>}
+          {valuation && (
+            <div className={loading ? 'opacity-50' : ''}>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="pb-1 font-medium"></th>
+                      {VALUATION_MULTIPLES.map(({ multiple, label }) => (
+                        <th key={multiple} className="pb-1 font-medium text-right">{label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {STATISTICS.map(({ label, key }) => (
+                      <tr key={key} className="border-t border-gray-100">
+                        <td className="py-1 text-gray-600">{label}</td>
+                        {VALUATION_MULTIPLES.map(({ multiple }) => {
+                          const value = valuation.multiples[multiple][key];
+                          return (
+                            <td key={multiple} className="py-1 text-right font-medium">
+                              {key === 'count' ? (value ?? 0).toLocaleString() : formatMultiple(value)}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="p-3 bg-blue-50 rounded-lg text-sm">
+                  <p className="font-medium mb-2">Implied enterprise value</p>
+                  {VALUATION_MULTIPLES.map(({ multiple, metric, label }) => {
+                    const implied = impliedEvRange(valuation.multiples[multiple], target[metric]);
+                    return (
+                      <div key={multiple} className="mb-2">
+                        <p className="text-gray-600">{label} × target {metric === 'ebitda' ? 'EBITDA' : 'revenue'}</p>
+                        <p className="text-lg font-semibold">
+                          {implied
+                            ? `${formatAmount(implied.lowerQuartile)} – ${formatAmount(implied.upperQuartile)}`
+                            : '—'}
+                        </p>
+                        {implied && <p className="text-xs text-gray-500">Median {formatAmount(implied.median)}</p>}
+                      </div>
+                    );
+                  })}
+                  <p className="text-xs text-gray-500">
+                    25th to 75th percentile of the multiple over {valuation.dealCount.toLocaleString()} deals
+                    {exclusions.length > 0 ? `, ${exclusions.length} excluded` : ''}.
+                  </p>
+                  {valuation.outlierRule && (
+                    <p className="mt-1 text-xs text-gray-500">Outliers left out: {valuation.outlierRule}.</p>
+                  )}
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pb-2 font-medium">Target</th>
+                    <th className="pb-2 font-medium">Date</th>
+                    <th className="pb-2 font-medium text-right">EV</th>
+                    <th className="pb-2 font-medium text-right">Revenue</th>
+                    <th className="pb-2 font-medium text-right">EBITDA</th>
+                    <th className="pb-2 font-medium text-right">EV/EBITDA</th>
+                    <th className="pb-2 font-medium text-right">EV/Revenue</th>
+                    <th className="pb-2 font-medium">Excluded</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {valuation.deals.map(deal => {
+                    const reason = reasons.get(String(deal.id));
+                    return (
+                      <tr key={deal.id} className={`border-t border-gray-100 ${reason ? 'text-gray-400' : ''}`}>
+                        <td className="py-1 pr-2 max-w-[14rem] truncate" title={deal.targetName}>{deal.targetName}</td>
+                        <td className="py-1 pr-2 whitespace-nowrap">{formatDate(deal.announcementDate)}</td>
+                        <td className="py-1 pr-2 text-right">
+                          <MetricValue deal={deal} field="targetEnterpriseValue">{formatAmount(deal.targetEnterpriseValue)}</MetricValue>
+                        </td>
+                        <td className="py-1 pr-2 text-right">{formatAmount(deal.targetRevenue)}</td>
+                        <td className="py-1 pr-2 text-right">{formatAmount(deal.targetEbitda)}</td>
+                        <td className="py-1 pr-2 text-right whitespace-nowrap">
+                          <MetricValue deal={deal} field="evEbitdaMultiple">{formatMultiple(deal.evEbitdaMultiple)}</MetricValue>
+                          <OutlierBadge deal={deal} field="evEbitdaMultiple" />
+                        </td>
+                        <td className="py-1 pr-2 text-right whitespace-nowrap">
+                          <MetricValue deal={deal} field="evRevenueMultiple">{formatMultiple(deal.evRevenueMultiple)}</MetricValue>
+                          <OutlierBadge deal={deal} field="evRevenueMultiple" />
+                        </td>
+                        <td className="py-1 w-56">
+                          {reason ? (
+                            <span className="flex items-center justify-between">
+                              <span className="truncate" title={reason}>{reason}</span>
+                              <button
+                                onClick={() => setExclusions(current => current.filter(e => String(e.dealId) !== String(deal.id)))}
+                                className="text-gray-400 hover:text-blue-600"
+                                title="Include the deal again"
+                              >
+                                <RotateCcw size={14} />
+                              </button>
+                            </span>
+                          ) : excluding && String(excluding.dealId) === String(deal.id) ? (
+                            <span className="flex items-center gap-1">
+                              <input
+                                type="text"
+                                autoFocus
+                                value={excluding.reason}
+                                onChange={(e) => setExcluding({ ...excluding, reason: e.target.value })}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') handleExclude();
+                                  if (e.key === 'Escape') setExcluding(null);
+                                }}
+                                placeholder="Reason"
+                                className="w-full p-1 border border-gray-300 rounded-md text-xs"
+                              />
+                              <button
+                                onClick={handleExclude}
+                                disabled={!excluding.reason.trim()}
+                                className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                              >
+                                Exclude
+                              </button>
+                            </span>
+                          ) : (
+                            <button
+                              onClick={() => setExcluding({ dealId: deal.id, reason: '' })}
+                              className="text-xs text-gray-500 hover:text-red-600"
+                            >
+                              Exclude...
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {valuation.deals.length < valuation.dealCount && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Showing the {valuation.deals.length.toLocaleString()} deals with the highest EV/EBITDA of{' '}
+                  {valuation.dealCount.toLocaleString()}; the statistics and the export cover them all.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ValuationPanel;
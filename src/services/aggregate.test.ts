@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { bucketDate, createAggregator, measureStats, percentile } from './aggregate';
+
+describe('percentile', () => {
+  it('returns null without values', () => {
+    expect(percentile([], 50)).toBeNull();
+  });
+
+  it('returns the only value for any percentile', () => {
+    expect(percentile([7], 0)).toBe(7);
+    expect(percentile([7], 50)).toBe(7);
+    expect(percentile([7], 100)).toBe(7);
+  });
+
+  it('returns the lowest value at 0 and the highest at 100', () => {
+    expect(percentile([1, 2, 3, 4], 0)).toBe(1);
+    expect(percentile([1, 2, 3, 4], 100)).toBe(4);
+  });
+
+  it('interpolates between the nearest ranks like PERCENTILE.INC', () => {
+    expect(percentile([1, 2, 3, 4], 25)).toBeCloseTo(1.75);
+    expect(percentile([1, 2, 3, 4], 50)).toBeCloseTo(2.5);
+    expect(percentile([1, 2, 3, 4], 90)).toBeCloseTo(3.7);
+    expect(percentile([10, 20, 30], 50)).toBe(20);
+  });
+
+  it('clamps percentiles outside 0 to 100', () => {
+    expect(percentile([1, 2, 3], -10)).toBe(1);
+    expect(percentile([1, 2, 3], 150)).toBe(3);
+  });
+});
+
+describe('bucketDate', () => {
+  it('groups months into quarters', () => {
+    expect(bucketDate('2021-01-15', 'quarter')).toBe('2021-Q1');
+    expect(bucketDate('2021-03-31', 'quarter')).toBe('2021-Q1');
+    expect(bucketDate('2021-04-01', 'quarter')).toBe('2021-Q2');
+    expect(bucketDate('2021-09-30T00:00:00.000Z', 'quarter')).toBe('2021-Q3');
+    expect(bucketDate('2021-12-31', 'quarter')).toBe('2021-Q4');
+  });
+
+  it('groups dates into years', () => {
+    expect(bucketDate('2019-06-01', 'year')).toBe('2019');
+  });
+
+  it('returns null for values that aren\'t dates', () => {
+    expect(bucketDate(null, 'quarter')).toBeNull();
+    expect(bucketDate('Q3 2021', 'quarter')).toBeNull();
+    expect(bucketDate(20210101, 'year')).toBeNull();
+  });
+});
+
+describe('measureStats', () => {
+  it('gives nulls without values', () => {
+    expect(measureStats([], [25])).toEqual({
+      count: 0,
+      sum: 0,
+      mean: null,
+      median: null,
+      min: null,
+      max: null,
+      percentiles: { '25': null }
+    });
+  });
+
+  it('sorts the values before taking percentiles', () => {
+    const stats = measureStats([4, 1, 3, 2], [25, 75]);
+    expect(stats.min).toBe(1);
+    expect(stats.max).toBe(4);
+    expect(stats.median).toBeCloseTo(2.5);
+    expect(stats.percentiles['25']).toBeCloseTo(1.75);
+    expect(stats.percentiles['75']).toBeCloseTo(3.25);
+  });
+});
+
+describe('createAggregator', () => {
+  it('orders groups by key with rows without a value last', () => {
+    const aggregator = createAggregator({ groupBy: [{ field: 'region' }] });
+    [{ region: 'US' }, { region: null }, { region: 'EU' }, { region: '' }, {}, { region: 'US' }]
+      .forEach(aggregator.add);
+
+    const { groups, total } = aggregator.result();
+    expect(groups.map(group => [group.key, group.count])).toEqual([
+      [['EU'], 1],
+      [['US'], 2],
+      [[null], 3]
+    ]);
+    expect(total.key).toEqual([]);
+    expect(total.count).toBe(6);
+  });
+
+  it('orders by every group-by field in turn', () => {
+    const aggregator = createAggregator({ groupBy: [{ field: 'date', bucket: 'quarter' }, { field: 'type' }] });
+    [
+      { date: '2021-05-01', type: 'LBO' },
+      { date: 'unknown', type: 'Merger' },
+      { date: '2021-02-01', type: 'Merger' },
+      { date: '2021-04-10', type: 'Acquisition' }
+    ].forEach(aggregator.add);
+
+    expect(aggregator.result().groups.map(group => group.key)).toEqual([
+      ['2021-Q1', 'Merger'],
+      ['2021-Q2', 'Acquisition'],
+      ['2021-Q2', 'LBO'],
+      [null, 'Merger']
+    ]);
+  });
+
+  it('leaves values that aren\'t numbers out of the measures but not the counts', () => {
+    const aggregator = createAggregator({ groupBy: [{ field: 'type' }], measures: ['value'], percentiles: [50] });
+    [
+      { type: 'LBO', value: 10 },
+      { type: 'LBO', value: '20' },
+      { type: 'LBO', value: null },
+      { type: 'LBO', value: NaN },
+      { type: 'LBO' },
+      { type: 'LBO', value: 30 }
+    ].forEach(aggregator.add);
+
+    const [group] = aggregator.result().groups;
+    expect(group.count).toBe(6);
+    expect(group.measures.value).toMatchObject({ count: 2, sum: 40, mean: 20, median: 20, min: 10, max: 30 });
+    expect(group.measures.value.percentiles).toEqual({ '50': 20 });
+  });
+
+  it('gives a single group of every row without group-by fields', () => {
+    const aggregator = createAggregator({ measures: ['value'] });
+    [{ value: 1 }, { value: 2 }].forEach(aggregator.add);
+
+    const { groups, total } = aggregator.result();
+    expect(groups).toHaveLength(1);
+    expect(groups[0].key).toEqual([]);
+    expect(total.measures.value.sum).toBe(3);
+  });
+});
@@ -0,0 +1,159 @@
+import { compareForSort, isMissingValue } from './sort-index';
+
+/**
+ * Period a date is grouped by
+ */
+export type DateBucket = 'year' | 'quarter';
+
+/**
+ * Field to group rows by; dates can be grouped by year ("2021") or quarter
+ * ("2021-Q3") of their value
+ */
+export interface AggregateGroupBy {
+  field: string;
+  bucket?: DateBucket;
+}
+
+/**
+ * Groups and statistics to compute over the rows of a query
+ */
+export interface AggregateSpec {
+  // No fields gives a single group of every row
+  groupBy?: AggregateGroupBy[];
+  // Number fields to compute statistics of
+  measures?: string[];
+  // Percentiles to compute besides the median, from 0 to 100
+  percentiles?: number[];
+}
+
+/**
+ * Statistics of a number field over the rows of a group. Rows without a
+ * number in the field are left out, so `count` can be below the group's.
+ */
+export interface MeasureStats {
+  count: number;
+  sum: number;
+  // Null when no row has a value
+  mean: number | null;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+  // Percentile → value, interpolated between the nearest values
+  percentiles: Record<string, number | null>;
+}
+
+export interface AggregateGroup {
+  // Value of each group-by field, in order; null for rows without one
+  key: (string | null)[];
+  count: number;
+  measures: Record<string, MeasureStats>;
+}
+
+export interface AggregateResult {
+  groupBy: AggregateGroupBy[];
+  // Ordered by key, rows without a value last
+  groups: AggregateGroup[];
+  // Every row, as one group with an empty key
+  total: AggregateGroup;
+}
+
+/**
+ * Period of a date value
+ * @param value ISO date, e.g. "2021-08-14"
+ * @returns "2021" or "2021-Q3", or null if the value isn't a date
+ */
+export function bucketDate(value: unknown, bucket: DateBucket): string | null {
+  const match = typeof value === 'string' ? /^(\d{4})-(\d{2})/.exec(value) : null;
+  if (!match) return null;
+  return bucket === 'year' ? match[1] : `${match[1]}-Q${Math.ceil(Number(match[2]) / 3)}`;
+}
+
+/**
+ * Percentile of sorted values, interpolated between the two nearest ranks
+ * like Excel's PERCENTILE.INC
+ * @param sorted Values in ascending order
+ * @param p Percentile from 0 to 100
+ * @returns The percentile, or null without values
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Statistics of the values of a number field
+ */
+export function measureStats(values: number[], percentiles: number[] = []): MeasureStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, value) => total + value, 0);
+  return {
+    count: sorted.length,
+    sum,
+    mean: sorted.length > 0 ? sum / sorted.length : null,
+    median: percentile(sorted, 50),
+    min: sorted.length > 0 ? sorted[0] : null,
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : null,
+    percentiles: Object.fromEntries(percentiles.map(p => [String(p), percentile(sorted, p)]))
+  };
+}
+
+/**
+ * Groups rows as they are added and computes the statistics of each group
+ * @param spec Fields to group by and measure
+ * @returns A function adding a row, and one giving the groups of the rows added so far
+ */
+export function createAggregator(spec: AggregateSpec) {
+  const { groupBy = [], measures = [], percentiles = [] } = spec;
+  // Values of each measure, per group and for every row
+  const groups = new Map<string, { key: (string | null)[]; count: number; values: number[][] }>();
+  const total = { key: [] as (string | null)[], count: 0, values: measures.map(() => [] as number[]) };
+
+  const keyOf = (row: any): (string | null)[] => groupBy.map(({ field, bucket }) => {
+    const value = row[field];
+    if (bucket) return bucketDate(value, bucket);
+    return isMissingValue(value) ? null : String(value);
+  });
+
+  const add = (row: any) => {
+    const key = keyOf(row);
+    const id = JSON.stringify(key);
+    let group = groups.get(id);
+    if (!group) {
+      group = { key, count: 0, values: measures.map(() => []) };
+      groups.set(id, group);
+    }
+    group.count++;
+    total.count++;
+    measures.forEach((field, i) => {
+      const value = row[field];
+      if (typeof value !== 'number' || isNaN(value)) return;
+      group!.values[i].push(value);
+      total.values[i].push(value);
+    });
+  };
+
+  const toGroup = ({ key, count, values }: typeof total): AggregateGroup => ({
+    key,
+    count,
+    measures: Object.fromEntries(measures.map((field, i) => [field, measureStats(values[i], percentiles)]))
+  });
+
+  const result = (): AggregateResult => ({
+    groupBy,
+    groups: Array.from(groups.values())
+      .sort((a, b) => {
+        for (let i = 0; i < a.key.length; i++) {
+          const order = compareForSort(a.key[i], b.key[i], 'asc');
+          if (order !== 0) return order;
+        }
+        return 0;
+      })
+      .map(toGroup),
+    total: toGroup(total)
+  });
+
+  return { add, result };
+}
@@ -0,0 +1,110 @@
+/**
+ * Rough ratio between the in-memory size of parsed JSON and its size on disk,
+ * used to estimate how much of the budget a parsed chunk takes up
+ */
+export const PARSED_SIZE_FACTOR = 3;
+
+/**
+ * Default memory budget for parsed chunks (512 MB)
+ */
+export const DEFAULT_CACHE_BUDGET_BYTES = 512 * 1024 * 1024;
+
+/**
+ * Usage counters of a chunk cache
+ */
+export interface ChunkCacheStats {
+  entries: number;
+  usedBytes: number;
+  budgetBytes: number;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Least recently used cache of parsed chunks, bounded by an estimated memory
+ * budget rather than an entry count since chunk sizes vary between tables
+ */
+export class ChunkCache<T = any[]> {
+  // Map iteration follows insertion order, so the first entry is the least recently used
+  private entries = new Map<string, { value: T; size: number }>();
+  private usedBytes = 0;
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * @param budgetBytes Estimated memory the cached chunks may take up; 0 disables caching
+   */
+  constructor(private budgetBytes: number = DEFAULT_CACHE_BUDGET_BYTES) {}
+
+  /**
+   * Get a cached chunk and mark it as most recently used
+   * @param key Cache key
+   * @returns Cached chunk, or undefined on a miss
+   */
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Cache a chunk, evicting least recently used chunks to stay within the budget.
+   * Chunks larger than the whole budget are not cached.
+   * @param key Cache key
+   * @param value Parsed chunk
+   * @param size Estimated size in bytes
+   */
+  set(key: string, value: T, size: number): void {
+    this.delete(key);
+    if (size > this.budgetBytes) return;
+
+    this.entries.set(key, { value, size });
+    this.usedBytes += size;
+
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.usedBytes <= this.budgetBytes) break;
+      this.entries.delete(oldestKey);
+      this.usedBytes -= oldest.size;
+    }
+  }
+
+  /**
+   * Remove a chunk from the cache
+   * @param key Cache key
+   */
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.usedBytes -= entry.size;
+    }
+  }
+
+  /**
+   * Drop every cached chunk, e.g. after the data on disk has changed
+   */
+  clear(): void {
+    this.entries.clear();
+    this.usedBytes = 0;
+  }
+
+  /**
+   * Get usage counters
+   * @returns Entry count, memory use and hit/miss counts
+   */
+  getStats(): ChunkCacheStats {
+    return {
+      entries: this.entries.size,
+      usedBytes: this.usedBytes,
+      budgetBytes: this.budgetBytes,
+      hits: this.hits,
+      misses: this.misses
+    };
+  }
+}
@@ -0,0 +1,233 @@
+import { Deal } from '../types/deal.types';
+
+/**
+ * Deal fields, populated from a spreadsheet column or derived from other fields
+ */
+export type DealField = Exclude<
+  keyof Deal,
+  'id' | 'extraAttributes' | 'removedAt' | 'outliers' | 'derivedFields' | 'metricConflicts'
+>;
+
+/**
+ * Value type of a deal field, used to parse and validate imported values
+ */
+export type DealFieldType = 'string' | 'number' | 'date' | 'status';
+
+/**
+ * Definition of a deal field
+ */
+export interface DealFieldDefinition {
+  field: DealField;
+  column: string;
+  label: string;
+  type: DealFieldType;
+  aliases: string[];
+}
+
+/**
+ * Header → deal field mapping. A null target keeps the column as an extra attribute.
+ */
+export type ColumnMapping = Record<string, DealField | null>;
+
+/**
+ * Suggested target for a single spreadsheet header
+ */
+export interface MappingSuggestion {
+  header: string;
+  field: DealField | null;
+  confidence: number;
+}
+
+/**
+ * Named mapping saved for reuse on later imports from the same provider
+ */
+export interface MappingProfile {
+  name: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Importable deal fields with the snake_case column they are stored under
+ * and the header spellings we have seen in vendor exports
+ */
+export const DEAL_FIELDS: DealFieldDefinition[] = [
+  { field: 'targetName', column: 'target_name', label: 'Target Name', type: 'string', aliases: ['target', 'target company', 'target company name', 'company name'] },
+  { field: 'announcementDate', column: 'announcement_date', label: 'Announcement Date', type: 'date', aliases: ['announced date', 'date announced', 'announced', 'deal date'] },
+  { field: 'transactionType', column: 'transaction_type', label: 'Transaction Type', type: 'string', aliases: ['deal type', 'type'] },
+  { field: 'transactionStatus', column: 'transaction_status', label: 'Transaction Status', type: 'status', aliases: ['deal status', 'status'] },
+  { field: 'transactionValue', column: 'transaction_value', label: 'Transaction Value', type: 'number', aliases: ['deal value', 'deal size', 'transaction size', 'value'] },
+  { field: 'divestorName', column: 'divestor_name', label: 'Divestor Name', type: 'string', aliases: ['divestor', 'seller', 'seller name', 'vendor'] },
+  { field: 'acquirerName', column: 'acquirer_name', label: 'Acquirer Name', type: 'string', aliases: ['acquirer', 'acquiror', 'buyer', 'buyer name', 'bidder'] },
+  { field: 'targetRegion', column: 'target_region', label: 'Target Region', type: 'string', aliases: ['region', 'target country', 'target geography', 'geography'] },
+  { field: 'targetDescription', column: 'target_description', label: 'Target Description', type: 'string', aliases: ['business description', 'company description', 'description'] },
+  { field: 'evEbitdaMultiple', column: 'ev_ebitda_multiple', label: 'EV/EBITDA', type: 'number', aliases: ['ev ebitda', 'ev to ebitda', 'enterprise value ebitda'] },
+  { field: 'evRevenueMultiple', column: 'ev_revenue_multiple', label: 'EV/Revenue', type: 'number', aliases: ['ev revenue', 'ev sales', 'ev to revenue', 'enterprise value revenue'] },
+  { field: 'acquirerCountry', column: 'acquirer_country', label: 'Acquirer Country', type: 'string', aliases: ['buyer country', 'acquirer nation', 'acquirer hq country'] },
+  { field: 'targetIndustry1', column: 'target_industry_1', label: 'Target Industry 1', type: 'string', aliases: ['target industry', 'primary industry', 'industry', 'sector'] },
+  { field: 'targetIndustry2', column: 'target_industry_2', label: 'Target Industry 2', type: 'string', aliases: ['secondary industry', 'sub industry', 'subsector'] },
+  { field: 'dealSummary', column: 'deal_summary', label: 'Deal Summary', type: 'string', aliases: ['summary', 'synopsis', 'deal synopsis'] },
+  { field: 'transactionConsiderations', column: 'transaction_considerations', label: 'Transaction Considerations', type: 'string', aliases: ['considerations', 'consideration', 'consideration type'] },
+  { field: 'targetEnterpriseValue', column: 'target_enterprise_value', label: 'Target Enterprise Value', type: 'number', aliases: ['enterprise value', 'target ev', 'ev'] },
+  { field: 'targetRevenue', column: 'target_revenue', label: 'Target Revenue', type: 'number', aliases: ['revenue', 'sales', 'target sales'] },
+  { field: 'targetEbitda', column: 'target_ebitda', label: 'Target EBITDA', type: 'number', aliases: ['ebitda'] }
+];
+
+/**
+ * Deal fields computed from the imported ones when a chunk is read. They can't
+ * be mapped to a column but filter, sort and export like the others.
+ */
+export const DERIVED_FIELDS: DealFieldDefinition[] = [
+  { field: 'ebitdaMargin', column: 'ebitda_margin', label: 'EBITDA Margin', type: 'number', aliases: ['margin', 'ebitda margin'] }
+];
+
+/**
+ * Minimum similarity for a header to be suggested for a field
+ */
+const SUGGESTION_THRESHOLD = 0.6;
+
+/**
+ * Normalise a header for comparison: drop units in brackets and punctuation
+ * @param header Raw header text
+ * @returns Lower-case, space separated header
+ */
+export function normalizeHeader(header: string): string {
+  return String(header)
+    .toLowerCase()
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Token overlap (Dice coefficient) between two normalised headers
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const tokensA = new Set(a.split(' ').filter(Boolean));
+  const tokensB = new Set(b.split(' ').filter(Boolean));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+/**
+ * Score how well a header matches a field across its label and aliases
+ */
+function scoreHeader(header: string, definition: DealFieldDefinition): number {
+  const normalized = normalizeHeader(header);
+  const candidates = [definition.label, definition.column, ...definition.aliases].map(normalizeHeader);
+  return Math.max(...candidates.map(candidate => similarity(normalized, candidate)));
+}
+
+/**
+ * Look up the definition of a deal field, imported or derived
+ * @param field Deal field
+ * @returns Field definition or undefined if the field is unknown
+ */
+export function getFieldDefinition(field: DealField): DealFieldDefinition | undefined {
+  return DEAL_FIELDS.find(definition => definition.field === field) ||
+    DERIVED_FIELDS.find(definition => definition.field === field);
+}
+
+/**
+ * Suggest a deal field for each header. Every field is assigned to at most one
+ * header, best matches first; headers without a good match are left unmapped.
+ * @param headers Spreadsheet headers
+ * @returns One suggestion per header, in header order
+ */
+export function suggestColumnMapping(headers: string[]): MappingSuggestion[] {
+  const candidates: { header: string; field: DealField; score: number }[] = [];
+  headers.forEach(header => {
+    DEAL_FIELDS.forEach(definition => {
+      const score = scoreHeader(header, definition);
+      if (score >= SUGGESTION_THRESHOLD) {
+        candidates.push({ header, field: definition.field, score });
+      }
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const assignedHeaders = new Map<string, { field: DealField; score: number }>();
+  const assignedFields = new Set<DealField>();
+  candidates.forEach(({ header, field, score }) => {
+    if (assignedHeaders.has(header) || assignedFields.has(field)) return;
+    assignedHeaders.set(header, { field, score });
+    assignedFields.add(field);
+  });
+
+  return headers.map(header => {
+    const match = assignedHeaders.get(header);
+    return {
+      header,
+      field: match ? match.field : null,
+      confidence: match ? Math.round(match.score * 100) / 100 : 0
+    };
+  });
+}
+
+/**
+ * Turn suggestions into a column mapping
+ * @param suggestions Suggestions from suggestColumnMapping
+ * @returns Header → field mapping
+ */
+export function suggestionsToMapping(suggestions: MappingSuggestion[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  suggestions.forEach(({ header, field }) => {
+    mapping[header] = field;
+  });
+  return mapping;
+}
+
+/**
+ * Find the saved profile that best fits a set of headers. A profile only
+ * matches when most of the headers it was saved with are present.
+ * @param profiles Saved profiles
+ * @param headers Headers of the workbook being imported
+ * @returns Best matching profile or null
+ */
+export function findProfileForHeaders(profiles: MappingProfile[], headers: string[]): MappingProfile | null {
+  const headerSet = new Set(headers);
+  let best: MappingProfile | null = null;
+  let bestScore = 0;
+
+  profiles.forEach(profile => {
+    if (profile.headers.length === 0) return;
+    const present = profile.headers.filter(header => headerSet.has(header)).length;
+    const score = present / Math.max(profile.headers.length, headers.length);
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  });
+
+  return bestScore >= 0.8 ? best : null;
+}
+
+/**
+ * Apply a saved profile to a set of headers. Headers the profile doesn't know
+ * fall back to the automatic suggestion.
+ * @param profile Saved profile
+ * @param headers Headers of the workbook being imported
+ * @returns Header → field mapping
+ */
+export function applyProfile(profile: MappingProfile, headers: string[]): ColumnMapping {
+  const suggested = suggestionsToMapping(suggestColumnMapping(headers));
+  const profileFields = new Set(Object.values(profile.mapping).filter(Boolean));
+  const mapping: ColumnMapping = {};
+  headers.forEach(header => {
+    if (Object.prototype.hasOwnProperty.call(profile.mapping, header)) {
+      mapping[header] = profile.mapping[header];
+    } else {
+      const field = suggested[header];
+      mapping[header] = field && !profileFields.has(field) ? field : null;
+    }
+  });
+  return mapping;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { ComparableCandidate, createComparableScorer, nodeSimilarity, sizeSimilarity } from './comparables';
+import { treeNodeId } from './filter-tree';
+
+const UNPLACED = { industry: 'Unclassified', region: 'Other' };
+
+const SAAS = treeNodeId('Technology', 'Software', 'SaaS');
+const SECURITY = treeNodeId('Technology', 'Software', 'Security');
+const SOFTWARE = treeNodeId('Technology', 'Software');
+const BANKS = treeNodeId('Financials', 'Banks');
+
+/**
+ * Deal with nothing to compare on but the given fields
+ */
+function candidate(fields: Partial<ComparableCandidate>): ComparableCandidate {
+  return { industries: [], region: null, enterpriseValue: null, revenue: null, announcementDate: null, description: '', ...fields };
+}
+
+describe('nodeSimilarity', () => {
+  it('scores the share of the deeper path two nodes have in common', () => {
+    expect(nodeSimilarity(SAAS, SAAS, UNPLACED.industry)).toBe(1);
+    expect(nodeSimilarity(SAAS, SECURITY, UNPLACED.industry)).toBeCloseTo(2 / 3);
+    expect(nodeSimilarity(SAAS, SOFTWARE, UNPLACED.industry)).toBeCloseTo(2 / 3);
+    expect(nodeSimilarity(SAAS, BANKS, UNPLACED.industry)).toBe(0);
+  });
+
+  it('matches values the tree does not place only to themselves', () => {
+    const widgets = treeNodeId(UNPLACED.industry, 'Widgets');
+    expect(nodeSimilarity(widgets, widgets, UNPLACED.industry)).toBe(1);
+    expect(nodeSimilarity(widgets, treeNodeId(UNPLACED.industry, 'Gadgets'), UNPLACED.industry)).toBe(0);
+    expect(nodeSimilarity(widgets, SAAS, UNPLACED.industry)).toBe(0);
+  });
+});
+
+describe('sizeSimilarity', () => {
+  it('falls off on a log scale to nothing at the size band', () => {
+    expect(sizeSimilarity(100, 100, 4)).toBe(1);
+    expect(sizeSimilarity(100, 200, 4)).toBeCloseTo(0.5);
+    expect(sizeSimilarity(200, 100, 4)).toBeCloseTo(0.5);
+    expect(sizeSimilarity(100, 400, 4)).toBe(0);
+    expect(sizeSimilarity(100, 1000, 4)).toBe(0);
+  });
+
+  it('scores nothing for sizes that are not positive', () => {
+    expect(sizeSimilarity(0, 100, 4)).toBe(0);
+    expect(sizeSimilarity(100, -5, 4)).toBe(0);
+  });
+});
+
+describe('createComparableScorer', () => {
+  it('leaves out parts the target says nothing about', () => {
+    const score = createComparableScorer({ enterpriseValue: 100, referenceDate: 'not a date' }, {}, UNPLACED);
+    const match = score(candidate({ enterpriseValue: 200 }))!;
+    expect(match.components).toEqual({ industry: null, region: null, size: expect.any(Number), recency: null, description: null });
+    expect(match.score).toBeCloseTo(1 - Math.log(2) / Math.log(4));
+  });
+
+  it('widens the size band when asked', () => {
+    const criteria = { enterpriseValue: 100, referenceDate: 'not a date' };
+    const deal = candidate({ enterpriseValue: 400 });
+    expect(createComparableScorer(criteria, {}, UNPLACED)(deal)!.score).toBe(0);
+    expect(createComparableScorer(criteria, { sizeBand: 16 }, UNPLACED)(deal)!.score).toBeCloseTo(0.5);
+  });
+
+  it('compares revenue when either side has no enterprise value', () => {
+    const score = createComparableScorer({ enterpriseValue: 100, revenue: 50, referenceDate: 'not a date' }, {}, UNPLACED);
+    expect(score(candidate({ revenue: 50 }))!.components.size).toBe(1);
+    expect(score(candidate({}))!.components.size).toBe(0);
+  });
+
+  it('scores recency over the recency window from the reference date', () => {
+    const score = createComparableScorer({ referenceDate: '2024-01-01' }, { recencyYears: 4 }, UNPLACED);
+    expect(score(candidate({ announcementDate: '2024-01-01' }))!.components.recency).toBe(1);
+    expect(score(candidate({ announcementDate: '2022-01-01' }))!.components.recency).toBeCloseTo(0.5, 2);
+    expect(score(candidate({ announcementDate: '2018-01-01' }))!.components.recency).toBe(0);
+    expect(score(candidate({}))!.components.recency).toBe(0);
+  });
+
+  it('skips deals announced outside the date window', () => {
+    const score = createComparableScorer({ referenceDate: '2024-01-01', startDate: '2020-01-01', endDate: '2022-12-31' }, {}, UNPLACED);
+    expect(score(candidate({ announcementDate: '2019-12-31' }))).toBeNull();
+    expect(score(candidate({ announcementDate: '2022-12-31T00:00:00.000Z' }))).not.toBeNull();
+    expect(score(candidate({ announcementDate: '2023-01-01' }))).toBeNull();
+    expect(score(candidate({}))).toBeNull();
+  });
+
+  it('scores industries on the closest of a deal\'s industries and weights the parts', () => {
+    const score = createComparableScorer(
+      { industries: [SAAS], region: treeNodeId(UNPLACED.region, 'Atlantis'), referenceDate: 'not a date' },
+      { weights: { industry: 3, region: 1 } },
+      UNPLACED
+    );
+    const match = score(candidate({ industries: [BANKS, SECURITY], region: treeNodeId(UNPLACED.region, 'Atlantis') }))!;
+    expect(match.components.industry).toBeCloseTo(2 / 3);
+    expect(match.components.region).toBe(1);
+    expect(match.score).toBeCloseTo((3 * 2 / 3 + 1) / 4);
+  });
+});
@@ -0,0 +1,222 @@
+import { Deal } from '../types/deal.types';
+import { isUnderNode, treePathIds } from './filter-tree';
+import { stem, tokenize } from './search-index';
+
+/**
+ * File in the data directory with the saved comp sets
+ */
+export const COMP_SETS_FILE = 'comp-sets.json';
+
+/**
+ * Parts of the similarity score
+ */
+export const SIMILARITY_COMPONENTS = ['industry', 'region', 'size', 'recency', 'description'] as const;
+
+export type SimilarityComponent = typeof SIMILARITY_COMPONENTS[number];
+
+/**
+ * Relative weight of each part of the score; a part with no weight is left out
+ */
+export type SimilarityWeights = Record<SimilarityComponent, number>;
+
+export const DEFAULT_SIMILARITY_WEIGHTS: SimilarityWeights = {
+  industry: 30,
+  region: 20,
+  size: 25,
+  recency: 10,
+  description: 15
+};
+
+// A deal this many times larger or smaller than the target scores nothing on size
+export const DEFAULT_SIZE_BAND = 4;
+
+// A deal this many years from the reference date scores nothing on recency
+export const DEFAULT_RECENCY_YEARS = 5;
+
+/**
+ * Target to find comparables of, a real deal or a hypothetical one. Parts of
+ * the score the target says nothing about are left out.
+ */
+export interface ComparableCriteria {
+  // Industry taxonomy node ids; a deal scores on the closest of its industries
+  industries?: string[];
+  // Geography node id of the target's place
+  region?: string;
+  // $MM; size is compared on enterprise value where both have one, else revenue
+  enterpriseValue?: number;
+  revenue?: number;
+  description?: string;
+  // Recency is measured from here; today when not given
+  referenceDate?: string;
+  // Only deals announced in this window are considered
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ComparablesRequest {
+  // Deal to find comparables of; its fields fill in the criteria not given
+  dealId?: number | string;
+  criteria?: ComparableCriteria;
+  weights?: Partial<SimilarityWeights>;
+  sizeBand?: number;
+  recencyYears?: number;
+  // Most matches returned, best first
+  limit?: number;
+}
+
+export interface ComparableMatch {
+  deal: Deal;
+  // From 0 to 1
+  score: number;
+  // Score of each part from 0 to 1; null for parts left out
+  components: Record<SimilarityComponent, number | null>;
+}
+
+export interface ComparablesResult {
+  // Criteria the deals were scored against, filled in from the deal if any
+  criteria: ComparableCriteria;
+  matches: ComparableMatch[];
+}
+
+/**
+ * A deal as the similarity score sees it
+ */
+export interface ComparableCandidate {
+  // Industry taxonomy node ids of both industry fields
+  industries: string[];
+  // Geography node id of the target's place
+  region: string | null;
+  enterpriseValue: number | null;
+  revenue: number | null;
+  announcementDate: string | null;
+  description: string;
+}
+
+/**
+ * A named, pruned list of comparable deals with the score each had when saved
+ */
+export interface CompSet {
+  name: string;
+  criteria: ComparableCriteria;
+  members: { dealId: number | string; score: number }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * How close two tree nodes are: 1 for the same node, otherwise the share of
+ * the deeper path the two have in common. Nodes under the given roots are raw
+ * values the tree doesn't place, so they only match themselves.
+ */
+export function nodeSimilarity(a: string, b: string, unplacedRoot: string): number {
+  if (a === b) return 1;
+  if (isUnderNode(a, unplacedRoot) || isUnderNode(b, unplacedRoot)) return 0;
+  // Paths from the top down
+  const pathA = treePathIds(a).reverse();
+  const pathB = treePathIds(b).reverse();
+  let shared = 0;
+  while (shared < Math.min(pathA.length, pathB.length) && pathA[shared] === pathB[shared]) shared++;
+  return shared / Math.max(pathA.length, pathB.length);
+}
+
+/**
+ * How close two sizes are on a log scale: 1 when equal, 0 at `band` times
+ * apart or more
+ */
+export function sizeSimilarity(a: number, b: number, band: number): number {
+  if (a <= 0 || b <= 0) return 0;
+  return Math.max(0, 1 - Math.abs(Math.log(a / b)) / Math.log(band));
+}
+
+/**
+ * Stemmed words of a text, without stop words
+ */
+function termsOf(text: string): Set<string> {
+  return new Set(tokenize(text).map(({ token }) => stem(token)));
+}
+
+/**
+ * Share of the words of two texts that they have in common (Jaccard index)
+ */
+function termSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(term => {
+    if (b.has(term)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Score deals against a target
+ * @param criteria Target to compare with
+ * @param settings Weights of the parts of the score and how fast size and recency fall off
+ * @param unplaced Roots of the industry and geography trees holding the values they don't place
+ * @returns Function scoring a deal, or null for deals outside the date window
+ */
+export function createComparableScorer(
+  criteria: ComparableCriteria,
+  settings: Pick<ComparablesRequest, 'weights' | 'sizeBand' | 'recencyYears'>,
+  unplaced: { industry: string; region: string }
+) {
+  const weights = { ...DEFAULT_SIMILARITY_WEIGHTS, ...settings.weights };
+  const sizeBand = settings.sizeBand && settings.sizeBand > 1 ? settings.sizeBand : DEFAULT_SIZE_BAND;
+  const recencyYears = settings.recencyYears && settings.recencyYears > 0 ? settings.recencyYears : DEFAULT_RECENCY_YEARS;
+  const referenceTime = criteria.referenceDate ? Date.parse(criteria.referenceDate) : Date.now();
+  const targetTerms = criteria.description ? termsOf(criteria.description) : new Set<string>();
+  const industries = criteria.industries || [];
+  const hasSize = Boolean(criteria.enterpriseValue || criteria.revenue);
+
+  // Parts the target can be compared on
+  const scorers: Partial<Record<SimilarityComponent, (candidate: ComparableCandidate) => number>> = {};
+  if (industries.length > 0) {
+    scorers.industry = candidate => Math.max(0, ...industries.flatMap(target =>
+      candidate.industries.map(industry => nodeSimilarity(target, industry, unplaced.industry))
+    ));
+  }
+  if (criteria.region) {
+    scorers.region = candidate => candidate.region ? nodeSimilarity(criteria.region!, candidate.region, unplaced.region) : 0;
+  }
+  if (hasSize) {
+    scorers.size = candidate => {
+      if (criteria.enterpriseValue && candidate.enterpriseValue) {
+        return sizeSimilarity(criteria.enterpriseValue, candidate.enterpriseValue, sizeBand);
+      }
+      if (criteria.revenue && candidate.revenue) {
+        return sizeSimilarity(criteria.revenue, candidate.revenue, sizeBand);
+      }
+      return 0;
+    };
+  }
+  if (!isNaN(referenceTime)) {
+    scorers.recency = candidate => {
+      const time = candidate.announcementDate ? Date.parse(candidate.announcementDate) : NaN;
+      return isNaN(time) ? 0 : Math.max(0, 1 - Math.abs(referenceTime - time) / YEAR_MS / recencyYears);
+    };
+  }
+  if (targetTerms.size > 0) {
+    scorers.description = candidate => termSimilarity(targetTerms, termsOf(candidate.description));
+  }
+
+  const active = SIMILARITY_COMPONENTS.filter(component => scorers[component] && weights[component] > 0);
+  const totalWeight = active.reduce((total, component) => total + weights[component], 0);
+
+  return (candidate: ComparableCandidate): Omit<ComparableMatch, 'deal'> | null => {
+    const date = candidate.announcementDate || '';
+    if (criteria.startDate && !(date >= criteria.startDate)) return null;
+    if (criteria.endDate && !(date.slice(0, 10) <= criteria.endDate)) return null;
+
+    const components = Object.fromEntries(
+      SIMILARITY_COMPONENTS.map(component => [component, null])
+    ) as Record<SimilarityComponent, number | null>;
+    let score = 0;
+    active.forEach(component => {
+      const value = scorers[component]!(candidate);
+      components[component] = value;
+      score += value * weights[component];
+    });
+    return { score: totalWeight > 0 ? score / totalWeight : 0, components };
+  };
+}
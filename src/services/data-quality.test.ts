@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocaleNumber } from './data-quality';
+
+describe('parseLocaleNumber', () => {
+  it('reads thousands and decimal separators of common locales', () => {
+    expect(parseLocaleNumber('1 250,5').value).toBe(1250.5);
+    expect(parseLocaleNumber('1.250,5').value).toBe(1250.5);
+    expect(parseLocaleNumber('1,250.5').value).toBe(1250.5);
+    expect(parseLocaleNumber('(12.5)').value).toBe(-12.5);
+  });
+
+  it('scales amount suffixes to millions', () => {
+    expect(parseLocaleNumber('1.2bn').value).toBe(1200);
+    expect(parseLocaleNumber('$2.3B').value).toBe(2300);
+    expect(parseLocaleNumber('$1,250m').value).toBe(1250);
+    expect(parseLocaleNumber('450mm').value).toBe(450);
+    expect(parseLocaleNumber('500k').value).toBe(0.5);
+    expect(parseLocaleNumber('(1.5bn)').value).toBe(-1500);
+    expect(parseLocaleNumber('1.2bn').corrected).toBe(true);
+  });
+
+  it('drops multiple and percent signs without scaling', () => {
+    expect(parseLocaleNumber('12.5x').value).toBe(12.5);
+    expect(parseLocaleNumber('35%').value).toBe(35);
+  });
+
+  it('rejects text that is not a number', () => {
+    expect(parseLocaleNumber('bn')).toEqual({ value: null, valid: false, corrected: false });
+    expect(parseLocaleNumber('12 apples').valid).toBe(false);
+    expect(parseLocaleNumber('n/a')).toEqual({ value: null, valid: true, corrected: false });
+  });
+});
@@ -0,0 +1,321 @@
+import { DealField, DealFieldDefinition, getFieldDefinition } from './column-mapping';
+
+/**
+ * Kinds of problems found while validating imported rows
+ */
+export type DataQualityIssueCode =
+  | 'invalid_date'
+  | 'invalid_number'
+  | 'negative_value'
+  | 'multiple_mismatch'
+  | 'unknown_status';
+
+/**
+ * A single problem found in a source row
+ */
+export interface DataQualityIssue {
+  rowNumber: number;
+  field: DealField;
+  column: string;
+  value: any;
+  code: DataQualityIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Data quality report written next to the chunk files after an import
+ */
+export interface DataQualityReport {
+  sourceFile: string;
+  generatedAt: string;
+  totalRows: number;
+  rowsWithIssues: number;
+  correctedValues: number;
+  issueCounts: Partial<Record<DataQualityIssueCode, number>>;
+  issues: DataQualityIssue[];
+  truncated: boolean;
+}
+
+/**
+ * Transaction statuses allowed by the Deal type
+ */
+export const TRANSACTION_STATUSES = ['Completed', 'Announced', 'Pending'] as const;
+
+/**
+ * Relative difference above which a reported multiple is considered inconsistent
+ * with the EV and revenue/EBITDA it was derived from
+ */
+export const MULTIPLE_TOLERANCE = 0.1;
+
+/**
+ * Human readable labels for issue codes
+ */
+export const ISSUE_LABELS: Record<DataQualityIssueCode, string> = {
+  invalid_date: 'Unparseable date',
+  invalid_number: 'Non-numeric value',
+  negative_value: 'Negative value',
+  multiple_mismatch: 'Multiple mismatch',
+  unknown_status: 'Unknown status'
+};
+
+/**
+ * Result of parsing a single cell
+ */
+interface ParsedValue<T> {
+  value: T | null;
+  valid: boolean;
+  corrected: boolean;
+}
+
+const EMPTY_MARKERS = new Set(['', '-', '–', '—', 'n/a', 'na', 'n.a.', 'nm', 'n.m.', 'null', 'none']);
+
+/**
+ * Check whether a cell should be treated as empty
+ */
+function isEmpty(value: any): boolean {
+  return value === null || value === undefined ||
+    (typeof value === 'string' && EMPTY_MARKERS.has(value.trim().toLowerCase()));
+}
+
+// Power of ten an amount suffix scales by, amounts being stored in millions
+const AMOUNT_SUFFIXES: Record<string, number> = { k: -3, m: 0, mm: 0, mn: 0, b: 3, bn: 3 };
+
+/**
+ * Parse a number written in any common locale: "1 250,5", "1.250,5",
+ * "1,250.5", "(12.5)", "$1,250m", "$1.2bn" or "12.5x". Amount suffixes are
+ * scaled to millions, so "1.2bn" is 1200 and "500k" 0.5.
+ * @param raw Cell value
+ * @returns Parsed number, whether it was valid and whether text had to be cleaned up
+ */
+export function parseLocaleNumber(raw: any): ParsedValue<number> {
+  if (isEmpty(raw)) return { value: null, valid: true, corrected: false };
+  if (typeof raw === 'number') {
+    return Number.isFinite(raw)
+      ? { value: raw, valid: true, corrected: false }
+      : { value: null, valid: false, corrected: false };
+  }
+  if (typeof raw !== 'string') return { value: null, valid: false, corrected: false };
+
+  let text = raw.trim();
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+
+  // Strip currency symbols, unit suffixes and every kind of space used as a thousands separator
+  let exponent = 0;
+  text = text
+    .replace(/[\s']/g, '')
+    .replace(/^[$€£¥]|^(usd|eur|gbp|chf)/i, '')
+    .replace(/(x|%)$/i, '')
+    .replace(/(k|mm|mn|m|bn|b)$/i, suffix => {
+      exponent = AMOUNT_SUFFIXES[suffix.toLowerCase()];
+      return '';
+    });
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Whichever separator comes last is the decimal separator
+    text = lastComma > lastDot
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    // A single comma followed by exactly three digits is a thousands separator
+    const commaCount = text.split(',').length - 1;
+    text = commaCount > 1 || /^\d{1,3},\d{3}$/.test(text)
+      ? text.replace(/,/g, '')
+      : text.replace(',', '.');
+  } else if (lastDot !== -1 && text.split('.').length > 2) {
+    text = text.replace(/\./g, '');
+  }
+
+  if (!/^\d+(\.\d+)?$|^\.\d+$/.test(text)) {
+    return { value: null, valid: false, corrected: false };
+  }
+
+  // Shifting the exponent in the text keeps "2.3bn" at exactly 2300
+  const value = (negative ? -1 : 1) * parseFloat(`${text}e${exponent}`);
+  return { value, valid: true, corrected: String(value) !== raw.trim() };
+}
+
+/**
+ * Parse a date from a Date object, an Excel serial number or a date string.
+ * Day-first formats (dd/mm/yyyy, dd.mm.yyyy) are assumed for slashed dates.
+ * @param raw Cell value
+ * @returns ISO date string, whether it was valid and whether it had to be reinterpreted
+ */
+export function parseDateValue(raw: any): ParsedValue<string> {
+  if (isEmpty(raw)) return { value: null, valid: true, corrected: false };
+
+  if (raw instanceof Date) {
+    return isNaN(raw.getTime())
+      ? { value: null, valid: false, corrected: false }
+      : { value: raw.toISOString(), valid: true, corrected: false };
+  }
+
+  if (typeof raw === 'number') {
+    // Excel serial date (days since 1899-12-30)
+    if (raw > 0 && raw < 2958466) {
+      const date = new Date(Math.round((raw - 25569) * 86400 * 1000));
+      return { value: date.toISOString(), valid: true, corrected: true };
+    }
+    return { value: null, valid: false, corrected: false };
+  }
+
+  const text = String(raw).trim();
+  const dayFirst = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})$/);
+  if (dayFirst) {
+    const day = parseInt(dayFirst[1], 10);
+    const month = parseInt(dayFirst[2], 10);
+    let year = parseInt(dayFirst[3], 10);
+    if (year < 100) year += year < 50 ? 2000 : 1900;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() === month - 1 && date.getUTCDate() === day) {
+      return { value: date.toISOString(), valid: true, corrected: true };
+    }
+    return { value: null, valid: false, corrected: false };
+  }
+
+  const timestamp = Date.parse(text);
+  if (isNaN(timestamp)) return { value: null, valid: false, corrected: false };
+  return { value: new Date(timestamp).toISOString(), valid: true, corrected: !/^\d{4}-\d{2}-\d{2}/.test(text) };
+}
+
+/**
+ * Match a status case-insensitively against the statuses allowed by the Deal type
+ * @param raw Cell value
+ * @returns Canonical status, or the trimmed input when it is unknown
+ */
+export function parseStatus(raw: any): ParsedValue<string> {
+  if (isEmpty(raw)) return { value: null, valid: true, corrected: false };
+  const text = String(raw).trim();
+  const status = TRANSACTION_STATUSES.find(s => s.toLowerCase() === text.toLowerCase());
+  return status
+    ? { value: status, valid: true, corrected: status !== text }
+    : { value: text, valid: false, corrected: false };
+}
+
+/**
+ * Validates imported rows and collects issues for the data quality report
+ */
+export class DataQualityValidator {
+  private issues: DataQualityIssue[] = [];
+  private issueCounts: Partial<Record<DataQualityIssueCode, number>> = {};
+  private rowsWithIssues = 0;
+  private correctedValues = 0;
+  private totalRows = 0;
+
+  /**
+   * @param maxIssues Maximum number of issues kept in the report; counts keep going past it
+   */
+  constructor(private maxIssues = 100000) {}
+
+  /**
+   * Parse and validate the mapped cells of one row
+   * @param rowNumber Row number in the source sheet (1-based, header included)
+   * @param cells Mapped cells: field definition, source header and raw value
+   * @returns Parsed values keyed by deal field
+   */
+  validateRow(
+    rowNumber: number,
+    cells: { definition: DealFieldDefinition; header: string; value: any }[]
+  ): Partial<Record<DealField, any>> {
+    this.totalRows++;
+    const values: Partial<Record<DealField, any>> = {};
+    const columns: Partial<Record<DealField, string>> = {};
+    const rowIssues: DataQualityIssue[] = [];
+
+    const addIssue = (field: DealField, value: any, code: DataQualityIssueCode, severity: 'error' | 'warning', message: string) => {
+      rowIssues.push({ rowNumber, field, column: columns[field] || field, value, code, severity, message });
+    };
+
+    cells.forEach(({ definition, header, value }) => {
+      const { field, label } = definition;
+      columns[field] = header;
+
+      if (definition.type === 'string') {
+        values[field] = isEmpty(value) ? null : (value instanceof Date ? value.toISOString() : String(value).trim());
+        return;
+      }
+
+      const parsed = definition.type === 'number'
+        ? parseLocaleNumber(value)
+        : definition.type === 'date'
+          ? parseDateValue(value)
+          : parseStatus(value);
+      values[field] = parsed.value;
+      if (parsed.corrected) this.correctedValues++;
+
+      if (!parsed.valid) {
+        if (definition.type === 'number') {
+          addIssue(field, value, 'invalid_number', 'error', `${label} "${value}" is not a number`);
+        } else if (definition.type === 'date') {
+          addIssue(field, value, 'invalid_date', 'error', `${label} "${value}" is not a valid date`);
+        } else {
+          addIssue(field, value, 'unknown_status', 'warning',
+            `${label} "${value}" is not one of ${TRANSACTION_STATUSES.join(', ')}`);
+        }
+      }
+    });
+
+    // Sizes can't be negative; EBITDA legitimately can
+    (['targetEnterpriseValue', 'transactionValue', 'targetRevenue'] as DealField[]).forEach(field => {
+      const value = values[field];
+      if (typeof value === 'number' && value < 0) {
+        addIssue(field, value, 'negative_value', 'error', `${getFieldDefinition(field)?.label || field} ${value} is negative`);
+      }
+    });
+
+    // Reported multiples should agree with EV divided by revenue / EBITDA
+    const ev = values.targetEnterpriseValue;
+    ([
+      ['evEbitdaMultiple', 'targetEbitda', 'EBITDA'],
+      ['evRevenueMultiple', 'targetRevenue', 'revenue']
+    ] as [DealField, DealField, string][]).forEach(([multipleField, baseField, baseLabel]) => {
+      const multiple = values[multipleField];
+      const base = values[baseField];
+      if (typeof multiple !== 'number' || typeof ev !== 'number' || typeof base !== 'number' || base <= 0) return;
+      const implied = ev / base;
+      if (implied > 0 && Math.abs(multiple - implied) / implied > MULTIPLE_TOLERANCE) {
+        addIssue(multipleField, multiple, 'multiple_mismatch', 'warning',
+          `Multiple ${multiple.toFixed(2)}x doesn't match EV / ${baseLabel} = ${implied.toFixed(2)}x`);
+      }
+    });
+
+    if (rowIssues.length > 0) {
+      this.rowsWithIssues++;
+      rowIssues.forEach(issue => {
+        this.issueCounts[issue.code] = (this.issueCounts[issue.code] || 0) + 1;
+        if (this.issues.length < this.maxIssues) this.issues.push(issue);
+      });
+    }
+
+    return values;
+  }
+
+  /**
+   * Build the report for everything validated so far
+   * @param sourceFile Name of the imported file
+   * @returns Data quality report
+   */
+  getReport(sourceFile: string): DataQualityReport {
+    const issueTotal = Object.values(this.issueCounts).reduce((sum, count) => sum + (count || 0), 0);
+    return {
+      sourceFile,
+      generatedAt: new Date().toISOString(),
+      totalRows: this.totalRows,
+      rowsWithIssues: this.rowsWithIssues,
+      correctedValues: this.correctedValues,
+      issueCounts: { ...this.issueCounts },
+      issues: this.issues,
+      truncated: issueTotal > this.issues.length
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import { DealField, getFieldDefinition } from './column-mapping';
+import { FilterExpression, FilterOperators } from './filter-expression';
+import { DealsFilters, FACET_NAMES, FacetName, RANGE_FILTER_FIELDS, RangeFilter } from './ipc-contract';
+
+/**
+ * Fields each list filter matches; a deal matches if any of them holds a
+ * selected value
+ */
+export const FACET_FIELDS: Record<FacetName, DealField[]> = {
+  transactionTypes: ['transactionType'],
+  statuses: ['transactionStatus'],
+  regions: ['targetRegion'],
+  acquirerCountries: ['acquirerCountry'],
+  industries: ['targetIndustry1', 'targetIndustry2']
+};
+
+/**
+ * A list filter as a facet of the deals query
+ */
+export interface DealsFacet {
+  name: FacetName;
+  columns: string[];
+  filter: FilterExpression | null;
+  mapValue?: (value: string) => string[];
+}
+
+/**
+ * Stored column of a deal field
+ */
+function column(field: DealField): string {
+  return getFieldDefinition(field)?.column || field;
+}
+
+/**
+ * Expression for a range of a number field
+ * @returns The expression, or null for a range open at both ends
+ */
+function rangeToExpression(field: DealField, range: RangeFilter): FilterExpression | null {
+  const operators: FilterOperators = {};
+  if (typeof range.min === 'number') operators.gte = range.min;
+  if (typeof range.max === 'number') operators.lte = range.max;
+  if (Object.keys(operators).length === 0) return null;
+
+  const inRange = { [column(field)]: operators };
+  return range.includeNulls
+    ? { $or: [inRange, { [column(field)]: { isNull: true } }] }
+    : inRange;
+}
+
+/**
+ * Expression for a list filter
+ * @returns The expression, or null when nothing is selected
+ */
+function listToExpression(name: FacetName, values?: string[]): FilterExpression | null {
+  if (!values || values.length === 0) return null;
+  const fields = FACET_FIELDS[name];
+  return fields.length === 1
+    ? { [column(fields[0])]: { in: values } }
+    : { $or: fields.map(field => ({ [column(field)]: { in: values } })) };
+}
+
+/**
+ * Translate the filters of a deals request into a filter expression on the
+ * stored columns. Every filter applies: lists match any of their values,
+ * ranges include both ends.
+ * @param filters Filters of the filter panel, search box and column filters
+ * @returns Filter expression, empty when nothing is filtered
+ */
+export function dealsFiltersToExpression(filters: DealsFilters = {}): FilterExpression {
+  const parts: FilterExpression[] = [];
+  FACET_NAMES.forEach(name => {
+    const expression = listToExpression(name, filters[name]);
+    if (expression) parts.push(expression);
+  });
+
+  if (filters.startDate || filters.endDate) {
+    const dateFilter: FilterOperators = {};
+    if (filters.startDate) dateFilter.gte = filters.startDate;
+    if (filters.endDate) dateFilter.lte = filters.endDate;
+    parts.push({ [column('announcementDate')]: dateFilter });
+  }
+
+  if (filters.minSize || filters.maxSize) {
+    const size = rangeToExpression('transactionValue', {
+      min: filters.minSize || undefined,
+      max: filters.maxSize || undefined
+    });
+    if (size) parts.push(size);
+  }
+
+  RANGE_FILTER_FIELDS.forEach(field => {
+    const range = filters.ranges?.[field];
+    const expression = range ? rangeToExpression(field, range) : null;
+    if (expression) parts.push(expression);
+  });
+
+  // Conditions typed into the search box and set in the grid's column
+  // filters, already keyed by column
+  [filters.query, filters.columnFilter].forEach(expression => {
+    if (expression) parts.push(expression);
+  });
+
+  return parts.length > 0 ? { $and: parts } : {};
+}
+
+/**
+ * Split the filters of a deals request into the list filters, as facets to
+ * count, and an expression for everything else
+ * @param filters Filters of the filter panel, search box and column filters
+ * @param mapValues Values to count for a stored value, per facet, when not the value itself
+ * @returns Expression of the filters besides the lists, and one facet per list filter
+ */
+export function dealsFiltersToFacets(
+  filters: DealsFilters = {},
+  mapValues: Partial<Record<FacetName, (value: string) => string[]>> = {}
+): { filter: FilterExpression; facets: DealsFacet[] } {
+  const rest: DealsFilters = { ...filters };
+  FACET_NAMES.forEach(name => {
+    delete rest[name];
+  });
+
+  return {
+    filter: dealsFiltersToExpression(rest),
+    facets: FACET_NAMES.map(name => ({
+      name,
+      columns: FACET_FIELDS[name].map(column),
+      filter: listToExpression(name, filters[name]),
+      mapValue: mapValues[name]
+    }))
+  };
+}
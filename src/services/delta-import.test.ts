@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_IDENTITY_KEY, REMOVED_AT_COLUMN, diffDeals, mergeDeals } from './delta-import';
+
+const EXISTING = [
+  { id: 1, target_name: 'Alpha', acquirer_name: 'KKR', announcement_date: '2021-03-15T00:00:00.000Z', transaction_value: 800 },
+  { id: 2, target_name: 'Beta', acquirer_name: 'Apax', announcement_date: '2020-12-31T00:00:00.000Z', transaction_value: 200 }
+];
+
+const INCOMING = [
+  { target_name: 'Alpha', acquirer_name: 'KKR', announcement_date: '2021-03-15T00:00:00.000Z', transaction_value: 850 },
+  { target_name: 'Gamma', acquirer_name: 'EQT', announcement_date: '2022-06-30', transaction_value: 450 },
+  { target_name: null, acquirer_name: '', announcement_date: null, transaction_value: 120 }
+];
+
+describe('diffDeals', () => {
+  it('lists added, changed and missing deals by identity key', () => {
+    const summary = diffDeals(EXISTING, INCOMING, DEFAULT_IDENTITY_KEY, 'deals.xlsx');
+    expect(summary.changed).toHaveLength(1);
+    expect(summary.changed[0]).toMatchObject({ id: 1, changes: [{ field: 'transactionValue', before: 800, after: 850 }] });
+    expect(summary.added.map(deal => deal.targetName)).toEqual(['Gamma']);
+    expect(summary.removed.map(deal => deal.id)).toEqual([2]);
+  });
+
+  it('counts rows without a key instead of matching them', () => {
+    const summary = diffDeals(EXISTING, INCOMING, DEFAULT_IDENTITY_KEY, 'deals.xlsx');
+    expect(summary.missingKeyCount).toBe(1);
+    expect(summary.unchangedCount).toBe(0);
+  });
+});
+
+describe('mergeDeals', () => {
+  it('updates matches in place, flags missing deals and appends new and keyless rows', () => {
+    const merged = mergeDeals(EXISTING, INCOMING, DEFAULT_IDENTITY_KEY);
+    expect(merged.map(record => [record.id, record.transaction_value])).toEqual([[1, 850], [2, 200], [3, 450], [4, 120]]);
+    expect(merged[1][REMOVED_AT_COLUMN]).toEqual(expect.any(String));
+    expect(merged[0][REMOVED_AT_COLUMN]).toBeUndefined();
+  });
+});
@@ -0,0 +1,233 @@
+import { DealField, DEAL_FIELDS, getFieldDefinition } from './column-mapping';
+
+/**
+ * Fields used to match incoming rows to existing deals when none are configured
+ */
+export const DEFAULT_IDENTITY_KEY: DealField[] = ['targetName', 'acquirerName', 'announcementDate'];
+
+/**
+ * Column holding the time a deal was flagged as missing from the latest import
+ */
+export const REMOVED_AT_COLUMN = 'removed_at';
+
+/**
+ * A single field that differs between the stored and the incoming deal
+ */
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: any;
+  after: any;
+}
+
+/**
+ * An existing deal whose incoming row differs from the stored one
+ */
+export interface DealChange {
+  key: string;
+  id: number;
+  targetName: string | null;
+  changes: FieldChange[];
+}
+
+/**
+ * A deal identified only by its key, used for added and removed deals
+ */
+export interface DealReference {
+  key: string;
+  id: number | null;
+  targetName: string | null;
+}
+
+/**
+ * Result of comparing an incoming workbook with the stored deals
+ */
+export interface DeltaSummary {
+  identityKey: DealField[];
+  sourceFile: string;
+  added: DealReference[];
+  changed: DealChange[];
+  removed: DealReference[];
+  unchangedCount: number;
+  /** Incoming rows with every key field empty, which can't be matched */
+  missingKeyCount: number;
+  duplicateKeys: string[];
+}
+
+/**
+ * Normalise a value for identity keys and comparisons: trimmed lower-case text,
+ * dates as YYYY-MM-DD, empty values as ''
+ */
+function normalizeValue(value: any, forKey: boolean): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+  const text = String(value).trim();
+  // Stored dates are ISO strings; only the calendar day identifies a deal
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) return text.slice(0, 10);
+  return forKey ? text.toLowerCase().replace(/\s+/g, ' ') : text;
+}
+
+/**
+ * Build the identity key of a stored record
+ * @param record Record in chunk (snake_case column) format
+ * @param identityKey Fields that make up the key
+ * @returns Key string, or null if every key field is empty
+ */
+export function buildIdentityKey(record: Record<string, any>, identityKey: DealField[]): string | null {
+  const parts = identityKey.map(field => {
+    const definition = getFieldDefinition(field);
+    return normalizeValue(definition ? record[definition.column] : record[field], true);
+  });
+  return parts.every(part => part === '') ? null : parts.join('|');
+}
+
+/**
+ * List the fields that differ between a stored and an incoming record
+ * @param existing Stored record
+ * @param incoming Incoming record
+ * @returns Field-level changes
+ */
+export function diffRecords(existing: Record<string, any>, incoming: Record<string, any>): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  DEAL_FIELDS.forEach(({ field, column, label }) => {
+    const before = existing[column] ?? null;
+    const after = incoming[column] ?? null;
+    if (normalizeValue(before, false) !== normalizeValue(after, false)) {
+      changes.push({ field, label, before, after });
+    }
+  });
+
+  const extraBefore = JSON.stringify(existing.extra || {});
+  const extraAfter = JSON.stringify(incoming.extra || {});
+  if (extraBefore !== extraAfter) {
+    changes.push({ field: 'extraAttributes', label: 'Extra Attributes', before: existing.extra || null, after: incoming.extra || null });
+  }
+
+  // A deal that was flagged as removed and shows up again is restored
+  if (existing[REMOVED_AT_COLUMN]) {
+    changes.push({ field: 'removedAt', label: 'Removed', before: existing[REMOVED_AT_COLUMN], after: null });
+  }
+
+  return changes;
+}
+
+/**
+ * Compare incoming records with the stored ones by identity key
+ * @param existing Stored records
+ * @param incoming Records from the new workbook
+ * @param identityKey Fields that make up the key
+ * @param sourceFile Name of the incoming workbook
+ * @returns Added, changed and removed deals
+ */
+export function diffDeals(
+  existing: Record<string, any>[],
+  incoming: Record<string, any>[],
+  identityKey: DealField[],
+  sourceFile: string
+): DeltaSummary {
+  const existingByKey = new Map<string, Record<string, any>>();
+  existing.forEach(record => {
+    const key = buildIdentityKey(record, identityKey);
+    if (key !== null && !existingByKey.has(key)) existingByKey.set(key, record);
+  });
+
+  const summary: DeltaSummary = {
+    identityKey,
+    sourceFile,
+    added: [],
+    changed: [],
+    removed: [],
+    unchangedCount: 0,
+    missingKeyCount: 0,
+    duplicateKeys: []
+  };
+
+  const seen = new Set<string>();
+  incoming.forEach(record => {
+    const key = buildIdentityKey(record, identityKey);
+    if (key === null) {
+      summary.missingKeyCount++;
+      return;
+    }
+    if (seen.has(key)) {
+      summary.duplicateKeys.push(key);
+      return;
+    }
+    seen.add(key);
+
+    const match = existingByKey.get(key);
+    const targetName = record.target_name ?? null;
+    if (!match) {
+      summary.added.push({ key, id: null, targetName });
+      return;
+    }
+
+    const changes = diffRecords(match, record);
+    if (changes.length > 0) {
+      summary.changed.push({ key, id: match.id, targetName, changes });
+    } else {
+      summary.unchangedCount++;
+    }
+  });
+
+  existingByKey.forEach((record, key) => {
+    if (!seen.has(key) && !record[REMOVED_AT_COLUMN]) {
+      summary.removed.push({ key, id: record.id, targetName: record.target_name ?? null });
+    }
+  });
+
+  return summary;
+}
+
+/**
+ * Apply incoming records to the stored ones: matched deals are updated in place
+ * and keep their id, new deals and rows without a key are appended, and deals
+ * missing from the incoming set are kept but flagged with the removal time.
+ * @param existing Stored records
+ * @param incoming Records from the new workbook
+ * @param identityKey Fields that make up the key
+ * @returns Merged records
+ */
+export function mergeDeals(
+  existing: Record<string, any>[],
+  incoming: Record<string, any>[],
+  identityKey: DealField[]
+): Record<string, any>[] {
+  const incomingByKey = new Map<string, Record<string, any>>();
+  const keyless: Record<string, any>[] = [];
+  incoming.forEach(record => {
+    const key = buildIdentityKey(record, identityKey);
+    if (key === null) {
+      keyless.push(record);
+    } else if (!incomingByKey.has(key)) {
+      incomingByKey.set(key, record);
+    }
+  });
+
+  const now = new Date().toISOString();
+  const handledKeys = new Set<string>();
+  let nextId = existing.reduce((max, record) => Math.max(max, Number(record.id) || 0), 0) + 1;
+
+  const merged = existing.map(record => {
+    const key = buildIdentityKey(record, identityKey);
+    // Deals without a key, or repeating a key already handled, can't be compared
+    if (key === null || handledKeys.has(key)) return record;
+    handledKeys.add(key);
+
+    const update = incomingByKey.get(key);
+    if (!update) {
+      return record[REMOVED_AT_COLUMN] ? record : { ...record, [REMOVED_AT_COLUMN]: now };
+    }
+    return { ...update, id: record.id };
+  });
+
+  incomingByKey.forEach((record, key) => {
+    if (!handledKeys.has(key)) {
+      merged.push({ ...record, id: nextId++ });
+    }
+  });
+  keyless.forEach(record => merged.push({ ...record, id: nextId++ }));
+
+  return merged;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { deriveMetrics, describeConflict, isControlTransaction, withoutDerivedMetrics } from './derived-metrics';
+
+/**
+ * Imported row with every derivable column empty
+ */
+function row(fields: Record<string, any>): Record<string, any> {
+  return {
+    id: 1,
+    transaction_type: 'Acquisition',
+    transaction_value: null,
+    target_enterprise_value: null,
+    target_revenue: null,
+    target_ebitda: null,
+    ev_ebitda_multiple: null,
+    ev_revenue_multiple: null,
+    ...fields
+  };
+}
+
+describe('isControlTransaction', () => {
+  it('treats acquisitions, mergers and buyouts of the whole business as control deals', () => {
+    expect(isControlTransaction('Acquisition')).toBe(true);
+    expect(isControlTransaction('Merger')).toBe(true);
+    expect(isControlTransaction('LBO')).toBe(true);
+    expect(isControlTransaction('Take-Private')).toBe(true);
+  });
+
+  it('leaves out stakes and anything that is not a type', () => {
+    expect(isControlTransaction('Minority Stake')).toBe(false);
+    expect(isControlTransaction('Acquisition of a 30% stake')).toBe(false);
+    expect(isControlTransaction('IPO')).toBe(false);
+    expect(isControlTransaction(null)).toBe(false);
+  });
+});
+
+describe('deriveMetrics', () => {
+  it('takes the EV of a control deal from its transaction value and derives the multiples', () => {
+    const derived = deriveMetrics(row({ transaction_value: 1000, target_revenue: 500, target_ebitda: 100 }));
+    expect(derived).toMatchObject({ target_enterprise_value: 1000, ev_ebitda_multiple: 10, ev_revenue_multiple: 2, ebitda_margin: 20 });
+    expect(derived.derived_fields).toEqual(['targetEnterpriseValue', 'evEbitdaMultiple', 'evRevenueMultiple', 'ebitdaMargin']);
+  });
+
+  it('takes the EV of other deals from a reported multiple', () => {
+    const derived = deriveMetrics(row({ transaction_type: 'Minority Stake', transaction_value: 300, target_ebitda: 50, ev_ebitda_multiple: 8 }));
+    expect(derived.target_enterprise_value).toBe(400);
+    expect(derived.derived_fields).toEqual(['targetEnterpriseValue']);
+  });
+
+  it('derives nothing from a missing or zero figure', () => {
+    const derived = deriveMetrics(row({ target_enterprise_value: 1000, target_revenue: 0 }));
+    expect(derived.ev_revenue_multiple).toBeNull();
+    expect(derived.ev_ebitda_multiple).toBeNull();
+    expect(derived).not.toHaveProperty('ebitda_margin');
+    expect(derived).not.toHaveProperty('derived_fields');
+  });
+
+  it('keeps a reported margin and derives a missing one', () => {
+    expect(deriveMetrics(row({ target_revenue: 200, target_ebitda: 50, ebitda_margin: 30 })).ebitda_margin).toBe(30);
+    expect(deriveMetrics(row({ target_revenue: 200, target_ebitda: 50, ebitda_margin: null })).ebitda_margin).toBe(25);
+  });
+
+  it('flags reported multiples that disagree with reported components', () => {
+    const derived = deriveMetrics(row({ target_enterprise_value: 1000, target_ebitda: 100, target_revenue: 400, ev_ebitda_multiple: 12, ev_revenue_multiple: 2.6 }));
+    expect(derived.metric_conflicts).toEqual([{ field: 'evEbitdaMultiple', reported: 12, implied: 10 }]);
+    expect(describeConflict(derived.metric_conflicts[0])).toBe('EV/EBITDA 12.0x reported, 10.0x from EV ÷ EBITDA');
+  });
+
+  it('does not flag multiples against a derived EV', () => {
+    const derived = deriveMetrics(row({ transaction_value: 1000, target_ebitda: 100, ev_ebitda_multiple: 12 }));
+    expect(derived.target_enterprise_value).toBe(1000);
+    expect(derived).not.toHaveProperty('metric_conflicts');
+  });
+
+  it('leaves the row it is given unchanged', () => {
+    const imported = row({ transaction_value: 1000, target_ebitda: 100 });
+    const copy = { ...imported };
+    deriveMetrics(imported);
+    expect(imported).toEqual(copy);
+  });
+});
+
+describe('withoutDerivedMetrics', () => {
+  it('restores the imported row', () => {
+    const imported = row({ transaction_value: 1000, target_revenue: 500, target_ebitda: 100 });
+    expect(withoutDerivedMetrics(deriveMetrics(imported))).toEqual(imported);
+  });
+
+  it('keeps reported values and drops conflicts', () => {
+    const imported = row({ target_enterprise_value: 1000, target_ebitda: 100, ev_ebitda_multiple: 12, ebitda_margin: 15 });
+    expect(withoutDerivedMetrics(deriveMetrics(imported))).toEqual(imported);
+  });
+});
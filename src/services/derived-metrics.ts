@@ -0,0 +1,152 @@
+import { getFieldDefinition } from './column-mapping';
+import { MULTIPLE_TOLERANCE } from './data-quality';
+
+/**
+ * Raised whenever the derivation rules change, so sort indexes built under
+ * older rules are no longer trusted for the derived columns
+ */
+export const DERIVED_METRICS_VERSION = 1;
+
+/**
+ * Deal fields that are computed from other fields when not reported
+ */
+export const DERIVABLE_FIELDS = ['targetEnterpriseValue', 'evEbitdaMultiple', 'evRevenueMultiple', 'ebitdaMargin'] as const;
+
+export type DerivableField = typeof DERIVABLE_FIELDS[number];
+
+/**
+ * How each field is derived, in words
+ */
+export const DERIVATION_NOTES: Record<DerivableField, string> = {
+  targetEnterpriseValue: 'Transaction value of a control deal, or a reported multiple × revenue / EBITDA',
+  evEbitdaMultiple: 'EV ÷ EBITDA',
+  evRevenueMultiple: 'EV ÷ revenue',
+  ebitdaMargin: 'EBITDA ÷ revenue'
+};
+
+/**
+ * Multiples checked against the EV and revenue / EBITDA they should come from
+ */
+export const RECONCILED_MULTIPLES = ['evEbitdaMultiple', 'evRevenueMultiple'] as const;
+
+export type ReconciledMultiple = typeof RECONCILED_MULTIPLES[number];
+
+/**
+ * A reported multiple more than MULTIPLE_TOLERANCE away from its components
+ */
+export interface MetricConflict {
+  field: ReconciledMultiple;
+  reported: number;
+  // Reported EV ÷ reported revenue / EBITDA
+  implied: number;
+}
+
+// Chunk column each derivable field is stored under
+const COLUMNS = Object.fromEntries(
+  DERIVABLE_FIELDS.map(field => [field, getFieldDefinition(field)!.column])
+) as Record<DerivableField, string>;
+
+/**
+ * Chunk columns derivation can fill in; sort indexes of these depend on the rules
+ */
+export const DERIVED_COLUMNS: string[] = Object.values(COLUMNS);
+
+// Transaction types where the whole business changes hands, so the price paid
+// stands in for its enterprise value...
+const CONTROL_TRANSACTION = /acqui|merger|buyout|\b[lm]bo\b|take[- ]?private|asset (purchase|sale)/i;
+// ...unless only part of it does
+const PARTIAL_TRANSACTION = /minority|stake|partial|joint venture|recap/i;
+
+/**
+ * Check whether the transaction value of a deal can stand in for the target's EV
+ */
+export function isControlTransaction(transactionType: unknown): boolean {
+  const type = typeof transactionType === 'string' ? transactionType : '';
+  return CONTROL_TRANSACTION.test(type) && !PARTIAL_TRANSACTION.test(type);
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && !isNaN(value) ? value : null;
+}
+
+/**
+ * Fill in the metrics a row doesn't report and check the reported multiples
+ * against their components. Reported values are never replaced.
+ * @param row Row in chunk (snake_case column) format; left unchanged
+ * @returns Copy of the row with the derived values, `derived_fields` listing
+ * them and `metric_conflicts` listing reported multiples that disagree
+ */
+export function deriveMetrics(row: Record<string, any>): Record<string, any> {
+  const derived: Partial<Record<DerivableField, number>> = {};
+  const conflicts: MetricConflict[] = [];
+  const revenue = numberOrNull(row.target_revenue);
+  const ebitda = numberOrNull(row.target_ebitda);
+  const metrics: Record<ReconciledMultiple, number | null> = { evEbitdaMultiple: ebitda, evRevenueMultiple: revenue };
+  const multiples: Record<ReconciledMultiple, number | null> = {
+    evEbitdaMultiple: numberOrNull(row.ev_ebitda_multiple),
+    evRevenueMultiple: numberOrNull(row.ev_revenue_multiple)
+  };
+  const hasMetric = (field: ReconciledMultiple) => metrics[field] !== null && metrics[field]! > 0;
+
+  const reportedEv = numberOrNull(row.target_enterprise_value);
+  let ev = reportedEv;
+  if (ev === null) {
+    const transactionValue = numberOrNull(row.transaction_value);
+    const reportedMultiple = RECONCILED_MULTIPLES.find(field => multiples[field] !== null && multiples[field]! > 0 && hasMetric(field));
+    if (transactionValue !== null && transactionValue > 0 && isControlTransaction(row.transaction_type)) {
+      ev = transactionValue;
+    } else if (reportedMultiple) {
+      ev = multiples[reportedMultiple]! * metrics[reportedMultiple]!;
+    }
+    if (ev !== null) derived.targetEnterpriseValue = ev;
+  }
+
+  RECONCILED_MULTIPLES.forEach(field => {
+    if (ev === null || ev <= 0 || !hasMetric(field)) return;
+    const implied = ev / metrics[field]!;
+    const reported = multiples[field];
+    if (reported === null) {
+      derived[field] = implied;
+    } else if (reportedEv !== null && Math.abs(reported - implied) / implied > MULTIPLE_TOLERANCE) {
+      // Only reported components can contradict a reported multiple
+      conflicts.push({ field, reported, implied });
+    }
+  });
+
+  // A sheet imported without a mapping can carry its own margin column
+  if (numberOrNull(row.ebitda_margin) === null && revenue !== null && revenue > 0 && ebitda !== null) {
+    derived.ebitdaMargin = ebitda / revenue * 100;
+  }
+
+  const additions: Record<string, any> = {};
+  const fields = Object.keys(derived) as DerivableField[];
+  fields.forEach(field => {
+    additions[COLUMNS[field]] = derived[field];
+  });
+  if (fields.length > 0) additions.derived_fields = fields;
+  if (conflicts.length > 0) additions.metric_conflicts = conflicts;
+  return Object.assign({}, row, additions);
+}
+
+/**
+ * Undo deriveMetrics, leaving the values as they were imported
+ * @param row Row in chunk format, with derived metrics
+ * @returns Copy of the row with the reported values only
+ */
+export function withoutDerivedMetrics(row: Record<string, any>): Record<string, any> {
+  const { derived_fields: derived = [], metric_conflicts: _conflicts, ...reported } = row;
+  (derived as DerivableField[]).forEach(field => {
+    // Margin isn't an imported field, so a derived one leaves no column behind
+    if (field === 'ebitdaMargin') delete reported[COLUMNS[field]];
+    else reported[COLUMNS[field]] = null;
+  });
+  return reported;
+}
+
+/**
+ * A conflict in words, e.g. "EV/EBITDA 12.0x reported, 9.5x from EV ÷ EBITDA"
+ */
+export function describeConflict(conflict: MetricConflict): string {
+  const label = getFieldDefinition(conflict.field)!.label;
+  return `${label} ${conflict.reported.toFixed(1)}x reported, ${conflict.implied.toFixed(1)}x from ${DERIVATION_NOTES[conflict.field]}`;
+}
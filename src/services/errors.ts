@@ -0,0 +1,103 @@
+/**
+ * What went wrong, as the renderer needs to know it: whether to offer a retry,
+ * point to an import, or show a message about the filter
+ */
+export type ErrorCode =
+  | 'DATA_MISSING'
+  | 'CORRUPT_CHUNK'
+  | 'BAD_FILTER'
+  | 'NOT_FOUND'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'INVALID_REQUEST'
+  | 'UNKNOWN';
+
+/**
+ * Short description of each code, used as the title of error messages
+ */
+export const ERROR_TITLES: Record<ErrorCode, string> = {
+  DATA_MISSING: 'No data loaded',
+  CORRUPT_CHUNK: 'Data file is damaged',
+  BAD_FILTER: 'Invalid filter',
+  NOT_FOUND: 'Not found',
+  TIMEOUT: 'Request timed out',
+  CANCELLED: 'Request cancelled',
+  INVALID_REQUEST: 'Invalid request',
+  UNKNOWN: 'Something went wrong'
+};
+
+/**
+ * Codes of failures that may go away when the request is repeated
+ */
+export const RETRYABLE_ERRORS: ReadonlySet<ErrorCode> = new Set<ErrorCode>(['CORRUPT_CHUNK', 'TIMEOUT', 'UNKNOWN']);
+
+/**
+ * A table that was asked for hasn't been imported
+ */
+export class DataMissingError extends Error {
+  constructor(tableName: string) {
+    super(`Table '${tableName}' not found`);
+    this.name = 'DataMissingError';
+  }
+}
+
+/**
+ * A chunk file exists but can't be read or parsed
+ */
+export class CorruptChunkError extends Error {
+  constructor(tableName: string, chunkIndex: number, reason: string) {
+    super(`Chunk ${chunkIndex} of table '${tableName}' can't be read: ${reason}`);
+    this.name = 'CorruptChunkError';
+  }
+}
+
+/**
+ * A deal, snapshot or other record that was asked for by id doesn't exist
+ */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * A request ran longer than it was allowed to
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Query stopped because a newer one superseded it
+ */
+export class QueryCancelledError extends Error {
+  constructor(message: string = 'Query was cancelled') {
+    super(message);
+    this.name = 'QueryCancelledError';
+  }
+}
+
+// Codes of the error classes, by name so they survive the trip through the worker
+const CODES_BY_NAME: Record<string, ErrorCode> = {
+  DataMissingError: 'DATA_MISSING',
+  CorruptChunkError: 'CORRUPT_CHUNK',
+  FilterError: 'BAD_FILTER',
+  QuerySyntaxError: 'BAD_FILTER',
+  NotFoundError: 'NOT_FOUND',
+  TimeoutError: 'TIMEOUT',
+  QueryCancelledError: 'CANCELLED',
+  IpcPayloadError: 'INVALID_REQUEST'
+};
+
+/**
+ * Work out the code of an error
+ * @param error Anything thrown
+ * @returns The error's code, UNKNOWN for errors without one
+ */
+export function getErrorCode(error: unknown): ErrorCode {
+  return error instanceof Error ? CODES_BY_NAME[error.name] || 'UNKNOWN' : 'UNKNOWN';
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { FilterError, FilterExpression, compileFilter } from './filter-expression';
+
+/**
+ * Rows a filter keeps, by target name
+ */
+function matching(expression: FilterExpression): string[] {
+  return ROWS.filter(compileFilter(expression)).map(row => row.target_name);
+}
+
+const ROWS: Record<string, any>[] = [
+  { target_name: 'Alpha', target_region: 'US', transaction_type: 'Buyout', transaction_value: 800, announcement_date: '2021-03-15T14:30:00.000Z', is_public: true },
+  { target_name: 'Beta', target_region: 'UK', transaction_type: 'Carve-out', transaction_value: 200, announcement_date: '2020-12-31T00:00:00.000Z', is_public: false },
+  { target_name: 'Gamma', target_region: 'US', transaction_type: 'Merger', transaction_value: '450', announcement_date: '2021-12-31T18:00:00.000Z', is_public: null },
+  { target_name: 'Delta', target_region: 'Germany', transaction_type: 'Buyout', transaction_value: null, announcement_date: '', is_public: false }
+];
+
+describe('compileFilter', () => {
+  it('keeps every row for an empty filter', () => {
+    expect(matching({})).toEqual(['Alpha', 'Beta', 'Gamma', 'Delta']);
+  });
+
+  it('requires every condition of an object and treats lists as one-of', () => {
+    expect(matching({ target_region: 'US', transaction_type: 'Buyout' })).toEqual(['Alpha']);
+    expect(matching({ target_region: ['UK', 'Germany'] })).toEqual(['Beta', 'Delta']);
+    expect(matching({ target_region: [] })).toEqual(['Alpha', 'Beta', 'Gamma', 'Delta']);
+  });
+
+  it('evaluates nested and/or groups', () => {
+    expect(matching({
+      $and: [
+        { $or: [{ target_region: 'US' }, { target_region: 'UK' }] },
+        { $or: [{ transaction_type: { like: 'buyout' } }, { transaction_type: { like: 'carve' } }] }
+      ]
+    })).toEqual(['Alpha', 'Beta']);
+    expect(matching({ $or: [{ $and: [{ target_region: 'US' }, { transaction_value: { gt: 500 } }] }, { target_region: 'Germany' }] }))
+      .toEqual(['Alpha', 'Delta']);
+  });
+
+  it('negates a group with $not', () => {
+    expect(matching({ $not: { target_region: 'US' } })).toEqual(['Beta', 'Delta']);
+    expect(matching({ $not: { $or: [{ target_region: 'US' }, { transaction_type: 'Carve-out' }] } })).toEqual(['Delta']);
+    expect(matching({ transaction_type: 'Buyout', $not: { target_region: 'Germany' } })).toEqual(['Alpha']);
+  });
+
+  it('fails comparisons on empty values and matches them with null', () => {
+    expect(matching({ transaction_value: { lt: 1000 } })).toEqual(['Alpha', 'Beta', 'Gamma']);
+    expect(matching({ transaction_value: null })).toEqual(['Delta']);
+    expect(matching({ transaction_value: { ne: null } })).toEqual(['Alpha', 'Beta', 'Gamma']);
+    expect(matching({ announcement_date: { isNull: true } })).toEqual(['Delta']);
+    expect(matching({ is_public: { isNull: false } })).toEqual(['Alpha', 'Beta', 'Delta']);
+    expect(matching({ is_public: false })).toEqual(['Beta', 'Delta']);
+  });
+
+  it('compares numbers numerically, numeric text included', () => {
+    expect(matching({ transaction_value: { gte: 450 } })).toEqual(['Alpha', 'Gamma']);
+    expect(matching({ transaction_value: { between: [200, 450] } })).toEqual(['Beta', 'Gamma']);
+    expect(matching({ transaction_value: { in: [200, 800] } })).toEqual(['Alpha', 'Beta']);
+  });
+
+  it('compares dates by whole days', () => {
+    expect(matching({ announcement_date: '2021-03-15' })).toEqual(['Alpha']);
+    expect(matching({ announcement_date: { lte: '2021-12-31' } })).toEqual(['Alpha', 'Beta', 'Gamma']);
+    expect(matching({ announcement_date: { lt: '2021-12-31' } })).toEqual(['Alpha', 'Beta']);
+    expect(matching({ announcement_date: { gt: '2020-12-31' } })).toEqual(['Alpha', 'Gamma']);
+    expect(matching({ announcement_date: { between: ['2021-01-01', '2021-12-31'] } })).toEqual(['Alpha', 'Gamma']);
+  });
+
+  it('matches text without regard to case', () => {
+    expect(matching({ target_name: { startsWith: 'GA' } })).toEqual(['Gamma']);
+    expect(matching({ transaction_type: { regex: '^(buy|merg)' } })).toEqual(['Alpha', 'Gamma', 'Delta']);
+    expect(matching({ target_region: 'us' })).toEqual(['Alpha', 'Gamma']);
+  });
+
+  it('rejects malformed filters', () => {
+    expect(() => compileFilter({ target_region: { near: 'US' } } as FilterExpression)).toThrow(FilterError);
+    expect(() => compileFilter({ $xor: [] } as FilterExpression)).toThrow('Unknown filter group "$xor"');
+    expect(() => compileFilter({ $or: { target_region: 'US' } } as unknown as FilterExpression)).toThrow('"$or" needs a list of filters');
+    expect(() => compileFilter({ transaction_value: { between: [1] } } as unknown as FilterExpression)).toThrow(FilterError);
+    expect(() => compileFilter({ announcement_date: { gt: '2021-13-01' } })).toThrow('is not a valid date');
+    expect(() => compileFilter({ target_name: { regex: '(' } })).toThrow(FilterError);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Value a column can be compared with
+ */
+export type FilterValue = string | number | boolean | null;
+
+/**
+ * Operators of a column condition
+ */
+export interface FilterOperators {
+  eq?: FilterValue;
+  ne?: FilterValue;
+  gt?: FilterValue;
+  gte?: FilterValue;
+  lt?: FilterValue;
+  lte?: FilterValue;
+  // Inclusive [min, max]
+  between?: [FilterValue, FilterValue];
+  in?: FilterValue[];
+  // true matches empty values, false non-empty ones
+  isNull?: boolean;
+  // Case-insensitive substring
+  like?: string;
+  // Case-insensitive prefix
+  startsWith?: string;
+  // Case-insensitive regular expression
+  regex?: string;
+}
+
+/**
+ * Condition on one column: a value to equal, a list of values to be one of,
+ * or operators that must all hold
+ */
+export type FilterCondition = FilterValue | FilterValue[] | FilterOperators;
+
+/**
+ * Filter expression. Column conditions and groups in the same object must all
+ * hold; `$and`, `$or` and `$not` nest further expressions, so
+ * "(US OR UK) AND (buyout OR carve-out)" is
+ *
+ *   { $and: [
+ *     { $or: [{ target_region: 'US' }, { target_region: 'UK' }] },
+ *     { $or: [{ transaction_type: { like: 'buyout' } }, { transaction_type: { like: 'carve-out' } }] }
+ *   ] }
+ */
+export interface FilterExpression {
+  $and?: FilterExpression[];
+  $or?: FilterExpression[];
+  $not?: FilterExpression;
+  [column: string]: FilterCondition | FilterExpression | FilterExpression[] | undefined;
+}
+
+/**
+ * Filter that can't be evaluated, e.g. because of an unknown operator
+ */
+export class FilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterError';
+  }
+}
+
+type Predicate = (item: Record<string, any>) => boolean;
+
+const OPERATORS = new Set<keyof FilterOperators>([
+  'eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'isNull', 'like', 'startsWith', 'regex'
+]);
+
+// ISO date, optionally with a time: 2021-05-01, 2021-05-01T10:00:00.000Z
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Operand prepared for comparison. Dates cover a span: a date without a time is
+ * the whole day, so `lte: '2021-12-31'` includes deals announced that afternoon.
+ */
+type Operand =
+  | { kind: 'number'; value: number }
+  | { kind: 'date'; start: number; end: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'boolean'; value: boolean };
+
+/**
+ * Check whether a value counts as empty
+ */
+function isEmpty(value: any): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Work out how an operand compares: numbers numerically, ISO dates
+ * chronologically, anything else as text
+ */
+function toOperand(value: FilterValue, description: string): Operand {
+  if (typeof value === 'number') {
+    if (isNaN(value)) throw new FilterError(`${description} is not a number`);
+    return { kind: 'number', value };
+  }
+  if (typeof value === 'boolean') {
+    return { kind: 'boolean', value };
+  }
+  if (typeof value !== 'string') {
+    throw new FilterError(`${description} has no value to compare with`);
+  }
+  if (ISO_DATE.test(value)) {
+    const start = Date.parse(value.length === 10 ? `${value}T00:00:00.000Z` : value);
+    if (isNaN(start)) throw new FilterError(`${description}: "${value}" is not a valid date`);
+    return { kind: 'date', start, end: value.length === 10 ? start + DAY_MS : start };
+  }
+  return { kind: 'string', value };
+}
+
+/**
+ * Compare a row value with an operand the way the operand's type compares
+ * @returns Negative, zero or positive, or null if the value isn't of that type
+ */
+function compareWith(value: any, operand: Operand): number | null {
+  if (isEmpty(value)) return null;
+
+  switch (operand.kind) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      return isNaN(number) ? null : number - operand.value;
+    }
+    case 'date': {
+      const time = value instanceof Date ? value.getTime() : typeof value === 'string' ? Date.parse(value) : NaN;
+      if (isNaN(time)) return null;
+      if (time < operand.start) return -1;
+      // Anywhere inside a whole day compares as equal
+      if (operand.end > operand.start) return time < operand.end ? 0 : 1;
+      return time > operand.start ? 1 : 0;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? Number(value) - Number(operand.value) : null;
+    case 'string':
+      return collator.compare(String(value), operand.value);
+  }
+}
+
+/**
+ * Prepare an operand for equality; null stands for an empty value
+ */
+function toEqualityOperand(value: FilterValue, description: string): Operand | null {
+  return value === null ? null : toOperand(value, description);
+}
+
+/**
+ * Check whether a row value equals a prepared operand
+ */
+function equals(value: any, operand: Operand | null): boolean {
+  return operand === null ? isEmpty(value) : compareWith(value, operand) === 0;
+}
+
+/**
+ * Build the predicate of one operator on a column
+ */
+function compileOperator(column: string, operator: string, operand: any): Predicate {
+  const description = `Filter on "${column}" (${operator})`;
+  if (!OPERATORS.has(operator as keyof FilterOperators)) {
+    throw new FilterError(`Unknown filter operator "${operator}" on "${column}"`);
+  }
+
+  switch (operator as keyof FilterOperators) {
+    case 'eq':
+    case 'ne': {
+      const prepared = toEqualityOperand(operand, description);
+      return operator === 'eq'
+        ? item => equals(item[column], prepared)
+        : item => !equals(item[column], prepared);
+    }
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const prepared = toOperand(operand, description);
+      const test = {
+        gt: (result: number) => result > 0,
+        gte: (result: number) => result >= 0,
+        lt: (result: number) => result < 0,
+        lte: (result: number) => result <= 0
+      }[operator as 'gt' | 'gte' | 'lt' | 'lte'];
+      return item => {
+        const result = compareWith(item[column], prepared);
+        return result !== null && test(result);
+      };
+    }
+    case 'between': {
+      if (!Array.isArray(operand) || operand.length !== 2) {
+        throw new FilterError(`${description} needs [min, max]`);
+      }
+      const min = toOperand(operand[0], description);
+      const max = toOperand(operand[1], description);
+      return item => {
+        const low = compareWith(item[column], min);
+        const high = compareWith(item[column], max);
+        return low !== null && high !== null && low >= 0 && high <= 0;
+      };
+    }
+    case 'in': {
+      if (!Array.isArray(operand)) {
+        throw new FilterError(`${description} needs a list of values`);
+      }
+      const prepared = operand.map((value: FilterValue) => toEqualityOperand(value, description));
+      return item => prepared.some(value => equals(item[column], value));
+    }
+    case 'isNull': {
+      if (typeof operand !== 'boolean') {
+        throw new FilterError(`${description} needs true or false`);
+      }
+      return item => isEmpty(item[column]) === operand;
+    }
+    case 'like':
+    case 'startsWith': {
+      if (typeof operand !== 'string') {
+        throw new FilterError(`${description} needs text`);
+      }
+      const text = operand.toLowerCase();
+      return operator === 'like'
+        ? item => !isEmpty(item[column]) && String(item[column]).toLowerCase().includes(text)
+        : item => !isEmpty(item[column]) && String(item[column]).toLowerCase().startsWith(text);
+    }
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(String(operand), 'i');
+      } catch (error) {
+        throw new FilterError(`${description}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return item => !isEmpty(item[column]) && pattern.test(String(item[column]));
+    }
+  }
+}
+
+/**
+ * Build the predicate of a column condition
+ */
+function compileCondition(column: string, condition: FilterCondition): Predicate {
+  if (Array.isArray(condition)) {
+    // An empty list puts no restriction on the column
+    if (condition.length === 0) return () => true;
+    return compileOperator(column, 'in', condition);
+  }
+  if (typeof condition === 'object' && condition !== null) {
+    const predicates = Object.entries(condition).map(([operator, operand]) => compileOperator(column, operator, operand));
+    return item => predicates.every(predicate => predicate(item));
+  }
+  return compileOperator(column, 'eq', condition);
+}
+
+/**
+ * Validate a filter expression and turn it into a predicate. Compiling once
+ * keeps regular expressions and date parsing out of the per-row loop.
+ * @param expression Filter expression
+ * @returns Function telling whether a row matches
+ * @throws FilterError for unknown operators, malformed groups or operands of the wrong type
+ */
+export function compileFilter(expression: FilterExpression): Predicate {
+  if (typeof expression !== 'object' || expression === null || Array.isArray(expression)) {
+    throw new FilterError('Filter must be an object');
+  }
+
+  const predicates = Object.entries(expression).map(([key, value]): Predicate => {
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(value)) {
+        throw new FilterError(`"${key}" needs a list of filters`);
+      }
+      const parts = (value as FilterExpression[]).map(compileFilter);
+      return key === '$and'
+        ? item => parts.every(part => part(item))
+        : item => parts.some(part => part(item));
+    }
+    if (key === '$not') {
+      const part = compileFilter(value as FilterExpression);
+      return item => !part(item);
+    }
+    if (key.startsWith('$')) {
+      throw new FilterError(`Unknown filter group "${key}"`);
+    }
+    if (value === undefined) {
+      return () => true;
+    }
+    return compileCondition(key, value as FilterCondition);
+  });
+
+  return item => predicates.every(predicate => predicate(item));
+}
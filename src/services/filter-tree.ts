@@ -0,0 +1,105 @@
+/**
+ * Node of a hierarchical filter, such as the industry taxonomy or the
+ * geography of the filter panel. Ids are the path of names from the top down,
+ * so a node's id starts with its ancestors' ids.
+ */
+export interface FilterTreeNode {
+  id: string;
+  name: string;
+  // Level in the hierarchy, e.g. sector or country
+  level: string;
+  children: FilterTreeNode[];
+}
+
+const ID_SEPARATOR = ' > ';
+
+/**
+ * Id of a node from the names on its path
+ */
+export function treeNodeId(...names: string[]): string {
+  return names.join(ID_SEPARATOR);
+}
+
+/**
+ * Ids of a node and every node above it, from the node up
+ */
+export function treePathIds(id: string): string[] {
+  const names = id.split(ID_SEPARATOR);
+  return names.map((_, i) => treeNodeId(...names.slice(0, names.length - i)));
+}
+
+/**
+ * Whether a node lies under another, or is that node
+ */
+export function isUnderNode(id: string, ancestorId: string): boolean {
+  return id === ancestorId || id.startsWith(ancestorId + ID_SEPARATOR);
+}
+
+/**
+ * Selection state of a tree node: checked when it or a node above it is
+ * selected, partly checked when a node below it is
+ */
+export function treeSelectionState(id: string, selected: string[]): 'checked' | 'partial' | 'unchecked' {
+  if (selected.some(selectedId => isUnderNode(id, selectedId))) return 'checked';
+  if (selected.some(selectedId => isUnderNode(selectedId, id))) return 'partial';
+  return 'unchecked';
+}
+
+/**
+ * Check or uncheck a tree node. Checking replaces the selected nodes below it
+ * and, once every child of a node is checked, the children by their parent.
+ * Unchecking a node checked through a node above it selects that node's
+ * other descendants instead.
+ * @returns The new selection
+ */
+export function toggleTreeSelection(tree: FilterTreeNode[], selected: string[], id: string): string[] {
+  const byId = new Map<string, FilterTreeNode>();
+  const parents = new Map<string, string>();
+  const index = (nodes: FilterTreeNode[], parentId?: string) => {
+    nodes.forEach(node => {
+      byId.set(node.id, node);
+      if (parentId) parents.set(node.id, parentId);
+      index(node.children, node.id);
+    });
+  };
+  index(tree);
+
+  const selectedAbove = selected.find(selectedId => isUnderNode(id, selectedId));
+
+  if (selectedAbove === id) {
+    return selected.filter(selectedId => selectedId !== id);
+  }
+
+  if (selectedAbove) {
+    // Replace the selected node above by the siblings of each node on the way down
+    const next = selected.filter(selectedId => selectedId !== selectedAbove);
+    let current = id;
+    while (current !== selectedAbove) {
+      const parentId = parents.get(current)!;
+      byId.get(parentId)!.children
+        .filter(child => child.id !== current)
+        .forEach(child => next.push(child.id));
+      current = parentId;
+    }
+    return next;
+  }
+
+  let next = [...selected.filter(selectedId => !isUnderNode(selectedId, id)), id];
+  let current = id;
+  let parentId = parents.get(current);
+  while (parentId) {
+    const siblings = byId.get(parentId)!.children;
+    if (!siblings.every(child => next.includes(child.id))) break;
+    next = [...next.filter(selectedId => !siblings.some(child => child.id === selectedId)), parentId];
+    current = parentId;
+    parentId = parents.get(current);
+  }
+  return next;
+}
+
+/**
+ * Nodes of a tree in display order, each with its depth from the top
+ */
+export function flattenTree(tree: FilterTreeNode[], depth = 0): { node: FilterTreeNode; depth: number }[] {
+  return tree.flatMap(node => [{ node, depth }, ...flattenTree(node.children, depth + 1)]);
+}
@@ -0,0 +1,338 @@
+import { FilterTreeNode, isUnderNode, treeNodeId, treePathIds } from './filter-tree';
+
+/**
+ * Raw place → ISO country code, sub-region or continent name. Extends and
+ * overrides the default aliases; an empty target drops a default alias.
+ */
+export type GeographyAliases = Record<string, string>;
+
+export type GeographyLevel = 'continent' | 'subRegion' | 'country';
+
+/**
+ * File in the data directory with the user's aliases
+ */
+export const GEOGRAPHY_ALIASES_FILE = 'geography-aliases.json';
+
+/**
+ * Continent of the raw places the aliases and country names don't resolve,
+ * each as a place of its own so they can still be filtered on
+ */
+export const UNRESOLVED_CONTINENT = 'Unresolved';
+
+/**
+ * Countries by ISO 3166-1 alpha-2 code, grouped by continent and sub-region
+ * after the UN M49 standard
+ */
+const COUNTRIES_BY_REGION: Record<string, Record<string, Record<string, string>>> = {
+  Africa: {
+    'Northern Africa': {
+      DZ: 'Algeria', EG: 'Egypt', LY: 'Libya', MA: 'Morocco', SD: 'Sudan', TN: 'Tunisia', EH: 'Western Sahara'
+    },
+    'Sub-Saharan Africa': {
+      AO: 'Angola', BJ: 'Benin', BW: 'Botswana', BF: 'Burkina Faso', BI: 'Burundi', CV: 'Cabo Verde',
+      CM: 'Cameroon', CF: 'Central African Republic', TD: 'Chad', KM: 'Comoros', CG: 'Congo',
+      CD: 'Democratic Republic of the Congo', CI: 'Côte d\'Ivoire', DJ: 'Djibouti', GQ: 'Equatorial Guinea',
+      ER: 'Eritrea', SZ: 'Eswatini', ET: 'Ethiopia', GA: 'Gabon', GM: 'Gambia', GH: 'Ghana', GN: 'Guinea',
+      GW: 'Guinea-Bissau', KE: 'Kenya', LS: 'Lesotho', LR: 'Liberia', MG: 'Madagascar', MW: 'Malawi',
+      ML: 'Mali', MR: 'Mauritania', MU: 'Mauritius', YT: 'Mayotte', MZ: 'Mozambique', NA: 'Namibia',
+      NE: 'Niger', NG: 'Nigeria', RE: 'Réunion', RW: 'Rwanda', SH: 'Saint Helena', ST: 'Sao Tome and Principe',
+      SN: 'Senegal', SC: 'Seychelles', SL: 'Sierra Leone', SO: 'Somalia', ZA: 'South Africa',
+      SS: 'South Sudan', TZ: 'Tanzania', TG: 'Togo', UG: 'Uganda', ZM: 'Zambia', ZW: 'Zimbabwe'
+    }
+  },
+  Americas: {
+    'Northern America': {
+      BM: 'Bermuda', CA: 'Canada', GL: 'Greenland', PM: 'Saint Pierre and Miquelon', US: 'United States'
+    },
+    'Latin America and the Caribbean': {
+      AI: 'Anguilla', AG: 'Antigua and Barbuda', AR: 'Argentina', AW: 'Aruba', BS: 'Bahamas', BB: 'Barbados',
+      BZ: 'Belize', BO: 'Bolivia', BQ: 'Bonaire, Sint Eustatius and Saba', BR: 'Brazil',
+      VG: 'British Virgin Islands', KY: 'Cayman Islands', CL: 'Chile', CO: 'Colombia', CR: 'Costa Rica',
+      CU: 'Cuba', CW: 'Curaçao', DM: 'Dominica', DO: 'Dominican Republic', EC: 'Ecuador', SV: 'El Salvador',
+      FK: 'Falkland Islands', GF: 'French Guiana', GD: 'Grenada', GP: 'Guadeloupe', GT: 'Guatemala',
+      GY: 'Guyana', HT: 'Haiti', HN: 'Honduras', JM: 'Jamaica', MQ: 'Martinique', MX: 'Mexico',
+      MS: 'Montserrat', NI: 'Nicaragua', PA: 'Panama', PY: 'Paraguay', PE: 'Peru', PR: 'Puerto Rico',
+      BL: 'Saint Barthélemy', KN: 'Saint Kitts and Nevis', LC: 'Saint Lucia', MF: 'Saint Martin',
+      VC: 'Saint Vincent and the Grenadines', SX: 'Sint Maarten', SR: 'Suriname', TT: 'Trinidad and Tobago',
+      TC: 'Turks and Caicos Islands', VI: 'United States Virgin Islands', UY: 'Uruguay', VE: 'Venezuela'
+    }
+  },
+  Asia: {
+    'Central Asia': {
+      KZ: 'Kazakhstan', KG: 'Kyrgyzstan', TJ: 'Tajikistan', TM: 'Turkmenistan', UZ: 'Uzbekistan'
+    },
+    'Eastern Asia': {
+      CN: 'China', HK: 'Hong Kong', MO: 'Macao', KP: 'North Korea', JP: 'Japan', MN: 'Mongolia',
+      KR: 'South Korea', TW: 'Taiwan'
+    },
+    'South-eastern Asia': {
+      BN: 'Brunei', KH: 'Cambodia', ID: 'Indonesia', LA: 'Laos', MY: 'Malaysia', MM: 'Myanmar',
+      PH: 'Philippines', SG: 'Singapore', TH: 'Thailand', TL: 'Timor-Leste', VN: 'Vietnam'
+    },
+    'Southern Asia': {
+      AF: 'Afghanistan', BD: 'Bangladesh', BT: 'Bhutan', IN: 'India', IR: 'Iran', MV: 'Maldives',
+      NP: 'Nepal', PK: 'Pakistan', LK: 'Sri Lanka'
+    },
+    'Western Asia': {
+      AM: 'Armenia', AZ: 'Azerbaijan', BH: 'Bahrain', CY: 'Cyprus', GE: 'Georgia', IQ: 'Iraq', IL: 'Israel',
+      JO: 'Jordan', KW: 'Kuwait', LB: 'Lebanon', OM: 'Oman', QA: 'Qatar', SA: 'Saudi Arabia',
+      PS: 'Palestine', SY: 'Syria', TR: 'Türkiye', AE: 'United Arab Emirates', YE: 'Yemen'
+    }
+  },
+  Europe: {
+    'Eastern Europe': {
+      BY: 'Belarus', BG: 'Bulgaria', CZ: 'Czechia', HU: 'Hungary', PL: 'Poland', MD: 'Moldova',
+      RO: 'Romania', RU: 'Russia', SK: 'Slovakia', UA: 'Ukraine'
+    },
+    'Northern Europe': {
+      AX: 'Åland Islands', DK: 'Denmark', EE: 'Estonia', FO: 'Faroe Islands', FI: 'Finland', GG: 'Guernsey',
+      IS: 'Iceland', IE: 'Ireland', IM: 'Isle of Man', JE: 'Jersey', LV: 'Latvia', LT: 'Lithuania',
+      NO: 'Norway', SJ: 'Svalbard and Jan Mayen', SE: 'Sweden', GB: 'United Kingdom'
+    },
+    'Southern Europe': {
+      AL: 'Albania', AD: 'Andorra', BA: 'Bosnia and Herzegovina', HR: 'Croatia', GI: 'Gibraltar',
+      GR: 'Greece', VA: 'Holy See', IT: 'Italy', XK: 'Kosovo', MT: 'Malta', ME: 'Montenegro',
+      MK: 'North Macedonia', PT: 'Portugal', SM: 'San Marino', RS: 'Serbia', SI: 'Slovenia', ES: 'Spain'
+    },
+    'Western Europe': {
+      AT: 'Austria', BE: 'Belgium', FR: 'France', DE: 'Germany', LI: 'Liechtenstein', LU: 'Luxembourg',
+      MC: 'Monaco', NL: 'Netherlands', CH: 'Switzerland'
+    }
+  },
+  Oceania: {
+    'Australia and New Zealand': {
+      AU: 'Australia', NZ: 'New Zealand', NF: 'Norfolk Island'
+    },
+    Melanesia: {
+      FJ: 'Fiji', NC: 'New Caledonia', PG: 'Papua New Guinea', SB: 'Solomon Islands', VU: 'Vanuatu'
+    },
+    Micronesia: {
+      GU: 'Guam', KI: 'Kiribati', MH: 'Marshall Islands', FM: 'Micronesia', NR: 'Nauru',
+      MP: 'Northern Mariana Islands', PW: 'Palau'
+    },
+    Polynesia: {
+      AS: 'American Samoa', CK: 'Cook Islands', PF: 'French Polynesia', NU: 'Niue', PN: 'Pitcairn',
+      WS: 'Samoa', TK: 'Tokelau', TO: 'Tonga', TV: 'Tuvalu', WF: 'Wallis and Futuna'
+    }
+  }
+};
+
+/**
+ * Spellings of places found in deal data besides the names and codes above
+ */
+export const DEFAULT_GEOGRAPHY_ALIASES: GeographyAliases = {
+  'UK': 'GB',
+  'U.K.': 'GB',
+  'Great Britain': 'GB',
+  'Britain': 'GB',
+  'England': 'GB',
+  'Scotland': 'GB',
+  'Wales': 'GB',
+  'Northern Ireland': 'GB',
+  'United Kingdom of Great Britain and Northern Ireland': 'GB',
+  'USA': 'US',
+  'U.S.': 'US',
+  'U.S.A.': 'US',
+  'United States of America': 'US',
+  'America': 'US',
+  'UAE': 'AE',
+  'Emirates': 'AE',
+  'Holland': 'NL',
+  'The Netherlands': 'NL',
+  'Czech Republic': 'CZ',
+  'Turkey': 'TR',
+  'Korea': 'KR',
+  'Republic of Korea': 'KR',
+  'Korea, Republic of': 'KR',
+  'PRC': 'CN',
+  "People's Republic of China": 'CN',
+  'Mainland China': 'CN',
+  'Hong Kong SAR': 'HK',
+  'Russian Federation': 'RU',
+  'Viet Nam': 'VN',
+  'Ivory Coast': 'CI',
+  'Swaziland': 'SZ',
+  'Macedonia': 'MK',
+  'Burma': 'MM',
+  'Republic of Ireland': 'IE',
+  'Eire': 'IE',
+  'KSA': 'SA',
+  'DRC': 'CD',
+  'North America': 'Northern America',
+  'Latin America': 'Latin America and the Caribbean',
+  'LatAm': 'Latin America and the Caribbean',
+  'South America': 'Latin America and the Caribbean',
+  'Central America': 'Latin America and the Caribbean',
+  'Caribbean': 'Latin America and the Caribbean',
+  'Middle East': 'Western Asia',
+  'Southeast Asia': 'South-eastern Asia',
+  'South East Asia': 'South-eastern Asia',
+  'ASEAN': 'South-eastern Asia',
+  'East Asia': 'Eastern Asia',
+  'South Asia': 'Southern Asia',
+  'Nordics': 'Northern Europe',
+  'Scandinavia': 'Northern Europe',
+  'Australasia': 'Australia and New Zealand',
+  'ANZ': 'Australia and New Zealand',
+  'Sub-Saharan': 'Sub-Saharan Africa',
+  'North Africa': 'Northern Africa'
+};
+
+/**
+ * Check the shape of aliases read from a file
+ * @throws Error describing the first problem found
+ */
+export function parseGeographyAliases(value: unknown): GeographyAliases {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Geography aliases must be an object of place → country code or region');
+  }
+  Object.entries(value).forEach(([place, target]) => {
+    if (typeof target !== 'string') {
+      throw new Error(`Alias "${place}" must map to a country code or region name`);
+    }
+  });
+  return value as GeographyAliases;
+}
+
+/**
+ * Every continent, sub-region and country as a filter tree
+ */
+function fullGeographyTree(): FilterTreeNode[] {
+  return Object.entries(COUNTRIES_BY_REGION).map(([continent, subRegions]) => ({
+    id: treeNodeId(continent),
+    name: continent,
+    level: 'continent',
+    children: Object.entries(subRegions).map(([subRegion, countries]) => ({
+      id: treeNodeId(continent, subRegion),
+      name: subRegion,
+      level: 'subRegion',
+      children: Object.entries(countries)
+        .sort(([, a], [, b]) => a.localeCompare(b))
+        .map(([code, name]) => ({
+          id: treeNodeId(continent, subRegion, code),
+          name,
+          level: 'country',
+          children: []
+        }))
+    }))
+  }));
+}
+
+/**
+ * Places an alias can point to: country codes and names, sub-regions and
+ * continents, with the id of their node
+ */
+export function geographyTargets(): { name: string; id: string; level: GeographyLevel }[] {
+  const targets: { name: string; id: string; level: GeographyLevel }[] = [];
+  Object.entries(COUNTRIES_BY_REGION).forEach(([continent, subRegions]) => {
+    targets.push({ name: continent, id: treeNodeId(continent), level: 'continent' });
+    Object.entries(subRegions).forEach(([subRegion, countries]) => {
+      targets.push({ name: subRegion, id: treeNodeId(continent, subRegion), level: 'subRegion' });
+      Object.entries(countries).forEach(([code, name]) => {
+        const id = treeNodeId(continent, subRegion, code);
+        targets.push({ name: code, id, level: 'country' }, { name, id, level: 'country' });
+      });
+    });
+  });
+  return targets;
+}
+
+/**
+ * Resolves raw places with the country names and codes, region names and aliases
+ * @param aliases User aliases, applied over the defaults
+ * @returns Function giving the id of a place's node, or null for places it can't resolve
+ */
+export function createGeographyClassifier(aliases: GeographyAliases = {}): (value: string) => string | null {
+  const key = (value: string) => value.trim().toLowerCase();
+  const targets = new Map<string, string>();
+  geographyTargets().forEach(target => targets.set(key(target.name), target.id));
+
+  const places = new Map(targets);
+  Object.entries({ ...DEFAULT_GEOGRAPHY_ALIASES, ...aliases }).forEach(([place, target]) => {
+    const id = target ? targets.get(key(target)) : undefined;
+    if (id) {
+      places.set(key(place), id);
+    } else if (target === '') {
+      places.delete(key(place));
+    }
+  });
+
+  return (value: string) => places.get(key(value)) || null;
+}
+
+/**
+ * Node id of a raw place: the node it resolves to, or its own node in the
+ * unresolved continent
+ */
+export function geographyNodeId(classify: (value: string) => string | null, value: string): string {
+  return classify(value) || treeNodeId(UNRESOLVED_CONTINENT, value);
+}
+
+/**
+ * Whether a node is a country rather than a region
+ */
+function isCountry(id: string): boolean {
+  // Continent > sub-region > country; unresolved places sit one level up
+  return treePathIds(id).length === 3;
+}
+
+/**
+ * Tree of the continents, sub-regions and countries that hold, or lie above,
+ * at least one of the raw places, followed by the places that don't resolve
+ * @param classify Resolver of raw places
+ * @param values Raw places in the data
+ * @returns Continents in order, and the places that don't resolve
+ */
+export function buildGeographyTree(
+  classify: (value: string) => string | null,
+  values: string[]
+): { tree: FilterTreeNode[]; unmapped: string[] } {
+  const used = new Set<string>();
+  const unmapped: string[] = [];
+  values.forEach(value => {
+    const id = classify(value);
+    if (id) {
+      treePathIds(id).forEach(pathId => used.add(pathId));
+    } else {
+      unmapped.push(value);
+    }
+  });
+
+  const prune = (nodes: FilterTreeNode[]): FilterTreeNode[] => nodes
+    .filter(node => used.has(node.id))
+    .map(node => ({ ...node, children: prune(node.children) }));
+  const tree = prune(fullGeographyTree());
+
+  unmapped.sort();
+  if (unmapped.length > 0) {
+    tree.push({
+      id: treeNodeId(UNRESOLVED_CONTINENT),
+      name: UNRESOLVED_CONTINENT,
+      level: 'continent',
+      children: unmapped.map(value => ({
+        id: treeNodeId(UNRESOLVED_CONTINENT, value),
+        name: value,
+        level: 'country',
+        children: []
+      }))
+    });
+  }
+
+  return { tree, unmapped };
+}
+
+/**
+ * Whether a deal crosses a border, from where its target and acquirer are
+ * @param targetId Node of the target's place
+ * @param acquirerId Node of the acquirer's place
+ * @returns Domestic when both are the same country; cross-border when neither
+ * place lies within the other, e.g. a French acquirer of a target in Northern
+ * America; null when it can't be told, e.g. a French acquirer of a target in
+ * Europe or a place that doesn't resolve
+ */
+export function borderRelation(targetId: string, acquirerId: string): 'domestic' | 'crossBorder' | null {
+  if (isUnderNode(targetId, UNRESOLVED_CONTINENT) || isUnderNode(acquirerId, UNRESOLVED_CONTINENT)) return null;
+  if (targetId === acquirerId) return isCountry(targetId) ? 'domestic' : null;
+  if (isUnderNode(targetId, acquirerId) || isUnderNode(acquirerId, targetId)) return null;
+  return 'crossBorder';
+}
@@ -0,0 +1,136 @@
+import { DealField, getFieldDefinition } from './column-mapping';
+import { FilterError, FilterExpression, FilterOperators } from './filter-expression';
+
+/**
+ * One condition of a column filter, as AG Grid's text, number and date
+ * filters report it
+ */
+export interface ColumnFilterCondition {
+  filterType?: 'text' | 'number' | 'date';
+  type?: string | null;
+  // Text and number filters
+  filter?: string | number | null;
+  filterTo?: number | null;
+  // Date filters, formatted `YYYY-MM-DD hh:mm:ss`
+  dateFrom?: string | null;
+  dateTo?: string | null;
+}
+
+/**
+ * Column filter with up to a few conditions joined by AND or OR
+ */
+export interface CombinedColumnFilter {
+  filterType?: 'text' | 'number' | 'date';
+  operator: 'AND' | 'OR';
+  conditions: ColumnFilterCondition[];
+}
+
+export type ColumnFilter = ColumnFilterCondition | CombinedColumnFilter;
+
+/**
+ * Filter model of the grid, keyed by column id (the deal field)
+ */
+export type ColumnFilterModel = Record<string, ColumnFilter>;
+
+/**
+ * Escape text for use inside a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Operand of a condition: the number, the date without its time, or the text
+ */
+function operandOf(condition: ColumnFilterCondition, to = false): string | number {
+  if (condition.filterType === 'date') {
+    const date = to ? condition.dateTo : condition.dateFrom;
+    return date ? date.slice(0, 10) : '';
+  }
+  const value = to ? condition.filterTo : condition.filter;
+  return value ?? '';
+}
+
+/**
+ * Translate one condition into a filter expression on a column
+ * @returns The expression, or null for a condition without a value yet
+ */
+function conditionToExpression(column: string, condition: ColumnFilterCondition): FilterExpression | null {
+  const value = operandOf(condition);
+  const hasValue = value !== '';
+  const on = (operators: FilterOperators): FilterExpression => ({ [column]: operators });
+
+  switch (condition.type) {
+    case 'blank':
+      return on({ isNull: true });
+    case 'notBlank':
+      return on({ isNull: false });
+    case 'empty':
+    case null:
+    case undefined:
+      return null;
+  }
+  if (!hasValue) return null;
+
+  switch (condition.type) {
+    case 'equals':
+      return on({ eq: value });
+    case 'notEqual':
+      return on({ ne: value });
+    case 'lessThan':
+      return on({ lt: value });
+    case 'lessThanOrEqual':
+      return on({ lte: value });
+    case 'greaterThan':
+      return on({ gt: value });
+    case 'greaterThanOrEqual':
+      return on({ gte: value });
+    case 'inRange': {
+      const to = operandOf(condition, true);
+      return to === '' ? on({ gte: value }) : on({ between: [value, to] });
+    }
+    case 'contains':
+      return on({ like: String(value) });
+    case 'notContains':
+      return { $not: on({ like: String(value) }) };
+    case 'startsWith':
+      return on({ startsWith: String(value) });
+    case 'endsWith':
+      return on({ regex: `${escapeRegExp(String(value))}$` });
+    default:
+      throw new FilterError(`Unsupported column filter "${condition.type}" on "${column}"`);
+  }
+}
+
+/**
+ * Translate the grid's column filters into a filter expression on the stored
+ * columns, so they apply to the whole table rather than the rows loaded.
+ * Conditions without a value yet are left out.
+ * @param model Filter model of the grid
+ * @returns Filter expression, or null if no column is filtered
+ * @throws FilterError for unknown columns or filter types
+ */
+export function columnFiltersToExpression(model: ColumnFilterModel | null | undefined): FilterExpression | null {
+  const parts: FilterExpression[] = [];
+
+  Object.entries(model || {}).forEach(([field, filter]) => {
+    const column = getFieldDefinition(field as DealField)?.column;
+    if (!column) {
+      throw new FilterError(`Unknown column "${field}" in column filter`);
+    }
+
+    if ('conditions' in filter) {
+      const conditions = filter.conditions
+        .map(condition => conditionToExpression(column, { filterType: filter.filterType, ...condition }))
+        .filter((expression): expression is FilterExpression => expression !== null);
+      if (conditions.length > 0) {
+        parts.push(filter.operator === 'OR' ? { $or: conditions } : { $and: conditions });
+      }
+    } else {
+      const expression = conditionToExpression(column, filter);
+      if (expression) parts.push(expression);
+    }
+  });
+
+  return parts.length > 0 ? { $and: parts } : null;
+}
@@ -0,0 +1,513 @@
+import { FilterTreeNode, treeNodeId, treePathIds } from './filter-tree';
+
+/**
+ * Industry taxonomy: sectors, split into industry groups, split into
+ * sub-industries. Raw industry values of the deals are classified under the
+ * node whose name or one of whose `matches` equals them, ignoring case, so a
+ * value can sit at any level ("Healthcare" under a sector, "SaaS" under a
+ * sub-industry).
+ */
+export interface IndustryTaxonomy {
+  sectors: TaxonomySector[];
+}
+
+export interface TaxonomySubIndustry {
+  name: string;
+  // Raw industry values classified under this node besides its name
+  matches?: string[];
+}
+
+export interface TaxonomyGroup extends TaxonomySubIndustry {
+  subIndustries?: TaxonomySubIndustry[];
+}
+
+export interface TaxonomySector extends TaxonomySubIndustry {
+  groups?: TaxonomyGroup[];
+}
+
+export type TaxonomyLevel = 'sector' | 'group' | 'subIndustry';
+
+/**
+ * File in the data directory that replaces the default taxonomy
+ */
+export const INDUSTRY_TAXONOMY_FILE = 'industry-taxonomy.json';
+
+/**
+ * Sector of the raw values the taxonomy doesn't classify, each as a
+ * sub-industry of its own so they can still be filtered on
+ */
+export const UNCLASSIFIED_SECTOR = 'Unclassified';
+
+/**
+ * Taxonomy used unless the data directory has its own, after GICS
+ */
+export const DEFAULT_INDUSTRY_TAXONOMY: IndustryTaxonomy = {
+  sectors: [
+    {
+      name: 'Energy',
+      matches: ['Oil & Gas', 'Oil and Gas'],
+      groups: [
+        {
+          name: 'Energy Equipment & Services',
+          subIndustries: [
+            { name: 'Oil & Gas Drilling', matches: ['Drilling'] },
+            { name: 'Oil & Gas Equipment & Services', matches: ['Oilfield Services'] }
+          ]
+        },
+        {
+          name: 'Oil, Gas & Consumable Fuels',
+          subIndustries: [
+            { name: 'Integrated Oil & Gas' },
+            { name: 'Oil & Gas Exploration & Production', matches: ['E&P', 'Upstream'] },
+            { name: 'Oil & Gas Refining & Marketing', matches: ['Downstream', 'Refining'] },
+            { name: 'Oil & Gas Storage & Transportation', matches: ['Midstream', 'Pipelines'] },
+            { name: 'Coal & Consumable Fuels', matches: ['Coal', 'Mining - Coal'] }
+          ]
+        }
+      ]
+    },
+    {
+      name: 'Materials',
+      matches: ['Basic Materials'],
+      groups: [
+        {
+          name: 'Chemicals',
+          subIndustries: [
+            { name: 'Commodity Chemicals' },
+            { name: 'Specialty Chemicals' },
+            { name: 'Fertilizers & Agricultural Chemicals', matches: ['Agrochemicals'] },
+            { name: 'Industrial Gases' }
+          ]
+        },
+        { name: 'Construction Materials', matches: ['Building Materials', 'Cement'] },
+        {
+          name: 'Containers & Packaging',
+          matches: ['Packaging'],
+          subIndustries: [
+            { name: 'Metal, Glass & Plastic Containers' },
+            { name: 'Paper & Plastic Packaging' }
+          ]
+        },
+        {
+          name: 'Metals & Mining',
+          matches: ['Mining', 'Metals'],
+          subIndustries: [
+            { name: 'Aluminum' },
+            { name: 'Copper' },
+            { name: 'Gold', matches: ['Gold Mining'] },
+            { name: 'Steel' },
+            { name: 'Diversified Metals & Mining' }
+          ]
+        },
+        { name: 'Paper & Forest Products', matches: ['Forestry', 'Paper'] }
+      ]
+    },
+    {
+      name: 'Industrials',
+      matches: ['Industrial', 'Industrial Products'],
+      groups: [
+        {
+          name: 'Capital Goods',
+          subIndustries: [
+            { name: 'Aerospace & Defense', matches: ['Aerospace', 'Defense', 'Defence'] },
+            { name: 'Building Products' },
+            { name: 'Construction & Engineering', matches: ['Construction', 'Engineering'] },
+            { name: 'Electrical Equipment' },
+            { name: 'Industrial Machinery', matches: ['Machinery'] },
+            { name: 'Trading Companies & Distributors', matches: ['Distribution'] }
+          ]
+        },
+        {
+          name: 'Commercial & Professional Services',
+          matches: ['Business Services', 'B2B Services'],
+          subIndustries: [
+            { name: 'Environmental & Facilities Services', matches: ['Waste Management', 'Facilities Services'] },
+            { name: 'Human Resource & Employment Services', matches: ['Staffing', 'HR Services'] },
+            { name: 'Research & Consulting Services', matches: ['Consulting', 'Professional Services'] },
+            { name: 'Security & Alarm Services' }
+          ]
+        },
+        {
+          name: 'Transportation',
+          matches: ['Transport', 'Logistics', 'Transportation & Logistics'],
+          subIndustries: [
+            { name: 'Air Freight & Logistics', matches: ['Freight', 'Courier'] },
+            { name: 'Airlines' },
+            { name: 'Marine Transportation', matches: ['Shipping'] },
+            { name: 'Rail Transportation', matches: ['Rail'] },
+            { name: 'Trucking' },
+            { name: 'Transportation Infrastructure', matches: ['Airports', 'Ports', 'Toll Roads'] }
+          ]
+        }
+      ]
+    },
+    {
+      name: 'Consumer Discretionary',
+      matches: ['Consumer', 'Consumer Products', 'B2C'],
+      groups: [
+        {
+          name: 'Automobiles & Components',
+          matches: ['Automotive', 'Autos'],
+          subIndustries: [
+            { name: 'Automobile Manufacturers' },
+            { name: 'Automotive Parts & Equipment', matches: ['Auto Parts'] }
+          ]
+        },
+        {
+          name: 'Consumer Durables & Apparel',
+          subIndustries: [
+            { name: 'Household Durables', matches: ['Home Furnishings'] },
+            { name: 'Leisure Products' },
+            { name: 'Apparel, Accessories & Luxury Goods', matches: ['Apparel', 'Luxury', 'Fashion'] },
+            { name: 'Footwear' }
+          ]
+        },
+        {
+          name: 'Consumer Services',
+          subIndustries: [
+            { name: 'Hotels, Resorts & Cruise Lines', matches: ['Hotels', 'Hospitality'] },
+            { name: 'Restaurants' },
+            { name: 'Leisure Facilities', matches: ['Leisure', 'Gaming', 'Casinos'] },
+            { name: 'Education Services', matches: ['Education'] }
+          ]
+        },
+        {
+          name: 'Consumer Discretionary Distribution & Retail',
+          matches: ['Retail', 'Retailing'],
+          subIndustries: [
+            { name: 'Broadline Retail', matches: ['E-commerce', 'Ecommerce'] },
+            { name: 'Apparel Retail' },
+            { name: 'Home Improvement Retail' },
+            { name: 'Specialty Retail' }
+          ]
+        }
+      ]
+    },
+    {
+      name: 'Consumer Staples',
+      matches: ['Consumer Goods', 'Consumer Non-Cyclical'],
+      groups: [
+        {
+          name: 'Consumer Staples Distribution & Retail',
+          subIndustries: [
+            { name: 'Food Retail', matches: ['Grocery', 'Supermarkets'] },
+            { name: 'Drug Retail', matches: ['Pharmacies'] },
+            { name: 'Food Distributors' }
+          ]
+        },
+        {
+          name: 'Food, Beverage & Tobacco',
+          matches: ['Food & Beverage', 'Food and Beverage', 'F&B'],
+          subIndustries: [
+            { name: 'Brewers', matches: ['Beer'] },
+            { name: 'Distillers & Vintners', matches: ['Spirits', 'Wine'] },
+            { name: 'Soft Drinks & Non-alcoholic Beverages', matches: ['Beverages'] },
+            { name: 'Agricultural Products & Services', matches: ['Agriculture', 'Agribusiness'] },
+            { name: 'Packaged Foods & Meats', matches: ['Food', 'Packaged Foods'] },
+            { name: 'Tobacco' }
+          ]
+        },
+        {
+          name: 'Household & Personal Products',
+          subIndustries: [
+            { name: 'Household Products' },
+            { name: 'Personal Care Products', matches: ['Personal Care', 'Cosmetics', 'Beauty'] }
+          ]
+        }
+      ]
+    },
+    {
+      name: 'Health Care',
+      matches: ['Healthcare', 'Health', 'Life Sciences'],
+      groups: [
+        {
+          name: 'Health Care Equipment & Services',
+          subIndustries: [
+            { name: 'Health Care Equipment', matches: ['Medical Devices', 'Medtech', 'MedTech'] },
+            { name: 'Health Care Supplies', matches: ['Medical Supplies'] },
+            { name: 'Health Care Distributors' },
+            { name: 'Health Care Services', matches: ['Healthcare Services'] },
+            { name: 'Health Care Facilities', matches: ['Hospitals'] },
+            { name: 'Managed Health Care' },
+            { name: 'Health Care Technology', matches: ['Healthcare IT', 'Health IT', 'Digital Health'] }
+          ]
+        },
+        {
+          name: 'Pharmaceuticals, Biotechnology & Life Sciences',
+          subIndustries: [
+            { name: 'Biotechnology', matches: ['Biotech'] },
+            { name: 'Pharmaceuticals', matches: ['Pharma'] },
+            { name: 'Life Sciences Tools & Services', matches: ['CRO', 'Life Science Tools'] }
+          ]
+        }
+      ]
+    },
+    {
+      name: 'Financials',
+      matches: ['Financial Services', 'Finance', 'Financial'],
+      groups: [
+        {
+          name: 'Banks',
+          matches: ['Banking'],
+          subIndustries: [
+            { name: 'Diversified Banks' },
+            { name: 'Regional Banks' }
+          ]
+        },
+        {
+          name: 'Financial Services',
+          subIndustries: [
+            { name: 'Transaction & Payment Processing Services', matches: ['Payments', 'Fintech', 'FinTech'] },
+            { name: 'Consumer Finance', matches: ['Lending'] },
+            { name: 'Asset Management & Custody Banks', matches: ['Asset Management', 'Wealth Management'] },
+            { name: 'Investment Banking & Brokerage', matches: ['Brokerage', 'Investment Banking'] },
+            { name: 'Financial Exchanges & Data', matches: ['Exchanges', 'Financial Data'] }
+          ]
+        },
+        {
+          name: 'Insurance',
+          subIndustries: [
+            { name: 'Insurance Brokers' },
+            { name: 'Life & Health Insurance', matches: ['Life Insurance'] },
+            { name: 'Property & Casualty Insurance', matches: ['P&C Insurance'] },
+            { name: 'Reinsurance' }
+          ]
+        }
+      ]
+    },
+    {
+      name: 'Information Technology',
+      matches: ['Technology', 'Tech', 'IT', 'TMT'],
+      groups: [
+        {
+          name: 'Software & Services',
+          matches: ['Software'],
+          subIndustries: [
+            { name: 'IT Consulting & Other Services', matches: ['IT Services'] },
+            { name: 'Internet Services & Infrastructure', matches: ['Cloud', 'Data Centers', 'Hosting'] },
+            { name: 'Application Software', matches: ['SaaS', 'Enterprise Software'] },
+            { name: 'Systems Software', matches: ['Cybersecurity', 'Security Software', 'Infrastructure Software'] }
+          ]
+        },
+        {
+          name: 'Technology Hardware & Equipment',
+          matches: ['Hardware'],
+          subIndustries: [
+            { name: 'Communications Equipment', matches: ['Networking'] },
+            { name: 'Technology Hardware, Storage & Peripherals', matches: ['Computer Hardware'] },
+            { name: 'Electronic Equipment & Instruments', matches: ['Electronics'] }
+          ]
+        },
+        {
+          name: 'Semiconductors & Semiconductor Equipment',
+          matches: ['Semis'],
+          subIndustries: [
+            { name: 'Semiconductor Materials & Equipment' },
+            { name: 'Semiconductors' }
+          ]
+        }
+      ]
+    },
+    {
+      name: 'Communication Services',
+      matches: ['Communications', 'TMT - Telecom & Media'],
+      groups: [
+        {
+          name: 'Telecommunication Services',
+          matches: ['Telecom', 'Telecommunications', 'Telecoms'],
+          subIndustries: [
+            { name: 'Integrated Telecommunication Services', matches: ['Fixed Line', 'Broadband'] },
+            { name: 'Wireless Telecommunication Services', matches: ['Wireless', 'Mobile Telecom'] },
+            { name: 'Alternative Carriers', matches: ['Towers', 'Fiber'] }
+          ]
+        },
+        {
+          name: 'Media & Entertainment',
+          matches: ['Media', 'Entertainment'],
+          subIndustries: [
+            { name: 'Advertising', matches: ['Marketing Services'] },
+            { name: 'Broadcasting', matches: ['Television', 'Radio'] },
+            { name: 'Publishing' },
+            { name: 'Movies & Entertainment', matches: ['Film', 'Music', 'Streaming'] },
+            { name: 'Interactive Home Entertainment', matches: ['Video Games', 'Gaming Software'] },
+            { name: 'Interactive Media & Services', matches: ['Internet Media', 'Social Media'] }
+          ]
+        }
+      ]
+    },
+    {
+      name: 'Utilities',
+      matches: ['Utility'],
+      groups: [
+        {
+          name: 'Utilities',
+          subIndustries: [
+            { name: 'Electric Utilities', matches: ['Power', 'Electricity'] },
+            { name: 'Gas Utilities' },
+            { name: 'Multi-Utilities' },
+            { name: 'Water Utilities', matches: ['Water'] },
+            { name: 'Renewable Electricity', matches: ['Renewables', 'Renewable Energy', 'Clean Energy'] }
+          ]
+        }
+      ]
+    },
+    {
+      name: 'Real Estate',
+      matches: ['Property', 'Properties'],
+      groups: [
+        {
+          name: 'Equity Real Estate Investment Trusts (REITs)',
+          matches: ['REIT', 'REITs'],
+          subIndustries: [
+            { name: 'Industrial REITs' },
+            { name: 'Office REITs' },
+            { name: 'Residential REITs' },
+            { name: 'Retail REITs' },
+            { name: 'Data Center REITs' }
+          ]
+        },
+        {
+          name: 'Real Estate Management & Development',
+          subIndustries: [
+            { name: 'Real Estate Development', matches: ['Property Development'] },
+            { name: 'Real Estate Services', matches: ['Property Management'] }
+          ]
+        }
+      ]
+    }
+  ]
+};
+
+/**
+ * Check the shape of a taxonomy read from a file
+ * @throws Error describing the first problem found
+ */
+export function parseIndustryTaxonomy(value: unknown): IndustryTaxonomy {
+  const checkNode = (node: any, path: string, children?: string) => {
+    if (typeof node !== 'object' || node === null || typeof node.name !== 'string' || !node.name.trim()) {
+      throw new Error(`${path} needs a name`);
+    }
+    if (node.matches !== undefined &&
+        (!Array.isArray(node.matches) || node.matches.some((match: unknown) => typeof match !== 'string'))) {
+      throw new Error(`matches of ${path} "${node.name}" must be a list of strings`);
+    }
+    if (children && node[children] !== undefined && !Array.isArray(node[children])) {
+      throw new Error(`${children} of ${path} "${node.name}" must be a list`);
+    }
+  };
+
+  const taxonomy = value as IndustryTaxonomy;
+  if (typeof taxonomy !== 'object' || taxonomy === null || !Array.isArray(taxonomy.sectors)) {
+    throw new Error('The taxonomy needs a list of sectors');
+  }
+  taxonomy.sectors.forEach(sector => {
+    checkNode(sector, 'Sector', 'groups');
+    (sector.groups || []).forEach(group => {
+      checkNode(group, 'Industry group', 'subIndustries');
+      (group.subIndustries || []).forEach(subIndustry => checkNode(subIndustry, 'Sub-industry'));
+    });
+  });
+  return taxonomy;
+}
+
+/**
+ * Classifies raw industry values with a taxonomy
+ * @returns Function giving the id of a value's node, or null for values the
+ * taxonomy doesn't know
+ */
+export function createIndustryClassifier(taxonomy: IndustryTaxonomy): (value: string) => string | null {
+  // Lower-cased name or match → node id; the first node to claim a value keeps it
+  const nodes = new Map<string, string>();
+  const add = (node: TaxonomySubIndustry, id: string) => {
+    [node.name, ...(node.matches || [])].forEach(value => {
+      const key = value.trim().toLowerCase();
+      if (!nodes.has(key)) nodes.set(key, id);
+    });
+  };
+
+  taxonomy.sectors.forEach(sector => {
+    add(sector, treeNodeId(sector.name));
+  });
+  taxonomy.sectors.forEach(sector => {
+    (sector.groups || []).forEach(group => {
+      add(group, treeNodeId(sector.name, group.name));
+    });
+  });
+  taxonomy.sectors.forEach(sector => {
+    (sector.groups || []).forEach(group => {
+      (group.subIndustries || []).forEach(subIndustry => {
+        add(subIndustry, treeNodeId(sector.name, group.name, subIndustry.name));
+      });
+    });
+  });
+
+  return (value: string) => nodes.get(value.trim().toLowerCase()) || null;
+}
+
+/**
+ * Node id of a raw value: the node the taxonomy classifies it under, or its
+ * own node in the unclassified sector
+ */
+export function industryNodeId(classify: (value: string) => string | null, value: string): string {
+  return classify(value) || treeNodeId(UNCLASSIFIED_SECTOR, value);
+}
+
+/**
+ * Tree of the taxonomy nodes that hold, or lie above, at least one of the raw
+ * values, followed by the unclassified values
+ * @param taxonomy Taxonomy to build the tree from
+ * @param values Raw industry values in the data
+ * @returns Sectors in taxonomy order, and the values the taxonomy doesn't classify
+ */
+export function buildIndustryTree(
+  taxonomy: IndustryTaxonomy,
+  values: string[]
+): { tree: FilterTreeNode[]; unmapped: string[] } {
+  const classify = createIndustryClassifier(taxonomy);
+  const used = new Set<string>();
+  const unmapped: string[] = [];
+  values.forEach(value => {
+    const id = classify(value);
+    if (id) {
+      treePathIds(id).forEach(pathId => used.add(pathId));
+    } else {
+      unmapped.push(value);
+    }
+  });
+
+  const node = (id: string, name: string, level: TaxonomyLevel, children: FilterTreeNode[] = []): FilterTreeNode =>
+    ({ id, name, level, children });
+
+  const tree = taxonomy.sectors
+    .filter(sector => used.has(treeNodeId(sector.name)))
+    .map(sector => node(
+      treeNodeId(sector.name),
+      sector.name,
+      'sector',
+      (sector.groups || [])
+        .filter(group => used.has(treeNodeId(sector.name, group.name)))
+        .map(group => node(
+          treeNodeId(sector.name, group.name),
+          group.name,
+          'group',
+          (group.subIndustries || [])
+            .filter(subIndustry => used.has(treeNodeId(sector.name, group.name, subIndustry.name)))
+            .map(subIndustry => node(
+              treeNodeId(sector.name, group.name, subIndustry.name),
+              subIndustry.name,
+              'subIndustry'
+            ))
+        ))
+    ));
+
+  if (unmapped.length > 0) {
+    tree.push(node(
+      treeNodeId(UNCLASSIFIED_SECTOR),
+      UNCLASSIFIED_SECTOR,
+      'sector',
+      [...unmapped].sort().map(value => node(treeNodeId(UNCLASSIFIED_SECTOR, value), value, 'subIndustry'))
+    ));
+  }
+
+  return { tree, unmapped: [...unmapped].sort() };
+}
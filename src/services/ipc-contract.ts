@@ -0,0 +1,732 @@
+import { Deal } from '../types/deal.types';
+import {
+  ColumnMapping,
+  DEAL_FIELDS,
+  DealField,
+  MappingProfile,
+  MappingSuggestion,
+  getFieldDefinition
+} from './column-mapping';
+import { DeltaSummary } from './delta-import';
+import { AggregateResult, DateBucket } from './aggregate';
+import {
+  ComparableCriteria,
+  ComparablesRequest,
+  ComparablesResult,
+  CompSet,
+  SIMILARITY_COMPONENTS,
+  SimilarityWeights
+} from './comparables';
+import { Valuation, ValuationExclusion, ValuationTarget } from './valuation';
+import { OutlierSettings } from './outliers';
+import { DataQualityReport } from './data-quality';
+import { ERROR_TITLES, ErrorCode, RETRYABLE_ERRORS, getErrorCode } from './errors';
+import { FilterExpression } from './filter-expression';
+import { FilterTreeNode } from './filter-tree';
+import { GeographyAliases } from './geography';
+import { DatasetSnapshot, SnapshotComparisonRequest } from './snapshots';
+
+/**
+ * Number fields the filter panel offers a range for
+ */
+export const RANGE_FILTER_FIELDS = [
+  'transactionValue',
+  'targetEnterpriseValue',
+  'targetRevenue',
+  'targetEbitda',
+  'evEbitdaMultiple',
+  'evRevenueMultiple',
+  'ebitdaMargin'
+] as const;
+
+export type RangeFilterField = typeof RANGE_FILTER_FIELDS[number];
+
+/**
+ * Range of a number field; either end may be left open
+ */
+export interface RangeFilter {
+  min?: number;
+  max?: number;
+  // Keep deals without a value, which a range otherwise leaves out
+  includeNulls?: boolean;
+}
+
+/**
+ * Filters of the filter panel, plus the conditions typed into the search box
+ */
+export interface DealsFilters {
+  transactionTypes?: string[];
+  statuses?: string[];
+  startDate?: string;
+  endDate?: string;
+  // Transaction value range; same as ranges.transactionValue without nulls
+  minSize?: number;
+  maxSize?: number;
+  ranges?: Partial<Record<RangeFilterField, RangeFilter>>;
+  // Ids of geography nodes; match deals whose place resolves under one
+  regions?: string[];
+  acquirerCountries?: string[];
+  // Deals whose acquirer is from another country than the target, or the same
+  crossBorder?: 'crossBorder' | 'domestic';
+  // Ids of industry taxonomy nodes; matches deals with either industry under one
+  industries?: string[];
+  query?: FilterExpression | null;
+  // Column filters of the grid, translated to stored columns
+  columnFilter?: FilterExpression | null;
+}
+
+export interface DealsRequestParams {
+  searchQuery: string;
+  filters: DealsFilters;
+  page: number;
+  pageSize: number;
+  // Defaults to relevance while searching, otherwise announcement date
+  sortField?: string;
+  sortDirection?: 'asc' | 'desc';
+  // Lets the request be cancelled with cancelGetDeals()
+  requestId?: number;
+  // Count the deals per value of each list filter, in the same pass
+  facets?: boolean;
+  // Summarize the matching deals along with the page
+  summary?: boolean;
+}
+
+/**
+ * List filters of the filter panel, each counted as a facet
+ */
+export const FACET_NAMES = ['transactionTypes', 'statuses', 'regions', 'acquirerCountries', 'industries'] as const;
+
+export type FacetName = typeof FACET_NAMES[number];
+
+/**
+ * Deals matching the search and every filter except the facet's own, per
+ * value: the number selecting that value would show
+ */
+export type FacetCounts = Record<FacetName, Record<string, number>>;
+
+export interface DealsResponse {
+  deals: Deal[];
+  totalCount: number;
+  // When asked for with `facets`
+  facets?: FacetCounts;
+  // When asked for with `summary`
+  summary?: DealsSummary;
+}
+
+/**
+ * Deals to aggregate, picked like a deals request, and the groups and
+ * statistics to compute over them
+ */
+export interface DealsAggregateRequest {
+  searchQuery: string;
+  filters: DealsFilters;
+  // Date fields can be grouped by year or quarter
+  groupBy?: { field: DealField; bucket?: DateBucket }[];
+  // Number fields to compute count, sum, mean, median, min and max of
+  measures?: DealField[];
+  // Percentiles to compute besides the median, from 0 to 100
+  percentiles?: number[];
+}
+
+/**
+ * Spread of a valuation multiple over the deals that disclose it
+ */
+export interface MultipleSummary {
+  count: number;
+  // Null when no deal discloses the multiple
+  median: number | null;
+  lowerQuartile: number | null;
+  upperQuartile: number | null;
+}
+
+/**
+ * Figures of the deals matching a search and filters
+ */
+export interface DealsSummary {
+  totalDeals: number;
+  totalValue: number;
+  avgDealSize: number;
+  largestDeal: number;
+  // Null when no deal discloses its value
+  medianDealSize: number | null;
+  // Deals with a transaction value; the value figures are over these
+  disclosedValueDeals: number;
+  completedDeals: number;
+  announcedDeals: number;
+  pendingDeals: number;
+  evEbitda: MultipleSummary;
+  evRevenue: MultipleSummary;
+  // Rule the outlying multiples were left out by; null when they were kept
+  outlierRule: string | null;
+}
+
+export interface DealsSummaryRequest {
+  searchQuery: string;
+  filters: DealsFilters;
+}
+
+/**
+ * Deals to value: those of a comp set, or those matching a search and filters
+ */
+export interface ValuationRequest {
+  // Deals of a comp set; the search and filters are ignored when given
+  dealIds?: (number | string)[];
+  searchQuery?: string;
+  filters?: DealsFilters;
+  exclusions?: ValuationExclusion[];
+  target?: ValuationTarget;
+}
+
+/**
+ * Smallest and largest value of a number field
+ */
+export interface ValueBounds {
+  min: number;
+  max: number;
+}
+
+export interface FilterOptions {
+  transactionTypes: string[];
+  statuses: string[];
+  // Raw values of the target region and acquirer country
+  regions: string[];
+  acquirerCountries: string[];
+  // Continents, sub-regions and countries the raw places resolve to,
+  // unresolved places last
+  regionTree: FilterTreeNode[];
+  acquirerCountryTree: FilterTreeNode[];
+  // Raw places of either field no alias or country name resolves
+  unmappedGeographies: string[];
+  // Raw values of both industry fields
+  industries: string[];
+  // Taxonomy nodes the raw industries fall under, unclassified values last
+  industryTree: FilterTreeNode[];
+  // Raw industries the taxonomy doesn't classify
+  unmappedIndustries: string[];
+  // Null for fields without any values
+  ranges: Record<RangeFilterField, ValueBounds | null>;
+}
+
+export interface SaveCompSetRequest {
+  name: string;
+  criteria: ComparableCriteria;
+  members: CompSet['members'];
+}
+
+export interface ImportPreview {
+  canceled: boolean;
+  filePath?: string;
+  fileName?: string;
+  sheetName?: string;
+  headers?: string[];
+  sampleRows?: Record<string, any>[];
+  suggestions?: MappingSuggestion[];
+  profiles?: MappingProfile[];
+  profileName?: string | null;
+  mapping?: ColumnMapping;
+  identityKey?: DealField[];
+}
+
+export interface ImportExcelRequest {
+  // Path returned by prepare-import; the main process rejects any other file
+  filePath: string;
+  mapping: ColumnMapping;
+  profileName?: string | null;
+}
+
+export interface DeltaImportRequest extends ImportExcelRequest {
+  identityKey: DealField[];
+}
+
+export interface DeltaCommitResult {
+  tableName: string;
+  sourceFile: string;
+  added: number;
+  changed: number;
+  removed: number;
+  totalRows: number;
+}
+
+export interface ImportExcelResult {
+  success: boolean;
+  canceled: boolean;
+  tableName?: string;
+  sourceFile?: string;
+  totalRows?: number;
+  chunksCount?: number;
+  columns?: string[];
+  qualityReport?: Omit<DataQualityReport, 'issues'>;
+}
+
+/**
+ * Deals to export: the grid's current search and filters
+ */
+export interface ExportDealsRequest {
+  searchQuery: string;
+  filters: DealsFilters;
+  sortField?: string;
+  sortDirection?: 'asc' | 'desc';
+}
+
+/**
+ * Every request channel between the renderer and the main process, with the
+ * arguments it takes and the result it resolves with
+ */
+export interface IpcContract {
+  'check-data-loaded': { args: []; result: boolean };
+  'prepare-import': { args: []; result: ImportPreview };
+  'import-excel': { args: [request: ImportExcelRequest]; result: ImportExcelResult };
+  'prepare-delta-import': { args: [request: DeltaImportRequest]; result: DeltaSummary };
+  'commit-delta-import': { args: []; result: DeltaCommitResult };
+  'discard-delta-import': { args: []; result: boolean };
+  'get-mapping-profiles': { args: []; result: MappingProfile[] };
+  'delete-mapping-profile': { args: [name: string]; result: boolean };
+  'get-quality-report': { args: []; result: DataQualityReport | null };
+  'export-quality-report': { args: []; result: string | null };
+  'get-snapshots': { args: []; result: DatasetSnapshot[] };
+  'get-active-snapshot': { args: []; result: DatasetSnapshot | null };
+  'open-snapshot': { args: [snapshotId: string | null]; result: DatasetSnapshot | null };
+  'delete-snapshot': { args: [snapshotId: string]; result: DatasetSnapshot[] };
+  'compare-snapshots': { args: [request: SnapshotComparisonRequest]; result: DeltaSummary };
+  'get-deals': { args: [params: DealsRequestParams]; result: DealsResponse };
+  'cancel-get-deals': { args: [requestId: number]; result: boolean };
+  // Summarizes every deal without a request
+  'get-deals-summary': { args: [request?: DealsSummaryRequest]; result: DealsSummary };
+  'aggregate-deals': { args: [request: DealsAggregateRequest]; result: AggregateResult };
+  'get-deal-by-id': { args: [id: number | string]; result: Deal };
+  'get-deals-by-ids': { args: [ids: (number | string)[]]; result: Deal[] };
+  'find-comparables': { args: [request: ComparablesRequest]; result: ComparablesResult };
+  'get-comp-sets': { args: []; result: CompSet[] };
+  'save-comp-set': { args: [request: SaveCompSetRequest]; result: CompSet };
+  'delete-comp-set': { args: [name: string]; result: boolean };
+  'get-valuation': { args: [request: ValuationRequest]; result: Valuation };
+  'get-outlier-settings': { args: []; result: OutlierSettings };
+  'save-outlier-settings': { args: [settings: OutlierSettings]; result: OutlierSettings };
+  'export-valuation': { args: [request: ValuationRequest]; result: string | null };
+  'show-deal-details': { args: [id: number | string]; result: void };
+  'get-filter-options': { args: []; result: FilterOptions };
+  'get-transaction-types': { args: []; result: string[] };
+  'get-regions': { args: []; result: string[] };
+  'get-industries': { args: []; result: string[] };
+  'get-geography-aliases': { args: []; result: GeographyAliases };
+  'save-geography-aliases': { args: [aliases: GeographyAliases]; result: boolean };
+  // Resolves with the file written, or null if the save dialog was cancelled
+  'export-to-excel': { args: [request: ExportDealsRequest]; result: string | null };
+}
+
+export type IpcChannel = keyof IpcContract;
+export type IpcArgs<C extends IpcChannel> = IpcContract[C]['args'];
+export type IpcResult<C extends IpcChannel> = IpcContract[C]['result'];
+
+/**
+ * Events the main process sends to the renderer, with their payload
+ */
+export interface IpcEvents {
+  'import-progress': string;
+  'import-complete': string;
+}
+
+export type IpcEventChannel = keyof IpcEvents;
+
+/**
+ * Payload sent over IPC that doesn't match the channel's contract
+ */
+export class IpcPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IpcPayloadError';
+  }
+}
+
+/**
+ * Error of an IPC call as the renderer sees it
+ */
+export class IpcError extends Error {
+  constructor(public code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'IpcError';
+  }
+
+  // Short description of the kind of error
+  get title(): string {
+    return ERROR_TITLES[this.code];
+  }
+
+  // Whether repeating the call may succeed
+  get retryable(): boolean {
+    return RETRYABLE_ERRORS.has(this.code);
+  }
+}
+
+// Electron passes only the message of a rejected call on to the renderer, so
+// the code travels in the message after this marker
+const IPC_ERROR_MARKER = '__ipc_error__';
+
+/**
+ * Wrap an error thrown by a handler so its code reaches the renderer
+ * @param error Anything thrown
+ * @returns Error to reject the IPC call with
+ */
+export function serializeIpcError(error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  return new Error(IPC_ERROR_MARKER + JSON.stringify({ code: getErrorCode(error), message }));
+}
+
+/**
+ * Recover the code and message of an error from an IPC call. Errors that
+ * didn't come through IPC, e.g. a query syntax error, get their own code.
+ * @param error Anything a call rejected with
+ */
+export function toIpcError(error: unknown): IpcError {
+  if (error instanceof IpcError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const start = message.indexOf(IPC_ERROR_MARKER);
+  if (start !== -1) {
+    try {
+      const serialized = JSON.parse(message.slice(start + IPC_ERROR_MARKER.length));
+      const code = serialized.code in ERROR_TITLES ? serialized.code as ErrorCode : 'UNKNOWN';
+      return new IpcError(code, String(serialized.message));
+    } catch {
+      // Not one of ours after all; report the message as it is
+    }
+  }
+  return new IpcError(getErrorCode(error), message);
+}
+
+/**
+ * Checks an untrusted value and returns it typed
+ * @throws IpcPayloadError if the value doesn't have the expected shape
+ */
+type Validator<T> = (value: unknown, path: string) => T;
+
+function fail(path: string, expected: string, value: unknown): never {
+  const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  throw new IpcPayloadError(`${path} must be ${expected}, got ${actual}`);
+}
+
+const string: Validator<string> = (value, path) =>
+  typeof value === 'string' ? value : fail(path, 'a string', value);
+
+const number: Validator<number> = (value, path) =>
+  typeof value === 'number' && !isNaN(value) ? value : fail(path, 'a number', value);
+
+const boolean: Validator<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'true or false', value);
+
+const object: Validator<Record<string, any>> = (value, path) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, any>
+    : fail(path, 'an object', value);
+
+function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path) => value === null ? null : validator(value, path);
+}
+
+function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => value === undefined ? undefined : validator(value, path);
+}
+
+function oneOf<T extends string>(...values: T[]): Validator<T> {
+  return (value, path) => values.includes(value as T) ? value as T : fail(path, values.join(' or '), value);
+}
+
+function arrayOf<T>(validator: Validator<T>): Validator<T[]> {
+  return (value, path) => Array.isArray(value)
+    ? value.map((item, i) => validator(item, `${path}[${i}]`))
+    : fail(path, 'a list', value);
+}
+
+/**
+ * Validate an object's known properties; anything else is passed through
+ */
+function shape<T>(validators: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path) => {
+    const input = object(value, path);
+    Object.entries(validators).forEach(([key, validator]) => {
+      (validator as Validator<unknown>)(input[key], `${path}.${key}`);
+    });
+    return input as T;
+  };
+}
+
+const dealField: Validator<DealField> = (value, path) =>
+  DEAL_FIELDS.some(definition => definition.field === value) ? value as DealField : fail(path, 'a deal field', value);
+
+const columnMapping: Validator<ColumnMapping> = (value, path) => {
+  const mapping = object(value, path);
+  Object.entries(mapping).forEach(([header, field]) => nullable(dealField)(field, `${path}["${header}"]`));
+  return mapping as ColumnMapping;
+};
+
+const geographyAliases: Validator<GeographyAliases> = (value, path) => {
+  const aliases = object(value, path);
+  Object.entries(aliases).forEach(([place, target]) => string(target, `${path}["${place}"]`));
+  return aliases as GeographyAliases;
+};
+
+const numberField: Validator<DealField> = (value, path) =>
+  getFieldDefinition(value as DealField)?.type === 'number'
+    ? value as DealField
+    : fail(path, 'a number field', value);
+
+const groupByField: Validator<{ field: DealField; bucket?: DateBucket }> = (value, path) => {
+  const groupBy = shape<{ field: DealField; bucket?: DateBucket }>({
+    field: dealField,
+    bucket: optional(oneOf<DateBucket>('year', 'quarter'))
+  })(value, path);
+  if (groupBy.bucket && getFieldDefinition(groupBy.field)?.type !== 'date') {
+    throw new IpcPayloadError(`${path}.bucket only applies to date fields`);
+  }
+  return groupBy;
+};
+
+const percentileValue: Validator<number> = (value, path) =>
+  typeof value === 'number' && value >= 0 && value <= 100 ? value : fail(path, 'a number from 0 to 100', value);
+
+const comparableCriteria = shape<ComparableCriteria>({
+  industries: optional(arrayOf(string)),
+  region: optional(string),
+  enterpriseValue: optional(number),
+  revenue: optional(number),
+  description: optional(string),
+  referenceDate: optional(string),
+  startDate: optional(string),
+  endDate: optional(string)
+});
+
+const similarityWeights: Validator<Partial<SimilarityWeights>> = (value, path) => {
+  const weights = object(value, path);
+  Object.entries(weights).forEach(([component, weight]) => {
+    oneOf(...SIMILARITY_COMPONENTS)(component, `${path} part`);
+    optional(number)(weight, `${path}.${component}`);
+  });
+  return weights as Partial<SimilarityWeights>;
+};
+
+const rangeFilter = shape<RangeFilter>({
+  min: optional(number),
+  max: optional(number),
+  includeNulls: optional(boolean)
+});
+
+const rangeFilters: Validator<Partial<Record<RangeFilterField, RangeFilter>>> = (value, path) => {
+  const ranges = object(value, path);
+  Object.entries(ranges).forEach(([field, range]) => {
+    oneOf(...RANGE_FILTER_FIELDS)(field, `${path} field`);
+    optional(rangeFilter)(range, `${path}.${field}`);
+  });
+  return ranges;
+};
+
+const dealsFilters = shape<DealsFilters>({
+  transactionTypes: optional(arrayOf(string)),
+  statuses: optional(arrayOf(string)),
+  startDate: optional(string),
+  endDate: optional(string),
+  minSize: optional(number),
+  maxSize: optional(number),
+  ranges: optional(rangeFilters),
+  regions: optional(arrayOf(string)),
+  acquirerCountries: optional(arrayOf(string)),
+  industries: optional(arrayOf(string)),
+  crossBorder: optional(oneOf<'crossBorder' | 'domestic'>('crossBorder', 'domestic')),
+  // Operators are checked when the filter is compiled
+  query: optional(nullable(object)),
+  columnFilter: optional(nullable(object))
+});
+
+const dealId: Validator<number | string> = (value, path) =>
+  typeof value === 'number' || typeof value === 'string' ? value : fail(path, 'a deal id', value);
+
+const sortDirection = optional(oneOf<'asc' | 'desc'>('asc', 'desc'));
+
+const valuationRequest = shape<ValuationRequest>({
+  dealIds: optional(arrayOf(dealId)),
+  searchQuery: optional(string),
+  filters: optional(dealsFilters),
+  exclusions: optional(arrayOf(shape<ValuationExclusion>({ dealId, reason: string }))),
+  target: optional(shape<ValuationTarget>({ revenue: optional(number), ebitda: optional(number) }))
+});
+
+const importExcelRequest = shape<ImportExcelRequest>({
+  filePath: string,
+  mapping: columnMapping,
+  profileName: optional(nullable(string))
+});
+
+/**
+ * Validator of a channel's argument list
+ */
+type ArgsValidator<A extends unknown[]> = (args: unknown[], channel: string) => A;
+
+function args<A extends unknown[]>(...validators: { [K in keyof A]: Validator<A[K]> }): ArgsValidator<A> {
+  return (values, channel) => {
+    if (values.length > validators.length) {
+      throw new IpcPayloadError(`${channel} takes ${validators.length} argument(s), got ${values.length}`);
+    }
+    return (validators as Validator<unknown>[]).map((validator, i) => validator(values[i], `${channel} argument ${i + 1}`)) as A;
+  };
+}
+
+/**
+ * Runtime checks of every channel's arguments. The main process runs them
+ * before a handler sees the payload, since the renderer can send anything.
+ */
+export const IPC_CHANNELS: { [C in IpcChannel]: ArgsValidator<IpcArgs<C>> } = {
+  'check-data-loaded': args(),
+  'prepare-import': args(),
+  'import-excel': args(importExcelRequest),
+  'prepare-delta-import': args(shape<DeltaImportRequest>({
+    filePath: string,
+    mapping: columnMapping,
+    profileName: optional(nullable(string)),
+    identityKey: arrayOf(dealField)
+  })),
+  'commit-delta-import': args(),
+  'discard-delta-import': args(),
+  'get-mapping-profiles': args(),
+  'delete-mapping-profile': args(string),
+  'get-quality-report': args(),
+  'export-quality-report': args(),
+  'get-snapshots': args(),
+  'get-active-snapshot': args(),
+  'open-snapshot': args(nullable(string)),
+  'delete-snapshot': args(string),
+  'compare-snapshots': args(shape<SnapshotComparisonRequest>({
+    fromId: string,
+    toId: string,
+    universe: optional(shape({
+      regions: optional(arrayOf(string)),
+      industries: optional(arrayOf(string))
+    }))
+  })),
+  'get-deals': args(shape<DealsRequestParams>({
+    searchQuery: string,
+    filters: dealsFilters,
+    page: number,
+    pageSize: number,
+    sortField: optional(string),
+    sortDirection,
+    requestId: optional(number),
+    facets: optional(boolean),
+    summary: optional(boolean)
+  })),
+  'cancel-get-deals': args(number),
+  'get-deals-summary': args(optional(shape<DealsSummaryRequest>({
+    searchQuery: string,
+    filters: dealsFilters
+  }))),
+  'aggregate-deals': args(shape<DealsAggregateRequest>({
+    searchQuery: string,
+    filters: dealsFilters,
+    groupBy: optional(arrayOf(groupByField)),
+    measures: optional(arrayOf(numberField)),
+    percentiles: optional(arrayOf(percentileValue))
+  })),
+  'get-deal-by-id': args(dealId),
+  'get-deals-by-ids': args(arrayOf(dealId)),
+  'find-comparables': args(shape<ComparablesRequest>({
+    dealId: optional(dealId),
+    criteria: optional(comparableCriteria),
+    weights: optional(similarityWeights),
+    sizeBand: optional(number),
+    recencyYears: optional(number),
+    limit: optional(number)
+  })),
+  'get-comp-sets': args(),
+  'save-comp-set': args(shape<SaveCompSetRequest>({
+    name: string,
+    criteria: comparableCriteria,
+    members: arrayOf(shape<CompSet['members'][number]>({ dealId, score: number }))
+  })),
+  'delete-comp-set': args(string),
+  'get-valuation': args(valuationRequest),
+  'export-valuation': args(valuationRequest),
+  'get-outlier-settings': args(),
+  'save-outlier-settings': args(shape<OutlierSettings>({
+    method: oneOf('iqr', 'mad'),
+    threshold: number,
+    flagNonPositive: boolean,
+    exclude: boolean
+  })),
+  'show-deal-details': args(dealId),
+  'get-filter-options': args(),
+  'get-transaction-types': args(),
+  'get-regions': args(),
+  'get-industries': args(),
+  'get-geography-aliases': args(),
+  'save-geography-aliases': args(geographyAliases),
+  'export-to-excel': args(shape<ExportDealsRequest>({
+    searchQuery: string,
+    filters: dealsFilters,
+    sortField: optional(string),
+    sortDirection
+  }))
+};
+
+/**
+ * Function the preload exposes for a channel
+ */
+type Invoke<C extends IpcChannel> = (...args: IpcArgs<C>) => Promise<IpcResult<C>>;
+
+/**
+ * API the preload script exposes to the renderer as `window.electron`
+ */
+export interface ElectronAPI {
+  // Data loading functions
+  checkDataLoaded: Invoke<'check-data-loaded'>;
+  prepareImport: Invoke<'prepare-import'>;
+  importExcel: Invoke<'import-excel'>;
+  prepareDeltaImport: Invoke<'prepare-delta-import'>;
+  commitDeltaImport: Invoke<'commit-delta-import'>;
+  discardDeltaImport: Invoke<'discard-delta-import'>;
+  getMappingProfiles: Invoke<'get-mapping-profiles'>;
+  deleteMappingProfile: Invoke<'delete-mapping-profile'>;
+  getQualityReport: Invoke<'get-quality-report'>;
+  exportQualityReport: Invoke<'export-quality-report'>;
+  
+  // Dataset snapshots
+  getSnapshots: Invoke<'get-snapshots'>;
+  getActiveSnapshot: Invoke<'get-active-snapshot'>;
+  openSnapshot: Invoke<'open-snapshot'>;
+  deleteSnapshot: Invoke<'delete-snapshot'>;
+  compareSnapshots: Invoke<'compare-snapshots'>;
+  
+  // Events
+  onImportProgress: (callback: (progress: IpcEvents['import-progress']) => void) => void;
+  onImportComplete: (callback: (message: IpcEvents['import-complete']) => void) => void;
+  removeAllListeners: () => void;
+  
+  // Data access functions
+  getDeals: Invoke<'get-deals'>;
+  cancelGetDeals: Invoke<'cancel-get-deals'>;
+  getDealsSummary: Invoke<'get-deals-summary'>;
+  aggregateDeals: Invoke<'aggregate-deals'>;
+  getDealById: Invoke<'get-deal-by-id'>;
+  showDealDetails: Invoke<'show-deal-details'>;
+  getDealsByIds: Invoke<'get-deals-by-ids'>;
+  
+  // Comparable transactions
+  findComparables: Invoke<'find-comparables'>;
+  getCompSets: Invoke<'get-comp-sets'>;
+  saveCompSet: Invoke<'save-comp-set'>;
+  deleteCompSet: Invoke<'delete-comp-set'>;
+  
+  // Precedent transactions valuation
+  getValuation: Invoke<'get-valuation'>;
+  exportValuation: Invoke<'export-valuation'>;
+  getOutlierSettings: Invoke<'get-outlier-settings'>;
+  saveOutlierSettings: Invoke<'save-outlier-settings'>;
+  
+  // Filter options
+  getFilterOptions: Invoke<'get-filter-options'>;
+  getTransactionTypes: Invoke<'get-transaction-types'>;
+  getRegions: Invoke<'get-regions'>;
+  getIndustries: Invoke<'get-industries'>;
+  getGeographyAliases: Invoke<'get-geography-aliases'>;
+  saveGeographyAliases: Invoke<'save-geography-aliases'>;
+  
+  // Export functionality
+  exportToExcel: Invoke<'export-to-excel'>;
+}
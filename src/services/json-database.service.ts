@@ -1,6 +1,67 @@
+/// <reference types="node" />
 import fs from 'fs';
 import path from 'path';
-import { app } from 'electron';
+import { DEAL_FIELDS, DERIVED_FIELDS, DealField, getFieldDefinition } from './column-mapping';
+import { DataQualityReport } from './data-quality';
+import { DERIVED_COLUMNS, DERIVED_METRICS_VERSION, deriveMetrics, withoutDerivedMetrics } from './derived-metrics';
+import { SNAPSHOTS_DIRECTORY, SNAPSHOT_FILE, DatasetSnapshot, isSnapshotId } from './snapshots';
+import { ChunkCache, ChunkCacheStats, DEFAULT_CACHE_BUDGET_BYTES, PARSED_SIZE_FACTOR } from './chunk-cache';
+import { SortIndex, compareForSort, forEachSorted, getSortIndexFileName, isMissingValue } from './sort-index';
+import { FilterExpression, compileFilter } from './filter-expression';
+import { dealsFiltersToExpression, dealsFiltersToFacets } from './deals-filter';
+import { AggregateResult, AggregateSpec, MeasureStats, createAggregator } from './aggregate';
+import {
+  ComparableCriteria,
+  ComparableMatch,
+  ComparablesRequest,
+  ComparablesResult,
+  createComparableScorer
+} from './comparables';
+import { Valuation, valueDeals } from './valuation';
+import {
+  OUTLIER_FIELDS,
+  OUTLIER_SETTINGS_FILE,
+  OutlierField,
+  OutlierSettings,
+  describeOutlierRule,
+  findOutliers,
+  parseOutlierSettings
+} from './outliers';
+import {
+  DealsAggregateRequest,
+  DealsFilters,
+  DealsSummary,
+  DealsSummaryRequest,
+  MultipleSummary,
+  FilterOptions,
+  RANGE_FILTER_FIELDS,
+  RangeFilterField,
+  ValuationRequest,
+  ValueBounds
+} from './ipc-contract';
+import {
+  DEFAULT_INDUSTRY_TAXONOMY,
+  INDUSTRY_TAXONOMY_FILE,
+  IndustryTaxonomy,
+  buildIndustryTree,
+  createIndustryClassifier,
+  UNCLASSIFIED_SECTOR,
+  industryNodeId,
+  parseIndustryTaxonomy
+} from './industry-taxonomy';
+import {
+  GEOGRAPHY_ALIASES_FILE,
+  UNRESOLVED_CONTINENT,
+  GeographyAliases,
+  borderRelation,
+  buildGeographyTree,
+  createGeographyClassifier,
+  geographyNodeId,
+  parseGeographyAliases
+} from './geography';
+import { isUnderNode, treePathIds } from './filter-tree';
+import { CorruptChunkError, DataMissingError, NotFoundError, QueryCancelledError } from './errors';
+import { hasSearchTerms, RELEVANCE_SORT_FIELD, SEARCH_FIELDS, SEARCH_INDEX_FILE, SearchIndex, SerializedSearchIndex } from './search-index';
 
 /**
  * Table metadata interface
@@ -13,11 +74,20 @@ export interface TableMetadata {
   [key: string]: any;
 }
 
+/**
+ * Options of the database service
+ */
+export interface JSONDatabaseServiceOptions {
+  // Estimated memory parsed chunks may take up before the least recently used are dropped
+  cacheBudgetBytes?: number;
+}
+
 /**
  * Query options interface
  */
 export interface QueryOptions {
-  filter?: Record<string, any>;
+  filter?: FilterExpression;
+  search?: QuerySearch;
   limit?: number;
   offset?: number;
   fields?: string[];
@@ -25,6 +95,34 @@ export interface QueryOptions {
     field: string;
     direction: 'asc' | 'desc';
   };
+  // Checked between chunks; returning true stops the query with a QueryCancelledError
+  isCancelled?: () => boolean;
+  // Values to count among the rows, each given every filter but its own
+  facets?: QueryFacet[];
+}
+
+/**
+ * A facet of a query: the values of some columns, counted among the rows that
+ * match the query's filter and every other facet's filter. Rows must also
+ * match the facet's own filter to be part of the query's result.
+ */
+export interface QueryFacet {
+  name: string;
+  // A row with the same value in several columns counts once
+  columns: string[];
+  filter?: FilterExpression | null;
+  // Values to count for a column value instead of the value itself
+  mapValue?: (value: string) => string[];
+}
+
+/**
+ * Free-text search. Tables with a full-text index match words, prefixes and
+ * quoted phrases in the indexed columns; without one the search is a
+ * case-insensitive substring match on any of the columns.
+ */
+export interface QuerySearch {
+  text: string;
+  columns: string[];
 }
 
 /**
@@ -35,26 +133,121 @@ export interface QueryResult {
   total: number;
   offset: number;
   limit: number;
+  // Facet name → value → rows, when facets were asked for
+  facets?: Record<string, Record<string, number>>;
+}
+
+// Matches a comparables search returns unless asked for another number
+const DEFAULT_COMPARABLES_LIMIT = 50;
+
+// Deals a valuation lists unless asked for another number; its statistics cover them all
+const VALUATION_DEAL_LIMIT = 500;
+
+/**
+ * Options of an aggregation: the rows to include, picked the same way as in a
+ * query, and the groups and statistics to compute over them
+ */
+export interface AggregateOptions extends AggregateSpec {
+  filter?: FilterExpression;
+  search?: QuerySearch;
+  // Row as it is measured, e.g. with values to leave out cleared
+  mapRow?: (row: any) => any;
+  // Checked between chunks; returning true stops with a QueryCancelledError
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Stop a query whose cancellation check says it is no longer wanted
+ */
+function throwIfCancelled(isCancelled?: () => boolean): void {
+  if (isCancelled?.()) {
+    throw new QueryCancelledError();
+  }
+}
+
+/**
+ * Row check of a query with facets that counts the facet values as it goes.
+ * A row that fails only one facet's filter still counts towards that facet,
+ * which is how many rows selecting the value would add.
+ * @param filter Filter of the query besides the facets' own
+ * @param facets Facets to count
+ * @returns The check, true for rows of the result, and the counts it fills in
+ */
+function createFacetCounter(filter: FilterExpression, facets: QueryFacet[]) {
+  const matchesRest = compileFilter(filter);
+  const facetMatches = facets.map(facet => compileFilter(facet.filter || {}));
+  const counts: Record<string, Record<string, number>> = {};
+  facets.forEach(facet => {
+    counts[facet.name] = {};
+  });
+
+  const count = (facet: QueryFacet, item: any) => {
+    const values = new Set<string>();
+    facet.columns.forEach(column => {
+      const value = item[column];
+      if (value === null || value === undefined || value === '') return;
+      if (facet.mapValue) {
+        facet.mapValue(String(value)).forEach(mapped => values.add(mapped));
+      } else {
+        values.add(String(value));
+      }
+    });
+    const facetCounts = counts[facet.name];
+    values.forEach(value => {
+      facetCounts[value] = (facetCounts[value] || 0) + 1;
+    });
+  };
+
+  const matches = (item: any): boolean => {
+    if (!matchesRest(item)) return false;
+
+    let failed = -1;
+    for (let i = 0; i < facets.length; i++) {
+      if (facetMatches[i](item)) continue;
+      // Failing two facets, the row counts towards neither
+      if (failed !== -1) return false;
+      failed = i;
+    }
+
+    if (failed !== -1) {
+      count(facets[failed], item);
+      return false;
+    }
+    facets.forEach(facet => count(facet, item));
+    return true;
+  };
+
+  return { matches, counts };
 }
 
 /**
  * JSON Database Service for handling chunked JSON data files
  */
 export class JSONDatabaseService {
+  private rootDirectory: string;
   private dataDirectory: string;
   private metadata: Record<string, TableMetadata>;
+  private activeSnapshot: DatasetSnapshot | null = null;
+  // Sort indexes loaded so far, keyed by table and column; null when a column has none
+  private sortIndexes = new Map<string, SortIndex | null>();
+  // Full-text indexes loaded so far, keyed by table; null when a table has none
+  private searchIndexes = new Map<string, SearchIndex | null>();
+  // Parsed chunks, keyed by file path
+  private chunkCache: ChunkCache;
+  // Results computed over the whole table (statistics, filter options), until the data changes
+  private derivedCache = new Map<string, any>();
+  // Deal id → chunk index, built on the first lookup by id
+  private dealChunks: Map<string, number> | null = null;
   
   /**
    * Constructor
-   * @param dataDirectory Optional custom data directory path
-   */
-  constructor(dataDirectory?: string) {
-    // Determine the correct path based on environment
-    this.dataDirectory = dataDirectory || (
-      process.env.ELECTRON_DEV
-        ? path.join(process.cwd(), 'data')
-        : path.join(app.getPath('userData'), 'data')
-    );
+   * @param dataDirectory Directory holding the table chunks and metadata
+   * @param options Cache settings
+   */
+  constructor(dataDirectory: string, options: JSONDatabaseServiceOptions = {}) {
+    this.dataDirectory = dataDirectory;
+    this.rootDirectory = this.dataDirectory;
+    this.chunkCache = new ChunkCache(options.cacheBudgetBytes ?? DEFAULT_CACHE_BUDGET_BYTES);
     
     this.metadata = {};
     this.loadMetadata();
@@ -123,6 +316,74 @@ export class JSONDatabaseService {
     }
   }
 
+  /**
+   * Reload metadata from disk, e.g. after an import has replaced the chunk files.
+   * Everything cached from the previous data is dropped.
+   */
+  reload(): void {
+    this.metadata = {};
+    this.sortIndexes.clear();
+    this.searchIndexes.clear();
+    this.chunkCache.clear();
+    this.derivedCache.clear();
+    this.dealChunks = null;
+    this.loadMetadata();
+  }
+
+  /**
+   * Drop the filter options, statistics and settings read from the data
+   * directory, keeping the loaded tables and indexes, so edited settings such
+   * as the geography aliases take effect
+   */
+  clearDerivedData(): void {
+    this.derivedCache.clear();
+  }
+
+  /**
+   * Switch to a snapshot, or back to the live data. While a snapshot is open
+   * the service reads from the snapshot's copy of the tables; it never writes to it.
+   * @param snapshotId Snapshot identifier, or null for the live data
+   * @returns The snapshot now open, or null for the live data
+   */
+  openSnapshot(snapshotId: string | null): DatasetSnapshot | null {
+    if (snapshotId === null) {
+      this.dataDirectory = this.rootDirectory;
+      this.activeSnapshot = null;
+    } else {
+      const snapshotDirectory = path.join(this.rootDirectory, SNAPSHOTS_DIRECTORY, snapshotId);
+      const snapshotPath = path.join(snapshotDirectory, SNAPSHOT_FILE);
+      if (!isSnapshotId(snapshotId) || !fs.existsSync(snapshotPath)) {
+        throw new NotFoundError(`Snapshot '${snapshotId}' not found`);
+      }
+      this.activeSnapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf8'));
+      this.dataDirectory = snapshotDirectory;
+    }
+    
+    this.reload();
+    return this.activeSnapshot;
+  }
+
+  /**
+   * Get the snapshot currently open
+   * @returns Snapshot, or null when reading the live data
+   */
+  getActiveSnapshot(): DatasetSnapshot | null {
+    return this.activeSnapshot;
+  }
+
+  /**
+   * Get the data quality report written by the last import of a table
+   * @param tableName Name of the table
+   * @returns Report, or null if the table was imported without one
+   */
+  getQualityReport(tableName: string = 'deals'): DataQualityReport | null {
+    const reportPath = path.join(this.dataDirectory, tableName, '_quality_report.json');
+    if (!fs.existsSync(reportPath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(reportPath, 'utf8'));
+  }
+
   /**
    * Get list of available tables
    * @returns List of table names
@@ -141,10 +402,38 @@ export class JSONDatabaseService {
   }
 
   /**
-   * Read a specific chunk from a table
+   * Get usage counters of the chunk cache
+   * @returns Cached chunk count, estimated memory use and hit/miss counts
+   */
+  getCacheStats(): ChunkCacheStats {
+    return this.chunkCache.getStats();
+  }
+
+  /**
+   * Parse a chunk file, going through the chunk cache
+   * @param chunkPath Path of the chunk file
+   * @param derive Fill in the metrics deals don't report
+   * @returns Parsed rows. Cached rows are shared between callers and must not be modified.
+   */
+  private loadChunkFile(chunkPath: string, derive: boolean): any[] {
+    const cached = this.chunkCache.get(chunkPath);
+    if (cached) {
+      return cached;
+    }
+    
+    const text = fs.readFileSync(chunkPath, 'utf8');
+    const parsed = JSON.parse(text);
+    const rows = derive ? parsed.map(deriveMetrics) : parsed;
+    this.chunkCache.set(chunkPath, rows, text.length * PARSED_SIZE_FACTOR);
+    return rows;
+  }
+
+  /**
+   * Read a specific chunk from a table. Deals come with their derived metrics.
    * @param tableName Name of the table
    * @param chunkIndex Index of the chunk to read
    * @returns Chunk data or null if not found
+   * @throws CorruptChunkError if the chunk file exists but can't be read or parsed
    */
   readChunk(tableName: string, chunkIndex: number): any[] | null {
     try {
@@ -152,19 +441,20 @@ export class JSONDatabaseService {
       if (tableName === 'deals') {
         const globalChunkPath = path.join(this.dataDirectory, `M&A Database_chunk_${chunkIndex}.json`);
         if (fs.existsSync(globalChunkPath)) {
-          return JSON.parse(fs.readFileSync(globalChunkPath, 'utf8'));
+          return this.loadChunkFile(globalChunkPath, true);
         }
       }
       
       // Regular table chunk pattern
       const chunkPath = path.join(this.dataDirectory, tableName, `chunk_${chunkIndex}.json`);
       if (fs.existsSync(chunkPath)) {
-        return JSON.parse(fs.readFileSync(chunkPath, 'utf8'));
+        return this.loadChunkFile(chunkPath, tableName === 'deals');
       }
       return null;
     } catch (error) {
+      // A damaged chunk would silently drop its rows from every result
       console.error(`Error reading chunk ${chunkIndex} from table ${tableName}:`, error);
-      return null;
+      throw new CorruptChunkError(tableName, chunkIndex, error instanceof Error ? error.message : String(error));
     }
   }
 
@@ -176,7 +466,7 @@ export class JSONDatabaseService {
   getAllData(tableName: string): any[] {
     const tableMetadata = this.getTableMetadata(tableName);
     if (!tableMetadata) {
-      throw new Error(`Table '${tableName}' not found`);
+      throw new DataMissingError(tableName);
     }
 
     const allData: any[] = [];
@@ -190,69 +480,249 @@ export class JSONDatabaseService {
   }
 
   /**
-   * Query data from a table with filtering and pagination
+   * Get all data from a table as it was imported, without derived metrics.
+   * This is what merging a delta import or comparing snapshots works on.
+   * @param tableName Name of the table
+   * @returns All data from the table
+   */
+  getReportedData(tableName: string): any[] {
+    const allData = this.getAllData(tableName);
+    return tableName === 'deals' ? allData.map(withoutDerivedMetrics) : allData;
+  }
+
+  /**
+   * Load the sort index of a column, written next to the chunk files at import
+   * @param tableName Name of the table
+   * @param column Column to sort by
+   * @returns Sort index, or null if the column has none or it is out of date
+   */
+  private getSortIndex(tableName: string, column: string): SortIndex | null {
+    const key = `${tableName}/${column}`;
+    if (this.sortIndexes.has(key)) {
+      return this.sortIndexes.get(key) || null;
+    }
+
+    let index: SortIndex | null = null;
+    try {
+      const indexPath = path.join(this.dataDirectory, tableName, getSortIndexFileName(column));
+      if (fs.existsSync(indexPath)) {
+        index = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+        // An index that doesn't cover every row would silently drop some
+        const metadata = this.getTableMetadata(tableName);
+        if (index && index.totalRows !== metadata?.totalRows) {
+          console.warn(`Ignoring out of date sort index for ${tableName}.${column}`);
+          index = null;
+        }
+        // Derived values sort differently from the ones the index was built on
+        if (index && tableName === 'deals' && DERIVED_COLUMNS.includes(column) &&
+            metadata?.derivedMetricsVersion !== DERIVED_METRICS_VERSION) {
+          index = null;
+        }
+      }
+    } catch (error) {
+      console.error(`Error loading sort index for ${tableName}.${column}:`, error);
+    }
+
+    this.sortIndexes.set(key, index);
+    return index;
+  }
+
+  /**
+   * Load the full-text index of a table, written next to the chunk files at import
+   * @param tableName Name of the table
+   * @returns Search index, or null if the table has none or it is out of date
+   */
+  private getSearchIndex(tableName: string): SearchIndex | null {
+    if (this.searchIndexes.has(tableName)) {
+      return this.searchIndexes.get(tableName) || null;
+    }
+
+    let index: SearchIndex | null = null;
+    try {
+      const indexPath = path.join(this.dataDirectory, tableName, SEARCH_INDEX_FILE);
+      if (fs.existsSync(indexPath)) {
+        const data: SerializedSearchIndex = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+        if (data.totalRows === this.getTableMetadata(tableName)?.totalRows) {
+          index = new SearchIndex(data);
+        } else {
+          console.warn(`Ignoring out of date search index for ${tableName}`);
+        }
+      }
+    } catch (error) {
+      console.error(`Error loading search index for ${tableName}:`, error);
+    }
+
+    this.searchIndexes.set(tableName, index);
+    return index;
+  }
+
+  /**
+   * Check a row against a search
+   * @param item Row to check
+   * @param search Search text and columns
+   * @returns True if any of the columns contains the text
+   */
+  private matchesSearch(item: any, search?: QuerySearch): boolean {
+    if (!search || !search.text) return true;
+    const text = search.text.toLowerCase();
+    return search.columns.some(column =>
+      item[column] !== null && item[column] !== undefined && String(item[column]).toLowerCase().includes(text)
+    );
+  }
+
+  /**
+   * Read rows by position, reading each chunk they live in once
+   * @param tableName Name of the table
+   * @param positions Row positions, in the order the rows should be returned
+   * @param chunkSize Rows per chunk file
+   * @param isCancelled Cancellation check, run before each chunk is read
+   * @returns Rows in the order of the positions; undefined where a chunk is missing
+   */
+  private readRows(tableName: string, positions: number[], chunkSize: number, isCancelled?: () => boolean): any[] {
+    const chunks = new Map<number, any[] | null>();
+    return positions.map(position => {
+      const chunkIndex = Math.floor(position / chunkSize);
+      if (!chunks.has(chunkIndex)) {
+        throwIfCancelled(isCancelled);
+        chunks.set(chunkIndex, this.readChunk(tableName, chunkIndex));
+      }
+      return chunks.get(chunkIndex)?.[position % chunkSize];
+    });
+  }
+
+  /**
+   * Query data from a table. Filter and search run over every row, then the
+   * matches are sorted and the requested page is cut out, so pages and totals
+   * are the same as if the whole table had been sorted in memory. Sorting uses
+   * the column's sort index when the import wrote one, so only the chunks that
+   * hold rows of the page have to be read back; without one the matching rows
+   * are sorted in memory. Searches use the table's full-text index when it has
+   * one, and can then be sorted by relevance; without one they fall back to a
+   * substring scan. A query given a cancellation check stops between chunks
+   * once the check returns true.
    * @param tableName Name of the table
    * @param options Query options
    * @returns Query results with data and pagination info
+   * @throws QueryCancelledError if the query was cancelled
    */
   query(tableName: string, options: QueryOptions = {}): QueryResult {
     const { 
       filter = {}, 
+      search,
       limit = Infinity, 
       offset = 0, 
       fields = [],
-      sort = { field: 'id', direction: 'asc' }
+      sort = { field: 'id', direction: 'asc' },
+      isCancelled,
+      facets = []
     } = options;
     
     const tableMetadata = this.getTableMetadata(tableName);
     
     if (!tableMetadata) {
-      throw new Error(`Table '${tableName}' not found`);
+      throw new DataMissingError(tableName);
     }
 
+    const searchText = search?.text?.trim() || '';
+    const searchIndex = hasSearchTerms(searchText) ? this.getSearchIndex(tableName) : null;
+    // Row position → relevance of the rows the full-text index found
+    const ranked = searchIndex ? searchIndex.search(searchText) : null;
+    const scanSearch = searchText && !searchIndex ? search : undefined;
+    // Facets are counted while the rows are checked, so they need every row checked
+    const hasFilter = Object.keys(filter).length > 0 || facets.length > 0;
+    const hasCriteria = hasFilter || Boolean(searchText);
+    const byRelevance = sort?.field === RELEVANCE_SORT_FIELD;
+    const sortIndex = sort && !byRelevance ? this.getSortIndex(tableName, sort.field) : null;
+    // Compiled once, which also rejects a malformed filter before any rows are read
+    const facetCounts = facets.length > 0 ? createFacetCounter(filter, facets) : null;
+    const matchesFilter = facetCounts ? facetCounts.matches : compileFilter(filter);
+    const rowMatches = (item: any, position: number) =>
+      (!ranked || ranked.has(position)) && this.matchesSearch(item, scanSearch) && matchesFilter(item);
     let results: any[] = [];
-    let skipped = 0;
+    let total = 0;
 
-    // Process each chunk until we have enough results
-    for (let i = 0; i < tableMetadata.chunksCount; i++) {
-      if (results.length >= limit) break;
-      
-      const chunkData = this.readChunk(tableName, i);
-      if (!chunkData) continue;
+    if (sortIndex || (byRelevance && searchIndex)) {
+      const chunkSize = sortIndex ? sortIndex.chunkSize : searchIndex!.chunkSize;
 
-      // Filter data in this chunk
-      const filteredChunk = this.filterData(chunkData, filter);
-      
-      // Handle offset (skip records)
-      if (skipped + filteredChunk.length <= offset) {
-        // Skip this entire chunk
-        skipped += filteredChunk.length;
-        continue;
+      // Positions of the matching rows; null when every row matches
+      let matched: number[] | null = null;
+      if (ranked && !hasFilter) {
+        matched = Array.from(ranked.keys());
+      } else if (ranked) {
+        // Only the rows the search found need checking against the filter
+        const candidates = Array.from(ranked.keys());
+        const rows = this.readRows(tableName, candidates, chunkSize, isCancelled);
+        matched = candidates.filter((_, i) => rows[i] !== undefined && matchesFilter(rows[i]));
+      } else if (hasCriteria) {
+        matched = [];
+        for (let i = 0; i < tableMetadata.chunksCount; i++) {
+          throwIfCancelled(isCancelled);
+          const chunkData = this.readChunk(tableName, i);
+          if (!chunkData) continue;
+          chunkData.forEach((item, offsetInChunk) => {
+            const position = i * chunkSize + offsetInChunk;
+            if (rowMatches(item, position)) matched!.push(position);
+          });
+        }
       }
-      
-      // Some records in this chunk need to be skipped
-      const remainingToSkip = Math.max(0, offset - skipped);
-      const chunkToAdd = filteredChunk.slice(remainingToSkip);
-      skipped += remainingToSkip;
-      
-      // Add up to the limit
-      const neededCount = Math.min(chunkToAdd.length, limit - results.length);
-      results.push(...chunkToAdd.slice(0, neededCount));
-    }
+      total = matched ? matched.length : sortIndex!.totalRows;
 
-    // Apply sorting
-    if (sort) {
-      results.sort((a, b) => {
-        const fieldA = a[sort.field];
-        const fieldB = b[sort.field];
-        
-        if (fieldA === undefined || fieldA === null) return sort.direction === 'asc' ? -1 : 1;
-        if (fieldB === undefined || fieldB === null) return sort.direction === 'asc' ? 1 : -1;
-        
-        if (fieldA < fieldB) return sort.direction === 'asc' ? -1 : 1;
-        if (fieldA > fieldB) return sort.direction === 'asc' ? 1 : -1;
-        return 0;
-      });
+      let pagePositions: number[] = [];
+      if (!sortIndex) {
+        // Most relevant first, table order among equally relevant rows
+        pagePositions = matched!
+          .sort((a, b) => ranked!.get(b)! - ranked!.get(a)! || a - b)
+          .slice(offset, offset + limit);
+      } else if (limit > 0) {
+        // Mark matching rows by position, then walk the index in sort order
+        let marks: Uint8Array | null = null;
+        if (matched) {
+          marks = new Uint8Array(sortIndex.totalRows);
+          matched.forEach(position => {
+            marks![position] = 1;
+          });
+        }
+
+        let skipped = 0;
+        forEachSorted(sortIndex, sort.direction, position => {
+          if (marks && !marks[position]) return true;
+          if (skipped < offset) {
+            skipped++;
+            return true;
+          }
+          pagePositions.push(position);
+          return pagePositions.length < limit;
+        });
+      }
+      results = this.readRows(tableName, pagePositions, chunkSize, isCancelled).filter(row => row !== undefined);
+    } else {
+      const matched: { item: any; position: number }[] = [];
+      let position = 0;
+      for (let i = 0; i < tableMetadata.chunksCount; i++) {
+        throwIfCancelled(isCancelled);
+        const chunkData = this.readChunk(tableName, i);
+        if (!chunkData) continue;
+        chunkData.forEach(item => {
+          if (!hasCriteria || rowMatches(item, position)) {
+            matched.push({ item, position });
+          }
+          position++;
+        });
+      }
+
+      // Without a full-text index there is no relevance, so those rows stay in table order
+      if (sort && !byRelevance) {
+        matched.sort((a, b) => {
+          const result = compareForSort(a.item[sort.field], b.item[sort.field], sort.direction);
+          if (result !== 0) return result;
+          // Same tie order as the sort indexes: table order, reversed for descending values
+          const bothMissing = isMissingValue(a.item[sort.field]) && isMissingValue(b.item[sort.field]);
+          return sort.direction === 'desc' && !bothMissing ? b.position - a.position : a.position - b.position;
+        });
+      }
+
+      total = matched.length;
+      results = matched.slice(offset, offset + limit).map(({ item }) => item);
     }
 
     // Apply field selection if specified
@@ -270,51 +740,70 @@ export class JSONDatabaseService {
 
     return {
       data: results,
-      total: this.count(tableName, filter),
+      total,
       offset,
-      limit: Math.min(limit, Infinity)
+      limit: Math.min(limit, Infinity),
+      ...(facetCounts ? { facets: facetCounts.counts } : {})
     };
   }
 
+  /**
+   * Group the rows of a table that match a filter and search, and compute
+   * count, sum, mean, median, min, max and percentiles of number fields per
+   * group. Rows match exactly as they do in `query`.
+   * @param tableName Name of the table
+   * @param options Rows to include, fields to group by and fields to measure
+   * @returns Statistics per group, and over every matching row
+   * @throws QueryCancelledError if `options.isCancelled` reports the request was superseded
+   */
+  aggregate(tableName: string, options: AggregateOptions = {}): AggregateResult {
+    const { filter = {}, search, isCancelled, mapRow = (row: any) => row } = options;
+    
+    const tableMetadata = this.getTableMetadata(tableName);
+    
+    if (!tableMetadata) {
+      throw new DataMissingError(tableName);
+    }
+    
+    const searchText = search?.text?.trim() || '';
+    const searchIndex = hasSearchTerms(searchText) ? this.getSearchIndex(tableName) : null;
+    const ranked = searchIndex ? searchIndex.search(searchText) : null;
+    const scanSearch = searchText && !searchIndex ? search : undefined;
+    const matchesFilter = compileFilter(filter);
+    const aggregator = createAggregator(options);
+    
+    if (ranked) {
+      // Only the rows the search found need reading
+      this.readRows(tableName, Array.from(ranked.keys()), searchIndex!.chunkSize, isCancelled).forEach(row => {
+        if (row !== undefined && matchesFilter(row)) aggregator.add(mapRow(row));
+      });
+    } else {
+      for (let i = 0; i < tableMetadata.chunksCount; i++) {
+        throwIfCancelled(isCancelled);
+        const chunkData = this.readChunk(tableName, i);
+        if (!chunkData) continue;
+        chunkData.forEach(item => {
+          if (this.matchesSearch(item, scanSearch) && matchesFilter(item)) aggregator.add(mapRow(item));
+        });
+      }
+    }
+    
+    return aggregator.result();
+  }
+  
   /**
    * Filter data based on criteria
    * @param data Data to filter
-   * @param filter Filter criteria {field: value}
+   * @param filter Filter expression: column conditions plus nested `$and`/`$or`/`$not` groups
    * @returns Filtered data
+   * @throws FilterError if the filter uses an unknown operator or a malformed operand
    */
-  filterData(data: any[], filter: Record<string, any>): any[] {
+  filterData(data: any[], filter: FilterExpression): any[] {
     if (!filter || Object.keys(filter).length === 0) {
       return data;
     }
 
-    return data.filter(item => {
-      return Object.entries(filter).every(([field, value]) => {
-        // Handle different types of filters
-        if (Array.isArray(value)) {
-          // IN operator - check if item's value is in the array
-          return value.length === 0 || value.includes(item[field]);
-        } else if (typeof value === 'object' && value !== null) {
-          // Complex operators
-          return Object.entries(value).every(([op, val]) => {
-            switch (op) {
-              case 'eq': return item[field] === val;
-              case 'ne': return item[field] !== val;
-              case 'gt': return typeof item[field] === 'number' && typeof val === 'number' ? item[field] > val : false;
-              case 'gte': return typeof item[field] === 'number' && typeof val === 'number' ? item[field] >= val : false;
-              case 'lt': return typeof item[field] === 'number' && typeof val === 'number' ? item[field] < val : false;
-              case 'lte': return typeof item[field] === 'number' && typeof val === 'number' ? item[field] <= val : false;
-              case 'like': 
-                return typeof item[field] === 'string' && 
-                  item[field].toLowerCase().includes(String(val).toLowerCase());
-              default: return true;
-            }
-          });
-        } else {
-          // Simple equality
-          return item[field] === value;
-        }
-      });
-    });
+    return data.filter(compileFilter(filter));
   }
 
   /**
@@ -323,11 +812,11 @@ export class JSONDatabaseService {
    * @param filter Filter criteria
    * @returns Count of matching records
    */
-  count(tableName: string, filter: Record<string, any> = {}): number {
+  count(tableName: string, filter: FilterExpression = {}): number {
     const tableMetadata = this.getTableMetadata(tableName);
     
     if (!tableMetadata) {
-      throw new Error(`Table '${tableName}' not found`);
+      throw new DataMissingError(tableName);
     }
 
     // If no filter and we have metadata with total count, use that
@@ -336,11 +825,12 @@ export class JSONDatabaseService {
     }
 
     // Otherwise we need to count by processing each chunk
+    const matchesFilter = compileFilter(filter);
     let count = 0;
     for (let i = 0; i < tableMetadata.chunksCount; i++) {
       const chunkData = this.readChunk(tableName, i);
       if (chunkData) {
-        count += this.filterData(chunkData, filter).length;
+        count += chunkData.filter(matchesFilter).length;
       }
     }
     return count;
@@ -356,101 +846,322 @@ export class JSONDatabaseService {
     const tableMetadata = this.getTableMetadata(tableName);
     
     if (!tableMetadata) {
-      throw new Error(`Table '${tableName}' not found`);
+      throw new DataMissingError(tableName);
     }
     
-    // Search through each chunk for the deal
-    for (let i = 0; i < tableMetadata.chunksCount; i++) {
-      const chunkData = this.readChunk(tableName, i);
-      if (!chunkData) continue;
-      
-      const deal = chunkData.find((d: any) => d.id == id); // Using == to handle string/number comparison
+    // Find the chunk holding each id once, so later lookups read a single chunk
+    if (!this.dealChunks) {
+      this.dealChunks = new Map();
+      for (let i = 0; i < tableMetadata.chunksCount; i++) {
+        const chunkData = this.readChunk(tableName, i);
+        if (!chunkData) continue;
+        chunkData.forEach((d: any) => this.dealChunks!.set(String(d.id), i));
+      }
+    }
+    
+    // String keys handle string/number id comparison
+    const chunkIndex = this.dealChunks.get(String(id));
+    if (chunkIndex !== undefined) {
+      const deal = this.readChunk(tableName, chunkIndex)?.find((d: any) => String(d.id) === String(id));
       if (deal) {
         // Transform to expected camelCase format for frontend
         return this.transformDealToCamelCase(deal);
       }
     }
     
-    throw new Error(`Deal with ID ${id} not found`);
+    throw new NotFoundError(`Deal with ID ${id} not found`);
   }
   
   /**
    * Get deals with filtering and pagination
+   * @throws QueryCancelledError if `options.isCancelled` reports the request was superseded
    */
   getDeals(options: any = {}): any {
     const { 
       page = 0, 
       pageSize = 100, 
-      sortField = 'announcementDate', 
-      sortDirection = 'desc',
       filters = {},
       searchQuery = ''
     } = options;
+    // Searches list the best matches first unless a sort is asked for
+    const { 
+      sortField = searchQuery ? RELEVANCE_SORT_FIELD : 'announcementDate', 
+      sortDirection = 'desc'
+    } = options;
     
-    // Convert filters to the format expected by our query method
-    const filter: Record<string, any> = {};
-    
-    // Handle search query across multiple fields
-    if (searchQuery) {
-      // We'll implement this as a post-filter after the initial query
-      // since our filterData method doesn't handle OR conditions well
-    }
-    
-    // Handle transaction types
-    if (filters.transactionTypes && filters.transactionTypes.length > 0) {
-      filter.transactionType = filters.transactionTypes;
-    }
-    
-    // Handle date range
-    if (filters.startDate || filters.endDate) {
-      filter.announcementDate = {};
-      if (filters.startDate) filter.announcementDate.gte = filters.startDate;
-      if (filters.endDate) filter.announcementDate.lte = filters.endDate;
-    }
-    
-    // Handle deal size
-    if (filters.minSize || filters.maxSize) {
-      filter.transactionValue = {};
-      if (filters.minSize) filter.transactionValue.gte = filters.minSize;
-      if (filters.maxSize) filter.transactionValue.lte = filters.maxSize;
-    }
-    
-    // Handle regions
-    if (filters.regions && filters.regions.length > 0) {
-      filter.targetRegion = filters.regions;
-    }
+    // Filters are keyed by the columns the chunk files are stored with. Facets
+    // take the list filters over, so their values can be counted as the rows
+    // are checked.
+    // Industries are selected as taxonomy nodes, and places as continents,
+    // sub-regions or countries, and counted per node.
+    const classifyIndustry = createIndustryClassifier(this.getIndustryTaxonomy());
+    const classifyPlace = createGeographyClassifier(this.getGeographyAliases());
+    const placePath = (value: string) => treePathIds(geographyNodeId(classifyPlace, value));
+    const resolvedFilters = this.resolveTreeFilters(filters);
+    const { filter: listFilter, facets } = options.facets
+      ? dealsFiltersToFacets(resolvedFilters, {
+        industries: value => treePathIds(industryNodeId(classifyIndustry, value)),
+        regions: placePath,
+        acquirerCountries: placePath
+      })
+      : { filter: dealsFiltersToExpression(resolvedFilters), facets: undefined };
+    const filter = this.withCrossBorderFilter(listFilter, filters);
+    const column = (field: DealField) => getFieldDefinition(field)?.column || field;
     
-    // Run the query
+    // Run the query; search, sort and pagination all run over the whole table
     const queryResult = this.query('deals', {
       filter,
+      search: searchQuery
+        ? { text: searchQuery, columns: SEARCH_FIELDS.map(column) }
+        : undefined,
       limit: pageSize,
       offset: page * pageSize,
       sort: {
-        field: this.camelToSnakeCase(sortField),
+        field: sortField === RELEVANCE_SORT_FIELD
+          ? sortField
+          : getFieldDefinition(sortField)?.column || this.camelToSnakeCase(sortField),
         direction: sortDirection
+      },
+      isCancelled: options.isCancelled,
+      facets
+    });
+    
+    return {
+      deals: queryResult.data.map(deal => this.transformDealToCamelCase(deal)),
+      totalCount: queryResult.total,
+      ...(queryResult.facets ? { facets: queryResult.facets } : {}),
+      ...(options.summary ? { summary: this.getDealsSummary({ searchQuery, filters, isCancelled: options.isCancelled }) } : {})
+    };
+  }
+  
+  /**
+   * Group the deals matching a search and filters, and compute statistics of
+   * number fields per group; the deals are the ones `getDeals` would list
+   * @param request Search, filters, fields to group by and fields to measure
+   * @returns Statistics per group and over every matching deal, keyed by deal field
+   * @throws QueryCancelledError if `isCancelled` reports the request was superseded
+   */
+  getDealsAggregate(request: DealsAggregateRequest & { isCancelled?: () => boolean }): AggregateResult {
+    const { searchQuery = '', filters = {}, groupBy = [], measures = [], percentiles } = request;
+    const column = (field: DealField) => getFieldDefinition(field)?.column || field;
+    
+    // Outlying multiples are measured as if not disclosed when the rule says to leave them out
+    const masked = this.getOutlierSettings().exclude
+      ? OUTLIER_FIELDS.filter(field => measures.includes(field))
+      : [];
+    const outliers = masked.length > 0 ? this.getOutliers() : null;
+    const mapRow = outliers
+      ? (row: any) => {
+        const fields = outliers.get(String(row.id));
+        if (!fields) return row;
+        const measured = { ...row };
+        fields.forEach(field => { measured[column(field)] = null; });
+        return measured;
       }
+      : undefined;
+    
+    const result = this.aggregate('deals', {
+      filter: this.withCrossBorderFilter(dealsFiltersToExpression(this.resolveTreeFilters(filters)), filters),
+      search: searchQuery
+        ? { text: searchQuery, columns: SEARCH_FIELDS.map(column) }
+        : undefined,
+      groupBy: groupBy.map(({ field, bucket }) => ({ field: column(field), bucket })),
+      measures: measures.map(column),
+      percentiles,
+      mapRow,
+      isCancelled: request.isCancelled
     });
     
-    // Apply search filter as post-processing if needed
-    let resultData = queryResult.data;
+    // Back from stored columns to deal fields
+    const toFields = (group: AggregateResult['total']) => ({
+      ...group,
+      measures: Object.fromEntries(measures.map(field => [field, group.measures[column(field)]]))
+    });
+    return {
+      groupBy,
+      groups: result.groups.map(toFields),
+      total: toFields(result.total)
+    };
+  }
+  
+  /**
+   * Figures of the deals matching a search and filters: counts by status,
+   * value totals, and the median and quartiles of deal size and multiples.
+   * Value figures are over the deals that disclose a value.
+   * @param request Search and filters; every deal without them
+   * @throws QueryCancelledError if `isCancelled` reports the request was superseded
+   */
+  getDealsSummary(request: Partial<DealsSummaryRequest> & { isCancelled?: () => boolean } = {}): DealsSummary {
+    const { searchQuery = '', filters = {}, isCancelled } = request;
+    // Every deal, as shown before anything is filtered
+    const isUnfiltered = !searchQuery.trim() && Object.keys(filters).length === 0;
+    if (isUnfiltered && this.derivedCache.has('dealsSummary')) {
+      return this.derivedCache.get('dealsSummary');
+    }
     
-    if (searchQuery) {
-      const searchFields = ['targetName', 'acquirerName', 'divestorName', 'dealSummary'];
-      const searchLower = searchQuery.toLowerCase();
-      
-      resultData = resultData.filter(item => 
-        searchFields.some(field => 
-          item[field] && String(item[field]).toLowerCase().includes(searchLower)
-        )
-      );
+    const { groups, total } = this.getDealsAggregate({
+      searchQuery,
+      filters,
+      groupBy: [{ field: 'transactionStatus' }],
+      measures: ['transactionValue', 'evEbitdaMultiple', 'evRevenueMultiple'],
+      percentiles: [25, 75],
+      isCancelled
+    });
+    const byStatus = (status: string) => groups.find(group => group.key[0] === status)?.count || 0;
+    const multiple = (stats: MeasureStats): MultipleSummary => ({
+      count: stats.count,
+      median: stats.median,
+      lowerQuartile: stats.percentiles['25'],
+      upperQuartile: stats.percentiles['75']
+    });
+    const value = total.measures.transactionValue;
+    
+    const summary: DealsSummary = {
+      totalDeals: total.count,
+      totalValue: value.sum,
+      avgDealSize: value.mean ?? 0,
+      largestDeal: value.max ?? 0,
+      medianDealSize: value.median,
+      disclosedValueDeals: value.count,
+      completedDeals: byStatus('Completed'),
+      announcedDeals: byStatus('Announced'),
+      pendingDeals: byStatus('Pending'),
+      evEbitda: multiple(total.measures.evEbitdaMultiple),
+      evRevenue: multiple(total.measures.evRevenueMultiple),
+      outlierRule: this.outlierRule()
+    };
+    if (isUnfiltered) this.derivedCache.set('dealsSummary', summary);
+    return summary;
+  }
+  
+  /**
+   * Rank the deals by how similar they are to a deal or a hypothetical target
+   * on industry, region, size, recency and description
+   * @param request Target, weights of the parts of the score, and how many matches to return
+   * @returns The criteria scored against, and the best matches first
+   * @throws NotFoundError if the deal to compare with doesn't exist
+   * @throws QueryCancelledError if `isCancelled` reports the request was superseded
+   */
+  findComparables(request: ComparablesRequest & { isCancelled?: () => boolean }): ComparablesResult {
+    const tableName = 'deals';
+    const tableMetadata = this.getTableMetadata(tableName);
+    
+    if (!tableMetadata) {
+      throw new DataMissingError(tableName);
+    }
+    
+    // Raw values repeat across deals, so each is placed in its tree once
+    const classifyIndustry = createIndustryClassifier(this.getIndustryTaxonomy());
+    const classifyPlace = createGeographyClassifier(this.getGeographyAliases());
+    const industryIds = new Map<string, string>();
+    const placeIds = new Map<string, string>();
+    const industryId = (value: string) => {
+      if (!industryIds.has(value)) industryIds.set(value, industryNodeId(classifyIndustry, value));
+      return industryIds.get(value)!;
+    };
+    const placeId = (value: string) => {
+      if (!placeIds.has(value)) placeIds.set(value, geographyNodeId(classifyPlace, value));
+      return placeIds.get(value)!;
+    };
+    const positive = (value: unknown) => typeof value === 'number' && value > 0 ? value : undefined;
+    
+    // Criteria given explicitly win over the ones taken from the deal
+    const given = Object.fromEntries(
+      Object.entries(request.criteria || {}).filter(([, value]) => value !== undefined && value !== '')
+    ) as ComparableCriteria;
+    let criteria = given;
+    if (request.dealId !== undefined) {
+      const deal = this.getDealById(request.dealId);
+      criteria = {
+        industries: [deal.targetIndustry1, deal.targetIndustry2].filter(Boolean).map(industryId),
+        region: deal.targetRegion ? placeId(deal.targetRegion) : undefined,
+        enterpriseValue: positive(deal.targetEnterpriseValue),
+        revenue: positive(deal.targetRevenue),
+        description: deal.targetDescription || undefined,
+        referenceDate: deal.announcementDate || undefined,
+        ...given
+      };
     }
     
-    // Transform to expected camelCase format
-    resultData = resultData.map(this.transformDealToCamelCase);
+    const score = createComparableScorer(criteria, request, {
+      industry: UNCLASSIFIED_SECTOR,
+      region: UNRESOLVED_CONTINENT
+    });
+    const scored: { row: any; match: Omit<ComparableMatch, 'deal'> }[] = [];
+    for (let i = 0; i < tableMetadata.chunksCount; i++) {
+      throwIfCancelled(request.isCancelled);
+      const chunkData = this.readChunk(tableName, i);
+      if (!chunkData) continue;
+      chunkData.forEach(row => {
+        if (request.dealId !== undefined && String(row.id) === String(request.dealId)) return;
+        const match = score({
+          industries: [row.target_industry_1, row.target_industry_2].filter(Boolean).map(industryId),
+          region: row.target_region ? placeId(row.target_region) : null,
+          enterpriseValue: positive(row.target_enterprise_value) ?? null,
+          revenue: positive(row.target_revenue) ?? null,
+          announcementDate: row.announcement_date || null,
+          description: row.target_description || ''
+        });
+        if (match && match.score > 0) scored.push({ row, match });
+      });
+    }
     
+    scored.sort((a, b) => b.match.score - a.match.score);
     return {
-      deals: resultData,
-      totalCount: queryResult.total
+      criteria,
+      matches: scored.slice(0, request.limit ?? DEFAULT_COMPARABLES_LIMIT).map(({ row, match }) => ({
+        deal: this.transformDealToCamelCase(row),
+        ...match
+      }))
+    };
+  }
+  
+  /**
+   * Deals by id, in the order asked for; ids without a deal are left out
+   */
+  getDealsByIds(ids: (number | string)[]): any[] {
+    return ids.flatMap(id => {
+      try {
+        return [this.getDealById(id)];
+      } catch (error) {
+        if (error instanceof NotFoundError) return [];
+        throw error;
+      }
+    });
+  }
+  
+  /**
+   * Precedent transactions valuation of a comp set or of the deals matching a
+   * search and filters: the spread of EV/EBITDA and EV/Revenue over the deals
+   * not excluded, and the target's EV those multiples imply
+   * @param request Deals to value, deals to leave out and the target's figures
+   * @param dealLimit Most deals to list, highest EV/EBITDA first; excluded deals are always listed
+   * @throws QueryCancelledError if `isCancelled` reports the request was superseded
+   */
+  getValuation(request: ValuationRequest & { isCancelled?: () => boolean }, dealLimit = VALUATION_DEAL_LIMIT): Valuation {
+    const { dealIds, searchQuery = '', filters = {}, exclusions = [], target = {}, isCancelled } = request;
+    const deals: any[] = dealIds
+      ? this.getDealsByIds(dealIds).sort((a, b) => compareForSort(a.evEbitdaMultiple, b.evEbitdaMultiple, 'desc'))
+      : this.getDeals({
+        searchQuery,
+        filters,
+        sortField: 'evEbitdaMultiple',
+        sortDirection: 'desc',
+        page: 0,
+        pageSize: Number.MAX_SAFE_INTEGER,
+        isCancelled
+      }).deals;
+    
+    // Deals come with their outlying multiples flagged
+    const outlierRule = this.outlierRule();
+    const valuation = valueDeals(deals, exclusions, target, outlierRule
+      ? (deal, field) => Boolean(deal.outliers?.includes(field))
+      : undefined);
+    const excluded = new Set(valuation.exclusions.map(exclusion => String(exclusion.dealId)));
+    return {
+      ...valuation,
+      outlierRule,
+      deals: deals.filter((deal, i) => i < dealLimit || excluded.has(String(deal.id)))
     };
   }
   
@@ -458,11 +1169,14 @@ export class JSONDatabaseService {
    * Get summary statistics for dashboard
    */
   getStatistics() {
+    const cached = this.derivedCache.get('statistics');
+    if (cached) return cached;
+    
     const tableName = 'deals';
     const tableMetadata = this.getTableMetadata(tableName);
     
     if (!tableMetadata) {
-      throw new Error(`Table '${tableName}' not found`);
+      throw new DataMissingError(tableName);
     }
     
     let totalDeals = 0;
@@ -504,7 +1218,7 @@ export class JSONDatabaseService {
       });
     }
     
-    return {
+    const statistics = {
       totalDeals,
       totalValue,
       avgDealSize: valueCount > 0 ? sumValues / valueCount : 0,
@@ -513,73 +1227,315 @@ export class JSONDatabaseService {
       announcedDeals,
       pendingDeals
     };
+    this.derivedCache.set('statistics', statistics);
+    return statistics;
   }
   
   /**
    * Get filter options for the UI
    */
-  getFilterOptions() {
+  getFilterOptions(): FilterOptions {
+    const cached = this.derivedCache.get('filterOptions');
+    if (cached) return cached;
+    
     const tableName = 'deals';
     const deals = this.getAllData(tableName);
     
-    // Extract unique transaction types
-    const transactionTypesSet = new Set<string>();
-    // Extract unique regions
-    const regionsSet = new Set<string>();
-    // Extract unique industries from both industry1 and industry2 fields
-    const industriesSet = new Set<string>();
+    // Distinct values of the list filters; industries come from both industry fields
+    const listColumns = {
+      transactionTypes: ['transaction_type'],
+      statuses: ['transaction_status'],
+      regions: ['target_region'],
+      acquirerCountries: ['acquirer_country'],
+      industries: ['target_industry_1', 'target_industry_2']
+    };
+    const values = Object.fromEntries(
+      Object.keys(listColumns).map(key => [key, new Set<string>()])
+    ) as Record<keyof typeof listColumns, Set<string>>;
+    // Bounds of the range filters
+    const ranges = Object.fromEntries(
+      RANGE_FILTER_FIELDS.map(field => [field, null])
+    ) as Record<RangeFilterField, ValueBounds | null>;
+    const rangeColumns = RANGE_FILTER_FIELDS.map(field => ({
+      field,
+      column: getFieldDefinition(field)?.column || field
+    }));
     
     deals.forEach((deal: any) => {
-      // Handle transaction types
-      const transactionType = deal.transaction_type || deal.transactionType;
-      if (transactionType) transactionTypesSet.add(transactionType);
-      
-      // Handle regions
-      const region = deal.target_region || deal.targetRegion;
-      if (region) regionsSet.add(region);
-      
-      // Handle industries
-      const industry1 = deal.target_industry_1 || deal.targetIndustry1;
-      const industry2 = deal.target_industry_2 || deal.targetIndustry2;
+      (Object.keys(listColumns) as (keyof typeof listColumns)[]).forEach(key => {
+        listColumns[key].forEach(column => {
+          const value = deal[column];
+          if (value) values[key].add(value);
+        });
+      });
       
-      if (industry1) industriesSet.add(industry1);
-      if (industry2) industriesSet.add(industry2);
+      rangeColumns.forEach(({ field, column }) => {
+        const value = deal[column];
+        if (typeof value !== 'number' || isNaN(value)) return;
+        const bounds = ranges[field];
+        if (!bounds) {
+          ranges[field] = { min: value, max: value };
+        } else {
+          if (value < bounds.min) bounds.min = value;
+          if (value > bounds.max) bounds.max = value;
+        }
+      });
     });
     
+    const industries = Array.from(values.industries).sort();
+    const { tree: industryTree, unmapped: unmappedIndustries } = buildIndustryTree(this.getIndustryTaxonomy(), industries);
+    if (unmappedIndustries.length > 0) {
+      console.warn(`Industries not in the taxonomy: ${unmappedIndustries.join(', ')}`);
+    }
+    
+    const classifyPlace = createGeographyClassifier(this.getGeographyAliases());
+    const regions = Array.from(values.regions).sort();
+    const acquirerCountries = Array.from(values.acquirerCountries).sort();
+    const regionTree = buildGeographyTree(classifyPlace, regions);
+    const acquirerCountryTree = buildGeographyTree(classifyPlace, acquirerCountries);
+    const unmappedGeographies = Array.from(new Set([...regionTree.unmapped, ...acquirerCountryTree.unmapped])).sort();
+    if (unmappedGeographies.length > 0) {
+      console.warn(`Places no alias resolves: ${unmappedGeographies.join(', ')}`);
+    }
+    
+    const filterOptions: FilterOptions = {
+      transactionTypes: Array.from(values.transactionTypes).sort(),
+      statuses: Array.from(values.statuses).sort(),
+      regions,
+      acquirerCountries,
+      regionTree: regionTree.tree,
+      acquirerCountryTree: acquirerCountryTree.tree,
+      unmappedGeographies,
+      industries,
+      industryTree,
+      unmappedIndustries,
+      ranges
+    };
+    this.derivedCache.set('filterOptions', filterOptions);
+    return filterOptions;
+  }
+  
+  /**
+   * Industry taxonomy from the data directory, or the default one when there
+   * is none or it can't be read
+   */
+  getIndustryTaxonomy(): IndustryTaxonomy {
+    const cached = this.derivedCache.get('industryTaxonomy');
+    if (cached) return cached;
+    
+    let taxonomy = DEFAULT_INDUSTRY_TAXONOMY;
+    const taxonomyPath = path.join(this.rootDirectory, INDUSTRY_TAXONOMY_FILE);
+    if (fs.existsSync(taxonomyPath)) {
+      try {
+        taxonomy = parseIndustryTaxonomy(JSON.parse(fs.readFileSync(taxonomyPath, 'utf8')));
+      } catch (error) {
+        console.error(`Error reading industry taxonomy ${taxonomyPath}, using the default:`, error);
+      }
+    }
+    this.derivedCache.set('industryTaxonomy', taxonomy);
+    return taxonomy;
+  }
+  
+  /**
+   * User aliases of places from the data directory; none when there is no
+   * file or it can't be read
+   */
+  getGeographyAliases(): GeographyAliases {
+    const cached = this.derivedCache.get('geographyAliases');
+    if (cached) return cached;
+    
+    let aliases: GeographyAliases = {};
+    const aliasesPath = path.join(this.rootDirectory, GEOGRAPHY_ALIASES_FILE);
+    if (fs.existsSync(aliasesPath)) {
+      try {
+        aliases = parseGeographyAliases(JSON.parse(fs.readFileSync(aliasesPath, 'utf8')));
+      } catch (error) {
+        console.error(`Error reading geography aliases ${aliasesPath}, using the defaults:`, error);
+      }
+    }
+    this.derivedCache.set('geographyAliases', aliases);
+    return aliases;
+  }
+  
+  /**
+   * Rule flagging outlying multiples from the data directory; the default
+   * when there is no file or it can't be read
+   */
+  getOutlierSettings(): OutlierSettings {
+    const cached = this.derivedCache.get('outlierSettings');
+    if (cached) return cached;
+    
+    let settings = parseOutlierSettings({});
+    const settingsPath = path.join(this.rootDirectory, OUTLIER_SETTINGS_FILE);
+    if (fs.existsSync(settingsPath)) {
+      try {
+        settings = parseOutlierSettings(JSON.parse(fs.readFileSync(settingsPath, 'utf8')));
+      } catch (error) {
+        console.error(`Error reading outlier settings ${settingsPath}, using the defaults:`, error);
+      }
+    }
+    this.derivedCache.set('outlierSettings', settings);
+    return settings;
+  }
+  
+  /**
+   * Rule the outlying multiples are left out of statistics by, in words; null
+   * when they are kept
+   */
+  private outlierRule(): string | null {
+    const settings = this.getOutlierSettings();
+    return settings.exclude ? describeOutlierRule(settings) : null;
+  }
+  
+  /**
+   * Multiples of each deal that are outliers among deals of the same sector
+   * and size, computed over every deal once
+   * @returns Deal id → fields with an outlying value
+   */
+  getOutliers(): Map<string, OutlierField[]> {
+    const cached = this.derivedCache.get('outliers');
+    if (cached) return cached;
+    
+    const tableName = 'deals';
+    const tableMetadata = this.getTableMetadata(tableName);
+    if (!tableMetadata) {
+      throw new DataMissingError(tableName);
+    }
+    
+    // Deals are compared within the top level of the industry taxonomy
+    const classifyIndustry = createIndustryClassifier(this.getIndustryTaxonomy());
+    const sectors = new Map<string, string>();
+    const sectorOf = (value: string) => {
+      if (!sectors.has(value)) sectors.set(value, treePathIds(industryNodeId(classifyIndustry, value)).pop()!);
+      return sectors.get(value)!;
+    };
+    const number = (value: unknown) => typeof value === 'number' && !isNaN(value) ? value : null;
+    const columns = OUTLIER_FIELDS.map(field => getFieldDefinition(field)?.column || field);
+    
+    const candidates = [];
+    for (let i = 0; i < tableMetadata.chunksCount; i++) {
+      const chunkData = this.readChunk(tableName, i);
+      if (!chunkData) continue;
+      for (const row of chunkData) {
+        candidates.push({
+          id: String(row.id),
+          sector: row.target_industry_1 ? sectorOf(row.target_industry_1) : '',
+          size: number(row.target_enterprise_value) ?? number(row.transaction_value),
+          values: Object.fromEntries(
+            OUTLIER_FIELDS.map((field, j) => [field, number(row[columns[j]])])
+          ) as Record<OutlierField, number | null>
+        });
+      }
+    }
+    
+    const outliers = findOutliers(candidates, this.getOutlierSettings());
+    this.derivedCache.set('outliers', outliers);
+    return outliers;
+  }
+  
+  /**
+   * Replace the nodes selected in the industry and geography filters by the
+   * raw values that fall under them
+   */
+  private resolveTreeFilters(filters: DealsFilters): DealsFilters {
+    const options = this.getFilterOptions();
+    const classifyIndustry = createIndustryClassifier(this.getIndustryTaxonomy());
+    const classifyPlace = createGeographyClassifier(this.getGeographyAliases());
+    const resolve = (selected: string[] | undefined, values: string[], nodeId: (value: string) => string) => {
+      if (!selected || selected.length === 0) return selected;
+      const matching = values.filter(value => selected.some(selectedId => isUnderNode(nodeId(value), selectedId)));
+      // Nodes without any values match nothing rather than everything
+      return matching.length > 0 ? matching : selected;
+    };
+    
     return {
-      transactionTypes: Array.from(transactionTypesSet).sort(),
-      regions: Array.from(regionsSet).sort(),
-      industries: Array.from(industriesSet).sort()
+      ...filters,
+      industries: resolve(filters.industries, options.industries, value => industryNodeId(classifyIndustry, value)),
+      regions: resolve(filters.regions, options.regions, value => geographyNodeId(classifyPlace, value)),
+      acquirerCountries: resolve(
+        filters.acquirerCountries,
+        options.acquirerCountries,
+        value => geographyNodeId(classifyPlace, value)
+      )
     };
   }
   
+  /**
+   * Add the cross-border filter, if set, to the expression of the other filters
+   */
+  private withCrossBorderFilter(filter: FilterExpression, filters: DealsFilters): FilterExpression {
+    return filters.crossBorder
+      ? { $and: [filter, this.crossBorderFilter(filters.crossBorder)] }
+      : filter;
+  }
+  
+  /**
+   * Filter of the deals whose acquirer is from another country than the
+   * target, or from the same one. Deals where it can't be told, such as a
+   * French acquirer of a target in Europe, match neither.
+   */
+  private crossBorderFilter(relation: 'crossBorder' | 'domestic'): FilterExpression {
+    const options = this.getFilterOptions();
+    const classify = createGeographyClassifier(this.getGeographyAliases());
+    const column = (field: DealField) => getFieldDefinition(field)?.column || field;
+    
+    // Raw target places by the node they resolve to, each paired with the
+    // acquirer places in that relation to it
+    const targetsByNode = new Map<string, string[]>();
+    options.regions.forEach(value => {
+      const id = geographyNodeId(classify, value);
+      targetsByNode.set(id, [...(targetsByNode.get(id) || []), value]);
+    });
+    
+    const pairs: FilterExpression[] = [];
+    targetsByNode.forEach((targets, targetId) => {
+      const acquirers = options.acquirerCountries.filter(value =>
+        borderRelation(targetId, geographyNodeId(classify, value)) === relation
+      );
+      if (acquirers.length === 0) return;
+      pairs.push({ $and: [
+        { [column('targetRegion')]: { in: targets } },
+        { [column('acquirerCountry')]: { in: acquirers } }
+      ] });
+    });
+    return { $or: pairs };
+  }
+  
   /**
    * Convert snake_case fields to camelCase for frontend
    */
-  private  transformDealToCamelCase(deal: any): any {
+  private transformDealToCamelCase(deal: any): any {
     // Handle both snake_case and camelCase input
-    return {
-      id: deal.id,
-      targetName: deal.target_name || deal.targetName,
-      announcementDate: deal.announcement_date || deal.announcementDate,
-      transactionType: deal.transaction_type || deal.transactionType,
-      transactionStatus: deal.transaction_status || deal.transactionStatus,
-      transactionValue: deal.transaction_value || deal.transactionValue,
-      divestorName: deal.divestor_name || deal.divestorName,
-      acquirerName: deal.acquirer_name || deal.acquirerName,
-      targetRegion: deal.target_region || deal.targetRegion,
-      targetDescription: deal.target_description || deal.targetDescription,
-      evEbitdaMultiple: deal.ev_ebitda_multiple || deal.evEbitdaMultiple,
-      evRevenueMultiple: deal.ev_revenue_multiple || deal.evRevenueMultiple,
-      acquirerCountry: deal.acquirer_country || deal.acquirerCountry,
-      targetIndustry1: deal.target_industry_1 || deal.targetIndustry1,
-      targetIndustry2: deal.target_industry_2 || deal.targetIndustry2,
-      dealSummary: deal.deal_summary || deal.dealSummary,
-      transactionConsiderations: deal.transaction_considerations || deal.transactionConsiderations,
-      targetEnterpriseValue: deal.target_enterprise_value || deal.targetEnterpriseValue,
-      targetRevenue: deal.target_revenue || deal.targetRevenue,
-      targetEbitda: deal.target_ebitda || deal.targetEbitda
-    };
+    const result: Record<string, any> = { id: deal.id };
+    [...DEAL_FIELDS, ...DERIVED_FIELDS].forEach(({ field, column }) => {
+      result[field] = deal[column] ?? deal[field];
+    });
+    
+    // Values computed from other fields, and reported multiples their components contradict
+    if (deal.derived_fields) {
+      result.derivedFields = deal.derived_fields;
+    }
+    if (deal.metric_conflicts) {
+      result.metricConflicts = deal.metric_conflicts;
+    }
+    
+    // Source columns that weren't mapped to a deal field
+    if (deal.extra) {
+      result.extraAttributes = deal.extra;
+    }
+    
+    // Deals flagged as missing from the latest delta import
+    if (deal.removed_at) {
+      result.removedAt = deal.removed_at;
+    }
+    
+    // Multiples that are outliers among the deal's peers
+    const outliers = this.getOutliers().get(String(deal.id));
+    if (outliers) {
+      result.outliers = outliers;
+    }
+    
+    return result;
   }
 
   /**
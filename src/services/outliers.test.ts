@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_OUTLIER_SETTINGS, OutlierCandidate, findOutliers, outlierBounds, sizeBucket } from './outliers';
+
+const MAD_SETTINGS = { ...DEFAULT_OUTLIER_SETTINGS, method: 'mad' as const, threshold: 3.5 };
+
+/**
+ * Deal with an EV/EBITDA multiple and no EV/Revenue multiple
+ */
+function candidate(id: string, sector: string, size: number | null, evEbitdaMultiple: number | null): OutlierCandidate {
+  return { id, sector, size, values: { evEbitdaMultiple, evRevenueMultiple: null } };
+}
+
+/**
+ * Deals of one sector and size with the given multiples, ids prefixed
+ */
+function peers(prefix: string, sector: string, size: number, multiples: number[]): OutlierCandidate[] {
+  return multiples.map((multiple, index) => candidate(`${prefix}${index}`, sector, size, multiple));
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, index) => from + index);
+
+describe('sizeBucket', () => {
+  it('buckets by size and treats missing sizes as undisclosed', () => {
+    expect(sizeBucket(49.9)).toBe('Under $50M');
+    expect(sizeBucket(250)).toBe('$250M–$1B');
+    expect(sizeBucket(12000)).toBe('Over $5B');
+    expect(sizeBucket(null)).toBe('Undisclosed');
+    expect(sizeBucket(0)).toBe('Undisclosed');
+  });
+});
+
+describe('outlierBounds', () => {
+  it('returns null for fewer than ten values', () => {
+    expect(outlierBounds(range(1, 9), 'iqr', 1.5)).toBeNull();
+  });
+
+  it('places IQR fences beyond the quartiles', () => {
+    const bounds = outlierBounds(range(1, 10), 'iqr', 1.5)!;
+    expect(bounds.low).toBeCloseTo(-3.5);
+    expect(bounds.high).toBeCloseTo(14.5);
+  });
+
+  it('places MAD bounds around the median', () => {
+    const bounds = outlierBounds(range(1, 10), 'mad', 3.5)!;
+    expect(bounds.low).toBeCloseTo(5.5 - 3.5 * 2.5 / 0.6745);
+    expect(bounds.high).toBeCloseTo(5.5 + 3.5 * 2.5 / 0.6745);
+  });
+
+  it('returns null with the MAD rule when most values are equal', () => {
+    expect(outlierBounds([8, 9, 10, 10, 10, 10, 10, 10, 11, 12], 'mad', 3.5)).toBeNull();
+  });
+});
+
+describe('findOutliers', () => {
+  it('flags values beyond their peer group', () => {
+    const deals = [...peers('a', 'Software', 100, range(8, 17)), candidate('high', 'Software', 100, 60)];
+    expect([...findOutliers(deals, DEFAULT_OUTLIER_SETTINGS).keys()]).toEqual(['high']);
+  });
+
+  it('flags zero and negative multiples unless turned off', () => {
+    const deals = [candidate('negative', 'Software', 100, -2), candidate('zero', 'Software', 100, 0)];
+    expect(findOutliers(deals, DEFAULT_OUTLIER_SETTINGS).get('negative')).toEqual(['evEbitdaMultiple']);
+    expect(findOutliers(deals, DEFAULT_OUTLIER_SETTINGS).has('zero')).toBe(true);
+    expect(findOutliers(deals, { ...DEFAULT_OUTLIER_SETTINGS, flagNonPositive: false }).size).toBe(0);
+  });
+
+  it('judges small peer groups against every deal', () => {
+    const deals = [...peers('a', 'Software', 100, range(8, 27)), ...peers('e', 'Energy', 100, [10, 12, 50])];
+    expect([...findOutliers(deals, DEFAULT_OUTLIER_SETTINGS).keys()]).toEqual(['e2']);
+  });
+
+  it('moves on to the sector when a size bucket has no spread', () => {
+    const deals = [
+      ...peers('flat', 'Software', 100, [...Array(10).fill(10), 40]),
+      ...peers('spread', 'Software', 2000, range(1, 20))
+    ];
+    expect([...findOutliers(deals, MAD_SETTINGS).keys()]).toEqual(['flat10']);
+  });
+
+  it('ignores missing values', () => {
+    const deals = [...peers('a', 'Software', 100, range(8, 17)), candidate('missing', 'Software', 100, null)];
+    expect(findOutliers(deals, DEFAULT_OUTLIER_SETTINGS).size).toBe(0);
+  });
+});
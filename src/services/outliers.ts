@@ -0,0 +1,190 @@
+import { percentile } from './aggregate';
+
+/**
+ * File in the data directory with the outlier rule
+ */
+export const OUTLIER_SETTINGS_FILE = 'outlier-settings.json';
+
+/**
+ * Deal fields checked for outliers
+ */
+export const OUTLIER_FIELDS = ['evEbitdaMultiple', 'evRevenueMultiple'] as const;
+
+export type OutlierField = typeof OUTLIER_FIELDS[number];
+
+export const OUTLIER_FIELD_LABELS: Record<OutlierField, string> = {
+  evEbitdaMultiple: 'EV/EBITDA',
+  evRevenueMultiple: 'EV/Revenue'
+};
+
+/**
+ * Interquartile range fences (Tukey) or median absolute deviation (modified
+ * z-score, Iglewicz and Hoaglin)
+ */
+export type OutlierMethod = 'iqr' | 'mad';
+
+export interface OutlierSettings {
+  method: OutlierMethod;
+  // IQR: how many interquartile ranges beyond the quartiles a value may lie;
+  // MAD: the largest modified z-score kept
+  threshold: number;
+  // Zero and negative multiples are outliers whatever their peers
+  flagNonPositive: boolean;
+  // Leave outlying multiples out of summaries, aggregations and valuations
+  exclude: boolean;
+}
+
+export const DEFAULT_OUTLIER_THRESHOLDS: Record<OutlierMethod, number> = {
+  iqr: 1.5,
+  mad: 3.5
+};
+
+export const DEFAULT_OUTLIER_SETTINGS: OutlierSettings = {
+  method: 'iqr',
+  threshold: DEFAULT_OUTLIER_THRESHOLDS.iqr,
+  flagNonPositive: true,
+  exclude: false
+};
+
+/**
+ * Size buckets deals are compared within, by enterprise value or else
+ * transaction value, $MM
+ */
+export const SIZE_BUCKETS = [
+  { label: 'Under $50M', max: 50 },
+  { label: '$50M–$250M', max: 250 },
+  { label: '$250M–$1B', max: 1000 },
+  { label: '$1B–$5B', max: 5000 },
+  { label: 'Over $5B', max: Infinity }
+];
+
+export const UNDISCLOSED_SIZE = 'Undisclosed';
+
+// A peer group with fewer values is judged with its whole sector, and a
+// sector with fewer with every deal
+export const MIN_PEER_GROUP = 10;
+
+// Scales the MAD to the standard deviation of normally distributed values
+const MAD_SCALE = 0.6745;
+
+/**
+ * Deal as outlier detection sees it
+ */
+export interface OutlierCandidate {
+  id: string;
+  sector: string;
+  size: number | null;
+  values: Record<OutlierField, number | null>;
+}
+
+/**
+ * Lowest and highest value that isn't an outlier
+ */
+export interface OutlierBounds {
+  low: number;
+  high: number;
+}
+
+export function sizeBucket(size: number | null | undefined): string {
+  if (typeof size !== 'number' || isNaN(size) || size <= 0) return UNDISCLOSED_SIZE;
+  return SIZE_BUCKETS.find(bucket => size < bucket.max)!.label;
+}
+
+/**
+ * Read an outlier rule, falling back to the defaults for anything missing or invalid
+ */
+export function parseOutlierSettings(value: unknown): OutlierSettings {
+  const settings = value && typeof value === 'object' ? value as Partial<OutlierSettings> : {};
+  const method = settings.method === 'mad' || settings.method === 'iqr' ? settings.method : DEFAULT_OUTLIER_SETTINGS.method;
+  return {
+    method,
+    threshold: typeof settings.threshold === 'number' && settings.threshold > 0
+      ? settings.threshold
+      : DEFAULT_OUTLIER_THRESHOLDS[method],
+    flagNonPositive: typeof settings.flagNonPositive === 'boolean'
+      ? settings.flagNonPositive
+      : DEFAULT_OUTLIER_SETTINGS.flagNonPositive,
+    exclude: settings.exclude === true
+  };
+}
+
+/**
+ * The rule in words, recorded next to the statistics it applied to
+ */
+export function describeOutlierRule(settings: OutlierSettings): string {
+  const spread = settings.method === 'iqr'
+    ? `more than ${settings.threshold} × IQR beyond the quartiles`
+    : `with a modified z-score (MAD) above ${settings.threshold}`;
+  return `${Object.values(OUTLIER_FIELD_LABELS).join(' and ')} ${spread} of deals in the same sector and size bucket` +
+    (settings.flagNonPositive ? ', or zero or negative' : '');
+}
+
+/**
+ * Bounds of the values that aren't outliers
+ * @param values Values of a peer group
+ * @returns The bounds, or null when the values are too few or don't spread
+ */
+export function outlierBounds(values: number[], method: OutlierMethod, threshold: number): OutlierBounds | null {
+  if (values.length < MIN_PEER_GROUP) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  if (method === 'iqr') {
+    const lower = percentile(sorted, 25)!;
+    const upper = percentile(sorted, 75)!;
+    const range = upper - lower;
+    return { low: lower - threshold * range, high: upper + threshold * range };
+  }
+  const median = percentile(sorted, 50)!;
+  const deviations = sorted.map(value => Math.abs(value - median)).sort((a, b) => a - b);
+  const mad = percentile(deviations, 50)!;
+  if (mad === 0) return null;
+  return { low: median - threshold * mad / MAD_SCALE, high: median + threshold * mad / MAD_SCALE };
+}
+
+/**
+ * Flag the multiples that are outliers among their peers: deals of the same
+ * sector and size bucket, or of the same sector, or all deals, whichever is
+ * the first with enough values that spread (a group whose values are mostly
+ * equal has no MAD to judge by)
+ * @param candidates Every deal
+ * @returns Deal id → fields with an outlying value; deals without any are left out
+ */
+export function findOutliers(candidates: OutlierCandidate[], settings: OutlierSettings): Map<string, OutlierField[]> {
+  const outliers = new Map<string, OutlierField[]>();
+  const flag = (id: string, field: OutlierField) => {
+    const fields = outliers.get(id);
+    if (!fields) outliers.set(id, [field]);
+    else if (!fields.includes(field)) fields.push(field);
+  };
+  const peerKeys = (candidate: OutlierCandidate) =>
+    [JSON.stringify([candidate.sector, sizeBucket(candidate.size)]), JSON.stringify([candidate.sector]), '[]'];
+
+  OUTLIER_FIELDS.forEach(field => {
+    // Values of each peer group at every level
+    const groups = new Map<string, number[]>();
+    candidates.forEach(candidate => {
+      const value = candidate.values[field];
+      if (value === null) return;
+      if (settings.flagNonPositive && value <= 0) {
+        flag(candidate.id, field);
+        return;
+      }
+      peerKeys(candidate).forEach(key => {
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(value);
+      });
+    });
+
+    const bounds = new Map<string, OutlierBounds | null>();
+    groups.forEach((values, key) => bounds.set(key, outlierBounds(values, settings.method, settings.threshold)));
+
+    candidates.forEach(candidate => {
+      const value = candidate.values[field];
+      if (value === null || (settings.flagNonPositive && value <= 0)) return;
+      const key = peerKeys(candidate).find(peerKey => bounds.get(peerKey));
+      const fence = key ? bounds.get(key) : null;
+      if (fence && (value < fence.low || value > fence.high)) flag(candidate.id, field);
+    });
+  });
+
+  return outliers;
+}
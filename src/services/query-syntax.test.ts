@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { compileFilter } from './filter-expression';
+import { parseQuery, QuerySyntaxError, removeClause } from './query-syntax';
+
+/**
+ * Rows a query's filter keeps, by target name
+ */
+function matching(query: string, rows: Record<string, any>[]): string[] {
+  const { filter } = parseQuery(query);
+  const predicate = filter ? compileFilter(filter) : () => true;
+  return rows.filter(predicate).map(row => row.target_name);
+}
+
+/**
+ * Position of the syntax error a query raises
+ */
+function errorAt(query: string): { message: string; position: number } {
+  try {
+    parseQuery(query);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return { message: error.message, position: error.position };
+    throw error;
+  }
+  throw new Error(`"${query}" parsed without an error`);
+}
+
+const ROWS = [
+  { target_name: 'Alpha', target_region: 'US', transaction_status: 'Completed', transaction_type: 'Buyout', acquirer_name: 'Blackstone Group', transaction_value: 800, announcement_date: '2021-03-15' },
+  { target_name: 'Beta', target_region: 'Australia', transaction_status: 'Pending', transaction_type: 'Minority Stake', acquirer_name: 'KKR', transaction_value: 200, announcement_date: '2020-12-31' },
+  { target_name: 'Gamma', target_region: 'US - West', transaction_status: 'Pending Approval', transaction_type: 'Merger', acquirer_name: 'Blackstone', transaction_value: 450, announcement_date: '2021-01-01' },
+  { target_name: 'Delta', target_region: 'UK', transaction_status: 'Completed', transaction_type: 'Carve-out', acquirer_name: 'Apax Partners', transaction_value: null, announcement_date: '2022-06-30' }
+];
+
+describe('parseQuery', () => {
+  it('returns no filter for an empty query', () => {
+    expect(parseQuery('   ')).toEqual({ text: '', filter: null, clauses: [] });
+  });
+
+  it('sends top-level words and phrases to the full-text search', () => {
+    const parsed = parseQuery('software "private equity" region:US');
+    expect(parsed.text).toBe('software "private equity"');
+    expect(parsed.clauses.map(clause => clause.isText)).toEqual([true, true, false]);
+  });
+
+  it('binds AND tighter than OR', () => {
+    expect(matching('region:UK OR region:US status:Pending', ROWS)).toEqual(['Gamma', 'Delta']);
+    expect(matching('(region:UK OR region:US) status:Completed', ROWS)).toEqual(['Alpha', 'Delta']);
+  });
+
+  it('applies NOT and - to the term that follows only', () => {
+    expect(matching('NOT status:Pending', ROWS)).toEqual(['Alpha', 'Delta']);
+    expect(matching('-status:Pending region:US', ROWS)).toEqual(['Alpha']);
+    expect(matching('NOT (region:US OR region:UK)', ROWS)).toEqual(['Beta']);
+  });
+
+  it('matches region, status and deal type as whole words', () => {
+    expect(matching('region:US', ROWS)).toEqual(['Alpha', 'Gamma']);
+    expect(matching('region:us', ROWS)).toEqual(['Alpha', 'Gamma']);
+    expect(matching('type:arve', ROWS)).toEqual([]);
+    expect(matching('type:carve-out', ROWS)).toEqual(['Delta']);
+    expect(matching('status:=Pending', ROWS)).toEqual(['Beta']);
+  });
+
+  it('matches names anywhere in the value', () => {
+    expect(matching('acquirer:black', ROWS)).toEqual(['Alpha', 'Gamma']);
+    expect(matching('acquirer:"Apax Partners"', ROWS)).toEqual(['Delta']);
+    expect(matching('acquirer:="Blackstone"', ROWS)).toEqual(['Gamma']);
+  });
+
+  it('keeps quoted phrases whole, operators included', () => {
+    const parsed = parseQuery('"mergers AND acquisitions" OR x');
+    expect(parsed.text).toBe('');
+    expect(parsed.filter).toEqual({
+      $or: [
+        { $or: expect.arrayContaining([{ target_name: { like: 'mergers AND acquisitions' } }]) },
+        { $or: expect.arrayContaining([{ target_name: { like: 'x' } }]) }
+      ]
+    });
+  });
+
+  it('compares numbers and number ranges', () => {
+    expect(matching('value:>450', ROWS)).toEqual(['Alpha']);
+    expect(matching('value:<=450', ROWS)).toEqual(['Beta', 'Gamma']);
+    expect(matching('value:200..450', ROWS)).toEqual(['Beta', 'Gamma']);
+    expect(matching('value:500..', ROWS)).toEqual(['Alpha']);
+    expect(matching('value:1,000..', ROWS)).toEqual([]);
+  });
+
+  it('turns years, months and days into date ranges', () => {
+    expect(parseQuery('date:2021').filter).toEqual({ announcement_date: { gte: '2021-01-01', lt: '2022-01-01' } });
+    expect(parseQuery('date:2021-12').filter).toEqual({ announcement_date: { gte: '2021-12-01', lt: '2022-01-01' } });
+    expect(parseQuery('date:2020-02-29').filter).toEqual({ announcement_date: { gte: '2020-02-29', lt: '2020-03-01' } });
+    expect(parseQuery('date:>2021').filter).toEqual({ announcement_date: { gte: '2022-01-01' } });
+    expect(parseQuery('date:<=2021-01').filter).toEqual({ announcement_date: { lt: '2021-02-01' } });
+    expect(matching('date:2021', ROWS)).toEqual(['Alpha', 'Gamma']);
+    expect(matching('date:<2021', ROWS)).toEqual(['Beta']);
+  });
+
+  it('reports the position of syntax errors', () => {
+    expect(errorAt('acquirer:"Blackstone')).toEqual({ message: 'Missing closing quote', position: 9 });
+    expect(errorAt('(region:US OR region:UK')).toEqual({ message: 'Missing ")"', position: 23 });
+    expect(errorAt('region:US)')).toEqual({ message: 'Unmatched ")"', position: 9 });
+    expect(errorAt('colour:red')).toEqual({ message: 'Unknown field "colour"', position: 0 });
+    expect(errorAt('value:>abc')).toEqual({ message: '"abc" is not a number', position: 7 });
+    expect(errorAt('date:2021-02-30')).toEqual({ message: '"2021-02-30" is not a valid date', position: 5 });
+    expect(errorAt('date:21')).toMatchObject({ position: 5 });
+    expect(errorAt('region:>US')).toEqual({ message: '">" only works with numbers and dates', position: 7 });
+    expect(errorAt('software AND')).toEqual({ message: 'Query ends unexpectedly', position: 12 });
+    expect(errorAt('status:')).toEqual({ message: 'Missing value for "status"', position: 7 });
+  });
+});
+
+describe('removeClause', () => {
+  it('rebuilds the query without one top-level clause', () => {
+    const parsed = parseQuery('software (region:US OR region:UK) value:>500');
+    expect(removeClause(parsed, 1)).toBe('software value:>500');
+  });
+});
@@ -0,0 +1,435 @@
+import { DEAL_FIELDS, DERIVED_FIELDS, DealFieldDefinition, DealFieldType } from './column-mapping';
+import { SEARCH_FIELDS } from './search-index';
+import { FilterExpression, FilterOperators } from './filter-expression';
+
+/**
+ * Result of parsing a search box query
+ */
+export interface ParsedQuery {
+  // Free text for the full-text search, empty if the query is only field conditions
+  text: string;
+  // Column filter for the conditions, null if there are none
+  filter: FilterExpression | null;
+  // Top-level parts of the query, ANDed together
+  clauses: QueryClause[];
+}
+
+/**
+ * A top-level part of a query, e.g. `value:>500` or `(US OR UK)`
+ */
+export interface QueryClause {
+  // Query text of the clause
+  source: string;
+  // Whether the clause is free text rather than a condition
+  isText: boolean;
+}
+
+/**
+ * Syntax error in a search box query
+ */
+export class QuerySyntaxError extends Error {
+  /**
+   * @param message Description of the problem
+   * @param position Character offset in the query where the problem is
+   */
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+/**
+ * Field names that only exist in the query syntax, for conditions that span
+ * several columns or read better than the column labels
+ */
+const QUERY_FIELD_ALIASES: Record<string, { columns: string[]; type: DealFieldType }> = {
+  industry: { columns: ['target_industry_1', 'target_industry_2'], type: 'string' },
+  sector: { columns: ['target_industry_1', 'target_industry_2'], type: 'string' },
+  date: { columns: ['announcement_date'], type: 'date' }
+};
+
+/**
+ * Free-text columns, where `field:text` matches text anywhere in the value.
+ * Other text columns hold short codes and categories (region, status, deal
+ * type), where a substring would find `US` in "Australia", so they match whole
+ * words instead.
+ */
+const FREE_TEXT_COLUMNS = new Set([
+  'target_name', 'acquirer_name', 'divestor_name', 'target_description', 'deal_summary', 'transaction_considerations'
+]);
+
+const SEARCH_COLUMNS = SEARCH_FIELDS.map(field => DEAL_FIELDS.find(definition => definition.field === field)?.column || field);
+
+type Comparator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+type QueryToken =
+  | { kind: '(' | ')' | 'AND' | 'OR' | 'NOT'; start: number; end: number }
+  | { kind: 'text'; value: string; quoted: boolean; start: number; end: number }
+  | {
+      kind: 'field';
+      field: string;
+      comparator: Comparator;
+      value: string;
+      quoted: boolean;
+      start: number;
+      end: number;
+      valueStart: number;
+    };
+
+type QueryNode =
+  | { kind: 'and' | 'or'; children: QueryNode[]; start: number; end: number }
+  | { kind: 'not'; child: QueryNode; start: number; end: number }
+  | { kind: 'text'; value: string; quoted: boolean; start: number; end: number }
+  | { kind: 'condition'; filter: FilterExpression; start: number; end: number };
+
+/**
+ * Normalise a field name for lookup: lower case, letters and digits only
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Find the columns and value type a field name in a query refers to. Deal
+ * field names, labels and the header aliases used for column mapping all work,
+ * for derived fields too.
+ */
+function resolveField(name: string): { columns: string[]; type: DealFieldType } | null {
+  const key = normalizeName(name);
+  const alias = Object.entries(QUERY_FIELD_ALIASES).find(([aliasName]) => aliasName === key);
+  if (alias) return alias[1];
+
+  const definition = [...DEAL_FIELDS, ...DERIVED_FIELDS].find((field: DealFieldDefinition) =>
+    [field.field, field.column, field.label, ...field.aliases].some(candidate => normalizeName(candidate) === key)
+  );
+  return definition ? { columns: [definition.column], type: definition.type } : null;
+}
+
+/**
+ * Read a quoted phrase starting at the opening quote
+ * @returns Phrase without quotes and the offset after the closing quote
+ */
+function readQuoted(query: string, start: number): { value: string; end: number } {
+  const close = query.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QuerySyntaxError('Missing closing quote', start);
+  }
+  return { value: query.slice(start + 1, close), end: close + 1 };
+}
+
+/**
+ * Split a query into tokens
+ */
+function tokenizeQuery(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char, start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(query, i);
+      tokens.push({ kind: 'text', value, quoted: true, start: i, end });
+      i = end;
+    } else if (char === '-' && i + 1 < query.length && !/[\s()]/.test(query[i + 1])) {
+      // -word is shorthand for NOT word
+      tokens.push({ kind: 'NOT', start: i, end: i + 1 });
+      i++;
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s()"]/.test(query[i]) && query[i] !== ':') i++;
+      const word = query.slice(start, i);
+
+      if (query[i] === ':' && word.length > 0) {
+        const comparator = (query.slice(i + 1).match(/^(>=|<=|>|<|=)/)?.[0] || ':') as Comparator;
+        const valueStart = i + 1 + (comparator === ':' ? 0 : comparator.length);
+        let value: string;
+        let quoted = false;
+        if (query[valueStart] === '"') {
+          const phrase = readQuoted(query, valueStart);
+          value = phrase.value;
+          quoted = true;
+          i = phrase.end;
+        } else {
+          i = valueStart;
+          while (i < query.length && !/[\s()"]/.test(query[i])) i++;
+          value = query.slice(valueStart, i);
+        }
+        if (value === '') {
+          throw new QuerySyntaxError(`Missing value for "${word}"`, valueStart);
+        }
+        tokens.push({ kind: 'field', field: word, comparator, value, quoted, start, end: i, valueStart });
+      } else if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: word, start, end: i });
+      } else {
+        if (query[i] === ':') i++;
+        tokens.push({ kind: 'text', value: query.slice(start, i), quoted: false, start, end: i });
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parse a number, allowing thousands separators
+ */
+function parseNumber(value: string, position: number): number {
+  const number = Number(value.replace(/,/g, ''));
+  if (value.trim() === '' || isNaN(number)) {
+    throw new QuerySyntaxError(`"${value}" is not a number`, position);
+  }
+  return number;
+}
+
+/**
+ * Turn a year, month or day into the half-open range of ISO dates it covers,
+ * so `date:2021` matches every deal announced in 2021
+ * @returns Inclusive start and exclusive end, as ISO date strings
+ */
+function parseDateRange(value: string, position: number): { start: string; end: string } {
+  const match = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) {
+    throw new QuerySyntaxError(`"${value}" is not a date (use YYYY, YYYY-MM or YYYY-MM-DD)`, position);
+  }
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : 0;
+  const day = match[3] ? Number(match[3]) : 1;
+  const start = new Date(Date.UTC(year, month, day));
+  if (start.getUTCMonth() !== month || start.getUTCDate() !== day) {
+    throw new QuerySyntaxError(`"${value}" is not a valid date`, position);
+  }
+
+  const end = new Date(start);
+  if (match[3]) end.setUTCDate(end.getUTCDate() + 1);
+  else if (match[2]) end.setUTCMonth(end.getUTCMonth() + 1);
+  else end.setUTCFullYear(end.getUTCFullYear() + 1);
+
+  const toIso = (date: Date) => date.toISOString().slice(0, 10);
+  return { start: toIso(start), end: toIso(end) };
+}
+
+/**
+ * Case-insensitive pattern matching text as whole words of a value, so
+ * `US` finds "US" and "US - West" but not "Australia"
+ */
+function wordPattern(value: string): string {
+  const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return `(?<![a-z0-9])${escaped}(?![a-z0-9])`;
+}
+
+/**
+ * Build the filter condition of a `field:value` token
+ */
+function buildCondition(token: Extract<QueryToken, { kind: 'field' }>): FilterExpression {
+  const field = resolveField(token.field);
+  if (!field) {
+    throw new QuerySyntaxError(`Unknown field "${token.field}"`, token.start);
+  }
+
+  const { comparator, value, valueStart } = token;
+  let condition: FilterOperators;
+
+  if (field.type === 'number') {
+    const range = value.match(/^(.*)\.\.(.*)$/);
+    if (range && comparator === ':') {
+      const min = range[1] ? parseNumber(range[1], valueStart) : null;
+      const max = range[2] ? parseNumber(range[2], valueStart + range[1].length + 2) : null;
+      condition = min !== null && max !== null ? { between: [min, max] } : min !== null ? { gte: min } : { lte: max };
+    } else {
+      const number = parseNumber(value, valueStart);
+      const operators: Record<Comparator, string> = { ':': 'eq', '=': 'eq', '>': 'gt', '>=': 'gte', '<': 'lt', '<=': 'lte' };
+      condition = { [operators[comparator]]: number };
+    }
+  } else if (field.type === 'date') {
+    const { start, end } = parseDateRange(value, valueStart);
+    switch (comparator) {
+      case '>': condition = { gte: end }; break;
+      case '>=': condition = { gte: start }; break;
+      case '<': condition = { lt: start }; break;
+      case '<=': condition = { lt: end }; break;
+      default: condition = { gte: start, lt: end };
+    }
+  } else {
+    if (comparator !== ':' && comparator !== '=') {
+      throw new QuerySyntaxError(`"${comparator}" only works with numbers and dates`, valueStart - comparator.length);
+    }
+    // field:=text matches the whole value; field:text matches anywhere in free
+    // text and whole words elsewhere
+    if (comparator === '=') condition = { eq: value };
+    else if (field.columns.every(column => FREE_TEXT_COLUMNS.has(column))) condition = { like: value };
+    else condition = { regex: wordPattern(value) };
+  }
+
+  if (field.columns.length === 1) {
+    return { [field.columns[0]]: condition };
+  }
+  return { $or: field.columns.map(column => ({ [column]: condition })) };
+}
+
+/**
+ * Recursive descent parser over the tokens of a query:
+ *
+ *   or    := and ('OR' and)*
+ *   and   := unary ('AND'? unary)*
+ *   unary := 'NOT' unary | primary
+ *   primary := '(' or ')' | field:value | word | "phrase"
+ */
+class QueryParser {
+  private index = 0;
+
+  constructor(private tokens: QueryToken[], private query: string) {}
+
+  parse(): QueryNode | null {
+    if (this.tokens.length === 0) return null;
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new QuerySyntaxError(extra.kind === ')' ? 'Unmatched ")"' : 'Unexpected input', extra.start);
+    }
+    return node;
+  }
+
+  private peek(): QueryToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === 'OR') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1
+      ? children[0]
+      : { kind: 'or', children, start: children[0].start, end: children[children.length - 1].end };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+    for (let next = this.peek(); next && next.kind !== 'OR' && next.kind !== ')'; next = this.peek()) {
+      if (next.kind === 'AND') this.index++;
+      children.push(this.parseUnary());
+    }
+    return children.length === 1
+      ? children[0]
+      : { kind: 'and', children, start: children[0].start, end: children[children.length - 1].end };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (token?.kind === 'NOT') {
+      this.index++;
+      const child = this.parseUnary();
+      return { kind: 'not', child, start: token.start, end: child.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new QuerySyntaxError('Query ends unexpectedly', this.query.length);
+    }
+    this.index++;
+
+    switch (token.kind) {
+      case '(': {
+        const node = this.parseOr();
+        const close = this.peek();
+        if (close?.kind !== ')') {
+          throw new QuerySyntaxError('Missing ")"', close ? close.start : this.query.length);
+        }
+        this.index++;
+        // Keep the parentheses in the clause source
+        return { ...node, start: token.start, end: close.end };
+      }
+      case 'field':
+        return { kind: 'condition', filter: buildCondition(token), start: token.start, end: token.end };
+      case 'text':
+        return { kind: 'text', value: token.value, quoted: token.quoted, start: token.start, end: token.end };
+      default:
+        throw new QuerySyntaxError(`Unexpected "${token.kind === ')' ? ')' : token.kind}"`, token.start);
+    }
+  }
+}
+
+/**
+ * Turn a query tree into a column filter. Free text nested in OR or NOT can't
+ * go to the full-text search, so it becomes a substring match on the searched columns.
+ */
+function toFilter(node: QueryNode): FilterExpression {
+  switch (node.kind) {
+    case 'condition':
+      return node.filter;
+    case 'text':
+      return { $or: SEARCH_COLUMNS.map(column => ({ [column]: { like: node.value } })) };
+    case 'not':
+      return { $not: toFilter(node.child) };
+    case 'and':
+      return { $and: node.children.map(toFilter) };
+    case 'or':
+      return { $or: node.children.map(toFilter) };
+  }
+}
+
+/**
+ * Parse a search box query such as
+ * `acquirer:"Blackstone" AND industry:software NOT status:Pending value:>500`.
+ *
+ * Words and quoted phrases are searched for as free text. `field:value` adds a
+ * condition: name and description fields match anywhere in the value, other
+ * text fields whole words (`field:=value` for the whole value); number fields take `>`, `>=`, `<`, `<=` and `min..max`; date
+ * fields take a year, month or day, optionally with a comparison. Conditions
+ * and text combine with AND (also implied between terms), OR, NOT (or a
+ * leading `-`) and parentheses.
+ * @param query Query text
+ * @returns Free text, column filter and top-level clauses
+ * @throws QuerySyntaxError with the position of the first problem
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const root = new QueryParser(tokenizeQuery(query), query).parse();
+  if (!root) {
+    return { text: '', filter: null, clauses: [] };
+  }
+
+  const topLevel = root.kind === 'and' ? root.children : [root];
+  const text: string[] = [];
+  const conditions: FilterExpression[] = [];
+  const clauses: QueryClause[] = [];
+
+  topLevel.forEach(node => {
+    const source = query.slice(node.start, node.end);
+    if (node.kind === 'text') {
+      // Top-level text goes to the full-text index so it is ranked
+      text.push(node.quoted ? `"${node.value}"` : node.value);
+      clauses.push({ source, isText: true });
+    } else {
+      conditions.push(toFilter(node));
+      clauses.push({ source, isText: false });
+    }
+  });
+
+  return {
+    text: text.join(' '),
+    filter: conditions.length === 0 ? null : conditions.length === 1 ? conditions[0] : { $and: conditions },
+    clauses
+  };
+}
+
+/**
+ * Rebuild a query without one of its top-level clauses
+ * @param parsed Parsed query
+ * @param index Index of the clause to drop
+ * @returns Query text
+ */
+export function removeClause(parsed: ParsedQuery, index: number): string {
+  return parsed.clauses
+    .filter((_, i) => i !== index)
+    .map(clause => clause.source)
+    .join(' ');
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { hasSearchTerms, stem, tokenize } from './search-index';
+
+describe('tokenize', () => {
+  it('drops stop words but keeps the offsets of the others', () => {
+    expect(tokenize('The Acquisition of Beta')).toEqual([
+      { token: 'acquisition', offset: 1 },
+      { token: 'beta', offset: 3 }
+    ]);
+  });
+
+  it('folds case and accents', () => {
+    expect(tokenize('Société Générale').map(({ token }) => token)).toEqual(['societe', 'generale']);
+  });
+});
+
+describe('stem', () => {
+  it('folds word endings onto one stem', () => {
+    expect(stem('acquired')).toBe(stem('acquiring'));
+    expect(stem('acquires')).toBe(stem('acquired'));
+  });
+});
+
+describe('hasSearchTerms', () => {
+  it('finds words the index can look up', () => {
+    expect(hasSearchTerms('the software')).toBe(true);
+    expect(hasSearchTerms('"private equity"')).toBe(true);
+    expect(hasSearchTerms('logist*')).toBe(true);
+  });
+
+  it('finds none in stop words, punctuation or an empty search', () => {
+    expect(hasSearchTerms('the')).toBe(false);
+    expect(hasSearchTerms('of the "and"')).toBe(false);
+    expect(hasSearchTerms('&')).toBe(false);
+    expect(hasSearchTerms('')).toBe(false);
+  });
+});
@@ -0,0 +1,437 @@
+import { DealField, getFieldDefinition } from './column-mapping';
+
+/**
+ * File the full-text index is stored in, next to the chunk files
+ */
+export const SEARCH_INDEX_FILE = '_search_index.json';
+
+/**
+ * Sort field that orders search results by relevance
+ */
+export const RELEVANCE_SORT_FIELD = '_relevance';
+
+/**
+ * Text fields covered by the full-text index, with the weight a match in each
+ * contributes to a deal's relevance
+ */
+export const SEARCH_FIELD_WEIGHTS: { field: DealField; weight: number }[] = [
+  { field: 'targetName', weight: 3 },
+  { field: 'acquirerName', weight: 2 },
+  { field: 'divestorName', weight: 2 },
+  { field: 'targetDescription', weight: 1 },
+  { field: 'dealSummary', weight: 1 },
+  { field: 'transactionConsiderations', weight: 0.5 }
+];
+
+/**
+ * Deal fields the free-text search looks in
+ */
+export const SEARCH_FIELDS: DealField[] = SEARCH_FIELD_WEIGHTS.map(({ field }) => field);
+
+/**
+ * Full-text index as stored on disk. Postings of a term are a flat list of
+ * `position, field, count, offset × count` groups: the row position (chunk
+ * index × chunk size + offset in the chunk), the index of the field in
+ * `columns`, and the token offsets of the term within that field.
+ */
+export interface SerializedSearchIndex {
+  version: 1;
+  chunkSize: number;
+  totalRows: number;
+  columns: string[];
+  terms: Record<string, number[]>;
+}
+
+/**
+ * A token and its offset within the text it came from
+ */
+export interface Token {
+  token: string;
+  offset: number;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were', 'which', 'with'
+]);
+
+// Derivational suffixes folded onto a common stem, longest first
+const SUFFIXES: [string, string][] = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['isation', 'ize'],
+  ['iveness', 'ive'],
+  ['fulness', 'ful'],
+  ['ation', 'ate'],
+  ['ness', '']
+];
+
+// Saturation of repeated terms, as in BM25
+const TERM_SATURATION = 1.2;
+
+// Matches through prefix expansion count for less than exact matches
+const PREFIX_MATCH_FACTOR = 0.5;
+
+// Phrase matches count for more than the same words scattered through the text
+const PHRASE_MATCH_FACTOR = 1.5;
+
+// Upper bound on the terms a prefix expands to, so "a*" doesn't scan the whole index
+const MAX_PREFIX_EXPANSIONS = 200;
+
+/**
+ * Lower-case text and strip accents
+ */
+function normalizeText(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Split text into lower-case alphanumeric tokens. Stop words are dropped but
+ * still count towards offsets, so phrases keep their spacing.
+ * @param text Text to split
+ * @returns Tokens with their offsets
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const words = normalizeText(text).match(/[a-z0-9]+/g) || [];
+  words.forEach((token, offset) => {
+    if (!STOP_WORDS.has(token)) {
+      tokens.push({ token, offset });
+    }
+  });
+  return tokens;
+}
+
+/**
+ * Reduce an English word to its stem with a light suffix stripper, so that
+ * "acquired", "acquires" and "acquiring" all index as "acquir"
+ * @param token Lower-case token
+ * @returns Stem
+ */
+export function stem(token: string): string {
+  if (token.length <= 3 || /\d/.test(token)) return token;
+
+  let word = token;
+  if (word.endsWith('ies') && word.length > 4) {
+    word = word.slice(0, -3) + 'y';
+  } else if (word.endsWith('sses') || /(ches|shes|xes|zes)$/.test(word)) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) {
+    word = word.slice(0, -1);
+  }
+
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      word = word.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  const inflected = word.match(/^(.{3,}?)(ing|ed)$/);
+  if (inflected && /[aeiouy]/.test(inflected[1])) {
+    word = inflected[1];
+    // running → run, but not billing → bil
+    if (/([^aeiouslz])\1$/.test(word)) word = word.slice(0, -1);
+  }
+
+  if (word.endsWith('e') && word.length > 4) {
+    word = word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Collects the text of each record while a table is written and builds its
+ * full-text index
+ */
+export class SearchIndexBuilder {
+  private terms = new Map<string, number[]>();
+  private columns: string[];
+  private totalRows = 0;
+
+  /**
+   * @param chunkSize Number of rows per chunk file of the table
+   */
+  constructor(private chunkSize: number) {
+    this.columns = SEARCH_FIELDS.map(field => getFieldDefinition(field)?.column || field);
+  }
+
+  /**
+   * Add the next record of the table, in the order it is written to the chunks
+   * @param record Record in chunk (snake_case column) format
+   */
+  add(record: Record<string, any>): void {
+    const position = this.totalRows++;
+
+    this.columns.forEach((column, fieldIndex) => {
+      const value = record[column];
+      if (value === null || value === undefined || value === '') return;
+
+      const offsetsByStem = new Map<string, number[]>();
+      tokenize(String(value)).forEach(({ token, offset }) => {
+        const key = stem(token);
+        const offsets = offsetsByStem.get(key);
+        if (offsets) offsets.push(offset);
+        else offsetsByStem.set(key, [offset]);
+      });
+
+      offsetsByStem.forEach((offsets, key) => {
+        let postings = this.terms.get(key);
+        if (!postings) {
+          postings = [];
+          this.terms.set(key, postings);
+        }
+        postings.push(position, fieldIndex, offsets.length, ...offsets);
+      });
+    });
+  }
+
+  /**
+   * Build the index for everything added so far
+   * @returns Index ready to be written to disk
+   */
+  build(): SerializedSearchIndex {
+    return {
+      version: 1,
+      chunkSize: this.chunkSize,
+      totalRows: this.totalRows,
+      columns: this.columns,
+      terms: Object.fromEntries(this.terms)
+    };
+  }
+}
+
+/**
+ * One part of a search: a word (optionally a prefix) or a quoted phrase
+ */
+interface SearchClause {
+  tokens: Token[];
+  prefix: boolean;
+}
+
+/**
+ * Split a search into clauses. Quoted text is a phrase, `word*` is a prefix,
+ * and the last word is matched as a prefix too so results show up while typing.
+ */
+function parseSearch(text: string): SearchClause[] {
+  const clauses: SearchClause[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  let last: SearchClause | null = null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[1] !== undefined) {
+      const tokens = tokenize(match[1]);
+      if (tokens.length > 0) clauses.push({ tokens, prefix: false });
+      last = null;
+    } else {
+      const word = match[2];
+      const tokens = tokenize(word);
+      if (tokens.length === 0) continue;
+      // "m&a" splits into several tokens that have to appear together
+      const clause = { tokens, prefix: word.endsWith('*') && tokens.length === 1 };
+      clauses.push(clause);
+      last = clause;
+    }
+  }
+
+  if (last && last.tokens.length === 1 && !/\s$/.test(text)) {
+    last.prefix = true;
+  }
+  return clauses;
+}
+
+/**
+ * Check whether a search has any words the index can look up. One made only of
+ * stop words or punctuation ("the", "&") has none, so it has to be answered by
+ * scanning the rows instead.
+ */
+export function hasSearchTerms(text: string): boolean {
+  return parseSearch(text).length > 0;
+}
+
+/**
+ * Full-text index of a table, loaded from disk
+ */
+export class SearchIndex {
+  private sortedTerms: string[] | null = null;
+  private weights: number[];
+
+  /**
+   * @param data Index as written at import time
+   */
+  constructor(private data: SerializedSearchIndex) {
+    this.weights = data.columns.map(column =>
+      SEARCH_FIELD_WEIGHTS.find(({ field }) => getFieldDefinition(field)?.column === column)?.weight ?? 1
+    );
+  }
+
+  /**
+   * Number of rows per chunk file of the indexed table
+   */
+  get chunkSize(): number {
+    return this.data.chunkSize;
+  }
+
+  /**
+   * Number of rows covered by the index
+   */
+  get totalRows(): number {
+    return this.data.totalRows;
+  }
+
+  /**
+   * Find the rows matching every word and phrase of a search
+   * @param text Search text
+   * @returns Row position → relevance score of every matching row
+   */
+  search(text: string): Map<number, number> {
+    const clauses = parseSearch(text);
+    if (clauses.length === 0) return new Map();
+
+    let results: Map<number, number> | null = null;
+    for (const clause of clauses) {
+      const scores = clause.tokens.length > 1 ? this.matchPhrase(clause.tokens) : this.matchTerm(clause.tokens[0].token, clause.prefix);
+      if (results === null) {
+        results = scores;
+      } else {
+        const combined = new Map<number, number>();
+        results.forEach((score, position) => {
+          const other = scores.get(position);
+          if (other !== undefined) combined.set(position, score + other);
+        });
+        results = combined;
+      }
+      if (results.size === 0) break;
+    }
+    return results || new Map();
+  }
+
+  /**
+   * Inverse document frequency of a term with the given number of matching rows
+   */
+  private idf(rowCount: number): number {
+    return Math.log(1 + (this.data.totalRows - rowCount + 0.5) / (rowCount + 0.5));
+  }
+
+  /**
+   * Score the rows containing a term
+   * @param postings Postings of the term
+   * @param factor Multiplier applied to every score
+   * @param scores Scores to add to, by row position
+   */
+  private scorePostings(postings: number[], factor: number, scores: Map<number, number>): void {
+    // Postings are grouped by row, so counting position changes counts rows
+    let rowCount = 0;
+    let lastPosition = -1;
+    for (let i = 0; i < postings.length; i += 3 + postings[i + 2]) {
+      if (postings[i] !== lastPosition) {
+        rowCount++;
+        lastPosition = postings[i];
+      }
+    }
+
+    const idf = this.idf(rowCount);
+    for (let i = 0; i < postings.length; i += 3 + postings[i + 2]) {
+      const position = postings[i];
+      const count = postings[i + 2];
+      const score = idf * this.weights[postings[i + 1]] * (count / (count + TERM_SATURATION)) * factor;
+      scores.set(position, (scores.get(position) || 0) + score);
+    }
+  }
+
+  /**
+   * Score the rows containing a word, or any word starting with it
+   */
+  private matchTerm(token: string, prefix: boolean): Map<number, number> {
+    const scores = new Map<number, number>();
+    const exact = stem(token);
+    const postings = this.data.terms[exact];
+    if (postings) {
+      this.scorePostings(postings, 1, scores);
+    }
+
+    if (prefix && token.length >= 2) {
+      this.expandPrefix(token)
+        .filter(term => term !== exact)
+        .forEach(term => this.scorePostings(this.data.terms[term], PREFIX_MATCH_FACTOR, scores));
+    }
+    return scores;
+  }
+
+  /**
+   * List the indexed terms starting with a prefix
+   */
+  private expandPrefix(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Object.keys(this.data.terms).sort();
+    }
+
+    // Binary search for the first term not before the prefix
+    let low = 0;
+    let high = this.sortedTerms.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.sortedTerms[middle] < prefix) low = middle + 1;
+      else high = middle;
+    }
+
+    const terms: string[] = [];
+    for (let i = low; i < this.sortedTerms.length && terms.length < MAX_PREFIX_EXPANSIONS; i++) {
+      if (!this.sortedTerms[i].startsWith(prefix)) break;
+      terms.push(this.sortedTerms[i]);
+    }
+    return terms;
+  }
+
+  /**
+   * Collect the offsets of a term by row and field
+   * @returns (position × field count + field) → token offsets
+   */
+  private offsetsByField(term: string): Map<number, number[]> {
+    const offsets = new Map<number, number[]>();
+    const postings = this.data.terms[term] || [];
+    const fieldCount = this.data.columns.length;
+    for (let i = 0; i < postings.length; i += 3 + postings[i + 2]) {
+      const count = postings[i + 2];
+      offsets.set(postings[i] * fieldCount + postings[i + 1], postings.slice(i + 3, i + 3 + count));
+    }
+    return offsets;
+  }
+
+  /**
+   * Score the rows where the tokens appear next to each other, in order, in the same field
+   */
+  private matchPhrase(tokens: Token[]): Map<number, number> {
+    const fieldCount = this.data.columns.length;
+    const [first, ...rest] = tokens;
+    let candidates = this.offsetsByField(stem(first.token));
+
+    for (const { token, offset } of rest) {
+      const distance = offset - first.offset;
+      const next = this.offsetsByField(stem(token));
+      const matched = new Map<number, number[]>();
+      candidates.forEach((starts, key) => {
+        const offsets = next.get(key);
+        if (!offsets) return;
+        const remaining = starts.filter(start => offsets.includes(start + distance));
+        if (remaining.length > 0) matched.set(key, remaining);
+      });
+      candidates = matched;
+      if (candidates.size === 0) break;
+    }
+
+    // Rare phrases rank higher, like rare words
+    const rowCount = new Set(Array.from(candidates.keys()).map(key => Math.floor(key / fieldCount))).size;
+    const idf = this.idf(rowCount) * tokens.length;
+
+    const scores = new Map<number, number>();
+    candidates.forEach((starts, key) => {
+      const position = Math.floor(key / fieldCount);
+      const count = starts.length;
+      const score = idf * this.weights[key % fieldCount] * (count / (count + TERM_SATURATION)) * PHRASE_MATCH_FACTOR;
+      scores.set(position, (scores.get(position) || 0) + score);
+    });
+    return scores;
+  }
+}
@@ -0,0 +1,102 @@
+import { DealField } from './column-mapping';
+import { DeltaSummary, REMOVED_AT_COLUMN, diffDeals } from './delta-import';
+
+/**
+ * Directory (inside the data directory) holding one sub-directory per snapshot
+ */
+export const SNAPSHOTS_DIRECTORY = '.snapshots';
+
+/**
+ * File describing a snapshot, next to its table directories
+ */
+export const SNAPSHOT_FILE = '_snapshot.json';
+
+/**
+ * What created a snapshot: a full import, an applied delta import, or the data
+ * that was already present when snapshots were first taken
+ */
+export type SnapshotKind = 'import' | 'delta' | 'baseline';
+
+/**
+ * A versioned copy of a table taken after an import
+ */
+export interface DatasetSnapshot {
+  id: string;
+  tableName: string;
+  kind: SnapshotKind;
+  createdAt: string;
+  sourceFile: string | null;
+  totalRows: number;
+}
+
+/**
+ * Check that a snapshot id has the form snapshots are created with (a timestamp
+ * of letters, digits and dashes), so ids received over IPC can't point outside
+ * the snapshots directory
+ * @param snapshotId Snapshot identifier
+ * @returns True if the id is well formed
+ */
+export function isSnapshotId(snapshotId: string): boolean {
+  return /^[A-Za-z0-9-]+$/.test(snapshotId);
+}
+
+/**
+ * Subset of deals a comparison is restricted to, e.g. EMEA software deals.
+ * Empty lists don't restrict anything.
+ */
+export interface SnapshotUniverse {
+  regions?: string[];
+  industries?: string[];
+}
+
+/**
+ * Request to compare two snapshots
+ */
+export interface SnapshotComparisonRequest {
+  fromId: string;
+  toId: string;
+  universe?: SnapshotUniverse;
+}
+
+/**
+ * Check whether a stored record belongs to a universe. Industries match on
+ * either the primary or the secondary industry.
+ * @param record Record in chunk (snake_case column) format
+ * @param universe Universe to check against
+ * @returns True if the record is part of the universe
+ */
+export function matchesUniverse(record: Record<string, any>, universe: SnapshotUniverse = {}): boolean {
+  const { regions = [], industries = [] } = universe;
+  if (regions.length > 0 && !regions.includes(record.target_region)) {
+    return false;
+  }
+  if (industries.length > 0 &&
+    !industries.includes(record.target_industry_1) &&
+    !industries.includes(record.target_industry_2)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Compare the deals of two snapshots. Deals flagged as removed by a delta
+ * import count as absent, so they show up as removed (or added when restored).
+ * @param from Records of the older snapshot
+ * @param to Records of the newer snapshot
+ * @param identityKey Fields used to match deals between the snapshots
+ * @param universe Optional subset of deals to compare
+ * @param label Description of the comparison, stored as the summary's source
+ * @returns Added, changed and removed deals
+ */
+export function compareSnapshotRecords(
+  from: Record<string, any>[],
+  to: Record<string, any>[],
+  identityKey: DealField[],
+  universe: SnapshotUniverse = {},
+  label = ''
+): DeltaSummary {
+  const inScope = (record: Record<string, any>) =>
+    !record[REMOVED_AT_COLUMN] && matchesUniverse(record, universe);
+
+  return diffDeals(from.filter(inScope), to.filter(inScope), identityKey, label);
+}
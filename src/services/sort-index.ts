@@ -0,0 +1,154 @@
+import { DEAL_FIELDS, DERIVED_FIELDS } from './column-mapping';
+
+/**
+ * Sort index of one column: row positions (chunk index × chunk size + offset
+ * in the chunk) in ascending value order, rows without a value last
+ */
+export interface SortIndex {
+  column: string;
+  chunkSize: number;
+  totalRows: number;
+  positions: number[];
+  nullCount: number;
+}
+
+/**
+ * Long free-text columns nobody sorts by; indexing them would only keep their
+ * text in memory for the whole import
+ */
+const UNSORTABLE_COLUMNS = new Set(['target_description', 'deal_summary', 'transaction_considerations']);
+
+/**
+ * Columns a sort index is built for at import time
+ */
+export const SORTABLE_COLUMNS: string[] = [
+  'id',
+  ...[...DEAL_FIELDS, ...DERIVED_FIELDS].map(definition => definition.column).filter(column => !UNSORTABLE_COLUMNS.has(column))
+];
+
+/**
+ * Name of the file a column's sort index is stored in, next to the chunk files
+ * @param column Column the index is for
+ * @returns File name
+ */
+export function getSortIndexFileName(column: string): string {
+  return `_sort_${column}.json`;
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Check whether a value sorts as missing
+ */
+export function isMissingValue(value: any): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Compare two values that are both present. Numbers compare numerically, text
+ * case-insensitively with embedded numbers in numeric order; ISO dates sort
+ * chronologically as text.
+ * @returns Negative, zero or positive like Array.prototype.sort comparators
+ */
+export function compareValues(a: any, b: any): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return collator.compare(String(a), String(b));
+}
+
+/**
+ * Compare two values for a sort in the given direction, missing values last
+ * either way
+ */
+export function compareForSort(a: any, b: any, direction: 'asc' | 'desc'): number {
+  const aMissing = isMissingValue(a);
+  const bMissing = isMissingValue(b);
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  }
+  const result = compareValues(a, b);
+  return direction === 'asc' ? result : -result;
+}
+
+/**
+ * Visit the row positions of a sort index in sort order, missing values last
+ * @param index Sort index
+ * @param direction Sort direction
+ * @param visit Called with each position; return false to stop
+ */
+export function forEachSorted(
+  index: SortIndex,
+  direction: 'asc' | 'desc',
+  visit: (position: number) => boolean | void
+): void {
+  const { positions, nullCount } = index;
+  const valueCount = positions.length - nullCount;
+
+  if (direction === 'asc') {
+    for (let i = 0; i < valueCount; i++) {
+      if (visit(positions[i]) === false) return;
+    }
+  } else {
+    for (let i = valueCount - 1; i >= 0; i--) {
+      if (visit(positions[i]) === false) return;
+    }
+  }
+
+  for (let i = valueCount; i < positions.length; i++) {
+    if (visit(positions[i]) === false) return;
+  }
+}
+
+/**
+ * Collects column values while a table is written and builds its sort indexes
+ */
+export class SortIndexBuilder {
+  private values: Record<string, any[]> = {};
+  private totalRows = 0;
+
+  /**
+   * @param chunkSize Number of rows per chunk file of the table
+   * @param columns Columns to index
+   */
+  constructor(private chunkSize: number, private columns: string[] = SORTABLE_COLUMNS) {
+    columns.forEach(column => {
+      this.values[column] = [];
+    });
+  }
+
+  /**
+   * Add the next record of the table, in the order it is written to the chunks
+   * @param record Record in chunk (snake_case column) format
+   */
+  add(record: Record<string, any>): void {
+    this.columns.forEach(column => {
+      this.values[column].push(record[column] ?? null);
+    });
+    this.totalRows++;
+  }
+
+  /**
+   * Sort every column. Equal values keep their table order.
+   * @returns One sort index per column
+   */
+  build(): SortIndex[] {
+    return this.columns.map(column => {
+      const values = this.values[column];
+      const present: number[] = [];
+      const missing: number[] = [];
+      values.forEach((value, position) => {
+        (isMissingValue(value) ? missing : present).push(position);
+      });
+      present.sort((a, b) => compareValues(values[a], values[b]) || a - b);
+
+      return {
+        column,
+        chunkSize: this.chunkSize,
+        totalRows: this.totalRows,
+        positions: present.concat(missing),
+        nullCount: missing.length
+      };
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Deal } from '../types/deal.types';
+import { impliedEvRange, multipleRange, valueDeals } from './valuation';
+
+/**
+ * Deal with only an id and multiples
+ */
+function deal(id: number, evEbitdaMultiple: number | null, evRevenueMultiple: number | null = null): Deal {
+  return { id, evEbitdaMultiple, evRevenueMultiple } as unknown as Deal;
+}
+
+describe('multipleRange', () => {
+  it('returns the quartiles, median and extremes of a multiple', () => {
+    expect(multipleRange([6, 8, 10, 12, 14])).toEqual({
+      count: 5, mean: 10, median: 10, lowerQuartile: 8, upperQuartile: 12, low: 6, high: 14
+    });
+  });
+
+  it('returns nulls without values', () => {
+    expect(multipleRange([])).toMatchObject({ count: 0, median: null, lowerQuartile: null, low: null });
+  });
+});
+
+describe('impliedEvRange', () => {
+  const range = multipleRange([6, 8, 10, 12, 14]);
+
+  it('applies the interquartile range and median to the target figure', () => {
+    expect(impliedEvRange(range, 50)).toEqual({ lowerQuartile: 400, median: 500, upperQuartile: 600 });
+  });
+
+  it('returns null for a missing, zero or negative figure', () => {
+    expect(impliedEvRange(range, undefined)).toBeNull();
+    expect(impliedEvRange(range, 0)).toBeNull();
+    expect(impliedEvRange(range, -20)).toBeNull();
+  });
+
+  it('returns null when the multiple has no values', () => {
+    expect(impliedEvRange(multipleRange([]), 50)).toBeNull();
+  });
+});
+
+describe('valueDeals', () => {
+  const deals = [deal(1, 6, 1), deal(2, 8, 2), deal(3, 10, null), deal(4, 12, 3), deal(5, 40, 4)];
+
+  it('leaves excluded deals out of the statistics and drops exclusions of other deals', () => {
+    const exclusions = [{ dealId: 5, reason: 'Distressed sale' }, { dealId: 99, reason: 'Not in the set' }];
+    const valuation = valueDeals(deals, exclusions, { ebitda: 10 });
+    expect(valuation.dealCount).toBe(5);
+    expect(valuation.exclusions).toEqual([{ dealId: 5, reason: 'Distressed sale' }]);
+    expect(valuation.multiples.evEbitda).toMatchObject({ count: 4, median: 9, low: 6, high: 12 });
+    expect(valuation.multiples.evRevenue).toMatchObject({ count: 3, median: 2 });
+  });
+
+  it('implies an EV only for the multiples whose target figure is given', () => {
+    const valuation = valueDeals(deals, [], { ebitda: 10 });
+    expect(valuation.impliedEv.evEbitda).toEqual({ lowerQuartile: 80, median: 100, upperQuartile: 120 });
+    expect(valuation.impliedEv.evRevenue).toBeNull();
+  });
+
+  it('leaves out outlying multiples only for the field they are outliers in', () => {
+    const valuation = valueDeals(deals, [], {}, (candidate, field) => candidate.id === 5 && field === 'evEbitdaMultiple');
+    expect(valuation.multiples.evEbitda.high).toBe(12);
+    expect(valuation.multiples.evRevenue.high).toBe(4);
+  });
+});
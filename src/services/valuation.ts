@@ -0,0 +1,128 @@
+import { Deal } from '../types/deal.types';
+import { measureStats } from './aggregate';
+import { OutlierField } from './outliers';
+
+/**
+ * Multiples a precedent transactions valuation is built on, with the deal
+ * field holding each and the target figure it is applied to
+ */
+export const VALUATION_MULTIPLES = [
+  { multiple: 'evEbitda', field: 'evEbitdaMultiple', metric: 'ebitda', label: 'EV/EBITDA' },
+  { multiple: 'evRevenue', field: 'evRevenueMultiple', metric: 'revenue', label: 'EV/Revenue' }
+] as const;
+
+export type ValuationMultiple = typeof VALUATION_MULTIPLES[number]['multiple'];
+
+/**
+ * A deal left out of the valuation, and why
+ */
+export interface ValuationExclusion {
+  dealId: number | string;
+  reason: string;
+}
+
+/**
+ * Target company the multiples are applied to, $MM
+ */
+export interface ValuationTarget {
+  revenue?: number;
+  ebitda?: number;
+}
+
+/**
+ * Spread of a multiple over the deals that disclose it; null without any
+ */
+export interface MultipleRange {
+  count: number;
+  mean: number | null;
+  median: number | null;
+  lowerQuartile: number | null;
+  upperQuartile: number | null;
+  low: number | null;
+  high: number | null;
+}
+
+/**
+ * Enterprise value of the target at the quartiles and median of a multiple, $MM
+ */
+export interface ImpliedEvRange {
+  lowerQuartile: number;
+  median: number;
+  upperQuartile: number;
+}
+
+export interface Valuation {
+  // Deals in the selection, excluded ones included
+  dealCount: number;
+  // Deals of the selection to show, highest EV/EBITDA first
+  deals: Deal[];
+  // Exclusions of deals in the selection; others are dropped
+  exclusions: ValuationExclusion[];
+  multiples: Record<ValuationMultiple, MultipleRange>;
+  // Null when the target figure isn't given or the multiple has no values
+  impliedEv: Record<ValuationMultiple, ImpliedEvRange | null>;
+  // Rule the outlying multiples were left out by; null when they were kept
+  outlierRule: string | null;
+}
+
+/**
+ * Spread of the values of a multiple
+ */
+export function multipleRange(values: number[]): MultipleRange {
+  const stats = measureStats(values, [25, 75]);
+  return {
+    count: stats.count,
+    mean: stats.mean,
+    median: stats.median,
+    lowerQuartile: stats.percentiles['25'],
+    upperQuartile: stats.percentiles['75'],
+    low: stats.min,
+    high: stats.max
+  };
+}
+
+/**
+ * Apply the interquartile range and median of a multiple to a target figure
+ * @returns The implied EV range, or null without a positive figure or any multiple
+ */
+export function impliedEvRange(range: MultipleRange, metric: number | undefined): ImpliedEvRange | null {
+  if (!metric || metric <= 0 || range.median === null) return null;
+  return {
+    lowerQuartile: range.lowerQuartile! * metric,
+    median: range.median * metric,
+    upperQuartile: range.upperQuartile! * metric
+  };
+}
+
+/**
+ * Precedent transactions valuation of a set of deals
+ * @param deals Deals of the selection
+ * @param exclusions Deals to leave out of the statistics
+ * @param target Figures to apply the multiples to
+ * @param isOutlier Tells which multiples to leave out as outliers
+ * @returns Everything but the deals to show and the outlier rule
+ */
+export function valueDeals(
+  deals: Deal[],
+  exclusions: ValuationExclusion[],
+  target: ValuationTarget,
+  isOutlier: (deal: Deal, field: OutlierField) => boolean = () => false
+): Omit<Valuation, 'deals' | 'outlierRule'> {
+  const ids = new Set(deals.map(deal => String(deal.id)));
+  const applied = exclusions.filter(exclusion => ids.has(String(exclusion.dealId)));
+  const excluded = new Set(applied.map(exclusion => String(exclusion.dealId)));
+  const included = deals.filter(deal => !excluded.has(String(deal.id)));
+
+  const multiples = {} as Record<ValuationMultiple, MultipleRange>;
+  const impliedEv = {} as Record<ValuationMultiple, ImpliedEvRange | null>;
+  VALUATION_MULTIPLES.forEach(({ multiple, field, metric }) => {
+    const values = included
+      .filter(deal => !isOutlier(deal, field))
+      .map(deal => deal[field])
+      .filter((value): value is number => typeof value === 'number' && !isNaN(value));
+    multiples[multiple] = multipleRange(values);
+    impliedEv[multiple] = impliedEvRange(multiples[multiple], target[metric]);
+  });
+
+  return { dealCount: deals.length, exclusions: applied, multiples, impliedEv };
+}
@@ -1,3 +1,6 @@
+import { DerivableField, MetricConflict } from '../services/derived-metrics';
+import { OutlierField } from '../services/outliers';
+
 export interface Deal {
   id: number;
   targetName: string;
@@ -19,4 +22,10 @@ export interface Deal {
   targetEnterpriseValue: number | null; // in millions
   targetRevenue: number | null; // in millions
   targetEbitda: number | null; // in millions
+  ebitdaMargin: number | null; // EBITDA / revenue in %, always derived
+  extraAttributes?: Record<string, any>; // source columns not mapped to a field
+  removedAt?: string | null; // set when the deal was missing from a later delta import
+  outliers?: OutlierField[]; // multiples that are outliers among the deal's peers
+  derivedFields?: DerivableField[]; // values computed from other fields; the rest are reported
+  metricConflicts?: MetricConflict[]; // reported multiples that disagree with EV and revenue / EBITDA
 }